@@ -1,58 +1,386 @@
 
 import React, { useState, useRef, useEffect } from 'react';
+import { BatchQueue } from './components/BatchQueue';
 import { Button } from './components/Button';
-import { splitA3ToA4 } from './services/pdfService';
-import { ProcessingStatus, SplitOptions } from './types';
+import { ExportSettings, ExportValues } from './components/ExportSettings';
+import { ImageInputList } from './components/ImageInputList';
+import { ImposeSettings } from './components/ImposeSettings';
+import { ImpositionPreview } from './components/ImpositionPreview';
+import { OutputViewer } from './components/OutputViewer';
+import { MarginSettings, MarginValues } from './components/MarginSettings';
+import { NumberFormatSettings, NumberFormatValues } from './components/NumberFormatSettings';
+import { OutputFileSettings, OutputFileValues } from './components/OutputFileSettings';
+import { AnnotationSettings, AnnotationValues } from './components/AnnotationSettings';
+import { BlankPageSettings, BlankPageValues, BlankPartList } from './components/BlankPageSettings';
+import { PageRuleEditor, RULE_ACTION_LABELS } from './components/PageRuleEditor';
+import { PageThumbnails } from './components/PageThumbnails';
+import { PasswordPrompt } from './components/PasswordPrompt';
+import { PaperSettings, PaperValues } from './components/PaperSettings';
+import { PresetManager } from './components/PresetManager';
+import { ResultPagesView } from './components/ResultPagesView';
+import { ScanCorrectionEditor } from './components/ScanCorrectionEditor';
+import { ScanSettings, ScanValues } from './components/ScanSettings';
+import { SplitLineHandle } from './components/SplitLineHandle';
+import { PreviewRect, PreviewStamp, PreviewText, SplitOverlay, toPreviewPercent } from './components/SplitOverlay';
+import { StampEditor } from './components/StampEditor';
+import { splitInWorker } from './services/splitWorkerClient';
+import { buildImpositionPlan, imposeA4ToA3 } from './services/impositionService';
+import { createBatchJob, createZip, mergePdfs, runBatchQueue } from './services/batchService';
+import { describeSizeChange, getOutputMimeType, groupOutputPages } from './services/outputFiles';
+import { BlankPart, buildPagePlan, findBlankParts, isBlankPart, resolveArrangement } from './services/pagePlan';
+import { formatPageNumber, getNumberPlacement, loadNumberFont, needsCustomFont } from './services/pageNumbering';
+import { framePointToSource, getFrameSize } from './services/paperLayout';
+import { Box, MIN_GUTTER_CONFIDENCE, PageGeometry, computeCutLines, computeSplitRects, computeVisibleSplitRects, findPageRule, getPartCount, getScanCorrection, getSplitLayout, getUsableGutter, readPageGeometries, visibleToUserRect } from './services/splitGeometry';
+import { loadLastUsedOptions, loadStoredPresets, saveLastUsedOptions, saveStoredPresets } from './services/presets';
+import { DEFAULT_IMPOSE_OPTIONS, DEFAULT_SPLIT_OPTIONS } from './services/splitDefaults';
+import { getStampCenter, getStampSize, isStampOnPage, loadStampFont, resolveStampText, stampsNeedCustomFont } from './services/stamping';
+import { detectGutters } from './services/gutterDetection';
+import { detectInkCoverage } from './services/blankDetection';
+import { detectScanCorrections } from './services/scanDetection';
+import { PageImage, loadPdfDocument, renderPageImages } from './services/pageRenderer';
+import { checkPdfSize, toErrorStatus } from './services/pdfErrors';
+import { unlockPdfBytes } from './services/pdfLoading';
+import { createImageInput, getImageDocumentName, imagesToPdf, isSupportedImageFile } from './services/imageInput';
+import { ArrangedPage, BatchJob, GutterDetection, ImageInput, ImposeOptions, PageRule, PageRuleAction, ProcessingStatus, ScanCorrection, SplitOptions, SplitOutput, SplitPreset, Stamp } from './types';
 import * as pdfjsLib from 'pdfjs-dist';
+import { PDFFont } from 'pdf-lib';
 
-// Configure pdfjs worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.mjs`;
+// Split the flat options into the groups the settings components edit
+const getNumberFormatValues = (options: SplitOptions): NumberFormatValues => ({
+  numberPosition: options.numberPosition,
+  numberAlignment: options.numberAlignment,
+  numberFormat: options.numberFormat,
+  numberStyle: options.numberStyle,
+  numberFontSize: options.numberFontSize,
+  numberColor: options.numberColor,
+  numberMargin: options.numberMargin,
+  numberFont: options.numberFont
+});
+
+const getMarginValues = (options: SplitOptions): MarginValues => ({
+  marginUnit: options.marginUnit,
+  overlap: options.overlap,
+  outerTrim: options.outerTrim,
+  gutterTrim: options.gutterTrim
+});
+
+const getScanValues = (options: SplitOptions): ScanValues => ({
+  deskew: options.deskew,
+  autoCrop: options.autoCrop,
+  rasterizeScans: options.rasterizeScans,
+  rasterDpi: options.rasterDpi
+});
+
+const getBlankPageValues = (options: SplitOptions): BlankPageValues => ({
+  detectBlankPages: options.detectBlankPages,
+  blankInkThreshold: options.blankInkThreshold,
+  blankPageHandling: options.blankPageHandling
+});
+
+const getPaperValues = (options: SplitOptions): PaperValues => ({
+  normalizePageSize: options.normalizePageSize,
+  paperSize: options.paperSize,
+  customPaperSize: options.customPaperSize,
+  paperOrientation: options.paperOrientation,
+  pageScaling: options.pageScaling,
+  horizontalAlign: options.horizontalAlign,
+  verticalAlign: options.verticalAlign
+});
+
+const getOutputFileValues = (options: SplitOptions): OutputFileValues => ({
+  mergeToSingleFile: options.mergeToSingleFile,
+  outputSplitMode: options.outputSplitMode,
+  outputRanges: options.outputRanges,
+  outputEveryN: options.outputEveryN,
+  outputFileNameTemplate: options.outputFileNameTemplate,
+  removeHiddenContent: options.removeHiddenContent
+});
+
+const getExportValues = (options: SplitOptions): ExportValues => ({
+  outputFormat: options.outputFormat,
+  exportDpi: options.exportDpi,
+  exportImageFormat: options.exportImageFormat,
+  exportQuality: options.exportQuality,
+  exportColorMode: options.exportColorMode,
+  exportFileNameTemplate: options.exportFileNameTemplate
+});
+
+const getAnnotationValues = (options: SplitOptions): AnnotationValues => ({
+  annotationHandling: options.annotationHandling,
+  formFieldHandling: options.formFieldHandling
+});
+
+// Longest side of the page renderings used by thumbnails and the result view, in pixels
+const PAGE_IMAGE_SIZE = 400;
+
+// Preview zoom steps, relative to the page fitting the preview
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+const stepZoom = (zoom: number, direction: 1 | -1): number => {
+  const index = ZOOM_LEVELS.indexOf(zoom);
+  return ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, index + direction))];
+};
+
+// Millimetres per arrow key press when nudging the split line
+const NUDGE_MM = 0.5;
+
+// Quiet time after the parts move before blank pages are detected again, in milliseconds
+const BLANK_DETECTION_DELAY = 500;
 
 const App: React.FC = () => {
+  // Settings start where the previous session left off
+  const [initialOptions] = useState<SplitOptions>(() => loadLastUsedOptions() ?? DEFAULT_SPLIT_OPTIONS);
+
   const [file, setFile] = useState<File | null>(null);
-  const [splitMode, setSplitMode] = useState<SplitOptions['orientation']>('auto');
-  const [splitRatio, setSplitRatio] = useState<number>(0.5);
-  const [evenSplitRatio, setEvenSplitRatio] = useState<number>(0.5);
-  const [useDualRatios, setUseDualRatios] = useState<boolean>(false);
+  const [splitMode, setSplitMode] = useState<SplitOptions['orientation']>(initialOptions.orientation);
+  const [splitRatio, setSplitRatio] = useState<number>(initialOptions.splitRatio);
+  const [evenSplitRatio, setEvenSplitRatio] = useState<number>(initialOptions.evenSplitRatio ?? 0.5);
+  const [useDualRatios, setUseDualRatios] = useState<boolean>(initialOptions.useDualRatios);
   
   // Page Numbering states
-  const [enablePageNumbering, setEnablePageNumbering] = useState<boolean>(false);
-  const [startingPageNumber, setStartingPageNumber] = useState<number>(1);
-  const [numberingStartFromPageIndex, setNumberingStartFromPageIndex] = useState<number>(0);
-  const [numberingSide, setNumberingSide] = useState<SplitOptions['numberingSide']>('both');
+  const [enablePageNumbering, setEnablePageNumbering] = useState<boolean>(initialOptions.enablePageNumbering);
+  const [startingPageNumber, setStartingPageNumber] = useState<number>(initialOptions.startingPageNumber);
+  const [numberingStartFromPageIndex, setNumberingStartFromPageIndex] = useState<number>(initialOptions.numberingStartFromPageIndex);
+  const [numberingSide, setNumberingSide] = useState<SplitOptions['numberingSide']>(initialOptions.numberingSide);
+  const [numberFormat, setNumberFormat] = useState<NumberFormatValues>(() => getNumberFormatValues(initialOptions));
+  const [previewNumberFont, setPreviewNumberFont] = useState<PDFFont | null>(null);
+
+  // Stamp states
+  const [stamps, setStamps] = useState<Stamp[]>(initialOptions.stamps);
+  const [previewStampFont, setPreviewStampFont] = useState<PDFFont | null>(null);
+  const [stampImageUrls, setStampImageUrls] = useState<Record<string, string>>({});
+
+  // Imposition states
+  const [imposition, setImposition] = useState<SplitOptions['imposition']>(initialOptions.imposition);
+  const [bindingDirection, setBindingDirection] = useState<SplitOptions['bindingDirection']>(initialOptions.bindingDirection);
+  const [signatureSheets, setSignatureSheets] = useState<number>(initialOptions.signatureSheets ?? 4);
+
+  // Per-page rules
+  const [pageRules, setPageRules] = useState<PageRule[]>(initialOptions.pageRules);
+
+  // Gutter detection states
+  const [autoDetectGutter, setAutoDetectGutter] = useState<boolean>(initialOptions.autoDetectGutter);
+  const [gutterDetections, setGutterDetections] = useState<(GutterDetection | null)[]>([]);
+  const [gutterDetectionProgress, setGutterDetectionProgress] = useState<number | null>(null);
+  const [gutterDetectionRun, setGutterDetectionRun] = useState(0);
+
+  // Scan preprocessing states; corrections start as detected and can then be edited per page
+  const [scan, setScan] = useState<ScanValues>(() => getScanValues(initialOptions));
+  const [scanDetections, setScanDetections] = useState<(ScanCorrection | null)[]>([]);
+  const [scanCorrections, setScanCorrections] = useState<(ScanCorrection | null)[]>([]);
+  const [scanDetectionProgress, setScanDetectionProgress] = useState<number | null>(null);
+  const [scanDetectionRun, setScanDetectionRun] = useState(0);
+  const [showUncorrectedScan, setShowUncorrectedScan] = useState(false);
+
+  // Output page organizer: order, removed and turned parts, inserted blank pages of the current file
+  const [pageArrangement, setPageArrangement] = useState<ArrangedPage[]>([]);
+
+  // Blank page detection
+  const [blank, setBlank] = useState<BlankPageValues>(() => getBlankPageValues(initialOptions));
+  const [inkCoverage, setInkCoverage] = useState<(number[] | null)[]>([]);
+  const [restoredBlankParts, setRestoredBlankParts] = useState<SplitOptions['restoredBlankParts']>([]);
+  const [blankDetectionProgress, setBlankDetectionProgress] = useState<number | null>(null);
+  const [blankDetectionRun, setBlankDetectionRun] = useState(0);
+
+  // Overlap and trimming states
+  const [margins, setMargins] = useState<MarginValues>(() => getMarginValues(initialOptions));
+
+  // Output paper states
+  const [paper, setPaper] = useState<PaperValues>(() => getPaperValues(initialOptions));
+
+  // Output file states
+  const [outputFiles, setOutputFiles] = useState<OutputFileValues>(() => getOutputFileValues(initialOptions));
+  const [exportFormat, setExportFormat] = useState<ExportValues>(() => getExportValues(initialOptions));
+
+  // Annotation and form states
+  const [annotations, setAnnotations] = useState<AnnotationValues>(() => getAnnotationValues(initialOptions));
+
+  // Saved presets
+  const [presets, setPresets] = useState<SplitPreset[]>(loadStoredPresets);
   
   const [status, setStatus] = useState<ProcessingStatus>({
     step: 'idle',
     progress: 0,
     message: ''
   });
-  const [processedFileUrl, setProcessedFileUrl] = useState<string | null>(null);
+  const [processedOutputs, setProcessedOutputs] = useState<SplitOutput[] | null>(null);
+  const [processedOptions, setProcessedOptions] = useState<SplitOptions | null>(null); // what the outputs were made with
+  const [isViewingOutputs, setIsViewingOutputs] = useState(false);
+
+  // Splitting A3 into A4, or the reverse: merging A4 pages onto A3 sheets
+  const [appMode, setAppMode] = useState<'split' | 'impose'>('split');
+  const [imposeOptions, setImposeOptions] = useState<ImposeOptions>(DEFAULT_IMPOSE_OPTIONS);
+
+  // Batch queue states
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const appendToBatchRef = useRef(false);
+
+  // Scanned images that make up the current document, in page order
+  const [imageInputs, setImageInputs] = useState<ImageInput[]>([]);
+  const [isConvertingImages, setIsConvertingImages] = useState(false);
+  const appendImagesRef = useRef(false);
+
+  // Aborts the running split or batch
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Preview states
   const [previewLoading, setPreviewLoading] = useState(false);
-  const [previewInfo, setPreviewInfo] = useState<{width: number, height: number} | null>(null);
+  const [previewInfo, setPreviewInfo] = useState<{width: number, height: number, viewport: pdfjsLib.PageViewport} | null>(null);
+  const [previewScale, setPreviewScale] = useState(1);
+  const [pageGeometries, setPageGeometries] = useState<PageGeometry[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [previewZoom, setPreviewZoom] = useState(1); // 1 fits the page into the preview
+  const [previewView, setPreviewView] = useState<'source' | 'result'>('source');
+  const [pageImages, setPageImages] = useState<(PageImage | null)[]>([]);
+  const panStartRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const previewWrapperRef = useRef<HTMLDivElement>(null);
 
+  // Show another file of the batch in the preview; the settings stay since they apply to every file
+  const previewBatchFile = (nextFile: File | null) => {
+    setFile(nextFile);
+    setPreviewInfo(null);
+    setGutterDetections([]);
+    setScanDetections([]);
+    setScanCorrections([]);
+    setPageArrangement([]);
+    setInkCoverage([]);
+    setRestoredBlankParts([]);
+    setCurrentPage(1);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'application/pdf') {
-      setFile(selectedFile);
-      setProcessedFileUrl(null);
+    const selectedFiles: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const imageFiles = selectedFiles.filter(isSupportedImageFile);
+    const pdfFiles = selectedFiles.filter(selected => selected.type === 'application/pdf');
+
+    // Scanned images become one document together, so they cannot be mixed with PDFs or added to a batch
+    if (imageFiles.length > 0) {
+      const isAppending = appendImagesRef.current;
+      appendImagesRef.current = false;
+      if (pdfFiles.length > 0 || batchJobs.length > 0 || appendToBatchRef.current) {
+        appendToBatchRef.current = false;
+        alert('图片会合并为一个文档转换，请单独选择图片，不要与 PDF 混选或加入批量队列。');
+        return;
+      }
+      if (imageFiles.length < selectedFiles.length) {
+        alert('已忽略不支持的文件，仅支持 JPG、PNG、TIFF 图片。');
+      }
+      const inputs = imageFiles.map(createImageInput);
+      if (isAppending) {
+        setImageInputs(current => [...current, ...inputs]);
+        return;
+      }
+      setImageInputs(inputs);
+      setFile(null);
+      setProcessedOutputs(null);
       setPreviewInfo(null);
-      setSplitRatio(0.5); 
-      setEvenSplitRatio(0.5);
+      setPageRules([]);
+      setGutterDetections([]);
+      setScanDetections([]);
+      setScanCorrections([]);
+      setPageArrangement([]);
+      setInkCoverage([]);
+      setRestoredBlankParts([]);
       setCurrentPage(1);
-      setStatus({ step: 'idle', progress: 0, message: '准备就绪' });
-    } else if (selectedFile) {
-      alert('请上传有效的 PDF 文件。');
+      return;
+    }
+
+    if (pdfFiles.length < selectedFiles.length) {
+      alert('请上传有效的 PDF 文件或 JPG、PNG、TIFF 图片。');
     }
+    if (pdfFiles.length === 0) return;
+
+    // Merging works on one file at a time
+    if (appMode === 'impose' && pdfFiles.length > 1) {
+      alert('合并为 A3 一次处理一个文件，已使用第一个文件。');
+    }
+
+    // Several files, or files added to an existing queue, go into batch mode
+    if (appMode === 'split' && (pdfFiles.length > 1 || batchJobs.length > 0 || appendToBatchRef.current)) {
+      const existing = batchJobs.length === 0 && file ? [createBatchJob(file)] : [];
+      setBatchJobs(jobs => [...jobs, ...existing, ...pdfFiles.map(createBatchJob)]);
+      if (!file) previewBatchFile(pdfFiles[0]);
+      setImageInputs([]);
+      setProcessedOutputs(null);
+      setStatus({ step: 'idle', progress: 0, message: '' });
+      appendToBatchRef.current = false;
+      return;
+    }
+
+    const selectedFile = pdfFiles[0];
+    setImageInputs([]);
+    setFile(selectedFile);
+    setProcessedOutputs(null);
+    setPreviewInfo(null);
+    setPageRules([]);
+    setGutterDetections([]);
+    setScanDetections([]);
+    setScanCorrections([]);
+    setPageArrangement([]);
+    setInkCoverage([]);
+    setRestoredBlankParts([]);
+    setCurrentPage(1);
+    setStatus({ step: 'idle', progress: 0, message: '准备就绪' });
+  };
+
+  const addFilesToBatch = () => {
+    appendToBatchRef.current = true;
+    fileInputRef.current?.click();
+  };
+
+  const addImages = () => {
+    appendImagesRef.current = true;
+    fileInputRef.current?.click();
   };
 
+  const changeImageInputs = (inputs: ImageInput[]) => {
+    setImageInputs(inputs);
+    if (inputs.length === 0) {
+      setFile(null);
+      setProcessedOutputs(null);
+      setPreviewInfo(null);
+      setStatus({ step: 'idle', progress: 0, message: '' });
+    }
+  };
+
+  // Convert the scanned images into one PDF whenever the list or its order changes; everything after
+  // that treats the result like an uploaded PDF
+  useEffect(() => {
+    if (imageInputs.length === 0) return;
+
+    let isMounted = true;
+    setIsConvertingImages(true);
+    setProcessedOutputs(null);
+    setStatus({ step: 'loading', progress: 0, message: '正在转换图片...' });
+    Promise.all(imageInputs.map(async input => ({ name: input.file.name, data: new Uint8Array(await input.file.arrayBuffer()) })))
+      .then(imagesToPdf)
+      .then(pdf => {
+        if (!isMounted) return;
+        setFile(new File([pdf], getImageDocumentName(imageInputs), { type: 'application/pdf' }));
+        setPreviewInfo(null);
+        setStatus({ step: 'idle', progress: 0, message: '准备就绪' });
+      })
+      .catch(err => {
+        console.error('Image conversion error:', err);
+        if (!isMounted) return;
+        setFile(null);
+        setStatus(toErrorStatus(err));
+      })
+      .finally(() => {
+        if (isMounted) setIsConvertingImages(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [imageInputs]);
+
   useEffect(() => {
     if (!file) return;
 
@@ -62,9 +390,9 @@ const App: React.FC = () => {
     const renderPreview = async () => {
       setPreviewLoading(true);
       try {
+        checkPdfSize(file.size);
         const arrayBuffer = await file.arrayBuffer();
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-        const pdf = await loadingTask.promise;
+        const pdf = await loadPdfDocument(arrayBuffer);
         
         if (!isMounted) return;
         setTotalPages(pdf.numPages);
@@ -74,7 +402,7 @@ const App: React.FC = () => {
         const viewport = page.getViewport({ scale: 1.0 });
         
         if (isMounted) {
-          setPreviewInfo({ width: viewport.width, height: viewport.height });
+          setPreviewInfo({ width: viewport.width, height: viewport.height, viewport });
         }
 
         await new Promise(resolve => setTimeout(resolve, 50));
@@ -90,9 +418,10 @@ const App: React.FC = () => {
           const scaleX = containerWidth / viewport.width;
           const scaleY = containerHeight / viewport.height;
           const fitScale = Math.min(scaleX, scaleY, 1.2); 
+          setPreviewScale(fitScale * previewZoom);
           
           const dpr = window.devicePixelRatio || 1;
-          const scaledViewport = page.getViewport({ scale: fitScale });
+          const scaledViewport = page.getViewport({ scale: fitScale * previewZoom });
 
           canvas.width = scaledViewport.width * dpr;
           canvas.height = scaledViewport.height * dpr;
@@ -123,83 +452,720 @@ const App: React.FC = () => {
       isMounted = false;
       if (renderTask) renderTask.cancel();
     };
-  }, [file, currentPage]);
+  }, [file, currentPage, previewZoom, previewView, appMode]);
+
+  // Small renderings of every page for the thumbnail strip and the result view
+  useEffect(() => {
+    setPageImages([]);
+    if (!file) return;
+
+    const controller = new AbortController();
+    file.arrayBuffer()
+      .then(data => renderPageImages(data, PAGE_IMAGE_SIZE, (pageIndex, image) => {
+        setPageImages(images => {
+          const next = [...images];
+          next[pageIndex] = image;
+          return next;
+        });
+      }, controller.signal))
+      .catch(err => console.error('Thumbnail error:', err));
+
+    return () => controller.abort();
+  }, [file]);
+
+  // Ctrl/⌘ + wheel zooms the preview; React registers wheel listeners as passive, so this one is added by hand
+  useEffect(() => {
+    const wrapper = previewWrapperRef.current;
+    if (!wrapper) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      setPreviewZoom(zoom => stepZoom(zoom, event.deltaY < 0 ? 1 : -1));
+    };
+    wrapper.addEventListener('wheel', handleWheel, { passive: false });
+    return () => wrapper.removeEventListener('wheel', handleWheel);
+  }, [file, previewView, appMode]);
+
+  const getSplitOptions = (): SplitOptions => ({
+    orientation: splitMode,
+    splitRatio: splitRatio,
+    evenSplitRatio: evenSplitRatio,
+    useDualRatios: useDualRatios,
+    ...outputFiles,
+    ...exportFormat,
+    enablePageNumbering: enablePageNumbering,
+    startingPageNumber: startingPageNumber,
+    numberingStartFromPageIndex: numberingStartFromPageIndex,
+    numberingSide: numberingSide,
+    ...numberFormat,
+    stamps: stamps,
+    imposition: imposition,
+    bindingDirection: bindingDirection,
+    signatureSheets: signatureSheets,
+    pageRules: pageRules,
+    pageArrangement: pageArrangement,
+    autoDetectGutter: autoDetectGutter,
+    gutterDetections: gutterDetections,
+    ...scan,
+    scanCorrections: scanCorrections,
+    ...blank,
+    inkCoverage: inkCoverage,
+    restoredBlankParts: restoredBlankParts,
+    ...margins,
+    ...paper,
+    ...annotations
+  });
+
+  // Replace every setting with a preset's; the uploaded font is kept since presets do not carry one
+  const applyOptions = (options: SplitOptions) => {
+    setSplitMode(options.orientation);
+    setSplitRatio(options.splitRatio);
+    setEvenSplitRatio(options.evenSplitRatio ?? 0.5);
+    setUseDualRatios(options.useDualRatios);
+    setEnablePageNumbering(options.enablePageNumbering);
+    setStartingPageNumber(options.startingPageNumber);
+    setNumberingStartFromPageIndex(options.numberingStartFromPageIndex);
+    setNumberingSide(options.numberingSide);
+    setNumberFormat({ ...getNumberFormatValues(options), numberFont: numberFormat.numberFont });
+    setStamps(options.stamps);
+    setImposition(options.imposition);
+    setBindingDirection(options.bindingDirection);
+    setSignatureSheets(options.signatureSheets ?? 4);
+    setPageRules(options.pageRules);
+    setAutoDetectGutter(options.autoDetectGutter);
+    setScan(getScanValues(options));
+    setBlank(getBlankPageValues(options));
+    setMargins(getMarginValues(options));
+    setPaper(getPaperValues(options));
+    setOutputFiles(getOutputFileValues(options));
+    setExportFormat(getExportValues(options));
+    setAnnotations(getAnnotationValues(options));
+  };
+
+  const updatePresets = (next: SplitPreset[]) => {
+    setPresets(next);
+    saveStoredPresets(next);
+  };
+
+  // Remember the settings for the next visit
+  useEffect(() => {
+    saveLastUsedOptions(getSplitOptions());
+  }, [splitMode, splitRatio, evenSplitRatio, useDualRatios, enablePageNumbering, startingPageNumber, numberingStartFromPageIndex,
+      numberingSide, numberFormat, stamps, imposition, bindingDirection, signatureSheets, pageRules, autoDetectGutter, scan, blank,
+      margins, paper, outputFiles, exportFormat, annotations]);
+
+  // Read split geometry with pdf-lib so the preview uses exactly the boxes the output will use
+  useEffect(() => {
+    if (!file) {
+      setPageGeometries([]);
+      return;
+    }
+
+    // The first reader of a new file, so a file that cannot be split is reported here, before processing
+    let isMounted = true;
+    Promise.resolve(file)
+      .then(selected => {
+        checkPdfSize(selected.size);
+        return selected.arrayBuffer();
+      })
+      .then(readPageGeometries)
+      .then(geometries => {
+        if (isMounted) setPageGeometries(geometries);
+      })
+      .catch(err => {
+        console.error('Geometry error:', err);
+        if (!isMounted) return;
+        setPageGeometries([]);
+        setStatus(toErrorStatus(err));
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [file]);
+
+  // Render every page with pdfjs and measure its skew and scanner border; this replaces any edited corrections
+  const isScanCorrectionOn = scan.deskew || scan.autoCrop;
+  useEffect(() => {
+    if (!file || !isScanCorrectionOn || pageGeometries.length === 0) return;
+
+    let isMounted = true;
+    const controller = new AbortController();
+    setScanDetectionProgress(0);
+
+    file.arrayBuffer()
+      .then(data => detectScanCorrections(data, pageGeometries, progress => {
+        if (isMounted) setScanDetectionProgress(progress);
+      }, controller.signal))
+      .then(results => {
+        if (!isMounted) return;
+        setScanDetections(results);
+        setScanCorrections(results);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Scan detection error:', err);
+      })
+      .finally(() => {
+        if (isMounted) setScanDetectionProgress(null);
+      });
+
+    return () => {
+      isMounted = false;
+      controller.abort();
+    };
+  }, [file, isScanCorrectionOn, pageGeometries, scanDetectionRun]);
+
+  // Render every page with pdfjs and look for the whitespace gutter near the middle.
+  // Gutters are searched on the straightened pages, so this waits for the scan detection. It runs again when
+  // a page's cut direction or number of cuts changes (orientation or page rules) or its deskew angle is edited.
+  const isDetectingScans = isScanCorrectionOn && scanDetectionProgress !== null;
+  const gutterDetectionKey = autoDetectGutter
+    ? JSON.stringify(pageGeometries.map((geometry, i) => {
+        const options = { ...getSplitOptions(), autoDetectGutter: false };
+        const layout = getSplitLayout(geometry, options, i);
+        return [layout.vertical, layout.cuts.length, getScanCorrection(options, i)?.angle ?? 0];
+      }))
+    : '';
+  useEffect(() => {
+    if (!file || !autoDetectGutter || pageGeometries.length === 0 || isDetectingScans) return;
+
+    let isMounted = true;
+    const controller = new AbortController();
+    setGutterDetectionProgress(0);
+
+    file.arrayBuffer()
+      .then(data => detectGutters(data, pageGeometries, getSplitOptions(), progress => {
+        if (isMounted) setGutterDetectionProgress(progress);
+      }, controller.signal))
+      .then(results => {
+        if (isMounted) setGutterDetections(results);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Gutter detection error:', err);
+      })
+      .finally(() => {
+        if (isMounted) setGutterDetectionProgress(null);
+      });
+
+    return () => {
+      isMounted = false;
+      controller.abort();
+    };
+  }, [file, autoDetectGutter, pageGeometries, gutterDetectionRun, isDetectingScans, gutterDetectionKey]);
+
+  // Render every page with pdfjs and measure the ink on each part. Parts are measured where they are cut,
+  // so this runs again whenever the parts move, after the other detections; a short delay keeps dragging
+  // the split line from starting a run at every step.
+  const isDetectingGutters = autoDetectGutter && gutterDetectionProgress !== null;
+  const blankDetectionKey = blank.detectBlankPages
+    ? JSON.stringify(pageGeometries.map((geometry, i) => computeVisibleSplitRects(geometry, getSplitOptions(), i)))
+    : '';
+  useEffect(() => {
+    if (!file || !blank.detectBlankPages || pageGeometries.length === 0 || isDetectingScans || isDetectingGutters) return;
+
+    let isMounted = true;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setBlankDetectionProgress(0);
+      file.arrayBuffer()
+        .then(data => detectInkCoverage(data, pageGeometries, getSplitOptions(), progress => {
+          if (isMounted) setBlankDetectionProgress(progress);
+        }, controller.signal))
+        .then(results => {
+          if (isMounted) setInkCoverage(results);
+        })
+        .catch(err => {
+          if (!controller.signal.aborted) console.error('Blank page detection error:', err);
+        })
+        .finally(() => {
+          if (isMounted) setBlankDetectionProgress(null);
+        });
+    }, BLANK_DETECTION_DELAY);
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [file, blank.detectBlankPages, pageGeometries, blankDetectionRun, isDetectingScans, isDetectingGutters, blankDetectionKey, scanCorrections]);
+
+  // Load the numbering font so the preview can measure text exactly like the output does
+  useEffect(() => {
+    let isMounted = true;
+    loadNumberFont(getSplitOptions())
+      .then(font => {
+        if (isMounted) setPreviewNumberFont(font);
+      })
+      .catch(() => {
+        if (isMounted) setPreviewNumberFont(null);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [numberFormat.numberFont, numberFormat.numberFormat, numberFormat.numberStyle]);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadStampFont(getSplitOptions())
+      .then(font => {
+        if (isMounted) setPreviewStampFont(font);
+      })
+      .catch(() => {
+        if (isMounted) setPreviewStampFont(null);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [numberFormat.numberFont]);
+
+  // Object URLs for showing image stamps on the preview
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    for (const stamp of stamps) {
+      if (stamp.image) {
+        urls[stamp.id] = URL.createObjectURL(new Blob([stamp.image.data], { type: stamp.image.format === 'png' ? 'image/png' : 'image/jpeg' }));
+      }
+    }
+    setStampImageUrls(urls);
+
+    return () => {
+      Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [stamps]);
 
   const handleProcess = async () => {
     if (!file) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       setStatus({ step: 'processing', progress: 0, message: '正在进行高级分割...' });
       
-      const options: SplitOptions = {
-        orientation: splitMode,
-        splitRatio: splitRatio,
-        evenSplitRatio: evenSplitRatio,
-        useDualRatios: useDualRatios,
-        mergeToSingleFile: true,
-        enablePageNumbering: enablePageNumbering,
-        startingPageNumber: startingPageNumber,
-        numberingStartFromPageIndex: numberingStartFromPageIndex,
-        numberingSide: numberingSide
-      };
+      const options = getSplitOptions();
 
-      const processedBytes = await splitA3ToA4(file, options, (progress) => {
+      const outputs = await splitInWorker(file, options, (progress) => {
         setStatus(prev => ({ ...prev, progress, message: `处理进度: ${Math.round(progress)}%` }));
-      });
+      }, controller.signal);
 
-      const blob = new Blob([processedBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      setProcessedFileUrl(url);
+      setProcessedOutputs(outputs);
+      setProcessedOptions(options);
       setStatus({ step: 'completed', progress: 100, message: '转换成功完成！' });
     } catch (error) {
+      if (controller.signal.aborted) {
+        setStatus({ step: 'idle', progress: 0, message: '已取消' });
+        return;
+      }
       console.error(error);
-      setStatus({ step: 'error', progress: 0, message: '处理 PDF 时发生错误。' });
+      setStatus(toErrorStatus(error));
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
-  const handleDownload = () => {
-    if (processedFileUrl) {
-      const link = document.createElement('a');
-      link.href = processedFileUrl;
-      link.download = `split_with_numbers_${file?.name || 'document.pdf'}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleImpose = async () => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setStatus({ step: 'processing', progress: 0, message: '正在合并为 A3...' });
+
+      const outputs = await imposeA4ToA3(file, imposeOptions, (progress) => {
+        setStatus(prev => ({ ...prev, progress, message: `处理进度: ${Math.round(progress)}%` }));
+      }, controller.signal);
+
+      setProcessedOutputs(outputs);
+      setProcessedOptions(null);
+      setStatus({ step: 'completed', progress: 100, message: '合并完成！' });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setStatus({ step: 'idle', progress: 0, message: '已取消' });
+        return;
+      }
+      console.error(error);
+      setStatus(toErrorStatus(error));
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  // A result of one mode means nothing in the other, so switching drops it
+  const changeAppMode = (mode: 'split' | 'impose') => {
+    setAppMode(mode);
+    setProcessedOutputs(null);
+    setIsViewingOutputs(false);
+    setStatus({ step: 'idle', progress: 0, message: file ? '准备就绪' : '' });
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Replaces an encrypted file with its decrypted copy, so the preview and the worker never need the password
+  const unlockFile = async (locked: File, password: string): Promise<File> =>
+    new File([await unlockPdfBytes(await locked.arrayBuffer(), password)], locked.name, { type: locked.type });
+
+  const handleUnlock = async (password: string) => {
+    if (!file) return;
+    try {
+      setFile(await unlockFile(file, password));
+      setStatus({ step: 'idle', progress: 0, message: '准备就绪' });
+    } catch (error) {
+      setStatus(toErrorStatus(error));
+    }
+  };
+
+  const saveFile = (data: Uint8Array, name: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // A single result downloads as it is, several as one ZIP unless a file is picked from the list
+  const handleDownload = (output?: SplitOutput) => {
+    if (!processedOutputs) return;
+    if (output || processedOutputs.length === 1) {
+      const picked = output ?? processedOutputs[0];
+      saveFile(picked.data, picked.name, getOutputMimeType(picked.name));
+    } else {
+      const baseName = (file?.name || 'document.pdf').replace(/\.[^.]+$/, '');
+      saveFile(createZip(processedOutputs), `${baseName}_split.zip`, 'application/zip');
+    }
+  };
+
+  const updateBatchJob = (id: string, patch: Partial<BatchJob>) => {
+    setBatchJobs(jobs => jobs.map(job => (job.id === id ? { ...job, ...patch } : job)));
+  };
+
+  const handleBatchProcess = async (jobs: BatchJob[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsBatchRunning(true);
+    try {
+      await runBatchQueue(jobs, getSplitOptions(), updateBatchJob, controller.signal);
+    } finally {
+      abortControllerRef.current = null;
+      setIsBatchRunning(false);
     }
   };
 
-  const isVerticalSplit = splitMode === 'auto' 
-    ? (previewInfo ? previewInfo.width > previewInfo.height : true)
-    : splitMode === 'vertical';
+  const removeBatchJob = (job: BatchJob) => {
+    const remaining = batchJobs.filter(other => other.id !== job.id);
+    setBatchJobs(remaining);
+    if (job.file === file) previewBatchFile(remaining[0]?.file ?? null);
+  };
+
+  const unlockBatchJob = async (job: BatchJob, password: string) => {
+    try {
+      const unlocked = await unlockFile(job.file, password);
+      updateBatchJob(job.id, { file: unlocked, status: { step: 'idle', progress: 0, message: '已解锁，等待处理' } });
+      if (job.file === file) previewBatchFile(unlocked);
+    } catch (error) {
+      updateBatchJob(job.id, { status: toErrorStatus(error) });
+    }
+  };
+
+  const clearBatch = () => {
+    setBatchJobs([]);
+    previewBatchFile(null);
+  };
+
+  // Files that were split into several results get a folder of their own in the ZIP
+  const completedBatchOutputs = batchJobs.flatMap(job => (job.outputs ?? []).map(output => ({
+    name: job.outputs!.length > 1 ? `${job.file.name.replace(/\.[^.]+$/, '')}/${output.name}` : output.name,
+    data: output.data
+  })));
+
+  const handleDownloadZip = () => {
+    saveFile(createZip(completedBatchOutputs), 'split_batch.zip', 'application/zip');
+  };
+
+  const handleDownloadMerged = async () => {
+    const pdfOutputs = completedBatchOutputs.filter(output => getOutputMimeType(output.name) === 'application/pdf');
+    if (pdfOutputs.length === 0) {
+      alert('导出的图片无法合并为 PDF，请下载 ZIP。');
+      return;
+    }
+    try {
+      const merged = await mergePdfs(pdfOutputs.map(output => output.data));
+      saveFile(merged, 'split_batch_merged.pdf', 'application/pdf');
+    } catch (error) {
+      console.error(error);
+      alert('合并 PDF 时发生错误。');
+    }
+  };
+
+  // "Before" shows the parts on the scan as it is, without the detected corrections
+  const splitOptions = getSplitOptions();
+  const currentOptions = showUncorrectedScan ? { ...splitOptions, deskew: false, autoCrop: false } : splitOptions;
+  const currentGeometry: PageGeometry | undefined = pageGeometries[currentPage - 1];
+  const currentLayout = currentGeometry ? getSplitLayout(currentGeometry, currentOptions, currentPage - 1) : null;
+
+  const isVerticalSplit = currentLayout
+    ? currentLayout.vertical
+    : splitMode !== 'horizontal';
 
   const isCurrentPageEven = currentPage % 2 === 0;
-  const currentActiveRatio = (useDualRatios && isCurrentPageEven) ? evenSplitRatio : splitRatio;
 
-  // Calculate simulated page numbers for preview
+  // Map a user-space rectangle onto the preview canvas, in percent of its size
+  const toPreviewRect = (rect: Box): PreviewRect | null => (previewInfo ? toPreviewPercent(previewInfo.viewport, rect) : null);
+
+  const previewSplitRects = (() => {
+    if (!currentGeometry || !previewInfo) return null;
+    const rects = computeSplitRects(currentGeometry, currentOptions, currentPage - 1).map(toPreviewRect);
+    return rects.every(rect => rect !== null) ? rects as PreviewRect[] : null;
+  })();
+
+  const previewCutLines = currentGeometry && previewInfo
+    ? computeCutLines(currentGeometry, currentOptions, currentPage - 1).map(toPreviewRect).filter((line): line is PreviewRect => line !== null)
+    : [];
+
+  // Calculate simulated page numbers for preview from the same plan used for output
+  const previewPlan = buildPagePlan(totalPages, currentOptions);
+  const lastPageNumber = previewPlan.reduce((last, p) => Math.max(last, p.pageNumber ?? 0), 0);
+
+  // Every part of the current page, in part order; parts the organizer removed, and dropped blank parts, have no position
   const getSimulatedPageNumbers = () => {
-    if (!enablePageNumbering || (currentPage - 1) < numberingStartFromPageIndex) return { p1: null, p2: null };
-    
-    // We need to count how many pages were actually numbered before this one
-    let count = startingPageNumber;
-    const partsPerA3 = numberingSide === 'both' ? 2 : 1;
-    const skippedA3Pages = numberingStartFromPageIndex;
-    const currentA3PageIndex = currentPage - 1;
-    
-    // Total pages added before current page
-    const previousNumberedA3Pages = Math.max(0, currentA3PageIndex - skippedA3Pages);
-    count += (previousNumberedA3Pages * partsPerA3);
-    
-    const p1 = (numberingSide === 'both' || numberingSide === 'first') ? count : null;
-    const p2 = (numberingSide === 'both') ? count + 1 : (numberingSide === 'second' ? count : null);
-    
-    return { p1, p2 };
+    const planned = previewPlan.filter(p => p.sourcePageIndex === currentPage - 1);
+    return Array.from({ length: getPartCount(currentOptions, currentPage - 1) }, (_, part) => {
+      const p = planned.find(entry => entry.part === part);
+      return {
+        pageNumber: p?.pageNumber ?? null,
+        position: p ? p.outputIndex + 1 : null,
+        rotation: p?.rotation ?? 0,
+        isBlank: isBlankPart(currentOptions, currentPage - 1, part)
+      };
+    });
+  };
+
+  const previewParts = getSimulatedPageNumbers();
+  const previewPageNumbers = previewParts.map(p => p.pageNumber);
+  const previewPartLabels = previewParts.map((p, index) => (
+    p.position === null ? `Part ${index + 1} (${p.isBlank ? '空白，已删除' : '已删除'})`
+      : p.isBlank ? `Part ${index + 1} (空白，不编页码)`
+      : imposition !== 'none' || pageArrangement.length > 0 ? `Part ${index + 1} → 第 ${p.position} 页`
+      : `Part ${index + 1} (A4)`
+  ));
+
+  // Place each page number exactly where the output will stamp it
+  const previewVisibleRects = currentGeometry ? computeVisibleSplitRects(currentGeometry, currentOptions, currentPage - 1) : [];
+  // Parts turned in the organizer get their numbers and stamps in the new orientation, which only the result view shows
+  const previewNumberLabels: (PreviewText | null)[] = previewParts.map((p, index) => {
+    const part = previewVisibleRects[index];
+    if (p.pageNumber === null || p.rotation !== 0 || !part || !currentGeometry || !previewNumberFont) return null;
+
+    const text = formatPageNumber(currentOptions, p.pageNumber, lastPageNumber);
+    const frame = getFrameSize(currentOptions, part);
+    const textWidth = previewNumberFont.widthOfTextAtSize(text, numberFormat.numberFontSize);
+    const placement = getNumberPlacement(frame.width, frame.height, textWidth, currentOptions, p.pageNumber);
+    const point = framePointToSource(currentOptions, part, placement);
+    const anchor = toPreviewRect(visibleToUserRect(currentGeometry, { x: point.x, y: point.y, width: 0, height: 0 }));
+    if (!anchor) return null;
+
+    return {
+      text,
+      left: anchor.left,
+      top: anchor.top,
+      fontSize: numberFormat.numberFontSize * point.scale * previewScale,
+      color: numberFormat.numberColor
+    };
+  });
+
+  // Stamps of every part, placed exactly where the output will draw them
+  const previewDate = new Date();
+  const previewStamps: PreviewStamp[] = previewParts.flatMap((p, index) => {
+    const part = previewVisibleRects[index];
+    const position = p.position;
+    if (position === null || p.rotation !== 0 || !part || !currentGeometry || !file) return [];
+
+    const frame = getFrameSize(currentOptions, part);
+    return stamps.flatMap(stamp => {
+      if (!isStampOnPage(stamp, position)) return [];
+      if (stamp.kind === 'image' && !stampImageUrls[stamp.id]) return [];
+
+      const text = stamp.kind === 'text'
+        ? resolveStampText(stamp, { page: position, total: previewPlan.length, sourcePage: currentPage, fileName: file.name, date: previewDate })
+        : '';
+      const size = getStampSize(stamp, text, previewStampFont);
+      const center = getStampCenter(frame.width, frame.height, size, stamp);
+      const point = framePointToSource(currentOptions, part, center);
+      const anchor = toPreviewRect(visibleToUserRect(currentGeometry, { x: point.x, y: point.y, width: 0, height: 0 }));
+      if (!anchor) return [];
+
+      const pixels = point.scale * previewScale;
+      return [{
+        text,
+        imageUrl: stampImageUrls[stamp.id],
+        left: anchor.left,
+        top: anchor.top,
+        width: size.width * pixels,
+        height: size.height * pixels,
+        fontSize: stamp.fontSize * pixels,
+        color: stamp.color,
+        rotation: stamp.rotation,
+        opacity: stamp.opacity
+      }];
+    });
+  });
+
+  const stampFontWarning = file && !numberFormat.numberFont && stampsNeedCustomFont(stamps, file.name)
+    ? '印章文字包含中文等字符，需要上传支持这些字符的 TTF/OTF 字体'
+    : null;
+
+  const outputRangeWarning = (() => {
+    if (outputFiles.mergeToSingleFile || outputFiles.outputSplitMode !== 'ranges') return null;
+    try {
+      groupOutputPages(previewPlan, currentOptions);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : '页码范围无效';
+    }
+  })();
+
+  const numberFontWarning = enablePageNumbering && !numberFormat.numberFont && needsCustomFont(currentOptions)
+    ? '当前格式包含中文等字符，需要上传支持这些字符的 TTF/OTF 字体'
+    : null;
+
+  // Parts detected as blank, and restoring the ones detected wrongly
+  const blankParts = findBlankParts(currentOptions);
+  const toggleBlankPartRestored = (part: BlankPart) => {
+    const restored = restoredBlankParts ?? [];
+    setRestoredBlankParts(part.restored
+      ? restored.filter(entry => entry.sourcePageIndex !== part.sourcePageIndex || entry.part !== part.part)
+      : [...restored, { sourcePageIndex: part.sourcePageIndex, part: part.part }]);
   };
 
-  const { p1: previewPage1Num, p2: previewPage2Num } = getSimulatedPageNumbers();
+  // Detected gutter of the page being viewed, drawn even when it is too unsure to be used
+  const currentGutter = autoDetectGutter ? gutterDetections[currentPage - 1] ?? null : null;
+  const isCurrentGutterUnsure = currentGutter !== null && currentGutter.confidence < MIN_GUTTER_CONFIDENCE;
+  const unsureGutterPages = gutterDetections
+    .map((detection, index) => (detection && detection.confidence < MIN_GUTTER_CONFIDENCE ? index + 1 : null))
+    .filter((page): page is number => page !== null);
+
+  const previewGutterLine = (() => {
+    if (!currentGutter || !currentGeometry) return null;
+    const { visibleWidth: width, visibleHeight: height } = currentGeometry;
+    const line = currentGutter.vertical
+      ? { x: currentGutter.ratio * width, y: 0, width: 0, height }
+      : { x: 0, y: currentGutter.ratio * height, width, height: 0 };
+    return toPreviewRect(visibleToUserRect(currentGeometry, line));
+  })();
+
+  // Scan correction of the page being viewed; the preview canvas is turned like deskewPage turns the page
+  const currentScanCorrection = isScanCorrectionOn ? scanCorrections[currentPage - 1] ?? null : null;
+  const previewScanAngle = getScanCorrection(currentOptions, currentPage - 1)?.angle ?? 0;
+  const previewScanTransform = (() => {
+    const center = currentGeometry && previewScanAngle !== 0 ? toPreviewRect(currentGeometry.box) : null;
+    if (!center) return undefined;
+    return {
+      transform: `rotate(${-previewScanAngle}deg)`,
+      transformOrigin: `${center.left + center.width / 2}% ${center.top + center.height / 2}%`
+    };
+  })();
+
+  const updateCurrentScanCorrection = (correction: ScanCorrection) => {
+    setScanCorrections(scanCorrections.map((existing, index) => (index === currentPage - 1 ? correction : existing)));
+  };
+
+  // Page rules: which pages are overridden, and quick editing of the page being viewed
+  const currentPageRule = findPageRule(currentOptions, currentPage - 1);
+  const overriddenPages = Array.from({ length: totalPages }, (_, i) => i + 1)
+    .filter(page => findPageRule(currentOptions, page - 1) !== undefined);
+
+  const currentExactRule = pageRules.find(rule => rule.pages.trim() === `${currentPage}`);
+
+  const updateCurrentPageRatio = (ratio: number) => {
+    setPageRules(pageRules.map(rule => (rule === currentExactRule ? { ...rule, ratio } : rule)));
+  };
+
+  const setCurrentPageOverride = (action: PageRuleAction | '') => {
+    const spec = `${currentPage}`;
+    const otherRules = pageRules.filter(rule => rule.pages.trim() !== spec);
+    if (!action) {
+      setPageRules(otherRules);
+      return;
+    }
+    const rule: PageRule = { pages: spec, action };
+    if (action === 'ratio') rule.ratio = currentGutter?.ratio ?? (isCurrentPageEven && useDualRatios ? evenSplitRatio : splitRatio);
+    if (action === 'parts') rule.parts = 3;
+    setPageRules([...otherRules, rule]);
+  };
+
+  // The split line of the page being viewed can be moved when the page has a single cut. It changes
+  // the page's ratio rule, overrides a detected gutter with a rule for this page, or changes the global ratio.
+  const currentCutTarget = (() => {
+    if (!currentLayout || currentLayout.cuts.length !== 1) return null;
+    if (currentPageRule?.action === 'ratio') return 'rule';
+    if (currentPageRule?.action === 'parts' || currentPageRule?.action === 'skip') return null;
+    if (getUsableGutter(currentOptions, currentPage - 1, currentLayout.vertical) !== null) return 'page';
+    return useDualRatios && isCurrentPageEven ? 'even' : 'global';
+  })();
+  const currentCutLength = currentGeometry && currentLayout
+    ? (currentLayout.vertical ? currentGeometry.visibleWidth : currentGeometry.visibleHeight)
+    : 0;
+  const currentCutMm = currentLayout && currentCutTarget ? (currentLayout.cuts[0] * currentCutLength * 25.4) / 72 : null;
+
+  const setCurrentCutRatio = (value: number) => {
+    const ratio = Math.min(0.9, Math.max(0.1, Math.round(value * 10000) / 10000));
+    const spec = `${currentPage}`;
+    switch (currentCutTarget) {
+      case 'rule':
+        setPageRules(pageRules.map(rule => (rule === currentPageRule ? { ...rule, ratio } : rule)));
+        break;
+      case 'page':
+        setPageRules([...pageRules.filter(rule => rule.pages.trim() !== spec), { pages: spec, action: 'ratio', ratio }]);
+        break;
+      case 'even':
+        setEvenSplitRatio(ratio);
+        break;
+      case 'global':
+        setSplitRatio(ratio);
+        break;
+    }
+  };
+
+  const setCurrentCutMm = (mm: number) => {
+    if (currentCutLength > 0) setCurrentCutRatio(((mm * 72) / 25.4) / currentCutLength);
+  };
+
+  // Visible space runs along the preview canvas, so a position on the canvas maps to a ratio of the visible box
+  const previewVisibleBox = currentGeometry ? toPreviewRect(currentGeometry.box) : null;
+  const dragCurrentCut = (percent: number) => {
+    if (!previewVisibleBox || !currentLayout) return;
+    setCurrentCutRatio(currentLayout.vertical
+      ? (percent - previewVisibleBox.left) / previewVisibleBox.width
+      : (percent - previewVisibleBox.top) / previewVisibleBox.height);
+  };
+
+  // Dragging the zoomed preview scrolls it
+  const startPan = (event: React.PointerEvent<HTMLDivElement>) => {
+    const wrapper = previewWrapperRef.current;
+    if (!wrapper || previewZoom === 1) return;
+    panStartRef.current = { x: event.clientX, y: event.clientY, left: wrapper.scrollLeft, top: wrapper.scrollTop };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+  const movePan = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStartRef.current;
+    const wrapper = previewWrapperRef.current;
+    if (!start || !wrapper) return;
+    wrapper.scrollLeft = start.left - (event.clientX - start.x);
+    wrapper.scrollTop = start.top - (event.clientY - start.y);
+  };
 
   const goToPrevPage = () => setCurrentPage(prev => Math.max(1, prev - 1));
   const goToNextPage = () => setCurrentPage(prev => Math.min(totalPages, prev + 1));
 
+  const imposedSides = file && appMode === 'impose' ? buildImpositionPlan(totalPages, imposeOptions) : [];
+
   return (
     <div className="min-h-screen flex flex-col items-center py-12 px-4 sm:px-6 lg:px-8 bg-slate-50">
       <div className="max-w-3xl w-full text-center mb-10">
@@ -209,12 +1175,35 @@ const App: React.FC = () => {
         <p className="text-lg text-slate-600">
           智能分割、奇偶独立比例、自定义自动页码
         </p>
+        <div className="inline-flex mt-4 bg-white border border-slate-200 rounded-lg p-1 shadow-sm">
+          {([['split', 'A3 分割为 A4'], ['impose', 'A4 合并为 A3']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => changeAppMode(mode)}
+              disabled={status.step === 'processing' || batchJobs.length > 0}
+              className={`px-4 py-1.5 text-xs font-bold rounded transition-colors disabled:opacity-50 ${
+                appMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-indigo-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
       <div className="max-w-7xl w-full grid grid-cols-1 lg:grid-cols-12 gap-8 items-stretch">
         <div className="lg:col-span-4 bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden flex flex-col">
           <div className="p-6 space-y-6 flex-1 overflow-y-auto max-h-[calc(100vh-200px)]">
-            {!file ? (
+            {imageInputs.length > 0 && (
+              <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+                <ImageInputList inputs={imageInputs} onChange={changeImageInputs} onAddImages={addImages} disabled={isConvertingImages || status.step === 'processing'} />
+              </div>
+            )}
+            {!file && imageInputs.length > 0 ? (
+              <p className={`text-xs font-bold text-center ${status.step === 'error' ? 'text-rose-500' : 'text-slate-500'}`}>
+                {status.message}
+              </p>
+            ) : !file ? (
               <div 
                 onClick={() => fileInputRef.current?.click()}
                 className="group cursor-pointer border-2 border-dashed border-slate-300 rounded-xl p-8 flex flex-col items-center justify-center transition-all hover:border-indigo-400 hover:bg-indigo-50 min-h-[300px]"
@@ -225,11 +1214,32 @@ const App: React.FC = () => {
                   </svg>
                 </div>
                 <p className="text-lg font-bold text-slate-800 mb-2 text-center">点击或拖拽上传 PDF</p>
-                <p className="text-sm text-slate-500 text-center">支持建筑图纸、试卷等 A3 文档</p>
+                <p className="text-sm text-slate-500 text-center">支持建筑图纸、试卷等 A3 文档，可多选批量处理</p>
+                <p className="text-xs text-slate-400 text-center mt-1">也可直接选择 JPG、PNG、TIFF 扫描图片，多张合并为一个文档</p>
               </div>
             ) : (
               <div className="space-y-6">
                 {/* File Info */}
+                {batchJobs.length > 0 ? (
+                  <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
+                    <BatchQueue
+                      jobs={batchJobs}
+                      activeFile={file}
+                      isRunning={isBatchRunning}
+                      onSelect={job => previewBatchFile(job.file)}
+                      onRemove={removeBatchJob}
+                      onRetry={job => handleBatchProcess([job])}
+                      onUnlock={unlockBatchJob}
+                      onAddFiles={addFilesToBatch}
+                      onClear={clearBatch}
+                      onStart={() => handleBatchProcess(batchJobs)}
+                      onCancel={handleCancel}
+                      onDownloadZip={handleDownloadZip}
+                      onDownloadMerged={handleDownloadMerged}
+                      disabled={numberFontWarning !== null || stampFontWarning !== null || outputRangeWarning !== null}
+                    />
+                  </div>
+                ) : (
                 <div className="flex items-center p-3 bg-slate-50 rounded-xl border border-slate-200">
                   <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm mr-3">
                     <svg className="w-5 h-5 text-rose-500" fill="currentColor" viewBox="0 0 24 24">
@@ -240,8 +1250,17 @@ const App: React.FC = () => {
                     <p className="text-xs font-bold text-slate-900 truncate">{file.name}</p>
                     <p className="text-[10px] text-slate-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
                   </div>
+                  {imageInputs.length === 0 && appMode === 'split' && (
+                  <button
+                    onClick={addFilesToBatch}
+                    className="px-2 py-0.5 mr-1 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors whitespace-nowrap"
+                    title="添加更多文件，按相同设置批量处理"
+                  >
+                    + 批量
+                  </button>
+                  )}
                   <button 
-                    onClick={() => {setFile(null); setProcessedFileUrl(null); setStatus({ step: 'idle', progress: 0, message: '' }); setPreviewInfo(null);}}
+                    onClick={() => {setFile(null); setImageInputs([]); setProcessedOutputs(null); setStatus({ step: 'idle', progress: 0, message: '' }); setPreviewInfo(null);}}
                     className="p-1.5 hover:bg-rose-100 rounded-full transition-colors text-slate-400 hover:text-rose-500"
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -249,6 +1268,25 @@ const App: React.FC = () => {
                     </svg>
                   </button>
                 </div>
+                )}
+
+                {appMode === 'impose' ? (
+                <div className="bg-slate-50 p-5 rounded-xl border border-slate-200 space-y-5">
+                  <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">合并设置</h3>
+                  <ImposeSettings value={imposeOptions} onChange={setImposeOptions} />
+                </div>
+                ) : (
+                <>
+                {/* Presets */}
+                <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-3 shadow-sm">
+                  <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">预设</h3>
+                  <PresetManager
+                    presets={presets}
+                    onPresetsChange={updatePresets}
+                    onApply={applyOptions}
+                    getCurrentOptions={getSplitOptions}
+                  />
+                </div>
 
                 {/* 1. Split Configuration */}
                 <div className="bg-slate-50 p-5 rounded-xl border border-slate-200 space-y-5">
@@ -285,6 +1323,39 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  <div className="pt-2 border-t border-slate-200 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <label className="text-[11px] font-bold text-slate-600 block">自动检测装订线</label>
+                        <span className="text-[9px] text-slate-400 font-medium">按页寻找中间的空白列，置信度不足时使用下方比例</span>
+                      </div>
+                      <button 
+                        onClick={() => setAutoDetectGutter(!autoDetectGutter)}
+                        className={`w-10 h-5 flex items-center rounded-full p-1 transition-colors duration-200 ${autoDetectGutter ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                      >
+                        <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${autoDetectGutter ? 'translate-x-5' : 'translate-x-0'}`} />
+                      </button>
+                    </div>
+                    {autoDetectGutter && (
+                      <div className="flex items-center justify-between text-[10px] font-bold">
+                        {gutterDetectionProgress !== null ? (
+                          <span className="text-indigo-600">检测中 {Math.round(gutterDetectionProgress)}%</span>
+                        ) : (
+                          <span className={unsureGutterPages.length > 0 ? 'text-amber-600' : 'text-emerald-600'}>
+                            {unsureGutterPages.length > 0 ? `${unsureGutterPages.length} 页置信度不足` : '全部页面检测完成'}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => setGutterDetectionRun(run => run + 1)}
+                          disabled={gutterDetectionProgress !== null}
+                          className="text-slate-500 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                        >
+                          重新检测
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
                   <div className="pt-2 border-t border-slate-200 flex items-center justify-between">
                     <label className="text-[11px] font-bold text-slate-600">奇偶页独立比例</label>
                     <button 
@@ -333,6 +1404,53 @@ const App: React.FC = () => {
                       </div>
                     )}
                   </div>
+
+                  <div className="pt-4 border-t border-slate-200 space-y-3">
+                    <label className="text-[11px] font-bold text-slate-600 block">拼版还原 (骑马钉)</label>
+                    <select
+                      value={imposition}
+                      onChange={(e) => setImposition(e.target.value as SplitOptions['imposition'])}
+                      className="w-full px-2 py-1.5 text-xs font-bold border border-slate-200 rounded bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="none">不重排 (按原顺序)</option>
+                      <option value="booklet">小册子 (正反面交替扫描)</option>
+                      <option value="doubleSidedBooklet">小册子 (先扫全部正面，再扫全部反面)</option>
+                      <option value="multiSignature">多帖装订</option>
+                    </select>
+
+                    {imposition !== 'none' && (
+                      <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                        <div className="grid grid-cols-2 gap-2">
+                          {[
+                            { id: 'ltr', label: '左侧装订 (第 1 页在右)' },
+                            { id: 'rtl', label: '右侧装订 (第 1 页在左)' }
+                          ].map(opt => (
+                            <button
+                              key={opt.id}
+                              onClick={() => setBindingDirection(opt.id as SplitOptions['bindingDirection'])}
+                              className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                                bindingDirection === opt.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+                              }`}
+                            >
+                              {opt.label}
+                            </button>
+                          ))}
+                        </div>
+
+                        {imposition === 'multiSignature' && (
+                          <div className="flex items-center justify-between">
+                            <label className="text-[11px] font-bold text-slate-600">每帖纸张数</label>
+                            <input
+                              type="number" min="1"
+                              value={signatureSheets}
+                              onChange={(e) => setSignatureSheets(Math.max(1, parseInt(e.target.value) || 1))}
+                              className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-white focus:ring-2 focus:ring-indigo-500 outline-none text-center"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </div>
 
                 {/* 2. Page Numbering Settings */}
@@ -398,43 +1516,245 @@ const App: React.FC = () => {
                           className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none text-center"
                          />
                       </div>
+
+                      <div className="pt-3 border-t border-slate-100">
+                        <NumberFormatSettings value={numberFormat} onChange={setNumberFormat} fontWarning={numberFontWarning} />
+                      </div>
                     </div>
                   )}
                 </div>
 
+                {/* 3. Per-page Rules */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">3. 单页规则</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">为指定页面单独设置分割方式，后面的规则优先</span>
+                  </div>
+                  <PageRuleEditor rules={pageRules} onChange={setPageRules} />
+                </div>
+
+                {/* 4. Overlap & Trimming */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">4. 出血与裁边</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">预览中的彩色框即为每一份的实际裁切区域</span>
+                  </div>
+                  <MarginSettings value={margins} onChange={setMargins} />
+                </div>
+
+                {/* 5. Output Paper */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">5. 输出纸张</h3>
+                  <PaperSettings value={paper} onChange={setPaper} />
+                </div>
+
+                {/* 6. Stamps */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">6. 页眉页脚与水印</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">文字或图片印章，可用于 Bates 编号</span>
+                  </div>
+                  <StampEditor
+                    stamps={stamps}
+                    onChange={setStamps}
+                    font={numberFormat.numberFont}
+                    onFontChange={numberFont => setNumberFormat({ ...numberFormat, numberFont })}
+                    fontWarning={stampFontWarning}
+                  />
+                </div>
+
+                {/* 7. Output Files */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">7. 输出文件</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">拆分为多个 PDF 时打包为 ZIP 下载，页码和印章仍按整体连续</span>
+                  </div>
+                  <OutputFileSettings value={outputFiles} onChange={setOutputFiles} rangeWarning={outputRangeWarning} />
+                  <div className="pt-3 border-t border-slate-100">
+                    <ExportSettings value={exportFormat} onChange={setExportFormat} />
+                  </div>
+                </div>
+
+                {/* 8. Annotations & Forms */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">8. 注释与表单</h3>
+                  <AnnotationSettings value={annotations} onChange={setAnnotations} />
+                </div>
+
+                {/* 9. Scan Preprocessing */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">9. 扫描预处理</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">分割之前转正歪斜的扫描页并去掉黑边，可在预览上方逐页调整</span>
+                  </div>
+                  <ScanSettings value={scan} onChange={setScan} />
+                  {isScanCorrectionOn && file && (
+                    <div className="flex items-center justify-between text-[10px] font-bold">
+                      {scanDetectionProgress !== null ? (
+                        <span className="text-indigo-600">检测中 {Math.round(scanDetectionProgress)}%</span>
+                      ) : (
+                        <span className="text-emerald-600">全部页面检测完成</span>
+                      )}
+                      <button
+                        onClick={() => setScanDetectionRun(run => run + 1)}
+                        disabled={scanDetectionProgress !== null}
+                        className="text-slate-500 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                      >
+                        重新检测
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {/* 10. Blank Pages */}
+                <div className="bg-white p-5 rounded-xl border border-slate-200 space-y-4 shadow-sm">
+                  <div className="space-y-0.5">
+                    <h3 className="text-xs font-black uppercase tracking-wider text-slate-500">10. 空白页检测</h3>
+                    <span className="text-[9px] text-slate-400 font-medium">找出扫描件中空白的半页，删除或保留但不编页码</span>
+                  </div>
+                  <BlankPageSettings value={blank} onChange={setBlank} />
+                  {blank.detectBlankPages && file && (
+                    <>
+                      <div className="flex items-center justify-between text-[10px] font-bold">
+                        {blankDetectionProgress !== null ? (
+                          <span className="text-indigo-600">检测中 {Math.round(blankDetectionProgress)}%</span>
+                        ) : blankParts.length > 0 ? (
+                          <span className="text-amber-600">
+                            {blankParts.filter(part => !part.restored).length} 份检测为空白
+                            {blankParts.some(part => part.restored) && `，已恢复 ${blankParts.filter(part => part.restored).length} 份`}
+                          </span>
+                        ) : (
+                          <span className="text-emerald-600">未发现空白页</span>
+                        )}
+                        <button
+                          onClick={() => setBlankDetectionRun(run => run + 1)}
+                          disabled={blankDetectionProgress !== null}
+                          className="text-slate-500 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                        >
+                          重新检测
+                        </button>
+                      </div>
+                      {blankParts.length > 0 && (
+                        <BlankPartList parts={blankParts} onToggleRestored={toggleBlankPartRestored} onSelectPage={setCurrentPage} />
+                      )}
+                    </>
+                  )}
+                </div>
+                </>
+                )}
+
+                {batchJobs.length === 0 && (
                 <div className="pt-4">
-                  {status.step === 'completed' && processedFileUrl ? (
+                  {status.step === 'completed' && processedOutputs ? (
                     <div className="space-y-3">
-                      <Button onClick={handleDownload} variant="secondary" className="w-full h-14 text-lg">
+                      <Button onClick={() => handleDownload()} variant="secondary" className="w-full h-14 text-lg">
                         <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                         </svg>
-                        下载转换结果
+                        {processedOutputs.length > 1 ? `下载全部 (ZIP · ${processedOutputs.length} 个文件)` : '下载转换结果'}
                       </Button>
+                      {appMode === 'split' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button onClick={() => setIsViewingOutputs(true)} variant="outline" className="h-10 text-sm">
+                          检查结果
+                        </Button>
+                        <Button onClick={handleProcess} variant="outline" className="h-10 text-sm">
+                          按当前设置重新生成
+                        </Button>
+                      </div>
+                      )}
+                      {file && (
+                        <p className="text-[11px] font-bold text-slate-500 text-center">
+                          文件大小 {describeSizeChange(file.size, processedOutputs.reduce((total, output) => total + output.data.length, 0))}
+                        </p>
+                      )}
+                      {processedOutputs.length > 1 && (
+                        <ul className="max-h-40 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                          {processedOutputs.map((output, index) => (
+                            <li key={index} className="flex items-center justify-between px-3 py-1.5">
+                              <span className="text-[11px] font-bold text-slate-600 truncate">{output.name}</span>
+                              <button
+                                onClick={() => handleDownload(output)}
+                                className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 whitespace-nowrap ml-2"
+                              >
+                                下载
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       <button 
-                        onClick={() => {setFile(null); setProcessedFileUrl(null); setStatus({step:'idle', progress:0, message:''}); setPreviewInfo(null);}}
+                        onClick={() => {setFile(null); setImageInputs([]); setProcessedOutputs(null); setStatus({step:'idle', progress:0, message:''}); setPreviewInfo(null);}}
                         className="w-full py-2 text-sm font-bold text-slate-400 hover:text-slate-600 transition-colors"
                       >
                         处理下一个文件
                       </button>
                     </div>
                   ) : (
-                    <Button 
-                      onClick={handleProcess} 
-                      isLoading={status.step === 'processing'}
-                      disabled={status.step === 'processing'}
-                      className="w-full h-14 text-lg"
-                    >
-                      {status.step === 'processing' ? '正在渲染...' : '生成 A4 并添加页码'}
-                    </Button>
+                    <div className="space-y-3">
+                      <Button 
+                        onClick={appMode === 'impose' ? handleImpose : handleProcess} 
+                        isLoading={status.step === 'processing'}
+                        disabled={status.step === 'processing' || (appMode === 'split' && (numberFontWarning !== null || stampFontWarning !== null || outputRangeWarning !== null))}
+                        className="w-full h-14 text-lg"
+                      >
+                        {status.step === 'processing' ? status.message : appMode === 'impose' ? '合并为 A3' : '生成 A4 并添加页码'}
+                      </Button>
+                      {status.step === 'processing' && (
+                        <Button onClick={handleCancel} variant="outline" className="w-full h-10 text-sm">
+                          取消
+                        </Button>
+                      )}
+                      {status.step === 'idle' && status.message === '已取消' && (
+                        <p className="text-center text-[11px] font-bold text-slate-400">已取消处理</p>
+                      )}
+                      {status.step === 'error' && (status.errorKind === 'encrypted' ? (
+                        <PasswordPrompt message={status.message} onUnlock={handleUnlock} />
+                      ) : (
+                        <div className="text-center space-y-1">
+                          <p className="text-[11px] font-bold text-rose-500">{status.message}</p>
+                          {status.failedPageIndex !== undefined && status.failedPageIndex < totalPages && (
+                            <button
+                              onClick={() => setCurrentPage(status.failedPageIndex! + 1)}
+                              className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800"
+                            >
+                              在预览中查看第 {status.failedPageIndex + 1} 页
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
                   )}
                 </div>
+                )}
               </div>
             )}
           </div>
         </div>
 
         {/* Right Side: Preview */}
+        {appMode === 'impose' ? (
+        <div className="lg:col-span-8 bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden flex flex-col min-h-[600px]">
+          <div className="p-4 bg-slate-50 border-b border-slate-200 flex items-center gap-4">
+            <h3 className="text-sm font-black text-slate-700 flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
+              拼版预览
+            </h3>
+            {file && (
+              <span className="text-[11px] font-bold text-slate-500">
+                {totalPages} 页 → {imposedSides.length > 0 ? imposedSides[imposedSides.length - 1].sheet + 1 : 0} 张纸 · {imposedSides.length} 面
+              </span>
+            )}
+          </div>
+          <div className="flex-1 min-h-0 bg-slate-100">
+            {file ? (
+              <ImpositionPreview plan={imposedSides} images={pageImages} geometries={pageGeometries} options={imposeOptions} />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm font-bold text-slate-400">上传 A4 PDF 后显示每张纸上的页面</div>
+            )}
+          </div>
+        </div>
+        ) : (
         <div className="lg:col-span-8 bg-white rounded-2xl shadow-xl border border-slate-100 overflow-hidden flex flex-col min-h-[600px]">
           <div className="p-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
             <div className="flex items-center gap-4">
@@ -454,8 +1774,9 @@ const App: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
                     </svg>
                   </button>
-                  <span className="text-[11px] font-bold text-slate-500 px-2 min-w-[80px] text-center">
+                  <span className="text-[11px] font-bold text-slate-500 px-2 min-w-[80px] text-center flex items-center justify-center gap-1">
                     {currentPage} / {totalPages}
+                    {currentPageRule && <span className="w-1.5 h-1.5 rounded-full bg-amber-500" title="本页已设置单页规则"></span>}
                   </span>
                   <button 
                     onClick={goToNextPage}
@@ -468,6 +1789,26 @@ const App: React.FC = () => {
                   </button>
                 </div>
               )}
+
+              {file && (
+                <div className="flex items-center gap-1.5">
+                  <select
+                    value={currentPageRule?.action ?? ''}
+                    onChange={(e) => setCurrentPageOverride(e.target.value as PageRuleAction | '')}
+                    className={`px-1.5 py-1 text-[11px] font-bold border rounded-lg bg-white outline-none shadow-sm ${
+                      currentPageRule ? 'border-amber-400 text-amber-700' : 'border-slate-200 text-slate-500'
+                    }`}
+                  >
+                    <option value="">本页: 全局设置</option>
+                    {(Object.keys(RULE_ACTION_LABELS) as PageRuleAction[]).map(action => (
+                      <option key={action} value={action}>本页: {RULE_ACTION_LABELS[action]}</option>
+                    ))}
+                  </select>
+                  {currentPageRule && currentPageRule.pages.trim() !== `${currentPage}` && (
+                    <span className="text-[10px] font-bold text-amber-600">来自规则 {currentPageRule.pages}</span>
+                  )}
+                </div>
+              )}
             </div>
             
             {previewInfo && (
@@ -476,13 +1817,170 @@ const App: React.FC = () => {
                   {useDualRatios ? (isCurrentPageEven ? '偶数页比例' : '奇数页比例') : '常规比例'}
                 </span>
                 <span className="text-[10px] bg-slate-800 text-white px-2 py-1 rounded-md font-bold uppercase tracking-tighter">
-                  {previewInfo.width > previewInfo.height ? 'Landscape A3' : 'Portrait A3'}
+                  {(currentGeometry ? currentGeometry.visibleWidth > currentGeometry.visibleHeight : previewInfo.width > previewInfo.height) ? 'Landscape A3' : 'Portrait A3'}
                 </span>
               </div>
             )}
           </div>
           
-          <div className="flex-1 preview-wrapper overflow-hidden" ref={previewWrapperRef}>
+          {file && (
+            <div className="px-4 py-2 border-b border-slate-100 flex items-center gap-4 flex-wrap">
+              <div className="flex rounded-lg border border-slate-200 overflow-hidden shadow-sm">
+                {([['source', '原始 A3'], ['result', '输出 A4']] as const).map(([view, label]) => (
+                  <button
+                    key={view}
+                    onClick={() => setPreviewView(view)}
+                    className={`px-3 py-1 text-[11px] font-bold transition-colors ${
+                      previewView === view ? 'bg-indigo-600 text-white' : 'bg-white text-slate-500 hover:text-indigo-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {previewView === 'source' && currentCutMm !== null && (
+                <label className="flex items-center gap-1.5 text-[11px] font-bold text-slate-600">
+                  分割线距{currentLayout?.vertical ? '左' : '上'}边
+                  <input
+                    type="number" min="0" step="0.5"
+                    value={Math.round(currentCutMm * 10) / 10}
+                    onChange={(e) => setCurrentCutMm(parseFloat(e.target.value) || 0)}
+                    className="w-20 px-2 py-0.5 text-xs font-bold border border-slate-200 rounded bg-white focus:ring-2 focus:ring-indigo-500 outline-none text-center"
+                  />
+                  mm
+                  {currentCutTarget === 'page' && <span className="text-[10px] text-amber-600">修改后本页改用手动比例</span>}
+                </label>
+              )}
+
+              {previewView === 'result' && (
+                <span className="text-[10px] font-bold text-slate-400">拖动调整顺序，悬停页面可删除、旋转或插入空白页</span>
+              )}
+              {previewView === 'result' && pageArrangement.length > 0 && (
+                <button
+                  onClick={() => setPageArrangement([])}
+                  className="px-2 py-0.5 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors"
+                >
+                  恢复默认顺序
+                </button>
+              )}
+
+              <div className="ml-auto flex items-center gap-1 bg-white border border-slate-200 rounded-lg p-1 shadow-sm">
+                <button
+                  onClick={() => setPreviewZoom(zoom => stepZoom(zoom, -1))}
+                  disabled={previewZoom === ZOOM_LEVELS[0]}
+                  className="w-6 h-6 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30 transition-colors"
+                >
+                  −
+                </button>
+                <button
+                  onClick={() => setPreviewZoom(1)}
+                  className="px-1.5 text-[11px] font-bold text-slate-500 min-w-[48px] hover:text-indigo-600"
+                  title="适应窗口"
+                >
+                  {previewZoom === 1 ? '适应' : `${Math.round(previewZoom * 100)}%`}
+                </button>
+                <button
+                  onClick={() => setPreviewZoom(zoom => stepZoom(zoom, 1))}
+                  disabled={previewZoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+                  className="w-6 h-6 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30 transition-colors"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          )}
+
+          {overriddenPages.length > 0 && (
+            <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 flex items-center gap-2 overflow-x-auto">
+              <span className="text-[10px] font-black text-amber-700 whitespace-nowrap">已设置规则的页面:</span>
+              {overriddenPages.map(page => (
+                <button
+                  key={page}
+                  onClick={() => setCurrentPage(page)}
+                  className={`px-2 py-0.5 text-[10px] font-bold rounded border transition-colors ${
+                    page === currentPage ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white border-amber-200 text-amber-700 hover:border-amber-400'
+                  }`}
+                >
+                  {page}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {currentGutter && (
+            <div className={`px-4 py-2 border-b flex items-center gap-3 ${isCurrentGutterUnsure ? 'bg-amber-50 border-amber-100' : 'bg-emerald-50 border-emerald-100'}`}>
+              <span className={`text-[10px] font-black whitespace-nowrap ${isCurrentGutterUnsure ? 'text-amber-700' : 'text-emerald-700'}`}>
+                装订线 {Math.round(currentGutter.ratio * 100)}% · 置信度 {Math.round(currentGutter.confidence * 100)}%
+              </span>
+              <div className="w-20 h-1.5 bg-white rounded-full overflow-hidden border border-slate-200">
+                <div
+                  className={`h-full ${isCurrentGutterUnsure ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${Math.round(currentGutter.confidence * 100)}%` }}
+                ></div>
+              </div>
+              {currentExactRule?.action === 'ratio' ? (
+                <div className="flex items-center gap-2 flex-1">
+                  <span className="text-[10px] font-bold text-slate-600 whitespace-nowrap">本页手动比例</span>
+                  <input
+                    type="range" min="0.1" max="0.9" step="0.005"
+                    value={currentExactRule.ratio ?? 0.5}
+                    onChange={(e) => updateCurrentPageRatio(parseFloat(e.target.value))}
+                    className="flex-1 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  />
+                  <span className="text-[10px] font-black text-indigo-600">{Math.round((currentExactRule.ratio ?? 0.5) * 100)}%</span>
+                </div>
+              ) : isCurrentGutterUnsure && (
+                <>
+                  <span className="text-[10px] font-bold text-amber-600">检测不确定，本页使用全局比例</span>
+                  <button
+                    onClick={() => setCurrentPageOverride('ratio')}
+                    className="ml-auto px-2 py-0.5 text-[10px] font-bold rounded border border-amber-300 bg-white text-amber-700 hover:border-amber-500 transition-colors"
+                  >
+                    手动设置本页
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {currentScanCorrection && (
+            <ScanCorrectionEditor
+              value={currentScanCorrection}
+              detected={scanDetections[currentPage - 1] ?? null}
+              deskew={scan.deskew}
+              autoCrop={scan.autoCrop}
+              showOriginal={showUncorrectedScan}
+              onShowOriginalChange={setShowUncorrectedScan}
+              onChange={updateCurrentScanCorrection}
+            />
+          )}
+
+          {file && previewView === 'result' ? (
+            <div className="flex-1 min-h-0 bg-slate-100">
+              <ResultPagesView
+                plan={previewPlan}
+                arrangement={resolveArrangement(totalPages, currentOptions)}
+                images={pageImages}
+                geometries={pageGeometries}
+                options={currentOptions}
+                zoom={previewZoom}
+                currentPage={currentPage}
+                onSelectSource={(page) => {
+                  setCurrentPage(page);
+                  setPreviewView('source');
+                }}
+                onArrangementChange={setPageArrangement}
+              />
+            </div>
+          ) : (
+          <div
+            className={`flex-1 min-h-0 preview-wrapper overflow-auto ${previewZoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            ref={previewWrapperRef}
+            onPointerDown={startPan}
+            onPointerMove={movePan}
+            onPointerUp={() => { panStartRef.current = null; }}
+          >
             {!file ? (
               <div className="text-center text-slate-300">
                 <svg className="w-24 h-24 mx-auto mb-6 opacity-10" fill="currentColor" viewBox="0 0 24 24">
@@ -491,7 +1989,7 @@ const App: React.FC = () => {
                 <p className="font-bold">上传 A3 PDF 以启动实时预览</p>
               </div>
             ) : (
-              <div className="preview-container relative">
+              <div className="preview-container relative m-auto flex-shrink-0">
                 {previewLoading && (
                    <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-white/90 backdrop-blur-sm">
                       <div className="animate-spin rounded-full h-12 w-12 border-4 border-indigo-600 border-t-transparent mb-4"></div>
@@ -499,55 +1997,61 @@ const App: React.FC = () => {
                    </div>
                 )}
                 
-                <canvas ref={canvasRef} className="block" />
+                <canvas ref={canvasRef} className="block" style={previewScanTransform} />
                 
-                {!previewLoading && (
-                  <>
-                    <div 
-                      className={`split-line ${isVerticalSplit ? 'split-line-v' : 'split-line-h'}`}
-                      style={{
-                        ...(isVerticalSplit ? { left: `${currentActiveRatio * 100}%` } : { top: `${currentActiveRatio * 100}%` }),
-                        borderColor: (useDualRatios && isCurrentPageEven) ? '#10b981' : '#4f46e5'
-                      }}
-                    ></div>
-                    
-                    {/* Part Labels & Page Numbers */}
-                    {isVerticalSplit ? (
-                      <>
-                        <div className={`page-label ${isCurrentPageEven && useDualRatios ? 'bg-emerald-600' : 'bg-indigo-600'}`} style={{ top: '20px', left: '20px' }}>Part 1 (A4)</div>
-                        <div className={`page-label ${isCurrentPageEven && useDualRatios ? 'bg-emerald-600' : 'bg-indigo-600'}`} style={{ top: '20px', right: '20px' }}>Part 2 (A4)</div>
-                        {previewPage1Num !== null && (
-                          <div className="absolute bottom-4 bg-white/80 px-2 py-0.5 rounded border border-slate-200 text-[10px] font-black text-slate-600 shadow-sm" style={{ left: `${currentActiveRatio * 50}%`, transform: 'translateX(-50%)' }}>
-                            Page {previewPage1Num}
-                          </div>
-                        )}
-                        {previewPage2Num !== null && (
-                          <div className="absolute bottom-4 bg-white/80 px-2 py-0.5 rounded border border-slate-200 text-[10px] font-black text-slate-600 shadow-sm" style={{ left: `${currentActiveRatio * 100 + (1-currentActiveRatio)*50}%`, transform: 'translateX(-50%)' }}>
-                            Page {previewPage2Num}
-                          </div>
-                        )}
-                      </>
-                    ) : (
-                      <>
-                        <div className={`page-label ${isCurrentPageEven && useDualRatios ? 'bg-emerald-600' : 'bg-indigo-600'}`} style={{ top: '20px', left: '20px' }}>Part 1 (A4)</div>
-                        <div className={`page-label ${isCurrentPageEven && useDualRatios ? 'bg-emerald-600' : 'bg-indigo-600'}`} style={{ bottom: '20px', left: '20px' }}>Part 2 (A4)</div>
-                        {previewPage1Num !== null && (
-                          <div className="absolute left-1/2 -translate-x-1/2 bg-white/80 px-2 py-0.5 rounded border border-slate-200 text-[10px] font-black text-slate-600 shadow-sm" style={{ top: `${currentActiveRatio * 50}%` }}>
-                            Page {previewPage1Num}
-                          </div>
-                        )}
-                        {previewPage2Num !== null && (
-                          <div className="absolute left-1/2 -translate-x-1/2 bg-white/80 px-2 py-0.5 rounded border border-slate-200 text-[10px] font-black text-slate-600 shadow-sm" style={{ top: `${currentActiveRatio * 100 + (1-currentActiveRatio)*50}%` }}>
-                            Page {previewPage2Num}
-                          </div>
-                        )}
-                      </>
-                    )}
-                  </>
+                {!previewLoading && previewSplitRects && (
+                  <SplitOverlay
+                    rects={previewSplitRects}
+                    cutLines={previewCutLines}
+                    isVertical={isVerticalSplit}
+                    labels={previewPartLabels}
+                    numberLabels={previewNumberLabels}
+                    stamps={previewStamps}
+                    labelClassName={isCurrentPageEven && useDualRatios ? 'bg-emerald-600' : 'bg-indigo-600'}
+                    lineColor={(useDualRatios && isCurrentPageEven) ? '#10b981' : '#4f46e5'}
+                  />
+                )}
+
+                {!previewLoading && currentCutMm !== null && previewCutLines.length === 1 && (
+                  <SplitLineHandle
+                    line={previewCutLines[0]}
+                    isVertical={isVerticalSplit}
+                    color={(useDualRatios && isCurrentPageEven) ? '#10b981' : '#4f46e5'}
+                    label={`分割线 ${currentCutMm.toFixed(1)} mm`}
+                    onDrag={dragCurrentCut}
+                    onNudge={(steps) => setCurrentCutMm(currentCutMm + steps * NUDGE_MM)}
+                  />
+                )}
+
+                {!previewLoading && previewGutterLine && (
+                  <div
+                    className="absolute pointer-events-none z-10"
+                    style={{
+                      left: `${previewGutterLine.left}%`,
+                      top: `${previewGutterLine.top}%`,
+                      width: previewGutterLine.width > 0 ? `${previewGutterLine.width}%` : 0,
+                      height: previewGutterLine.height > 0 ? `${previewGutterLine.height}%` : 0,
+                      borderLeft: previewGutterLine.width > 0 ? undefined : `2px dotted ${isCurrentGutterUnsure ? '#f59e0b' : '#10b981'}`,
+                      borderTop: previewGutterLine.width > 0 ? `2px dotted ${isCurrentGutterUnsure ? '#f59e0b' : '#10b981'}` : undefined,
+                      transform: previewGutterLine.width > 0 ? 'translateY(-50%)' : 'translateX(-50%)'
+                    }}
+                  ></div>
                 )}
               </div>
             )}
           </div>
+          )}
+
+          {file && totalPages > 1 && (
+            <PageThumbnails
+              images={pageImages}
+              geometries={pageGeometries}
+              options={currentOptions}
+              totalPages={totalPages}
+              currentPage={currentPage}
+              onSelect={setCurrentPage}
+            />
+          )}
           <div className="p-3 bg-slate-50 text-[10px] text-slate-400 font-bold text-center uppercase tracking-widest border-t border-slate-100 flex justify-center gap-8">
              <div className="flex items-center gap-1.5">
                 <div className="w-2.5 h-2.5 border-t-2 border-dashed border-indigo-600"></div>
@@ -556,18 +2060,35 @@ const App: React.FC = () => {
              {enablePageNumbering && (
                <div className="flex items-center gap-1.5 text-indigo-600">
                   <div className="w-2.5 h-2.5 bg-indigo-600 rounded-sm"></div>
-                  <span>自动页码预览: {previewPage1Num || '--'}, {previewPage2Num || '--'}</span>
+                  <span>自动页码预览: {previewPageNumbers.map(n => n || '--').join(', ')}</span>
                </div>
              )}
           </div>
         </div>
+        )}
       </div>
       
+      {isViewingOutputs && file && processedOutputs && processedOptions && (
+        <OutputViewer
+          file={file}
+          outputs={processedOutputs}
+          options={processedOptions}
+          geometries={pageGeometries}
+          totalPages={totalPages}
+          onAdjustSource={(page) => {
+            setCurrentPage(page);
+            setPreviewView('source');
+            setIsViewingOutputs(false);
+          }}
+          onClose={() => setIsViewingOutputs(false)}
+        />
+      )}
+
       <footer className="mt-12 py-6 text-center text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em]">
         Local Processing · No Server Upload · Data Private
       </footer>
 
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".pdf" className="hidden" />
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".pdf,.jpg,.jpeg,.png,.tif,.tiff,application/pdf,image/jpeg,image/png,image/tiff" multiple className="hidden" />
     </div>
   );
 };
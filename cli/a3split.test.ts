@@ -0,0 +1,85 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { makeA3Pdf } from '../services/__fixtures__/a3Pdf';
+
+let dir: string;
+let cli: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'a3split-cli-'));
+  cli = join(dir, 'a3split.mjs');
+  await build({ entryPoints: [fileURLToPath(new URL('./a3split.ts', import.meta.url))], bundle: true, platform: 'node', format: 'esm', outfile: cli, logLevel: 'silent' });
+  await writeFile(join(dir, 'scan.pdf'), await makeA3Pdf(2));
+  await writeFile(join(dir, 'notes.pdf'), 'not a pdf');
+  const damaged = await PDFDocument.load(await makeA3Pdf(2));
+  damaged.getPage(1).node.set(PDFName.of('MediaBox'), PDFName.of('Bogus'));
+  await mkdir(join(dir, 'damaged'));
+  await writeFile(join(dir, 'damaged', 'scan.pdf'), await damaged.save());
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const run = (...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> =>
+  new Promise(resolve => {
+    execFile(process.execPath, [cli, ...args], { cwd: dir }, (error, stdout, stderr) => {
+      resolve({ code: error ? Number(error.code) : 0, stdout, stderr });
+    });
+  });
+
+describe('a3split', () => {
+  it('splits a file with the options given as flags', async () => {
+    const result = await run('scan.pdf', '-o', 'out', '--enable-page-numbering', '--split-ratio', '0.4');
+    expect(result.code).toBe(0);
+    const output = await PDFDocument.load(await readFile(join(dir, 'out', 'scan_A4.pdf')));
+    expect(output.getPageCount()).toBe(4);
+    expect(output.getPage(0).getCropBox().width).toBeCloseTo(1190.55 * 0.4);
+  });
+
+  it('refuses to overwrite an existing output', async () => {
+    const result = await run('scan.pdf', '-o', 'out');
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('--overwrite');
+  });
+
+  it('reports the planned output as JSON lines in a dry run', async () => {
+    const result = await run('*.pdf', '--dry-run', '--json', '--imposition', 'booklet');
+    const events = result.stdout.trim().split('\n').map(line => JSON.parse(line));
+    expect(events.find(event => event.event === 'planned')).toMatchObject({ sourcePages: 2, outputPages: 4 });
+    expect(events.at(-1)).toEqual({ event: 'summary', total: 2, succeeded: 1, failed: 1 });
+    expect(result.code).toBe(4);
+  });
+
+  it('names the damaged page and why it could not be processed', async () => {
+    const result = await run('damaged/scan.pdf', '--dry-run');
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('page 2 could not be processed, the file may be damaged (Expected instance of PDFArray');
+  });
+
+  it('exits with a usage error for a bad flag value or missing inputs', async () => {
+    expect((await run('scan.pdf', '--split-ratio', 'half')).code).toBe(2);
+    expect((await run('--unknown-flag', 'scan.pdf')).code).toBe(2);
+    expect((await run('missing-*.pdf')).code).toBe(2);
+  });
+
+  it('rejects flag values that are not valid options', async () => {
+    for (const args of [
+      ['--orientation', 'diagonal'],
+      ['--split-ratio', '5'],
+      ['--imposition', 'bogus'],
+      ['--page-rules', '{"x":1}'],
+      ['--no-merge-to-single-file', '--output-split-mode', 'sheets'],
+    ]) {
+      const result = await run('scan.pdf', '--dry-run', ...args);
+      expect(result.code).toBe(2);
+      expect(result.stderr).toContain(`${args.at(-2)} has an invalid value`);
+    }
+  });
+});
@@ -0,0 +1,372 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { PdfErrorKind, SplitOptions } from '../types';
+import { isEncryptedPdf, looksLikePdf, planSplit, splitPdf, splitPdfToOutputs } from '../services/nodeSplit';
+import { detectImageFormat, imagesToPdf } from '../services/imageInput';
+import { describeSizeChange } from '../services/outputFiles';
+import { parsePageRanges } from '../services/pageRanges';
+import { MAX_PDF_BYTES, PdfError } from '../services/pdfErrors';
+import { unlockPdfBytes } from '../services/pdfLoading';
+import { parsePresetFile, validateOptions } from '../services/presets';
+import { DEFAULT_SPLIT_OPTIONS } from '../services/splitDefaults';
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // every file failed, for mixed or unexpected reasons
+const EXIT_INVALID_INPUT = 2; // bad arguments or config, no inputs, or inputs that are not readable PDFs
+const EXIT_ENCRYPTED = 3; // the only failures are encrypted PDFs
+const EXIT_PARTIAL = 4; // some files were split, others failed
+
+type FailureKind = 'invalid' | 'encrypted' | 'failed';
+
+const FAILURE_KINDS: Record<PdfErrorKind, FailureKind> = {
+  encrypted: 'encrypted',
+  corrupted: 'failed',
+  empty: 'invalid',
+  notPdf: 'invalid',
+  tooLarge: 'invalid',
+  untrimmable: 'failed',
+  unflattenable: 'failed',
+};
+
+class UsageError extends Error {}
+
+const HELP = `Usage: a3split [options] <input.pdf | glob>...
+
+Splits A3 PDF pages into A4 pages. JPG, PNG and TIFF scans are accepted too; each image
+(or TIFF page) becomes an A3 page first.
+
+Output:
+  -o, --out-dir <dir>      directory for the results (default: next to each input)
+  -p, --pattern <pattern>  output file name; {name} is the input name without extension,
+                           {index} its 1-based position (default: {name}_A4.pdf)
+                           With --no-merge-to-single-file the results are named by
+                           --output-file-name-template instead
+      --overwrite          replace existing output files
+      --dry-run            only report what would be produced
+      --json               print progress as one JSON object per line on stdout
+
+Options:
+  -c, --config <file>      preset file exported from the web app, or JSON with SplitOptions fields
+      --password <pw>      user or owner password of encrypted inputs
+      --preset <name>      preset to use when the config file holds several
+      --number-font <file> TTF/OTF font for page numbers and text stamps
+  Every SplitOptions field is also a flag in kebab case, e.g.
+      --orientation vertical --split-ratio 0.48 --enable-page-numbering
+      --number-format "{n} / {total}" --page-rules '[{"pages":"1","action":"skip"}]'
+  Switches are turned off with a --no- prefix, e.g. --no-merge-to-single-file.
+  Objects and arrays take JSON. Flags override the config file.
+
+Exit codes:
+  0 success, 1 all files failed, 2 invalid arguments or input, 3 encrypted PDF, 4 some files failed
+`;
+
+const toKebabCase = (key: string): string => key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+// Fields that cannot be given on the command line as plain values
+const NON_FLAG_FIELDS = new Set<keyof SplitOptions>(['numberFont', 'gutterDetections', 'scanCorrections']);
+
+const OPTION_FLAGS = (Object.keys(DEFAULT_SPLIT_OPTIONS) as (keyof SplitOptions)[])
+  .filter(key => !NON_FLAG_FIELDS.has(key))
+  .map(key => ({ key, flag: toKebabCase(key), isBoolean: typeof DEFAULT_SPLIT_OPTIONS[key] === 'boolean' }));
+
+const parseFlagValue = (key: keyof SplitOptions, flag: string, raw: string): unknown => {
+  const defaultValue = DEFAULT_SPLIT_OPTIONS[key];
+  if (typeof defaultValue === 'number') {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) throw new UsageError(`--${flag} expects a number, got "${raw}"`);
+    return value;
+  }
+  if (typeof defaultValue === 'object') {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new UsageError(`--${flag} expects JSON, got "${raw}"`);
+    }
+  }
+  return raw;
+};
+
+const globToRegExp = (segment: string): RegExp =>
+  new RegExp(`^${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+/**
+ * Expands `*`, `?` and `**` in a path. Arguments without wildcards are returned as they are.
+ */
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  if (!/[*?]/.test(pattern)) return [pattern];
+
+  const segments = pattern.split(/[\\/]/);
+  const firstWild = segments.findIndex(segment => /[*?]/.test(segment));
+  const base = segments.slice(0, firstWild).join('/') || (pattern.startsWith('/') ? '/' : '.');
+
+  const walk = async (dir: string, rest: string[]): Promise<string[]> => {
+    if (rest.length === 0) return [dir];
+    const [segment, ...tail] = rest;
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+
+    if (segment === '**') {
+      const deeper = await Promise.all(entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => walk(join(dir, entry.name), rest)));
+      return [...await walk(dir, tail), ...deeper.flat()];
+    }
+
+    const matcher = globToRegExp(segment);
+    const matches = entries.filter(entry => matcher.test(entry.name) && (tail.length === 0 || entry.isDirectory()));
+    return (await Promise.all(matches.map(entry => walk(join(dir, entry.name), tail)))).flat();
+  };
+
+  return (await walk(base, segments.slice(firstWild))).sort();
+};
+
+const formatOutputName = (pattern: string, inputPath: string, index: number): string => {
+  const name = basename(inputPath, extname(inputPath));
+  return pattern.replace(/\{name\}/g, name).replace(/\{index\}/g, `${index + 1}`);
+};
+
+const fileExists = (path: string): Promise<boolean> => stat(path).then(() => true, () => false);
+
+// The web app's messages are Chinese; the command line reports in English
+const describeCause = (error: PdfError): string =>
+  error.cause instanceof Error && error.cause.message ? ` (${error.cause.message})` : '';
+
+const describePdfError = (error: PdfError, hasPassword: boolean): string => {
+  switch (error.kind) {
+    case 'encrypted':
+      return hasPassword ? 'encrypted PDF, the password is wrong or the encryption is not supported' : 'encrypted PDF, pass its password with --password';
+    case 'corrupted':
+      return (error.pageIndex !== undefined ? `page ${error.pageIndex + 1} could not be processed, the file may be damaged` : 'damaged PDF that could not be repaired')
+        + describeCause(error);
+    case 'empty':
+      return 'empty file or PDF without pages';
+    case 'notPdf':
+      return 'not a PDF file';
+    case 'tooLarge':
+      return `larger than ${MAX_PDF_BYTES / 1024 / 1024} MB`;
+    case 'untrimmable':
+      return `the content of page ${(error.pageIndex ?? 0) + 1} could not be parsed, so --remove-hidden-content cannot remove what lies outside each half`;
+    case 'unflattenable':
+      return 'the form fields could not be flattened (some have no appearance or hold non-Latin text), use --form-field-handling rename';
+  }
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'out-dir': { type: 'string', short: 'o' },
+      pattern: { type: 'string', short: 'p', default: '{name}_A4.pdf' },
+      config: { type: 'string', short: 'c' },
+      preset: { type: 'string' },
+      password: { type: 'string' },
+      'number-font': { type: 'string' },
+      overwrite: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      ...Object.fromEntries(OPTION_FLAGS.map(({ flag, isBoolean }) => [flag, { type: isBoolean ? 'boolean' : 'string' } as const])),
+      ...Object.fromEntries(OPTION_FLAGS.filter(({ isBoolean }) => isBoolean).map(({ flag }) => [`no-${flag}`, { type: 'boolean' } as const])),
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return EXIT_OK;
+  }
+
+  const emit = (event: Record<string, unknown>) => {
+    if (values.json) process.stdout.write(`${JSON.stringify(event)}\n`);
+  };
+  const log = (message: string) => {
+    if (!values.json) process.stderr.write(`${message}\n`);
+  };
+
+  // Config file first, flags on top
+  let options: Partial<SplitOptions> = {};
+  if (values.config) {
+    let text: string;
+    try {
+      text = await readFile(values.config as string, 'utf8');
+    } catch (error) {
+      throw new UsageError(`Cannot read config ${values.config}: ${error instanceof Error ? error.message : error}`);
+    }
+    let file: ReturnType<typeof parsePresetFile>;
+    try {
+      file = parsePresetFile(text);
+    } catch (error) {
+      throw new UsageError(`Invalid config ${values.config}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const names = file.presets.map(preset => preset.name);
+    const preset = values.preset !== undefined
+      ? file.presets.find(candidate => candidate.name === values.preset)
+      : file.presets.length === 1 ? file.presets[0] : undefined;
+    if (!preset) {
+      const reason = values.preset !== undefined ? `has no preset "${values.preset}"` : 'holds several presets, choose one with --preset';
+      throw new UsageError(`Config ${values.config} ${reason}. Presets: ${names.join(', ')}`);
+    }
+    file.warnings
+      .filter(warning => warning.startsWith(`${preset.name}: `))
+      .forEach(warning => log(`warning: ${warning}`));
+    options = preset.options;
+  } else if (values.preset !== undefined) {
+    throw new UsageError('--preset needs a config file given with --config');
+  }
+  for (const { key, flag, isBoolean } of OPTION_FLAGS) {
+    const raw = isBoolean && values[`no-${flag}`] ? false : values[flag];
+    if (raw === undefined) continue;
+    options = { ...options, [key]: isBoolean ? raw : parseFlagValue(key, flag, raw as string) };
+  }
+  // Flags get the preset file checks, but a bad value is an error here instead of falling back to the default
+  const { rejectedFields } = validateOptions(options);
+  if (rejectedFields.length > 0) {
+    throw new UsageError(rejectedFields
+      .map(key => `--${toKebabCase(key)} has an invalid value: ${JSON.stringify(options[key as keyof SplitOptions])}`)
+      .join('\n'));
+  }
+  if (values['number-font']) {
+    const fontPath = values['number-font'] as string;
+    options.numberFont = { name: basename(fontPath), data: new Uint8Array(await readFile(fontPath)) };
+  }
+  const isMultiOutput = options.mergeToSingleFile === false;
+  if (isMultiOutput && options.outputSplitMode === 'ranges' && !parsePageRanges(options.outputRanges ?? '')) {
+    throw new UsageError(`--output-ranges is missing or invalid, e.g. "1-4, 5-10, 11-"`);
+  }
+  if (options.autoDetectGutter && !options.gutterDetections) {
+    log('warning: --auto-detect-gutter needs a renderer and is ignored on the command line');
+  }
+  if ((options.deskew || options.autoCrop) && !options.scanCorrections) {
+    log('warning: --deskew and --auto-crop need a renderer and are ignored on the command line');
+  }
+  if (options.detectBlankPages && !options.inkCoverage) {
+    log('warning: --detect-blank-pages needs a renderer and is ignored on the command line');
+  }
+  if (options.rasterizeScans) {
+    log('warning: --rasterize-scans needs a canvas and is ignored on the command line');
+  }
+  if (options.outputFormat && options.outputFormat !== 'pdf') {
+    log(`warning: --output-format ${options.outputFormat} needs a canvas and is ignored on the command line`);
+  }
+
+  const inputs = (await Promise.all(positionals.map(expandGlob))).flat();
+  if (inputs.length === 0) throw new UsageError('No input files. Run with --help for usage.');
+
+  const failures: FailureKind[] = [];
+  let succeeded = 0;
+
+  for (const [index, input] of inputs.entries()) {
+    const outputDir = resolve(values['out-dir'] as string | undefined ?? dirname(input));
+    const outputPath = join(outputDir, formatOutputName(values.pattern as string, input, index));
+    emit({ event: 'start', file: input, output: isMultiOutput ? outputDir : outputPath, index, total: inputs.length });
+
+    const data = await readFile(input).catch(() => null);
+    try {
+      const isImage = data !== null && detectImageFormat(data) !== null;
+      if (!data || (!isImage && !looksLikePdf(data))) {
+        failures.push('invalid');
+        emit({ event: 'error', file: input, kind: 'invalid', message: 'Not a readable PDF or image file' });
+        log(`✗ ${input}: not a readable PDF or image file`);
+        continue;
+      }
+      let source: Uint8Array;
+      if (isImage) {
+        const converted = await imagesToPdf([{ name: basename(input), data }]).catch((error: Error) => error);
+        if (converted instanceof Error) {
+          failures.push('invalid');
+          emit({ event: 'error', file: input, kind: 'invalid', message: `Cannot convert image: ${converted.message}` });
+          log(`✗ ${input}: cannot convert image (${converted.message})`);
+          continue;
+        }
+        source = converted;
+      } else {
+        source = values.password !== undefined && await isEncryptedPdf(data)
+          ? await unlockPdfBytes(data, values.password as string)
+          : data;
+      }
+
+      if (values['dry-run']) {
+        const summary = await planSplit(source, options);
+        emit({ event: 'planned', file: input, output: isMultiOutput ? outputDir : outputPath, ...summary });
+        log(isMultiOutput
+          ? `${input} → ${summary.outputFiles} files in ${outputDir} (${summary.sourcePages} → ${summary.outputPages} pages)`
+          : `${input} → ${outputPath} (${summary.sourcePages} → ${summary.outputPages} pages)`);
+        succeeded++;
+        continue;
+      }
+
+      let lastReported = -1;
+      const reportProgress = (progress: number) => {
+        const rounded = Math.floor(progress);
+        if (rounded === lastReported) return;
+        lastReported = rounded;
+        emit({ event: 'progress', file: input, progress: rounded });
+      };
+
+      // Several results: their names are only known after splitting
+      if (isMultiOutput) {
+        const outputs = await splitPdfToOutputs(source, options, reportProgress, basename(input));
+        const paths = outputs.map(output => join(outputDir, output.name));
+        const existing = values.overwrite ? undefined : (await Promise.all(paths.map(fileExists))).indexOf(true);
+        if (existing !== undefined && existing >= 0) {
+          failures.push('invalid');
+          emit({ event: 'error', file: input, kind: 'invalid', message: `Output exists: ${paths[existing]}` });
+          log(`✗ ${input}: ${paths[existing]} exists, use --overwrite to replace it`);
+          continue;
+        }
+        await mkdir(outputDir, { recursive: true });
+        for (const [outputIndex, output] of outputs.entries()) {
+          await writeFile(paths[outputIndex], output.data);
+        }
+        const outputBytes = outputs.reduce((total, output) => total + output.data.length, 0);
+        emit({ event: 'done', file: input, outputs: paths, inputBytes: data.length, outputBytes });
+        log(`✓ ${input} → ${paths.length} files in ${outputDir} · ${describeSizeChange(data.length, outputBytes)}`);
+        succeeded++;
+        continue;
+      }
+
+      if (!values.overwrite && await fileExists(outputPath)) {
+        failures.push('invalid');
+        emit({ event: 'error', file: input, kind: 'invalid', message: `Output exists: ${outputPath}` });
+        log(`✗ ${input}: ${outputPath} exists, use --overwrite to replace it`);
+        continue;
+      }
+
+      const output = await splitPdf(source, options, reportProgress, basename(input));
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, output);
+      emit({ event: 'done', file: input, output: outputPath, inputBytes: data.length, outputBytes: output.length });
+      log(`✓ ${input} → ${outputPath} · ${describeSizeChange(data.length, output.length)}`);
+      succeeded++;
+    } catch (error) {
+      const kind: FailureKind = error instanceof PdfError ? FAILURE_KINDS[error.kind] : 'failed';
+      const message = error instanceof PdfError
+        ? describePdfError(error, values.password !== undefined)
+        : error instanceof Error ? error.message : String(error);
+      const pageIndex = error instanceof PdfError ? error.pageIndex : undefined;
+      failures.push(kind);
+      emit({ event: 'error', file: input, kind, message, ...(pageIndex !== undefined && { page: pageIndex + 1 }) });
+      log(`✗ ${input}: ${message}`);
+    }
+  }
+
+  emit({ event: 'summary', total: inputs.length, succeeded, failed: failures.length });
+
+  if (failures.length === 0) return EXIT_OK;
+  if (succeeded > 0) return EXIT_PARTIAL;
+  if (failures.every(kind => kind === 'invalid')) return EXIT_INVALID_INPUT;
+  if (failures.every(kind => kind === 'encrypted')) return EXIT_ENCRYPTED;
+  return EXIT_FAILED;
+};
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    // parseArgs reports unknown flags with a TypeError carrying an ERR_PARSE_ARGS_* code
+    const isUsageError = error instanceof UsageError || `${error?.code ?? ''}`.startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`a3split: ${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = isUsageError ? EXIT_INVALID_INPUT : EXIT_FAILED;
+  });
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AnnotationHandling, FormFieldHandling, SplitOptions } from '../types';
+
+export type AnnotationValues = Pick<SplitOptions, 'annotationHandling' | 'formFieldHandling'>;
+
+interface AnnotationSettingsProps {
+  value: AnnotationValues;
+  onChange: (value: AnnotationValues) => void;
+}
+
+const ANNOTATION_MODES: { id: AnnotationHandling; label: string }[] = [
+  { id: 'assign', label: '保留到所在半页' },
+  { id: 'strip', label: '全部删除' }
+];
+
+const FORM_MODES: { id: FormFieldHandling; label: string }[] = [
+  { id: 'rename', label: '保留可填写' },
+  { id: 'flatten', label: '拍平为内容' }
+];
+
+export const AnnotationSettings: React.FC<AnnotationSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<AnnotationValues>) => onChange({ ...value, ...patch });
+
+  const renderModes = <T extends string>(modes: { id: T; label: string }[], selected: T, onSelect: (id: T) => void) => (
+    <div className="grid grid-cols-2 gap-2">
+      {modes.map(mode => (
+        <button
+          key={mode.id}
+          onClick={() => onSelect(mode.id)}
+          className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+            selected === mode.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+          }`}
+        >
+          {mode.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <label className="text-[11px] font-bold text-slate-600 block">批注与高亮</label>
+        {renderModes(ANNOTATION_MODES, value.annotationHandling, annotationHandling => update({ annotationHandling }))}
+        <span className="text-[9px] text-slate-400 font-medium block">跨越拆分线的批注归入其中心所在的一半</span>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="text-[11px] font-bold text-slate-600 block">表单域</label>
+        {renderModes(FORM_MODES, value.formFieldHandling, formFieldHandling => update({ formFieldHandling }))}
+        <span className="text-[9px] text-slate-400 font-medium block">
+          {value.formFieldHandling === 'rename' ? '重名的表单域自动加上 _2、_3 等后缀' : '将填写内容画入页面，输出不再可编辑'}
+        </span>
+      </div>
+    </div>
+  );
+};
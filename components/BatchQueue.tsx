@@ -0,0 +1,158 @@
+import React from 'react';
+import { BatchJob } from '../types';
+import { Button } from './Button';
+import { PasswordPrompt } from './PasswordPrompt';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  activeFile: File | null;
+  isRunning: boolean;
+  onSelect: (job: BatchJob) => void;
+  onRemove: (job: BatchJob) => void;
+  onRetry: (job: BatchJob) => void;
+  onUnlock: (job: BatchJob, password: string) => Promise<void>;
+  onAddFiles: () => void;
+  onClear: () => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onDownloadZip: () => void;
+  onDownloadMerged: () => void;
+  disabled?: boolean;
+}
+
+const STEP_STYLES: Record<BatchJob['status']['step'], string> = {
+  idle: 'text-slate-400',
+  loading: 'text-indigo-600',
+  processing: 'text-indigo-600',
+  completed: 'text-emerald-600',
+  error: 'text-rose-500'
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  jobs,
+  activeFile,
+  isRunning,
+  onSelect,
+  onRemove,
+  onRetry,
+  onUnlock,
+  onAddFiles,
+  onClear,
+  onStart,
+  onCancel,
+  onDownloadZip,
+  onDownloadMerged,
+  disabled
+}) => {
+  const completedCount = jobs.filter(job => job.status.step === 'completed').length;
+  const failedCount = jobs.filter(job => job.status.step === 'error').length;
+  const pendingCount = jobs.length - completedCount;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold text-slate-600">
+          批量队列 · {completedCount} / {jobs.length} 完成
+          {failedCount > 0 && <span className="text-rose-500"> · {failedCount} 失败</span>}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onClear}
+            disabled={isRunning}
+            className="text-[10px] font-bold text-slate-400 hover:text-rose-500 disabled:opacity-30 transition-colors"
+          >
+            清空
+          </button>
+          <button
+            onClick={onAddFiles}
+            disabled={isRunning}
+            className="px-2 py-0.5 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 disabled:opacity-30 transition-colors"
+          >
+            + 添加文件
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5 max-h-64 overflow-y-auto">
+        {jobs.map(job => (
+          <div
+            key={job.id}
+            className={`p-2 rounded-lg border transition-colors ${
+              job.file === activeFile ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200 bg-white'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onSelect(job)}
+                className="flex-1 min-w-0 text-left text-[11px] font-bold text-slate-800 truncate hover:text-indigo-600"
+                title="在右侧预览此文件"
+              >
+                {job.file.name}
+              </button>
+              {job.status.step === 'error' && job.status.errorKind !== 'encrypted' && (
+                <button
+                  onClick={() => onRetry(job)}
+                  disabled={isRunning}
+                  className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 disabled:opacity-30"
+                >
+                  重试
+                </button>
+              )}
+              <button
+                onClick={() => onRemove(job)}
+                disabled={isRunning}
+                className="p-0.5 hover:bg-rose-100 rounded-full transition-colors text-slate-400 hover:text-rose-500 disabled:opacity-30"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l18 18" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex items-center gap-2 mt-1">
+              <div className="flex-1 h-1 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${job.status.step === 'error' ? 'bg-rose-400' : job.status.step === 'completed' ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${job.status.step === 'error' ? 100 : job.status.progress}%` }}
+                ></div>
+              </div>
+              <span className={`text-[9px] font-bold max-w-[60%] truncate ${STEP_STYLES[job.status.step]}`} title={job.status.message}>
+                {job.status.message}
+              </span>
+            </div>
+            {job.status.errorKind === 'encrypted' && !isRunning && (
+              <div className="mt-2">
+                <PasswordPrompt message={job.status.message} onUnlock={password => onUnlock(job, password)} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button
+        onClick={onStart}
+        isLoading={isRunning}
+        disabled={isRunning || pendingCount === 0 || disabled}
+        className="w-full h-12"
+      >
+        {isRunning ? '批量处理中...' : `开始批量处理 (${pendingCount} 个文件)`}
+      </Button>
+
+      {isRunning && (
+        <Button onClick={onCancel} variant="outline" className="w-full h-10 text-sm">
+          取消
+        </Button>
+      )}
+
+      {completedCount > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          <Button onClick={onDownloadZip} variant="secondary" disabled={isRunning} className="h-10 text-sm">
+            下载 ZIP
+          </Button>
+          <Button onClick={onDownloadMerged} variant="outline" disabled={isRunning} className="h-10 text-sm">
+            合并为一个 PDF
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
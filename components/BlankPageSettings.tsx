@@ -0,0 +1,105 @@
+import React from 'react';
+import { BlankPageHandling, SplitOptions } from '../types';
+import { BlankPart } from '../services/pagePlan';
+
+export type BlankPageValues = Pick<SplitOptions, 'detectBlankPages' | 'blankInkThreshold' | 'blankPageHandling'>;
+
+interface BlankPageSettingsProps {
+  value: BlankPageValues;
+  onChange: (value: BlankPageValues) => void;
+}
+
+interface BlankPartListProps {
+  parts: BlankPart[];
+  onToggleRestored: (part: BlankPart) => void;
+  onSelectPage: (page: number) => void;
+}
+
+const HANDLINGS: { id: BlankPageHandling; label: string }[] = [
+  { id: 'remove', label: '删除' },
+  { id: 'unnumbered', label: '保留，不编页码' },
+];
+
+export const BlankPageSettings: React.FC<BlankPageSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<BlankPageValues>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <label className="text-[11px] font-bold text-slate-600 block">自动检测空白页</label>
+          <span className="text-[9px] text-slate-400 font-medium">渲染每一份并测量墨迹覆盖率，找出空白的半页</span>
+        </div>
+        <button
+          onClick={() => update({ detectBlankPages: !value.detectBlankPages })}
+          className={`w-10 h-5 flex-shrink-0 flex items-center rounded-full p-1 transition-colors duration-200 ${value.detectBlankPages ? 'bg-indigo-600' : 'bg-slate-300'}`}
+        >
+          <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${value.detectBlankPages ? 'translate-x-5' : 'translate-x-0'}`} />
+        </button>
+      </div>
+
+      {value.detectBlankPages && (
+        <div className="space-y-3 pt-2 border-t border-slate-100">
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-0.5">
+              <label className="text-[11px] font-bold text-slate-600 block">空白阈值</label>
+              <span className="text-[9px] text-slate-400 font-medium">墨迹覆盖率不超过此值视为空白；扫描噪点多时调高</span>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <input
+                type="number" min="0" max="100" step="0.1"
+                value={value.blankInkThreshold}
+                onChange={(e) => update({ blankInkThreshold: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="w-16 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+              />
+              <span className="text-[11px] font-bold text-slate-400">%</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[11px] font-bold text-slate-600 block">空白页处理</label>
+            <div className="grid grid-cols-2 gap-2">
+              {HANDLINGS.map(opt => (
+                <button
+                  key={opt.id}
+                  onClick={() => update({ blankPageHandling: opt.id })}
+                  className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                    value.blankPageHandling === opt.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The parts detected as blank, with their ink coverage; a wrongly detected part can be restored
+ * so it is output and numbered like any other.
+ */
+export const BlankPartList: React.FC<BlankPartListProps> = ({ parts, onToggleRestored, onSelectPage }) => (
+  <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-lg">
+    {parts.map(part => (
+      <li key={`${part.sourcePageIndex}:${part.part}`} className="flex items-center justify-between px-3 py-1.5">
+        <button
+          onClick={() => onSelectPage(part.sourcePageIndex + 1)}
+          className={`text-[11px] font-bold hover:text-indigo-600 transition-colors ${part.restored ? 'text-slate-400 line-through' : 'text-slate-600'}`}
+        >
+          A3 第 {part.sourcePageIndex + 1} 页 · Part {part.part + 1}
+          <span className="ml-1.5 text-[10px] font-medium text-slate-400">{part.coverage.toFixed(2)}%</span>
+        </button>
+        <button
+          onClick={() => onToggleRestored(part)}
+          className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 whitespace-nowrap ml-2"
+        >
+          {part.restored ? '重新标为空白' : '不是空白，恢复'}
+        </button>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ExportColorMode, ExportImageFormat, OutputFormat, SplitOptions } from '../types';
+
+export type ExportValues = Pick<
+  SplitOptions,
+  'outputFormat' | 'exportDpi' | 'exportImageFormat' | 'exportQuality' | 'exportColorMode' | 'exportFileNameTemplate'
+>;
+
+interface ExportSettingsProps {
+  value: ExportValues;
+  onChange: (value: ExportValues) => void;
+}
+
+const OUTPUT_FORMATS: { id: OutputFormat; label: string; hint: string }[] = [
+  { id: 'pdf', label: 'PDF', hint: '保留文字和链接，每一份用裁剪框裁出' },
+  { id: 'rasterPdf', label: '图片 PDF', hint: '每页渲染为图片，适合处理不好裁剪框的打印机；文字将无法再选择' },
+  { id: 'images', label: '图片', hint: '每页一张图片，多张时打包为 ZIP 下载' }
+];
+
+const IMAGE_FORMATS: { id: ExportImageFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' }
+];
+
+const COLOR_MODES: { id: ExportColorMode; label: string }[] = [
+  { id: 'color', label: '彩色' },
+  { id: 'grayscale', label: '灰度' },
+  { id: 'bilevel', label: '黑白' }
+];
+
+const EXPORT_DPIS = [100, 150, 200, 300];
+
+const OptionButtons = <T extends string | number>({ options, selected, onSelect }: {
+  options: { id: T; label: string }[];
+  selected: T;
+  onSelect: (id: T) => void;
+}) => (
+  <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+    {options.map(option => (
+      <button
+        key={option.id}
+        onClick={() => onSelect(option.id)}
+        className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+          selected === option.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const ExportSettings: React.FC<ExportSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<ExportValues>) => onChange({ ...value, ...patch });
+  const isImages = value.outputFormat === 'images';
+  // Quality applies to JPEG and WebP; image PDFs store bilevel pages losslessly and everything else as JPEG
+  const showsQuality = isImages ? value.exportImageFormat !== 'png' : value.exportColorMode !== 'bilevel';
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label className="text-[11px] font-bold text-slate-600 block">输出格式</label>
+        <OptionButtons options={OUTPUT_FORMATS} selected={value.outputFormat} onSelect={outputFormat => update({ outputFormat })} />
+        <span className="text-[9px] text-slate-400 font-medium block">
+          {OUTPUT_FORMATS.find(format => format.id === value.outputFormat)?.hint}
+        </span>
+      </div>
+
+      {value.outputFormat !== 'pdf' && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+          {isImages && (
+            <OptionButtons options={IMAGE_FORMATS} selected={value.exportImageFormat} onSelect={exportImageFormat => update({ exportImageFormat })} />
+          )}
+          <OptionButtons
+            options={EXPORT_DPIS.map(dpi => ({ id: dpi, label: `${dpi} DPI` }))}
+            selected={value.exportDpi}
+            onSelect={exportDpi => update({ exportDpi })}
+          />
+          <OptionButtons options={COLOR_MODES} selected={value.exportColorMode} onSelect={exportColorMode => update({ exportColorMode })} />
+
+          {showsQuality && (
+            <div className="flex items-center gap-3">
+              <label className="text-[11px] font-bold text-slate-600 whitespace-nowrap">JPEG/WebP 质量</label>
+              <input
+                type="range" min="0.3" max="1" step="0.05"
+                value={value.exportQuality}
+                onChange={(e) => update({ exportQuality: parseFloat(e.target.value) })}
+                className="flex-1 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+              <span className="text-[10px] font-black text-indigo-600 w-8 text-right">{Math.round(value.exportQuality * 100)}</span>
+            </div>
+          )}
+
+          {isImages && (
+            <div className="space-y-1">
+              <label className="text-[11px] font-bold text-slate-600 block">图片文件名模板</label>
+              <input
+                type="text"
+                value={value.exportFileNameTemplate}
+                onChange={(e) => update({ exportFileNameTemplate: e.target.value })}
+                className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <span className="text-[9px] text-slate-400 font-medium block">
+                {'{name} 原文件名 · {page} 输出页码 · {file} 所属 PDF 文件名 · {filePage} 文件内页码'}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { ImageInput } from '../types';
+
+interface ImageInputListProps {
+  inputs: ImageInput[];
+  onChange: (inputs: ImageInput[]) => void;
+  onAddImages: () => void;
+  disabled?: boolean;
+}
+
+// Browsers other than Safari cannot show TIFF, so those get a label instead of a thumbnail
+const canShowThumbnail = (file: File) => /\.(jpe?g|png)$/i.test(file.name) || file.type === 'image/jpeg' || file.type === 'image/png';
+
+export const ImageInputList: React.FC<ImageInputListProps> = ({ inputs, onChange, onAddImages, disabled }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    for (const input of inputs) {
+      if (canShowThumbnail(input.file)) urls[input.id] = URL.createObjectURL(input.file);
+    }
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [inputs]);
+
+  const move = (index: number, offset: number) => {
+    const next = [...inputs];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const sortByName = () => {
+    onChange([...inputs].sort((a, b) => a.file.name.localeCompare(b.file.name, undefined, { numeric: true })));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-bold text-slate-600">扫描图片 · {inputs.length} 张，按此顺序转换为 A3 页面</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={sortByName}
+            disabled={disabled || inputs.length < 2}
+            className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+          >
+            按文件名排序
+          </button>
+          <button
+            onClick={onAddImages}
+            disabled={disabled}
+            className="px-2 py-0.5 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 disabled:opacity-30 transition-colors"
+          >
+            + 添加图片
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5 max-h-64 overflow-y-auto">
+        {inputs.map((input, index) => (
+          <div key={input.id} className="flex items-center gap-2 p-1.5 rounded-lg border border-slate-200 bg-white">
+            <div className="w-10 h-10 flex-shrink-0 rounded bg-slate-100 overflow-hidden flex items-center justify-center">
+              {thumbnails[input.id] ? (
+                <img src={thumbnails[input.id]} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-[9px] font-black text-slate-400">TIFF</span>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-[11px] font-bold text-slate-800 truncate">{index + 1}. {input.file.name}</p>
+              <p className="text-[10px] text-slate-500">{(input.file.size / 1024 / 1024).toFixed(2)} MB</p>
+            </div>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              className="px-1.5 text-xs font-bold text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+              title="上移"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === inputs.length - 1}
+              className="px-1.5 text-xs font-bold text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+              title="下移"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(inputs.filter(other => other.id !== input.id))}
+              disabled={disabled}
+              className="p-0.5 hover:bg-rose-100 rounded-full transition-colors text-slate-400 hover:text-rose-500 disabled:opacity-30"
+              title="移除"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { ImposeLayout, ImposeOptions, ImposeSheetSize } from '../types';
+
+interface ImposeSettingsProps {
+  value: ImposeOptions;
+  onChange: (value: ImposeOptions) => void;
+}
+
+interface ChoiceGroupProps<T extends string> {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const ChoiceGroup = <T extends string>({ options, value, onChange }: ChoiceGroupProps<T>) => (
+  <div className={`grid gap-2 ${options.length === 2 ? 'grid-cols-2' : 'grid-cols-3'}`}>
+    {options.map(opt => (
+      <button
+        key={opt.id}
+        onClick={() => onChange(opt.id)}
+        className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+          value === opt.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+        }`}
+      >
+        {opt.label}
+      </button>
+    ))}
+  </div>
+);
+
+const MmInput: React.FC<{ label: string; hint: string; value: number; onChange: (value: number) => void }> = ({ label, hint, value, onChange }) => (
+  <div className="flex items-center justify-between gap-3">
+    <div className="space-y-0.5">
+      <label className="text-[11px] font-bold text-slate-600 block">{label}</label>
+      <span className="text-[9px] text-slate-400 font-medium">{hint}</span>
+    </div>
+    <div className="flex items-center gap-1 flex-shrink-0">
+      <input
+        type="number" min="0" step="0.5"
+        value={value}
+        onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+        className="w-16 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+      />
+      <span className="text-[11px] font-bold text-slate-400">mm</span>
+    </div>
+  </div>
+);
+
+export const ImposeSettings: React.FC<ImposeSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<ImposeOptions>) => onChange({ ...value, ...patch });
+  const isBooklet = value.layout === 'booklet';
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">拼版方式</label>
+        <ChoiceGroup<ImposeLayout>
+          options={[
+            { id: 'twoUp', label: '按顺序 2 合 1' },
+            { id: 'booklet', label: '骑马钉小册子' }
+          ]}
+          value={value.layout}
+          onChange={layout => update({ layout })}
+        />
+        <span className="text-[9px] text-slate-400 font-medium block">
+          {isBooklet ? '双面打印（长边翻转）后对折，页码顺序自动排好，不足 4 的倍数时补空白页' : '每张纸的一面依次放两页'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">纸张</label>
+        <ChoiceGroup<ImposeSheetSize>
+          options={[
+            { id: 'A3', label: 'A3' },
+            { id: 'B4', label: 'B4' },
+            { id: 'auto', label: '按页面大小' }
+          ]}
+          value={value.sheetSize}
+          onChange={sheetSize => update({ sheetSize })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">装订方向</label>
+        <ChoiceGroup<ImposeOptions['bindingDirection']>
+          options={[
+            { id: 'ltr', label: '左侧装订' },
+            { id: 'rtl', label: '右侧装订' }
+          ]}
+          value={value.bindingDirection}
+          onChange={bindingDirection => update({ bindingDirection })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">缩放</label>
+        <ChoiceGroup<ImposeOptions['pageScaling']>
+          options={[
+            { id: 'fit', label: '适合半张纸' },
+            { id: 'actual', label: '原始大小' }
+          ]}
+          value={value.pageScaling}
+          onChange={pageScaling => update({ pageScaling })}
+        />
+      </div>
+
+      <div className="space-y-3 pt-2 border-t border-slate-100">
+        <MmInput
+          label="中缝留白"
+          hint="两页之间、折线两侧共留出的宽度"
+          value={value.gutter}
+          onChange={gutter => update({ gutter })}
+        />
+        {isBooklet && (
+          <>
+            <MmInput
+              label="爬移补偿"
+              hint="最内层纸张的页面向折线移动的距离，向外逐张减小"
+              value={value.creep}
+              onChange={creep => update({ creep })}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <div className="space-y-0.5">
+                <label className="text-[11px] font-bold text-slate-600 block">每帖纸张数</label>
+                <span className="text-[9px] text-slate-400 font-medium">页数较多时分帖装订，0 表示整本一帖</span>
+              </div>
+              <input
+                type="number" min="0"
+                value={value.signatureSheets}
+                onChange={(e) => update({ signatureSheets: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-16 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center flex-shrink-0"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
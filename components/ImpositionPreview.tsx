@@ -0,0 +1,68 @@
+import React from 'react';
+import { ImposeOptions } from '../types';
+import { ImposedSide, getSheetSize } from '../services/impositionService';
+import { PageImage } from '../services/pageRenderer';
+import { PageGeometry, toPoints } from '../services/splitGeometry';
+
+interface ImpositionPreviewProps {
+  plan: ImposedSide[];
+  images: (PageImage | null)[];
+  geometries: PageGeometry[];
+  options: ImposeOptions;
+}
+
+// Width of a sheet side, in CSS pixels
+const SIDE_WIDTH = 260;
+
+/**
+ * The merged sheets in print order, with the source pages that land on both halves of every side.
+ */
+export const ImpositionPreview: React.FC<ImpositionPreviewProps> = ({ plan, images, geometries, options }) => {
+  const sheetSize = getSheetSize(options, geometries);
+  const height = sheetSize.width > 0 ? (SIDE_WIDTH * sheetSize.height) / sheetSize.width : SIDE_WIDTH / 1.41;
+  const gutterWidth = sheetSize.width > 0 ? Math.min(SIDE_WIDTH / 2, (SIDE_WIDTH * toPoints(options.gutter, 'mm')) / sheetSize.width) : 0;
+
+  const sheets: ImposedSide[][] = [];
+  plan.forEach(side => (sheets[side.sheet] ??= []).push(side));
+
+  return (
+    <div className="w-full h-full overflow-auto p-6 space-y-4">
+      {sheets.map((sides, sheet) => (
+        <div key={sheet} className="flex items-center gap-4">
+          <div className="w-16 flex-shrink-0 text-[11px] font-black text-slate-500">
+            第 {sheet + 1} 张
+            {sides[0].creep > 0 && <span className="block text-[9px] font-bold text-slate-400">爬移 {sides[0].creep.toFixed(2)} mm</span>}
+          </div>
+          {sides.map(side => (
+            <div key={side.isBack ? 'back' : 'front'} className="space-y-1">
+              <div className="relative flex bg-white border border-slate-200 shadow-md" style={{ width: SIDE_WIDTH, height }}>
+                {side.pages.map((sourceIndex, half) => {
+                  const image = sourceIndex !== null ? images[sourceIndex] : null;
+                  return (
+                    <React.Fragment key={half}>
+                      {half === 1 && <div className="flex-shrink-0" style={{ width: gutterWidth }}></div>}
+                      <div className="relative flex-1 flex items-center justify-center overflow-hidden">
+                        {sourceIndex === null ? (
+                          <span className="text-[10px] font-bold text-slate-300">空白</span>
+                        ) : (
+                          <>
+                            {image && <img src={image.url} alt="" className="max-w-full max-h-full" />}
+                            <span className="absolute bottom-1 px-1.5 rounded bg-indigo-600 text-[10px] font-black text-white">{sourceIndex + 1}</span>
+                          </>
+                        )}
+                      </div>
+                    </React.Fragment>
+                  );
+                })}
+                <div className="absolute inset-y-0 left-1/2 border-l border-dashed border-indigo-400"></div>
+              </div>
+              <div className="text-[10px] font-bold text-slate-400 text-center">
+                {options.layout === 'booklet' ? (side.isBack ? '反面' : '正面') : `第 ${sheet + 1} 面`}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
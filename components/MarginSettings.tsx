@@ -0,0 +1,67 @@
+import React from 'react';
+import { EdgeInsets, LengthUnit, SplitOptions } from '../types';
+
+export type MarginValues = Pick<SplitOptions, 'marginUnit' | 'overlap' | 'outerTrim' | 'gutterTrim'>;
+
+interface MarginSettingsProps {
+  value: MarginValues;
+  onChange: (value: MarginValues) => void;
+}
+
+const EDGE_LABELS: { key: keyof EdgeInsets; label: string }[] = [
+  { key: 'top', label: '上' },
+  { key: 'bottom', label: '下' },
+  { key: 'left', label: '左' },
+  { key: 'right', label: '右' }
+];
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <div className="flex items-center justify-between gap-2">
+    <label className="text-[11px] font-bold text-slate-600">{label}</label>
+    <input
+      type="number" min="0" step="0.5"
+      value={value}
+      onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none text-center"
+    />
+  </div>
+);
+
+export const MarginSettings: React.FC<MarginSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<MarginValues>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {(['mm', 'pt'] as LengthUnit[]).map(unit => (
+          <button
+            key={unit}
+            onClick={() => update({ marginUnit: unit })}
+            className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+              value.marginUnit === unit ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+            }`}
+          >
+            {unit === 'mm' ? '毫米 (mm)' : '点 (pt)'}
+          </button>
+        ))}
+      </div>
+
+      <NumberField label="越过分割线 (重叠)" value={value.overlap} onChange={overlap => update({ overlap })} />
+      <NumberField label="分割线两侧裁掉" value={value.gutterTrim} onChange={gutterTrim => update({ gutterTrim })} />
+
+      <div className="space-y-2 pt-2 border-t border-slate-100">
+        <label className="text-[11px] font-bold text-slate-600 block">外边裁切 (扫描黑边)</label>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {EDGE_LABELS.map(edge => (
+            <NumberField
+              key={edge.key}
+              label={edge.label}
+              value={value.outerTrim[edge.key]}
+              onChange={amount => update({ outerTrim: { ...value.outerTrim, [edge.key]: amount } })}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useRef } from 'react';
+import { NumberAlignment, NumeralStyle, SplitOptions } from '../types';
+
+export type NumberFormatValues = Pick<
+  SplitOptions,
+  'numberPosition' | 'numberAlignment' | 'numberFormat' | 'numberStyle' | 'numberFontSize' | 'numberColor' | 'numberMargin' | 'numberFont'
+>;
+
+interface NumberFormatSettingsProps {
+  value: NumberFormatValues;
+  onChange: (value: NumberFormatValues) => void;
+  fontWarning?: string | null;
+}
+
+const FORMAT_PRESETS = ['{n}', '- {n} -', '{n} / {total}', '第 {n} 页', '第 {n} 页 共 {total} 页'];
+
+const ALIGNMENTS: { id: NumberAlignment; label: string }[] = [
+  { id: 'left', label: '左' },
+  { id: 'center', label: '居中' },
+  { id: 'right', label: '右' },
+  { id: 'outside', label: '外侧' },
+  { id: 'inside', label: '内侧' }
+];
+
+const NUMERAL_STYLES: { id: NumeralStyle; label: string }[] = [
+  { id: 'arabic', label: '1, 2, 3' },
+  { id: 'lowerRoman', label: 'i, ii, iii' },
+  { id: 'upperRoman', label: 'I, II, III' },
+  { id: 'chinese', label: '一, 二, 三' }
+];
+
+export const NumberFormatSettings: React.FC<NumberFormatSettingsProps> = ({ value, onChange, fontWarning }) => {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<NumberFormatValues>) => onChange({ ...value, ...patch });
+
+  const handleFontChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fontFile = e.target.files?.[0];
+    if (!fontFile) return;
+    const data = new Uint8Array(await fontFile.arrayBuffer());
+    update({ numberFont: { name: fontFile.name, data } });
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">页码格式</label>
+        <input
+          type="text"
+          value={value.numberFormat}
+          onChange={(e) => update({ numberFormat: e.target.value })}
+          className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <div className="flex flex-wrap gap-1">
+          {FORMAT_PRESETS.map(preset => (
+            <button
+              key={preset}
+              onClick={() => update({ numberFormat: preset })}
+              className={`px-1.5 py-0.5 text-[10px] font-bold rounded border transition-all ${
+                value.numberFormat === preset ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+              }`}
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {NUMERAL_STYLES.map(style => (
+          <button
+            key={style.id}
+            onClick={() => update({ numberStyle: style.id })}
+            className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+              value.numberStyle === style.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+            }`}
+          >
+            {style.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[11px] font-bold text-slate-600 block">位置</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['top', 'bottom'] as const).map(position => (
+            <button
+              key={position}
+              onClick={() => update({ numberPosition: position })}
+              className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                value.numberPosition === position ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+              }`}
+            >
+              {position === 'top' ? '页眉' : '页脚'}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-5 gap-1">
+          {ALIGNMENTS.map(alignment => (
+            <button
+              key={alignment.id}
+              onClick={() => update({ numberAlignment: alignment.id })}
+              className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                value.numberAlignment === alignment.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+              }`}
+            >
+              {alignment.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[9px] text-slate-400 font-medium block">外侧 / 内侧按奇偶页镜像：奇数页在右侧为外侧</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-slate-500 block">字号 (pt)</label>
+          <input
+            type="number" min="4" max="72"
+            value={value.numberFontSize}
+            onChange={(e) => update({ numberFontSize: Math.max(4, parseFloat(e.target.value) || 10) })}
+            className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-slate-500 block">边距 (pt)</label>
+          <input
+            type="number" min="0"
+            value={value.numberMargin}
+            onChange={(e) => update({ numberMargin: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-slate-500 block">颜色</label>
+          <input
+            type="color"
+            value={value.numberColor}
+            onChange={(e) => update({ numberColor: e.target.value })}
+            className="w-full h-[26px] border border-slate-200 rounded bg-slate-50 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="text-[11px] font-bold text-slate-600">字体</label>
+          <div className="flex items-center gap-2">
+            {value.numberFont && (
+              <button
+                onClick={() => update({ numberFont: undefined })}
+                className="text-[10px] font-bold text-slate-400 hover:text-rose-500 transition-colors"
+              >
+                移除
+              </button>
+            )}
+            <button
+              onClick={() => fontInputRef.current?.click()}
+              className="px-2 py-0.5 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors"
+            >
+              上传 TTF/OTF
+            </button>
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-400 font-medium truncate">{value.numberFont ? value.numberFont.name : 'Helvetica (仅支持西文)'}</p>
+        {fontWarning && <p className="text-[10px] font-bold text-rose-500">{fontWarning}</p>}
+        <input type="file" ref={fontInputRef} onChange={handleFontChange} accept=".ttf,.otf" className="hidden" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { OutputSplitMode, SplitOptions } from '../types';
+
+export type OutputFileValues = Pick<
+  SplitOptions,
+  'mergeToSingleFile' | 'outputSplitMode' | 'outputRanges' | 'outputEveryN' | 'outputFileNameTemplate' | 'removeHiddenContent'
+>;
+
+interface OutputFileSettingsProps {
+  value: OutputFileValues;
+  onChange: (value: OutputFileValues) => void;
+  rangeWarning?: string | null;
+}
+
+const SPLIT_MODES: { id: OutputSplitMode; label: string }[] = [
+  { id: 'perSheet', label: '每张 A3 一个' },
+  { id: 'ranges', label: '按页码范围' },
+  { id: 'everyN', label: '每 N 页' }
+];
+
+export const OutputFileSettings: React.FC<OutputFileSettingsProps> = ({ value, onChange, rangeWarning }) => {
+  const update = (patch: Partial<OutputFileValues>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="text-[11px] font-bold text-slate-600">彻底删除隐藏内容</label>
+          <button
+            onClick={() => update({ removeHiddenContent: !value.removeHiddenContent })}
+            className={`w-10 h-5 flex items-center rounded-full p-1 transition-colors duration-200 ${value.removeHiddenContent ? 'bg-indigo-600' : 'bg-slate-300'}`}
+          >
+            <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${value.removeHiddenContent ? 'translate-x-5' : 'translate-x-0'}`} />
+          </button>
+        </div>
+        <span className="text-[9px] text-slate-400 font-medium block">
+          {value.removeHiddenContent
+            ? '删除每一页可见区域外的文字、图形和图片，另一半内容无法再被恢复'
+            : '仅用裁剪框隐藏另一半，去掉裁剪框即可看到完整 A3 内容'}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-[11px] font-bold text-slate-600">合并为单个 PDF</label>
+        <button
+          onClick={() => update({ mergeToSingleFile: !value.mergeToSingleFile })}
+          className={`w-10 h-5 flex items-center rounded-full p-1 transition-colors duration-200 ${value.mergeToSingleFile ? 'bg-indigo-600' : 'bg-slate-300'}`}
+        >
+          <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${value.mergeToSingleFile ? 'translate-x-5' : 'translate-x-0'}`} />
+        </button>
+      </div>
+
+      {!value.mergeToSingleFile && (
+        <div className="space-y-3 pt-2 border-t border-slate-100 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="grid grid-cols-3 gap-2">
+            {SPLIT_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => update({ outputSplitMode: mode.id })}
+                className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                  value.outputSplitMode === mode.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+
+          {value.outputSplitMode === 'ranges' && (
+            <div className="space-y-1">
+              <input
+                type="text"
+                placeholder="例如 1-4, 5-10, 11-"
+                value={value.outputRanges}
+                onChange={(e) => update({ outputRanges: e.target.value })}
+                className={`w-full px-2 py-1 text-xs font-bold border rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none ${
+                  rangeWarning ? 'border-rose-300' : 'border-slate-200'
+                }`}
+              />
+              <span className={`text-[9px] font-medium block ${rangeWarning ? 'text-rose-500' : 'text-slate-400'}`}>
+                {rangeWarning ?? '输出页码，每个范围一个文件，未包含的页面不输出'}
+              </span>
+            </div>
+          )}
+
+          {value.outputSplitMode === 'everyN' && (
+            <div className="flex items-center justify-between">
+              <label className="text-[11px] font-bold text-slate-600">每个文件页数</label>
+              <input
+                type="number" min="1"
+                value={value.outputEveryN}
+                onChange={(e) => update({ outputEveryN: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none text-center"
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <label className="text-[11px] font-bold text-slate-600 block">文件名模板</label>
+            <input
+              type="text"
+              value={value.outputFileNameTemplate}
+              onChange={(e) => update({ outputFileNameTemplate: e.target.value })}
+              className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <span className="text-[9px] text-slate-400 font-medium block">
+              {'{name} 原文件名 · {index} 序号 · {start} {end} 起止页 · {sheet} A3 页码'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
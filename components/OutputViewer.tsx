@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { SplitOptions, SplitOutput } from '../types';
+import { getOutputMimeType, groupOutputPages } from '../services/outputFiles';
+import { CutEdge, findContentAtCutEdges, rotateCutEdge } from '../services/outputVerification';
+import { buildPagePlan } from '../services/pagePlan';
+import { formatPageNumber } from '../services/pageNumbering';
+import { loadPdfDocument, renderPageToCanvas } from '../services/pageRenderer';
+import { PageGeometry, computeVisibleSplitRects, visibleToUserRect } from '../services/splitGeometry';
+import { toPreviewPercent } from './SplitOverlay';
+
+interface OutputViewerProps {
+  file: File;
+  outputs: SplitOutput[];
+  options: SplitOptions; // the options the outputs were made with
+  geometries: PageGeometry[];
+  totalPages: number;
+  onAdjustSource: (page: number) => void;
+  onClose: () => void;
+}
+
+// Longest side of both renderings, in CSS pixels
+const RENDER_SIZE = 900;
+
+const EDGE_LABELS: Record<CutEdge, string> = { left: '左', right: '右', top: '上', bottom: '下' };
+
+const renderToUrl = async (pdf: pdfjsLib.PDFDocumentProxy, pageIndex: number) => {
+  const page = await pdf.getPage(pageIndex + 1);
+  const base = page.getViewport({ scale: 1 });
+  const scale = (RENDER_SIZE * (window.devicePixelRatio || 1)) / Math.max(base.width, base.height);
+  const { canvas, viewport } = await renderPageToCanvas(page, scale);
+  page.cleanup();
+  const url = canvas.toDataURL('image/jpeg', 0.9);
+  canvas.width = 0;
+  return { url, viewport };
+};
+
+/**
+ * Shows the generated files page by page next to the source page each one was cut from, and points out
+ * pages whose content runs into a cut edge.
+ */
+export const OutputViewer: React.FC<OutputViewerProps> = ({ file, outputs, options, geometries, totalPages, onAdjustSource, onClose }) => {
+  const plan = useMemo(() => buildPagePlan(totalPages, options), [totalPages, options]);
+  const lastPageNumber = plan.reduce((last, page) => Math.max(last, page.pageNumber ?? 0), 0);
+
+  // Every output page with where to find it: images are one file per page, PDFs follow the output grouping
+  const entries = useMemo(() => {
+    const isImages = options.outputFormat === 'images';
+    const groups = groupOutputPages(plan, options);
+    return groups.flatMap((group, groupIndex) => group.pages.map((outputIndex, pageInFile) => ({ planned: plan[outputIndex], fileIndex: groupIndex, pageInFile })))
+      .map((entry, index) => (isImages ? { ...entry, fileIndex: index, pageInFile: 0 } : entry));
+  }, [plan, options]);
+
+  const [selected, setSelected] = useState(0);
+  const [edgeHits, setEdgeHits] = useState<Map<number, CutEdge[]> | null>(null);
+  const [checkProgress, setCheckProgress] = useState(0);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const [outputImage, setOutputImage] = useState<string | null>(null);
+  const [sourceImage, setSourceImage] = useState<{ url: string; viewport: pdfjsLib.PageViewport } | null>(null);
+  const documentsRef = useRef(new Map<number | 'source', Promise<pdfjsLib.PDFDocumentProxy>>());
+
+  const entry = entries[selected];
+  const visibleEntries = entries
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !showFlaggedOnly || edgeHits?.has(item.planned.outputIndex));
+
+  const openDocument = (key: number | 'source', load: () => Promise<ArrayBuffer>) => {
+    let pdf = documentsRef.current.get(key);
+    if (!pdf) {
+      pdf = load().then(loadPdfDocument);
+      documentsRef.current.set(key, pdf);
+    }
+    return pdf;
+  };
+
+  useEffect(() => () => {
+    documentsRef.current.forEach(pdf => pdf.then(doc => doc.destroy()).catch(() => undefined));
+  }, []);
+
+  // Look for clipped content once, on the source pages
+  useEffect(() => {
+    let isMounted = true;
+    file.arrayBuffer()
+      .then(data => findContentAtCutEdges(data, geometries, options, plan, progress => {
+        if (isMounted) setCheckProgress(progress);
+      }))
+      .then(hits => {
+        if (isMounted) setEdgeHits(hits);
+      })
+      .catch(err => console.error('Output check error:', err));
+    return () => {
+      isMounted = false;
+    };
+  }, [file, geometries, options, plan]);
+
+  // Render the selected output page from the generated bytes, and its source page
+  useEffect(() => {
+    if (!entry) return;
+    let isMounted = true;
+    let objectUrl: string | null = null;
+    setOutputImage(null);
+    setSourceImage(null);
+
+    const output = outputs[entry.fileIndex];
+    const outputUrl = options.outputFormat === 'images'
+      ? Promise.resolve(objectUrl = URL.createObjectURL(new Blob([output.data], { type: getOutputMimeType(output.name) })))
+      : openDocument(entry.fileIndex, async () => output.data.slice().buffer).then(pdf => renderToUrl(pdf, entry.pageInFile)).then(image => image.url);
+    outputUrl
+      .then(url => {
+        if (isMounted) setOutputImage(url);
+      })
+      .catch(err => console.error('Output render error:', err));
+
+    const { sourcePageIndex } = entry.planned;
+    if (sourcePageIndex !== null) {
+      openDocument('source', () => file.arrayBuffer())
+        .then(pdf => renderToUrl(pdf, sourcePageIndex))
+        .then(image => {
+          if (isMounted) setSourceImage(image);
+        })
+        .catch(err => console.error('Source render error:', err));
+    }
+
+    return () => {
+      isMounted = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [entry, outputs, file, options.outputFormat]);
+
+  // Arrow keys step through the pages, Escape closes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        const position = visibleEntries.findIndex(({ index }) => index === selected);
+        const next = visibleEntries[position + (event.key === 'ArrowLeft' ? -1 : 1)];
+        if (next) setSelected(next.index);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const sourceIndex = entry?.planned.sourcePageIndex ?? null;
+  const geometry = sourceIndex !== null ? geometries[sourceIndex] : undefined;
+  const part = sourceIndex !== null && geometry ? computeVisibleSplitRects(geometry, options, sourceIndex)[entry.planned.part] : undefined;
+  const partRect = part && geometry && sourceImage ? toPreviewPercent(sourceImage.viewport, visibleToUserRect(geometry, part)) : null;
+  const currentHits = entry ? edgeHits?.get(entry.planned.outputIndex) ?? [] : [];
+  // The hits are edges of the output page; the source shows the part before the organizer turned it
+  const sourceHits = entry ? currentHits.map(edge => rotateCutEdge(edge, -entry.planned.rotation)) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl w-full h-full max-w-7xl flex flex-col overflow-hidden">
+        <div className="px-5 py-3 border-b border-slate-200 flex items-center gap-4">
+          <h3 className="text-sm font-black text-slate-700">检查输出结果</h3>
+          <span className="text-[11px] font-bold text-slate-500">共 {entries.length} 页</span>
+          {edgeHits === null ? (
+            <span className="text-[11px] font-bold text-indigo-600">正在检查裁切边 {Math.round(checkProgress)}%</span>
+          ) : (
+            <span className={`text-[11px] font-bold ${edgeHits.size > 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
+              {edgeHits.size > 0 ? `${edgeHits.size} 页的内容碰到裁切边，可能被截断` : '没有内容碰到裁切边'}
+            </span>
+          )}
+          <label className="flex items-center gap-1.5 text-[11px] font-bold text-slate-500">
+            <input type="checkbox" checked={showFlaggedOnly} onChange={(e) => setShowFlaggedOnly(e.target.checked)} className="accent-amber-500" />
+            只看有问题的页
+          </label>
+          <button onClick={onClose} className="ml-auto p-1 text-slate-400 hover:text-slate-700 transition-colors" title="关闭">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <ul className="w-52 flex-shrink-0 overflow-y-auto border-r border-slate-100 divide-y divide-slate-100">
+            {visibleEntries.map(({ item, index }) => {
+              const hits = edgeHits?.get(item.planned.outputIndex);
+              return (
+                <li key={index}>
+                  <button
+                    onClick={() => setSelected(index)}
+                    className={`w-full px-3 py-2 text-left transition-colors ${index === selected ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className="flex items-center justify-between text-[11px] font-bold text-slate-700">
+                      第 {index + 1} 页
+                      {hits && <span className="w-2 h-2 rounded-full bg-amber-500" title="内容碰到裁切边"></span>}
+                    </div>
+                    <div className="text-[10px] font-medium text-slate-400">
+                      {item.planned.sourcePageIndex === null ? '空白页' : `A3 ${item.planned.sourcePageIndex + 1} · Part ${item.planned.part + 1}`}
+                      {options.enablePageNumbering && item.planned.pageNumber !== null && ` · 页码 ${formatPageNumber(options, item.planned.pageNumber, lastPageNumber)}`}
+                      {item.planned.isBlank && ' · 检测为空白'}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {entry && (
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex-1 min-h-0 grid grid-cols-2 gap-6 p-6 bg-slate-100">
+                <figure className="min-h-0 flex flex-col items-center gap-2">
+                  <figcaption className="text-[11px] font-black text-slate-500">
+                    输出第 {selected + 1} 页{outputs.length > 1 && options.outputFormat !== 'images' ? ` · ${outputs[entry.fileIndex].name}` : ''}
+                  </figcaption>
+                  <div className="flex-1 min-h-0 w-full flex items-center justify-center">
+                    {outputImage
+                      ? <img src={outputImage} alt="" className="max-w-full max-h-full shadow-lg bg-white" />
+                      : <div className="animate-spin rounded-full h-8 w-8 border-4 border-indigo-600 border-t-transparent"></div>}
+                  </div>
+                </figure>
+
+                {sourceIndex === null ? (
+                  <div className="flex items-center justify-center text-[11px] font-bold text-slate-400">插入的空白页，没有对应的 A3 页</div>
+                ) : (
+                <figure className="min-h-0 flex flex-col items-center gap-2">
+                  <figcaption className="text-[11px] font-black text-slate-500">
+                    来自 A3 第 {sourceIndex + 1} 页 · Part {entry.planned.part + 1}
+                  </figcaption>
+                  <div className="flex-1 min-h-0 w-full flex items-center justify-center">
+                    {sourceImage ? (
+                      <div className="relative max-w-full max-h-full shadow-lg bg-white">
+                        <img src={sourceImage.url} alt="" className="block max-w-full max-h-full" />
+                        {partRect && (
+                          <div
+                            className="absolute border-2 border-indigo-600 bg-indigo-600/10"
+                            style={{
+                              left: `${partRect.left}%`,
+                              top: `${partRect.top}%`,
+                              width: `${partRect.width}%`,
+                              height: `${partRect.height}%`,
+                              borderLeftColor: sourceHits.includes('left') ? '#f43f5e' : undefined,
+                              borderRightColor: sourceHits.includes('right') ? '#f43f5e' : undefined,
+                              borderTopColor: sourceHits.includes('top') ? '#f43f5e' : undefined,
+                              borderBottomColor: sourceHits.includes('bottom') ? '#f43f5e' : undefined
+                            }}
+                          ></div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="animate-spin rounded-full h-8 w-8 border-4 border-indigo-600 border-t-transparent"></div>
+                    )}
+                  </div>
+                </figure>
+                )}
+              </div>
+
+              <div className="px-5 py-3 border-t border-slate-200 flex items-center gap-3">
+                <button
+                  onClick={() => setSelected(Math.max(0, selected - 1))}
+                  disabled={selected === 0}
+                  className="px-3 py-1 text-[11px] font-bold rounded border border-slate-200 text-slate-600 hover:border-indigo-300 disabled:opacity-30 transition-colors"
+                >
+                  上一页
+                </button>
+                <button
+                  onClick={() => setSelected(Math.min(entries.length - 1, selected + 1))}
+                  disabled={selected === entries.length - 1}
+                  className="px-3 py-1 text-[11px] font-bold rounded border border-slate-200 text-slate-600 hover:border-indigo-300 disabled:opacity-30 transition-colors"
+                >
+                  下一页
+                </button>
+                {currentHits.length > 0 && (
+                  <span className="text-[11px] font-bold text-rose-600">
+                    内容碰到{currentHits.map(edge => EDGE_LABELS[edge]).join('、')}侧裁切边，可能有文字被截断
+                  </span>
+                )}
+                {sourceIndex !== null && (
+                  <button
+                    onClick={() => onAdjustSource(sourceIndex + 1)}
+                    className="ml-auto px-3 py-1.5 text-[11px] font-bold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+                  >
+                    调整 A3 第 {sourceIndex + 1} 页
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
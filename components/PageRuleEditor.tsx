@@ -0,0 +1,116 @@
+import React from 'react';
+import { PageRule, PageRuleAction } from '../types';
+import { parsePageRanges } from '../services/pageRanges';
+
+interface PageRuleEditorProps {
+  rules: PageRule[];
+  onChange: (rules: PageRule[]) => void;
+}
+
+export const RULE_ACTION_LABELS: Record<PageRuleAction, string> = {
+  skip: '不分割',
+  vertical: '垂直 (左右)',
+  horizontal: '水平 (上下)',
+  ratio: '自定义比例',
+  parts: '均分 N 份'
+};
+
+export const PageRuleEditor: React.FC<PageRuleEditorProps> = ({ rules, onChange }) => {
+  const updateRule = (index: number, patch: Partial<PageRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { pages: '', action: 'skip' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-[10px] text-slate-400 font-medium">暂无规则，所有页面使用上方的全局设置。</p>
+      )}
+
+      {rules.map((rule, index) => {
+        const isRangeValid = parsePageRanges(rule.pages) !== null;
+
+        return (
+          <div key={index} className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="1, 3-7, 12-"
+                value={rule.pages}
+                onChange={(e) => updateRule(index, { pages: e.target.value })}
+                className={`flex-1 min-w-0 px-2 py-1 text-xs font-bold border rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none ${
+                  isRangeValid ? 'border-slate-200' : 'border-rose-400 text-rose-600'
+                }`}
+              />
+              <select
+                value={rule.action}
+                onChange={(e) => updateRule(index, { action: e.target.value as PageRuleAction })}
+                className="px-1 py-1 text-[11px] font-bold border border-slate-200 rounded bg-white outline-none"
+              >
+                {(Object.keys(RULE_ACTION_LABELS) as PageRuleAction[]).map(action => (
+                  <option key={action} value={action}>{RULE_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeRule(index)}
+                className="p-1 hover:bg-rose-100 rounded-full transition-colors text-slate-400 hover:text-rose-500"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l18 18" />
+                </svg>
+              </button>
+            </div>
+
+            {(rule.action === 'ratio' || rule.action === 'parts') && (
+              <div className="flex items-center gap-2">
+                {rule.action === 'ratio' ? (
+                  <>
+                    <input
+                      type="range" min="0.1" max="0.9" step="0.01"
+                      value={rule.ratio ?? 0.5}
+                      onChange={(e) => updateRule(index, { ratio: parseFloat(e.target.value) })}
+                      className="flex-1 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                    />
+                    <span className="text-[11px] font-black text-indigo-600 w-10 text-right">
+                      {Math.round((rule.ratio ?? 0.5) * 100)}%
+                    </span>
+                  </>
+                ) : (
+                  <input
+                    type="number" min="1" max="12"
+                    value={rule.parts ?? 2}
+                    onChange={(e) => updateRule(index, { parts: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-16 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+                  />
+                )}
+                <select
+                  value={rule.direction ?? ''}
+                  onChange={(e) => updateRule(index, { direction: (e.target.value || undefined) as PageRule['direction'] })}
+                  className="px-1 py-1 text-[11px] font-bold border border-slate-200 rounded bg-white outline-none"
+                >
+                  <option value="">沿用全局方向</option>
+                  <option value="vertical">垂直 (左右)</option>
+                  <option value="horizontal">水平 (上下)</option>
+                </select>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addRule}
+        className="w-full py-1.5 text-[11px] font-bold rounded-lg border border-dashed border-slate-300 text-slate-500 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+      >
+        + 添加页面规则
+      </button>
+    </div>
+  );
+};
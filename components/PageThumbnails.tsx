@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { SplitOptions } from '../types';
+import { PageImage } from '../services/pageRenderer';
+import { isBlankPart } from '../services/pagePlan';
+import { PageGeometry, computeSplitRects, findPageRule } from '../services/splitGeometry';
+import { toPreviewPercent } from './SplitOverlay';
+
+interface PageThumbnailsProps {
+  images: (PageImage | null)[];
+  geometries: PageGeometry[];
+  options: SplitOptions;
+  totalPages: number;
+  currentPage: number;
+  onSelect: (page: number) => void;
+}
+
+const THUMBNAIL_HEIGHT = 88;
+
+/**
+ * A strip of every source page with its parts outlined, to spot pages that are split wrongly.
+ * Parts detected as blank are greyed out.
+ */
+export const PageThumbnails: React.FC<PageThumbnailsProps> = ({ images, geometries, options, totalPages, currentPage, onSelect }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentPage]);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto px-4 py-3 bg-slate-50 border-t border-slate-100">
+      {Array.from({ length: totalPages }, (_, index) => {
+        const image = images[index];
+        const geometry = geometries[index];
+        const isCurrent = index + 1 === currentPage;
+        const rects = image && geometry ? computeSplitRects(geometry, options, index).map(rect => toPreviewPercent(image.viewport, rect)) : [];
+        const width = image ? (THUMBNAIL_HEIGHT * image.viewport.width) / image.viewport.height : THUMBNAIL_HEIGHT * 1.41;
+
+        return (
+          <button
+            key={index}
+            ref={isCurrent ? currentRef : undefined}
+            onClick={() => onSelect(index + 1)}
+            className={`flex-shrink-0 space-y-1 rounded p-1 transition-colors ${isCurrent ? 'bg-indigo-100' : 'hover:bg-slate-200'}`}
+          >
+            <div className="relative bg-white border border-slate-200 overflow-hidden" style={{ width, height: THUMBNAIL_HEIGHT }}>
+              {image && <img src={image.url} alt="" className="w-full h-full" />}
+              {rects.map((rect, part) => (
+                <div
+                  key={part}
+                  className={`absolute border border-indigo-500/70 ${isBlankPart(options, index, part) ? 'bg-slate-500/30' : ''}`}
+                  style={{ left: `${rect.left}%`, top: `${rect.top}%`, width: `${rect.width}%`, height: `${rect.height}%` }}
+                ></div>
+              ))}
+            </div>
+            <span className={`flex items-center justify-center gap-1 text-[10px] font-bold ${isCurrent ? 'text-indigo-700' : 'text-slate-500'}`}>
+              {index + 1}
+              {findPageRule(options, index) && <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
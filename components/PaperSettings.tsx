@@ -0,0 +1,140 @@
+import React from 'react';
+import { PageScaling, PaperSize, SplitOptions } from '../types';
+
+export type PaperValues = Pick<
+  SplitOptions,
+  'normalizePageSize' | 'paperSize' | 'customPaperSize' | 'paperOrientation' | 'pageScaling' | 'horizontalAlign' | 'verticalAlign'
+>;
+
+interface PaperSettingsProps {
+  value: PaperValues;
+  onChange: (value: PaperValues) => void;
+}
+
+interface ChoiceGroupProps<T extends string> {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const ChoiceGroup = <T extends string>({ options, value, onChange }: ChoiceGroupProps<T>) => (
+  <div className={`grid gap-2 ${options.length === 4 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+    {options.map(opt => (
+      <button
+        key={opt.id}
+        onClick={() => onChange(opt.id)}
+        className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+          value === opt.id ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+        }`}
+      >
+        {opt.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const PaperSettings: React.FC<PaperSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<PaperValues>) => onChange({ ...value, ...patch });
+  const customSize = value.customPaperSize ?? { width: 210, height: 297 };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <label className="text-[11px] font-bold text-slate-600 block">规格化为标准纸张</label>
+          <span className="text-[9px] text-slate-400 font-medium">关闭时仅设置裁切框，页面尺寸随比例变化</span>
+        </div>
+        <button
+          onClick={() => update({ normalizePageSize: !value.normalizePageSize })}
+          className={`w-10 h-5 flex items-center rounded-full p-1 transition-colors duration-200 ${value.normalizePageSize ? 'bg-indigo-600' : 'bg-slate-300'}`}
+        >
+          <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${value.normalizePageSize ? 'translate-x-5' : 'translate-x-0'}`} />
+        </button>
+      </div>
+
+      {value.normalizePageSize && (
+        <div className="space-y-4 pt-2 border-t border-slate-100 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="space-y-2">
+            <label className="text-[11px] font-bold text-slate-600 block">纸张</label>
+            <ChoiceGroup<PaperSize>
+              options={[
+                { id: 'A4', label: 'A4' },
+                { id: 'Letter', label: 'Letter' },
+                { id: 'B5', label: 'B5' },
+                { id: 'custom', label: '自定义' }
+              ]}
+              value={value.paperSize}
+              onChange={paperSize => update({ paperSize })}
+            />
+            {value.paperSize === 'custom' && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number" min="10"
+                  value={customSize.width}
+                  onChange={(e) => update({ customPaperSize: { ...customSize, width: Math.max(10, parseFloat(e.target.value) || 10) } })}
+                  className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+                />
+                <span className="text-[11px] font-bold text-slate-400">×</span>
+                <input
+                  type="number" min="10"
+                  value={customSize.height}
+                  onChange={(e) => update({ customPaperSize: { ...customSize, height: Math.max(10, parseFloat(e.target.value) || 10) } })}
+                  className="w-20 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+                />
+                <span className="text-[11px] font-bold text-slate-400">mm</span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[11px] font-bold text-slate-600 block">纸张方向</label>
+            <ChoiceGroup<PaperValues['paperOrientation']>
+              options={[
+                { id: 'auto', label: '跟随内容' },
+                { id: 'portrait', label: '纵向' },
+                { id: 'landscape', label: '横向' }
+              ]}
+              value={value.paperOrientation}
+              onChange={paperOrientation => update({ paperOrientation })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[11px] font-bold text-slate-600 block">缩放</label>
+            <ChoiceGroup<PageScaling>
+              options={[
+                { id: 'fit', label: '适合' },
+                { id: 'fill', label: '填满' },
+                { id: 'actual', label: '原始大小' }
+              ]}
+              value={value.pageScaling}
+              onChange={pageScaling => update({ pageScaling })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[11px] font-bold text-slate-600 block">对齐</label>
+            <ChoiceGroup<PaperValues['horizontalAlign']>
+              options={[
+                { id: 'left', label: '左' },
+                { id: 'center', label: '水平居中' },
+                { id: 'right', label: '右' }
+              ]}
+              value={value.horizontalAlign}
+              onChange={horizontalAlign => update({ horizontalAlign })}
+            />
+            <ChoiceGroup<PaperValues['verticalAlign']>
+              options={[
+                { id: 'top', label: '上' },
+                { id: 'middle', label: '垂直居中' },
+                { id: 'bottom', label: '下' }
+              ]}
+              value={value.verticalAlign}
+              onChange={verticalAlign => update({ verticalAlign })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+
+interface PasswordPromptProps {
+  message: string;
+  onUnlock: (password: string) => Promise<void>;
+}
+
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({ message, onUnlock }) => {
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submit = async () => {
+    setIsUnlocking(true);
+    try {
+      await onUnlock(password);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-[10px] font-bold text-rose-500 block">{message}</span>
+      <div className="flex gap-2">
+        <input
+          type="password"
+          placeholder="打开密码"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !isUnlocking) submit();
+          }}
+          className="flex-1 min-w-0 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button
+          onClick={submit}
+          disabled={isUnlocking}
+          className="px-3 py-1 text-[10px] font-bold rounded border border-indigo-600 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50 transition-colors"
+        >
+          {isUnlocking ? '解锁中...' : '解锁'}
+        </button>
+      </div>
+    </div>
+  );
+};
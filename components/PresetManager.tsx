@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { SplitOptions, SplitPreset } from '../types';
+import { BUILT_IN_PRESETS, parsePresetFile, serializePresets } from '../services/presets';
+import { DEFAULT_SPLIT_OPTIONS } from '../services/splitDefaults';
+
+interface PresetManagerProps {
+  presets: SplitPreset[];
+  onPresetsChange: (presets: SplitPreset[]) => void;
+  onApply: (options: SplitOptions) => void;
+  getCurrentOptions: () => SplitOptions;
+}
+
+export const PresetManager: React.FC<PresetManagerProps> = ({ presets, onPresetsChange, onApply, getCurrentOptions }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [selectedName, setSelectedName] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isNaming, setIsNaming] = useState(false);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const isUserPreset = presets.some(preset => preset.name === selectedName);
+
+  const handleSelect = (name: string) => {
+    setSelectedName(name);
+    setMessages([]);
+    const preset = [...BUILT_IN_PRESETS, ...presets].find(candidate => candidate.name === name);
+    if (preset) onApply(preset.options);
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const preset = { name, options: getCurrentOptions() };
+    const exists = presets.some(other => other.name === name);
+    onPresetsChange(exists ? presets.map(other => (other.name === name ? preset : other)) : [...presets, preset]);
+    setSelectedName(name);
+    setNewName('');
+    setIsNaming(false);
+    setMessages([exists ? `已更新预设「${name}」` : `已保存预设「${name}」`]);
+  };
+
+  const handleDelete = () => {
+    onPresetsChange(presets.filter(preset => preset.name !== selectedName));
+    setSelectedName('');
+  };
+
+  const handleExport = () => {
+    const exported = isUserPreset ? presets.filter(preset => preset.name === selectedName) : presets;
+    const url = URL.createObjectURL(new Blob([serializePresets(exported)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = isUserPreset ? `${selectedName}.a3preset.json` : 'a3-split-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const presetFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!presetFile) return;
+
+    try {
+      const { presets: imported, warnings } = parsePresetFile(await presetFile.text());
+      const importedNames = new Set(imported.map(preset => preset.name));
+      onPresetsChange([...presets.filter(preset => !importedNames.has(preset.name)), ...imported]);
+      setMessages([`已导入 ${imported.length} 个预设`, ...warnings]);
+    } catch (error) {
+      setMessages([error instanceof Error ? error.message : '导入失败']);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedName}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1.5 text-xs font-bold border border-slate-200 rounded bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <option value="">选择预设...</option>
+          <optgroup label="内置">
+            {BUILT_IN_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="我的预设">
+              {presets.map(preset => (
+                <option key={preset.name} value={preset.name}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isUserPreset && (
+          <button
+            onClick={handleDelete}
+            className="text-[10px] font-bold text-slate-400 hover:text-rose-500 transition-colors whitespace-nowrap"
+          >
+            删除
+          </button>
+        )}
+      </div>
+
+      {isNaming ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            autoFocus
+            placeholder="预设名称"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            className="flex-1 min-w-0 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button onClick={handleSave} className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800">保存</button>
+          <button onClick={() => setIsNaming(false)} className="text-[10px] font-bold text-slate-400 hover:text-slate-600">取消</button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-4 gap-1">
+          {[
+            { label: '存为预设', onClick: () => { setNewName(isUserPreset ? selectedName : ''); setIsNaming(true); } },
+            { label: '导入', onClick: () => importInputRef.current?.click() },
+            { label: '导出', onClick: handleExport, disabled: presets.length === 0 },
+            { label: '恢复默认', onClick: () => { setSelectedName(''); onApply(DEFAULT_SPLIT_OPTIONS); } }
+          ].map(action => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              disabled={action.disabled}
+              className="py-1 px-1 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 disabled:opacity-30 transition-colors"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <ul className="text-[10px] font-medium text-slate-500 space-y-0.5">
+          {messages.map((message, index) => <li key={index}>{message}</li>)}
+        </ul>
+      )}
+
+      <input type="file" ref={importInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { ArrangedPage, SplitOptions } from '../types';
+import { PageImage } from '../services/pageRenderer';
+import { formatPageNumber } from '../services/pageNumbering';
+import { PlannedPage, isBlankPart, isOutputEntry } from '../services/pagePlan';
+import { PageGeometry, computeVisibleSplitRects, visibleToUserRect } from '../services/splitGeometry';
+import { toPreviewPercent } from './SplitOverlay';
+
+interface ResultPagesViewProps {
+  plan: PlannedPage[];
+  arrangement: ArrangedPage[]; // every entry of the organizer, removed ones included, in output order
+  images: (PageImage | null)[];
+  geometries: PageGeometry[];
+  options: SplitOptions;
+  zoom: number;
+  currentPage: number;
+  onSelectSource: (page: number) => void;
+  onArrangementChange: (arrangement: ArrangedPage[]) => void;
+}
+
+// Width of a result page at zoom 1, in CSS pixels
+const PAGE_WIDTH = 150;
+
+// Shape of an inserted blank page (A4 portrait)
+const BLANK_ASPECT = 297 / 210;
+
+const BLANK_PAGE: ArrangedPage = { sourcePageIndex: null, part: 0, rotation: 0 };
+
+/**
+ * The output pages in output order, each cut from the rendering of its source page, and the organizer for them:
+ * pages can be dragged into another order, removed and restored, turned, and blank pages inserted.
+ * Parts detected as blank are marked. Page size normalisation and stamps are not drawn.
+ */
+export const ResultPagesView: React.FC<ResultPagesViewProps> = ({
+  plan, arrangement, images, geometries, options, zoom, currentPage, onSelectSource, onArrangementChange
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const lastPageNumber = plan.reduce((last, page) => Math.max(last, page.pageNumber ?? 0), 0);
+
+  // Entries that become output pages are the planned pages, in the same order
+  let nextOutput = 0;
+  const entries = arrangement.map(entry => ({ entry, planned: isOutputEntry(entry, options) ? plan[nextOutput++] ?? null : null }));
+
+  const update = (index: number, patch: Partial<ArrangedPage>) =>
+    onArrangementChange(arrangement.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  const insertBlank = (index: number) =>
+    onArrangementChange([...arrangement.slice(0, index), BLANK_PAGE, ...arrangement.slice(index)]);
+  const move = (from: number, to: number) => {
+    const next = [...arrangement];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onArrangementChange(next);
+  };
+
+  const controlClass = 'w-6 h-6 flex items-center justify-center rounded text-[10px] font-bold text-slate-500 hover:bg-white hover:text-indigo-600 transition-colors';
+
+  return (
+    <div className="w-full h-full overflow-auto p-6">
+      <div className="flex flex-wrap gap-4 justify-center">
+        {entries.map(({ entry, planned }, index) => {
+          const sourceIndex = entry.sourcePageIndex;
+          const geometry = sourceIndex !== null ? geometries[sourceIndex] : undefined;
+          const image = sourceIndex !== null ? images[sourceIndex] : null;
+          const part = sourceIndex !== null && geometry ? computeVisibleSplitRects(geometry, options, sourceIndex)[entry.part] : undefined;
+          const isQuarterTurn = entry.rotation === 90 || entry.rotation === 270;
+          const aspect = part ? part.height / part.width : BLANK_ASPECT;
+          const width = PAGE_WIDTH * zoom;
+          const height = isQuarterTurn ? width / aspect : width * aspect;
+          // The part before turning; it is turned about the centre of the page frame
+          const innerWidth = isQuarterTurn ? height : width;
+          const innerHeight = isQuarterTurn ? width : height;
+          // The source image, scaled and shifted so that only this part shows through the page frame
+          const crop = image && geometry && part ? toPreviewPercent(image.viewport, visibleToUserRect(geometry, part)) : null;
+          const isFromCurrent = sourceIndex !== null && sourceIndex + 1 === currentPage;
+          const isDetectedBlank = sourceIndex !== null && isBlankPart(options, sourceIndex, entry.part);
+
+          return (
+            <div
+              key={index}
+              draggable
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) move(dragIndex, index);
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`space-y-1.5 group cursor-grab ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
+              <button
+                onClick={() => sourceIndex !== null && onSelectSource(sourceIndex + 1)}
+                className={`relative block bg-white overflow-hidden shadow-md border transition-colors ${
+                  dropIndex === index && dragIndex !== index ? 'border-amber-500 ring-2 ring-amber-200'
+                    : isFromCurrent ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-slate-200 group-hover:border-indigo-300'
+                } ${entry.removed || (isDetectedBlank && !planned) ? 'opacity-40 grayscale' : ''}`}
+                style={{ width, height }}
+                title={sourceIndex !== null ? `来自 A3 第 ${sourceIndex + 1} 页 · Part ${entry.part + 1}` : '插入的空白页'}
+              >
+                {crop && image && (
+                  <div
+                    className="absolute overflow-hidden"
+                    style={{
+                      width: innerWidth,
+                      height: innerHeight,
+                      left: (width - innerWidth) / 2,
+                      top: (height - innerHeight) / 2,
+                      transform: entry.rotation !== 0 ? `rotate(${entry.rotation}deg)` : undefined
+                    }}
+                  >
+                    <img
+                      src={image.url}
+                      alt=""
+                      className="absolute max-w-none"
+                      style={{
+                        width: `${(100 / crop.width) * 100}%`,
+                        height: `${(100 / crop.height) * 100}%`,
+                        left: `${(-crop.left / crop.width) * 100}%`,
+                        top: `${(-crop.top / crop.height) * 100}%`
+                      }}
+                    />
+                  </div>
+                )}
+                {sourceIndex === null && (
+                  <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold text-slate-300">空白页</span>
+                )}
+                {entry.removed && (
+                  <span className="absolute inset-0 flex items-center justify-center text-[11px] font-black text-rose-600">已删除</span>
+                )}
+                {isDetectedBlank && !entry.removed && (
+                  <span className="absolute top-1 left-1 px-1 rounded bg-slate-700/80 text-[9px] font-bold text-white">
+                    {planned ? '空白 · 不编页码' : '空白 · 已删除'}
+                  </span>
+                )}
+                {options.enablePageNumbering && planned && planned.pageNumber !== null && (
+                  <span className="absolute bottom-1 right-1 px-1 rounded bg-amber-100/80 text-[9px] font-bold text-amber-800">
+                    {formatPageNumber(options, planned.pageNumber, lastPageNumber)}
+                  </span>
+                )}
+              </button>
+              <div className="text-[10px] font-bold text-slate-500 text-center">
+                {planned ? `第 ${planned.outputIndex + 1} 页` : '不输出'}
+                {sourceIndex !== null && (
+                  <span className="text-slate-400 font-medium"> · A3 {sourceIndex + 1}{planned && planned.partCount > 1 ? `/${entry.part + 1}` : ''}</span>
+                )}
+              </div>
+              <div className="flex justify-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <button onClick={() => insertBlank(index)} className={controlClass} title="在此页前插入空白页">+</button>
+                {sourceIndex !== null && !entry.removed && (
+                  <>
+                    <button onClick={() => update(index, { rotation: ((entry.rotation + 90) % 360) as ArrangedPage['rotation'] })} className={controlClass} title="顺时针旋转 90°">↻</button>
+                    <button onClick={() => update(index, { rotation: ((entry.rotation + 180) % 360) as ArrangedPage['rotation'] })} className={controlClass} title="旋转 180°">180</button>
+                  </>
+                )}
+                {sourceIndex === null ? (
+                  <button onClick={() => onArrangementChange(arrangement.filter((_, i) => i !== index))} className={controlClass} title="移除空白页">✕</button>
+                ) : (
+                  <button onClick={() => update(index, { removed: !entry.removed })} className={controlClass} title={entry.removed ? '恢复此页' : '删除此页'}>
+                    {entry.removed ? '↺' : '✕'}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <button
+          onClick={() => insertBlank(arrangement.length)}
+          className="self-start flex items-center justify-center border-2 border-dashed border-slate-300 text-[11px] font-bold text-slate-400 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+          style={{ width: PAGE_WIDTH * zoom, height: PAGE_WIDTH * zoom * BLANK_ASPECT }}
+        >
+          + 空白页
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { EdgeInsets, ScanCorrection } from '../types';
+
+interface ScanCorrectionEditorProps {
+  value: ScanCorrection;
+  detected: ScanCorrection | null;
+  deskew: boolean;
+  autoCrop: boolean;
+  showOriginal: boolean;
+  onShowOriginalChange: (showOriginal: boolean) => void;
+  onChange: (value: ScanCorrection) => void;
+}
+
+const EDGE_LABELS: { key: keyof EdgeInsets; label: string }[] = [
+  { key: 'top', label: '上' },
+  { key: 'bottom', label: '下' },
+  { key: 'left', label: '左' },
+  { key: 'right', label: '右' }
+];
+
+// Corrections are stored in points and edited in millimetres
+const toMm = (points: number) => Math.round((points * 25.4 / 72) * 10) / 10;
+const toPt = (mm: number) => (mm * 72) / 25.4;
+
+const isSameCorrection = (a: ScanCorrection, b: ScanCorrection) =>
+  a.angle === b.angle && EDGE_LABELS.every(edge => a.crop[edge.key] === b.crop[edge.key]);
+
+/**
+ * Edits the scan correction of the page being viewed and switches the preview between the scan as it is
+ * and as it will be split.
+ */
+export const ScanCorrectionEditor: React.FC<ScanCorrectionEditorProps> = ({
+  value,
+  detected,
+  deskew,
+  autoCrop,
+  showOriginal,
+  onShowOriginalChange,
+  onChange
+}) => (
+  <div className="px-4 py-2 border-b bg-sky-50 border-sky-100 flex items-center gap-3 flex-wrap">
+    <div className="flex rounded border border-sky-200 overflow-hidden">
+      {[false, true].map(original => (
+        <button
+          key={`${original}`}
+          onClick={() => onShowOriginalChange(original)}
+          className={`px-2 py-0.5 text-[10px] font-bold transition-colors ${
+            showOriginal === original ? 'bg-sky-600 text-white' : 'bg-white text-sky-700'
+          }`}
+        >
+          {original ? '校正前' : '校正后'}
+        </button>
+      ))}
+    </div>
+
+    {deskew && (
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-slate-600 whitespace-nowrap">纠偏</span>
+        <input
+          type="range" min="-5" max="5" step="0.05"
+          value={value.angle}
+          onChange={(e) => onChange({ ...value, angle: parseFloat(e.target.value) })}
+          className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-sky-600"
+        />
+        <input
+          type="number" min="-5" max="5" step="0.05"
+          value={value.angle}
+          onChange={(e) => onChange({ ...value, angle: Math.min(5, Math.max(-5, parseFloat(e.target.value) || 0)) })}
+          className="w-16 px-1 py-0.5 text-[10px] font-bold border border-slate-200 rounded bg-white text-center"
+        />
+        <span className="text-[10px] font-bold text-slate-400">°</span>
+      </div>
+    )}
+
+    {autoCrop && (
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-bold text-slate-600 whitespace-nowrap">裁边 (mm)</span>
+        {EDGE_LABELS.map(edge => (
+          <label key={edge.key} className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+            {edge.label}
+            <input
+              type="number" min="0" step="0.5"
+              value={toMm(value.crop[edge.key])}
+              onChange={(e) => onChange({ ...value, crop: { ...value.crop, [edge.key]: toPt(Math.max(0, parseFloat(e.target.value) || 0)) } })}
+              className="w-12 px-1 py-0.5 text-[10px] font-bold border border-slate-200 rounded bg-white text-center"
+            />
+          </label>
+        ))}
+      </div>
+    )}
+
+    {detected && !isSameCorrection(value, detected) && (
+      <button
+        onClick={() => onChange(detected)}
+        className="ml-auto px-2 py-0.5 text-[10px] font-bold rounded border border-sky-300 bg-white text-sky-700 hover:border-sky-500 transition-colors"
+      >
+        恢复检测值
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,71 @@
+import React from 'react';
+import { SplitOptions } from '../types';
+
+export type ScanValues = Pick<SplitOptions, 'deskew' | 'autoCrop' | 'rasterizeScans' | 'rasterDpi'>;
+
+interface ScanSettingsProps {
+  value: ScanValues;
+  onChange: (value: ScanValues) => void;
+}
+
+const RASTER_DPIS = [150, 200, 300, 400];
+
+const Toggle: React.FC<{ label: string; hint: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, hint, checked, onChange }) => (
+  <div className="flex items-center justify-between">
+    <div className="space-y-0.5">
+      <label className="text-[11px] font-bold text-slate-600 block">{label}</label>
+      <span className="text-[9px] text-slate-400 font-medium">{hint}</span>
+    </div>
+    <button
+      onClick={() => onChange(!checked)}
+      className={`w-10 h-5 flex-shrink-0 flex items-center rounded-full p-1 transition-colors duration-200 ${checked ? 'bg-indigo-600' : 'bg-slate-300'}`}
+    >
+      <div className={`bg-white w-3 h-3 rounded-full shadow-sm transform transition-transform duration-200 ${checked ? 'translate-x-5' : 'translate-x-0'}`} />
+    </button>
+  </div>
+);
+
+export const ScanSettings: React.FC<ScanSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<ScanValues>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <Toggle
+        label="自动纠偏"
+        hint="按文字行检测每页的倾斜角度，分割前转正"
+        checked={value.deskew}
+        onChange={deskew => update({ deskew })}
+      />
+      <Toggle
+        label="自动裁掉扫描黑边"
+        hint="检测每页四周的深色扫描边，并从每一份中去掉"
+        checked={value.autoCrop}
+        onChange={autoCrop => update({ autoCrop })}
+      />
+
+      <div className="space-y-3 pt-2 border-t border-slate-100">
+        <Toggle
+          label="渲染为清理后的图片"
+          hint="校正后按所选分辨率重新渲染，纸色变白；文字将无法再选择"
+          checked={value.rasterizeScans}
+          onChange={rasterizeScans => update({ rasterizeScans })}
+        />
+        {value.rasterizeScans && (
+          <div className="grid grid-cols-4 gap-2">
+            {RASTER_DPIS.map(dpi => (
+              <button
+                key={dpi}
+                onClick={() => update({ rasterDpi: dpi })}
+                className={`py-1.5 px-1 text-[10px] font-bold rounded border transition-all ${
+                  value.rasterDpi === dpi ? 'bg-indigo-50 border-indigo-600 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+                }`}
+              >
+                {dpi} DPI
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { PreviewRect } from './SplitOverlay';
+
+interface SplitLineHandleProps {
+  line: PreviewRect;
+  isVertical: boolean;
+  color: string;
+  label: string;
+  onDrag: (percent: number) => void; // position along the cut axis, in percent of the preview
+  onNudge: (steps: number) => void; // arrow keys: ±1, with Shift ±10
+}
+
+/**
+ * A grip over a cut line of the preview that moves it by dragging or with the arrow keys once focused.
+ */
+export const SplitLineHandle: React.FC<SplitLineHandleProps> = ({ line, isVertical, color, label, onDrag, onNudge }) => {
+  const dragTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const container = event.currentTarget.parentElement;
+    if (!container) return;
+    const bounds = container.getBoundingClientRect();
+    onDrag(isVertical
+      ? ((event.clientX - bounds.left) / bounds.width) * 100
+      : ((event.clientY - bounds.top) / bounds.height) * 100);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const direction = { ArrowLeft: -1, ArrowUp: -1, ArrowRight: 1, ArrowDown: 1 }[event.key];
+    if (!direction) return;
+    event.preventDefault();
+    onNudge(direction * (event.shiftKey ? 10 : 1));
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-orientation={isVertical ? 'horizontal' : 'vertical'}
+      aria-valuenow={Math.round(isVertical ? line.left : line.top)}
+      title={`${label} · 拖动或用方向键微调（Shift 加大步长）`}
+      onPointerDown={(event) => {
+        event.stopPropagation();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        event.currentTarget.focus();
+      }}
+      onPointerMove={(event) => {
+        if (event.currentTarget.hasPointerCapture(event.pointerId)) dragTo(event);
+      }}
+      onKeyDown={handleKeyDown}
+      className={`absolute z-20 group outline-none ${isVertical ? 'cursor-col-resize' : 'cursor-row-resize'}`}
+      style={isVertical
+        ? { left: `${line.left}%`, top: `${line.top}%`, height: `${line.height}%`, width: 16, transform: 'translateX(-50%)' }
+        : { top: `${line.top}%`, left: `${line.left}%`, width: `${line.width}%`, height: 16, transform: 'translateY(-50%)' }}
+    >
+      <div
+        className={`absolute rounded-full shadow-md ring-2 ring-white group-focus:ring-amber-400 ${
+          isVertical ? 'w-2 h-10 left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2' : 'h-2 w-10 top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2'
+        }`}
+        style={{ backgroundColor: color }}
+      ></div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { Box } from '../services/splitGeometry';
+
+/**
+ * A rectangle on the preview canvas, in percent of the canvas size.
+ * Lines are rectangles with zero width or height.
+ */
+export interface PreviewRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Maps a user-space rectangle onto a page rendered with the given viewport, in percent of its size.
+ */
+export const toPreviewPercent = (viewport: pdfjsLib.PageViewport, rect: Box): PreviewRect => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]);
+  return {
+    left: (Math.min(x1, x2) / viewport.width) * 100,
+    top: (Math.min(y1, y2) / viewport.height) * 100,
+    width: (Math.abs(x2 - x1) / viewport.width) * 100,
+    height: (Math.abs(y2 - y1) / viewport.height) * 100
+  };
+};
+
+/**
+ * Text drawn on the preview: left edge and baseline in percent of the canvas, size in CSS pixels.
+ */
+export interface PreviewText {
+  text: string;
+  left: number;
+  top: number;
+  fontSize: number;
+  color: string;
+}
+
+/**
+ * A stamp drawn on the preview: centre in percent of the canvas, size in CSS pixels,
+ * rotation in degrees counter-clockwise like in the PDF.
+ */
+export interface PreviewStamp {
+  text?: string;
+  imageUrl?: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  fontSize: number;
+  color: string;
+  rotation: number;
+  opacity: number;
+}
+
+interface SplitOverlayProps {
+  rects: PreviewRect[];
+  cutLines: PreviewRect[];
+  isVertical: boolean;
+  labels: string[];
+  numberLabels: (PreviewText | null)[];
+  stamps: PreviewStamp[];
+  labelClassName: string;
+  lineColor: string;
+}
+
+// Alternating outline colours so overlapping crop areas stay distinguishable
+const PART_COLORS = ['#4f46e5', '#f43f5e', '#0ea5e9', '#f59e0b'];
+
+export const SplitOverlay: React.FC<SplitOverlayProps> = ({
+  rects,
+  cutLines,
+  isVertical,
+  labels,
+  numberLabels,
+  stamps,
+  labelClassName,
+  lineColor
+}) => {
+  return (
+    <>
+      {cutLines.map((line, index) => (
+        <div
+          key={`line-${index}`}
+          className={`split-line ${isVertical ? 'split-line-v' : 'split-line-h'}`}
+          style={isVertical
+            ? { left: `${line.left}%`, top: `${line.top}%`, bottom: 'auto', height: `${line.height}%`, borderColor: lineColor }
+            : { top: `${line.top}%`, left: `${line.left}%`, right: 'auto', width: `${line.width}%`, borderColor: lineColor }}
+        ></div>
+      ))}
+
+      {rects.map((rect, index) => {
+        const numberLabel = numberLabels[index];
+
+        return (
+          <React.Fragment key={index}>
+            <div
+              className="absolute pointer-events-none z-10"
+              style={{
+                left: `${rect.left}%`,
+                top: `${rect.top}%`,
+                width: `${rect.width}%`,
+                height: `${rect.height}%`,
+                border: `1.5px solid ${PART_COLORS[index % PART_COLORS.length]}`,
+                backgroundColor: `${PART_COLORS[index % PART_COLORS.length]}0d`
+              }}
+            ></div>
+            <div
+              className={`page-label ${labelClassName}`}
+              style={{ top: `calc(${rect.top}% + 20px)`, left: `calc(${rect.left}% + 20px)` }}
+            >
+              {labels[index]}
+            </div>
+            {numberLabel && (
+              <div
+                className="absolute whitespace-nowrap pointer-events-none z-20 leading-none bg-amber-100/60 outline outline-1 outline-amber-300"
+                style={{
+                  left: `${numberLabel.left}%`,
+                  top: `${numberLabel.top}%`,
+                  fontSize: `${numberLabel.fontSize}px`,
+                  color: numberLabel.color,
+                  fontFamily: 'Helvetica, Arial, sans-serif',
+                  transform: 'translateY(-80%)'
+                }}
+              >
+                {numberLabel.text}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {stamps.map((stamp, index) => (
+        <div
+          key={`stamp-${index}`}
+          className="absolute whitespace-nowrap pointer-events-none z-20 flex items-center justify-center"
+          style={{
+            left: `${stamp.left}%`,
+            top: `${stamp.top}%`,
+            width: `${stamp.width}px`,
+            height: `${stamp.height}px`,
+            fontSize: `${stamp.fontSize}px`,
+            lineHeight: 1,
+            color: stamp.color,
+            opacity: stamp.opacity,
+            fontFamily: 'Helvetica, Arial, sans-serif',
+            transform: `translate(-50%, -50%) rotate(${-stamp.rotation}deg)`
+          }}
+        >
+          {stamp.imageUrl ? <img src={stamp.imageUrl} alt="" className="w-full h-full" /> : stamp.text}
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useRef } from 'react';
+import { SplitOptions, Stamp, StampPosition } from '../types';
+import { parsePageRanges } from '../services/pageRanges';
+
+interface StampEditorProps {
+  stamps: Stamp[];
+  onChange: (stamps: Stamp[]) => void;
+  font?: SplitOptions['numberFont'];
+  onFontChange: (font: SplitOptions['numberFont']) => void;
+  fontWarning?: string | null;
+}
+
+const POSITIONS: { id: StampPosition; label: string }[] = [
+  { id: 'top-left', label: '左上' },
+  { id: 'top-center', label: '上中' },
+  { id: 'top-right', label: '右上' },
+  { id: 'middle-left', label: '左中' },
+  { id: 'center', label: '正中' },
+  { id: 'middle-right', label: '右中' },
+  { id: 'bottom-left', label: '左下' },
+  { id: 'bottom-center', label: '下中' },
+  { id: 'bottom-right', label: '右下' }
+];
+
+const createStamp = (patch: Partial<Stamp>): Stamp => ({
+  id: crypto.randomUUID(),
+  kind: 'text',
+  text: '',
+  imageWidth: 80,
+  pages: '',
+  position: 'top-center',
+  margin: 15,
+  rotation: 0,
+  opacity: 1,
+  fontSize: 10,
+  color: '#333333',
+  batesStart: 1,
+  batesDigits: 6,
+  ...patch
+});
+
+const PRESETS: { label: string; stamp: Partial<Stamp> }[] = [
+  { label: '页眉', stamp: { text: '{filename}', position: 'top-center' } },
+  { label: '页脚', stamp: { text: '{date}', position: 'bottom-left' } },
+  { label: '斜向水印', stamp: { text: 'CONFIDENTIAL', position: 'center', rotation: 45, opacity: 0.15, fontSize: 60, color: '#e11d48' } },
+  { label: 'Bates 编号', stamp: { text: 'EXAM-2026-{bates}', position: 'bottom-right', fontSize: 9, color: '#000000' } }
+];
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; step?: number; onChange: (value: number) => void }> = ({
+  label, value, min, step, onChange
+}) => (
+  <div className="space-y-1">
+    <label className="text-[10px] font-bold text-slate-500 block">{label}</label>
+    <input
+      type="number" min={min} step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-full px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 outline-none text-center"
+    />
+  </div>
+);
+
+export const StampEditor: React.FC<StampEditorProps> = ({ stamps, onChange, font, onFontChange, fontWarning }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  const updateStamp = (index: number, patch: Partial<Stamp>) => {
+    onChange(stamps.map((stamp, i) => (i === index ? { ...stamp, ...patch } : stamp)));
+  };
+
+  const removeStamp = (index: number) => {
+    onChange(stamps.filter((_, i) => i !== index));
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const imageFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!imageFile) return;
+    if (imageFile.type !== 'image/png' && imageFile.type !== 'image/jpeg') {
+      alert('印章图片仅支持 PNG 或 JPG。');
+      return;
+    }
+
+    const data = new Uint8Array(await imageFile.arrayBuffer());
+    const bitmap = await createImageBitmap(imageFile);
+    const image = {
+      name: imageFile.name,
+      data,
+      format: imageFile.type === 'image/png' ? 'png' as const : 'jpg' as const,
+      width: bitmap.width,
+      height: bitmap.height
+    };
+    bitmap.close();
+
+    onChange([...stamps, createStamp({ kind: 'image', image, position: 'top-right' })]);
+  };
+
+  const handleFontChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fontFile = e.target.files?.[0];
+    if (!fontFile) return;
+    onFontChange({ name: fontFile.name, data: new Uint8Array(await fontFile.arrayBuffer()) });
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => onChange([...stamps, createStamp(preset.stamp)])}
+            className="px-2 py-1 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors"
+          >
+            + {preset.label}
+          </button>
+        ))}
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          className="px-2 py-1 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors"
+        >
+          + 图片
+        </button>
+      </div>
+
+      {stamps.length === 0 ? (
+        <p className="text-[10px] text-slate-400 font-medium">暂无印章。可添加页眉、页脚、水印或 Bates 编号。</p>
+      ) : (
+        <p className="text-[9px] text-slate-400 font-medium">
+          变量: {'{page}'} {'{total}'} {'{sourcePage}'} {'{filename}'} {'{date}'} {'{bates}'}，页码范围按输出页计算
+        </p>
+      )}
+
+      {stamps.map((stamp, index) => {
+        const isRangeValid = stamp.pages.trim() === '' || parsePageRanges(stamp.pages) !== null;
+
+        return (
+          <div key={stamp.id} className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+            <div className="flex items-center gap-2">
+              {stamp.kind === 'text' ? (
+                <input
+                  type="text"
+                  placeholder="印章文字"
+                  value={stamp.text}
+                  onChange={(e) => updateStamp(index, { text: e.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1 text-xs font-bold border border-slate-200 rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 text-[11px] font-bold text-slate-600 truncate">🖼 {stamp.image?.name}</span>
+              )}
+              <button
+                onClick={() => removeStamp(index)}
+                className="p-1 hover:bg-rose-100 rounded-full transition-colors text-slate-400 hover:text-rose-500"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l18 18" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="全部页面"
+                value={stamp.pages}
+                onChange={(e) => updateStamp(index, { pages: e.target.value })}
+                className={`flex-1 min-w-0 px-2 py-1 text-xs font-bold border rounded bg-slate-50 focus:ring-2 focus:ring-indigo-500 outline-none ${
+                  isRangeValid ? 'border-slate-200' : 'border-rose-400 text-rose-600'
+                }`}
+              />
+              <select
+                value={stamp.position}
+                onChange={(e) => updateStamp(index, { position: e.target.value as StampPosition })}
+                className="px-1 py-1 text-[11px] font-bold border border-slate-200 rounded bg-white outline-none"
+              >
+                {POSITIONS.map(position => (
+                  <option key={position.id} value={position.id}>{position.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {stamp.kind === 'text' ? (
+                <>
+                  <NumberField label="字号 (pt)" value={stamp.fontSize} min={4} onChange={fontSize => updateStamp(index, { fontSize: Math.max(4, fontSize) })} />
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-500 block">颜色</label>
+                    <input
+                      type="color"
+                      value={stamp.color}
+                      onChange={(e) => updateStamp(index, { color: e.target.value })}
+                      className="w-full h-[26px] border border-slate-200 rounded bg-slate-50 cursor-pointer"
+                    />
+                  </div>
+                </>
+              ) : (
+                <NumberField label="宽度 (pt)" value={stamp.imageWidth} min={1} onChange={imageWidth => updateStamp(index, { imageWidth: Math.max(1, imageWidth) })} />
+              )}
+              <NumberField label="边距 (pt)" value={stamp.margin} min={0} onChange={margin => updateStamp(index, { margin: Math.max(0, margin) })} />
+              <NumberField label="旋转 (°)" value={stamp.rotation} step={5} onChange={rotation => updateStamp(index, { rotation })} />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] font-bold text-slate-500 whitespace-nowrap">不透明度</label>
+              <input
+                type="range" min="0.05" max="1" step="0.05"
+                value={stamp.opacity}
+                onChange={(e) => updateStamp(index, { opacity: parseFloat(e.target.value) })}
+                className="flex-1 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+              <span className="text-[10px] font-black text-indigo-600 w-8 text-right">{Math.round(stamp.opacity * 100)}%</span>
+            </div>
+
+            {stamp.kind === 'text' && stamp.text.includes('{bates}') && (
+              <div className="grid grid-cols-2 gap-2 pt-2 border-t border-dashed border-slate-200">
+                <NumberField label="Bates 起始编号" value={stamp.batesStart} min={0} onChange={batesStart => updateStamp(index, { batesStart: Math.max(0, Math.floor(batesStart)) })} />
+                <NumberField label="Bates 位数" value={stamp.batesDigits} min={1} onChange={batesDigits => updateStamp(index, { batesDigits: Math.min(12, Math.max(1, Math.floor(batesDigits))) })} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {stamps.some(stamp => stamp.kind === 'text') && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[10px] text-slate-400 font-medium truncate">字体 (与页码共用): {font ? font.name : 'Helvetica (仅支持西文)'}</p>
+          <button
+            onClick={() => fontInputRef.current?.click()}
+            className="px-2 py-0.5 text-[10px] font-bold rounded border border-slate-200 bg-white text-slate-600 hover:border-indigo-400 transition-colors whitespace-nowrap"
+          >
+            上传 TTF/OTF
+          </button>
+        </div>
+      )}
+      {fontWarning && <p className="text-[10px] font-bold text-rose-500">{fontWarning}</p>}
+      <input type="file" ref={fontInputRef} onChange={handleFontChange} accept=".ttf,.otf" className="hidden" />
+      <input type="file" ref={imageInputRef} onChange={handleImageChange} accept=".png,.jpg,.jpeg" className="hidden" />
+    </div>
+  );
+};
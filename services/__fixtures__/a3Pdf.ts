@@ -0,0 +1,20 @@
+import { PDFDocument, degrees } from 'pdf-lib';
+
+export const A3 = { width: 1190.55, height: 841.89 };
+
+/**
+ * A PDF of landscape A3 pages as displayed, each with a rectangle of content on its left half.
+ * Pages turned by a quarter are stored in portrait.
+ */
+export const makeA3Pdf = async (pageCount: number, rotation = 0): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    const page = doc.addPage(rotation % 180 === 0 ? [A3.width, A3.height] : [A3.height, A3.width]);
+    page.setRotation(degrees(rotation));
+    page.drawRectangle({ x: 100, y: 100, width: 200, height: 100 });
+  }
+  return doc.save();
+};
+
+export const makeA3File = async (pageCount: number, rotation = 0, name = 'scan.pdf'): Promise<File> =>
+  new File([await makeA3Pdf(pageCount, rotation)], name, { type: 'application/pdf' });
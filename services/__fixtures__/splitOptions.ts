@@ -0,0 +1,8 @@
+import { SplitOptions } from '../../types';
+import { withDefaultOptions } from '../splitDefaults';
+
+/**
+ * Options for tests: the defaults with a plain left/right split and lengths in points, overridden by `options`.
+ */
+export const makeOptions = (options: Partial<SplitOptions> = {}): SplitOptions =>
+  withDefaultOptions({ orientation: 'vertical', marginUnit: 'pt', ...options });
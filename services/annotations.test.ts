@@ -0,0 +1,61 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { SplitOptions } from '../types';
+import { A3 } from './__fixtures__/a3Pdf';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { splitPdfOutputs } from './pdfService';
+
+/**
+ * One A3 page with a filled-in text field on its left half and a sticky note on its right half.
+ * A non-Latin value is stored without an appearance, as some form fillers do.
+ */
+const makeAnnotatedPdf = async (value: string): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([A3.width, A3.height]);
+  const field = doc.getForm().createTextField('name');
+  field.addToPage(page, { x: 100, y: 600, width: 200, height: 24 });
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    field.setText(value);
+  } else {
+    field.acroField.dict.set(PDFName.of('V'), PDFHexString.fromText(value));
+    field.acroField.getWidgets().forEach(widget => widget.dict.delete(PDFName.of('AP')));
+  }
+  page.node.addAnnot(doc.context.register(doc.context.obj({
+    Type: 'Annot', Subtype: 'Text', Rect: [900, 600, 920, 620], Contents: 'Check this',
+  })));
+  return doc.save({ updateFieldAppearances: false });
+};
+
+const split = async (options: Partial<SplitOptions>, value = 'Alice'): Promise<PDFDocument> => {
+  const [output] = await splitPdfOutputs(await makeAnnotatedPdf(value), 'form.pdf', makeOptions(options), () => undefined);
+  return PDFDocument.load(output.data);
+};
+
+const subtypesByPage = (doc: PDFDocument): string[][] =>
+  doc.getPages().map(page => (page.node.Annots()?.asArray() ?? []).map((_, i) => {
+    const annot = page.node.Annots()!.lookup(i, PDFDict);
+    return `${annot.get(PDFName.of('Subtype'))}`;
+  }));
+
+describe('annotations and form fields of the split output', () => {
+  it('puts every annotation on the part it sits on and keeps the form working', async () => {
+    const output = await split({});
+    expect(subtypesByPage(output)).toEqual([['/Widget'], ['/Text']]);
+    expect(output.getForm().getTextField('name').getText()).toBe('Alice');
+  });
+
+  it('strips every annotation, form widgets included', async () => {
+    const output = await split({ annotationHandling: 'strip' });
+    expect(subtypesByPage(output)).toEqual([[], []]);
+  });
+
+  it('flattens the form into the page', async () => {
+    const output = await split({ formFieldHandling: 'flatten' });
+    expect(subtypesByPage(output)).toEqual([[], ['/Text']]);
+    expect(output.getForm().getFields()).toHaveLength(0);
+  });
+
+  it('reports a form that cannot be flattened', async () => {
+    await expect(split({ formFieldHandling: 'flatten' }, '张三')).rejects.toMatchObject({ kind: 'unflattenable' });
+  });
+});
@@ -0,0 +1,190 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFObjectCopier, PDFPage, PDFRef, PDFString } from 'pdf-lib';
+import { SplitOptions } from '../types';
+import { PartPlacement, addAnnotation } from './documentStructure';
+import { PDF_ERROR_MESSAGES, PdfError } from './pdfErrors';
+import { Box } from './splitGeometry';
+
+// Annotations (comments, highlights, form widgets ...) are taken off the source pages before they are copied,
+// so a page copied once per part does not carry all of them on every part. Each one is then put back on the
+// part its rectangle is centred in. Link annotations are not handled here but in documentStructure.
+
+const isSubtype = (dict: PDFDict, subtype: string): boolean => dict.lookup(PDFName.of('Subtype')) === PDFName.of(subtype);
+
+/**
+ * Draws form fields into the page content and removes them. Existing appearances are used where
+ * every field has one; otherwise pdf-lib regenerates them, which only works for Latin text.
+ * Throws an unflattenable PdfError when neither works.
+ */
+const flattenForm = (doc: PDFDocument): void => {
+  const form = doc.getForm();
+  if (form.getFields().length === 0) return;
+  try {
+    form.flatten({ updateFieldAppearances: false });
+  } catch {
+    try {
+      form.flatten();
+    } catch {
+      throw new PdfError('unflattenable', PDF_ERROR_MESSAGES.unflattenable);
+    }
+  }
+};
+
+/**
+ * Removes the annotations from every source page and returns them by page, for attachAnnotations.
+ * Forms are flattened first when asked to; when annotations are stripped nothing is returned.
+ */
+export const detachAnnotations = (doc: PDFDocument, options: SplitOptions): PDFObject[][] => {
+  if (options.formFieldHandling === 'flatten') flattenForm(doc);
+
+  return doc.getPages().map(page => {
+    const entries = page.node.Annots()?.asArray() ?? [];
+    page.node.delete(PDFName.of('Annots'));
+    if (options.annotationHandling === 'strip') return [];
+
+    // The optional page back-reference would pull the whole source page along when copied
+    entries.forEach(entry => {
+      const annot = doc.context.lookup(entry);
+      if (annot instanceof PDFDict) annot.delete(PDFName.of('P'));
+    });
+    return entries;
+  });
+};
+
+// Moves the points of a flat [x1 y1 x2 y2 ...] array
+const mapPointArray = (array: PDFArray, toPage: NonNullable<PartPlacement['toPage']>): number[] => {
+  const values = array.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : 0));
+  const mapped: number[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    const point = toPage(values[i], values[i + 1]);
+    mapped.push(point.x, point.y);
+  }
+  return mapped;
+};
+
+/**
+ * Copies the annotations of a source page that are centred inside `box` onto the part's page.
+ * Pop-ups follow the annotation they belong to. On scaled or turned parts the rectangle and
+ * highlight quads are moved with `toPage`; viewers fit the appearance into the new rectangle.
+ */
+export const attachAnnotations = (
+  page: PDFPage,
+  entries: PDFObject[],
+  source: PDFDocument,
+  copier: PDFObjectCopier,
+  box: Box,
+  toPage?: PartPlacement['toPage']
+): void => {
+  const lookup = (entry: PDFObject | undefined) => {
+    const value = entry ? source.context.lookup(entry) : undefined;
+    return value instanceof PDFDict ? value : undefined;
+  };
+
+  const chosen = new Set<PDFDict>();
+  for (const entry of entries) {
+    const annot = lookup(entry);
+    const rect = annot?.lookup(PDFName.of('Rect'));
+    if (!annot || isSubtype(annot, 'Popup') || !(rect instanceof PDFArray)) continue;
+    const { x, y, width, height } = rect.asRectangle();
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+    if (centerX >= box.x && centerX <= box.x + box.width && centerY >= box.y && centerY <= box.y + box.height) {
+      chosen.add(annot);
+    }
+  }
+
+  const { context } = page.doc;
+  for (const entry of entries) {
+    const annot = lookup(entry);
+    if (!annot) continue;
+    const belongs = isSubtype(annot, 'Popup') ? chosen.has(lookup(annot.get(PDFName.of('Parent')))!) : chosen.has(annot);
+    if (!belongs) continue;
+
+    const copied = copier.copy(entry);
+    const copiedAnnot = context.lookup(copied);
+    if (toPage && copiedAnnot instanceof PDFDict) {
+      for (const key of ['Rect', 'QuadPoints']) {
+        const points = copiedAnnot.lookup(PDFName.of(key));
+        if (!(points instanceof PDFArray)) continue;
+        let mapped = mapPointArray(points, toPage);
+        if (key === 'Rect') {
+          const xs = [mapped[0], mapped[2]];
+          const ys = [mapped[1], mapped[3]];
+          mapped = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+        }
+        copiedAnnot.set(PDFName.of(key), context.obj(mapped));
+      }
+    }
+    addAnnotation(page, copied instanceof PDFRef ? copied : context.register(copied));
+  }
+};
+
+const decodeName = (value: PDFObject | undefined): string | null =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : null;
+
+/**
+ * Gives a document made of copied pages a working form: collects the fields of the widgets on its pages,
+ * drops widgets that ended up on no page and renames top-level fields whose names clash with "_2", "_3" ...
+ * Default appearance settings are copied from `source` when given.
+ */
+export const rebuildAcroForm = (target: PDFDocument, source?: PDFDocument): void => {
+  const { context } = target;
+  const placed = new Set<PDFDict>();
+  const roots: { ref: PDFRef; dict: PDFDict }[] = [];
+
+  for (const page of target.getPages()) {
+    const annots = page.node.Annots();
+    annots?.asArray().forEach((entry, i) => {
+      const widget = annots.lookup(i);
+      if (!(widget instanceof PDFDict) || !isSubtype(widget, 'Widget') || !(entry instanceof PDFRef)) return;
+      placed.add(widget);
+
+      let ref = entry;
+      let node = widget;
+      for (let parent = node.get(PDFName.of('Parent')); parent instanceof PDFRef; parent = node.get(PDFName.of('Parent'))) {
+        const parentDict = context.lookup(parent);
+        if (!(parentDict instanceof PDFDict) || parentDict === node) break;
+        ref = parent;
+        node = parentDict;
+      }
+      if (!roots.some(root => root.dict === node)) roots.push({ ref, dict: node });
+    });
+  }
+
+  if (roots.length === 0) {
+    target.catalog.delete(PDFName.of('AcroForm'));
+    return;
+  }
+
+  const pruneKids = (field: PDFDict) => {
+    const kids = field.lookup(PDFName.of('Kids'));
+    if (!(kids instanceof PDFArray)) return;
+    for (let i = kids.size() - 1; i >= 0; i--) {
+      const kid = kids.lookup(i);
+      if (!(kid instanceof PDFDict)) continue;
+      if (isSubtype(kid, 'Widget') && !placed.has(kid)) kids.remove(i);
+      else pruneKids(kid);
+    }
+  };
+
+  const usedNames = new Set<string>();
+  for (const { dict } of roots) {
+    pruneKids(dict);
+    const name = decodeName(dict.lookup(PDFName.of('T')));
+    if (name === null) continue;
+    let unique = name;
+    for (let n = 2; usedNames.has(unique); n++) unique = `${name}_${n}`;
+    usedNames.add(unique);
+    if (unique !== name) dict.set(PDFName.of('T'), PDFHexString.fromText(unique));
+  }
+
+  const acroForm = context.obj({ Fields: roots.map(({ ref }) => ref) });
+  const sourceForm = source?.catalog.lookup(PDFName.of('AcroForm'));
+  if (source && sourceForm instanceof PDFDict) {
+    const copier = PDFObjectCopier.for(source.context, context);
+    for (const key of ['DA', 'DR', 'Q', 'NeedAppearances']) {
+      const value = sourceForm.get(PDFName.of(key));
+      if (value) acroForm.set(PDFName.of(key), copier.copy(value));
+    }
+  }
+  target.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+};
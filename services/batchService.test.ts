@@ -0,0 +1,72 @@
+import { unzipSync } from 'fflate';
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+import { BatchJob } from '../types';
+import { makeA3File, makeA3Pdf } from './__fixtures__/a3Pdf';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { createBatchJob, createZip, mergePdfs, runBatchQueue } from './batchService';
+import { detectGutters } from './gutterDetection';
+
+// Gutter detection renders with pdfjs on a canvas; here it only stands in for a long detection
+vi.mock('./gutterDetection', () => ({ detectGutters: vi.fn() }));
+
+const runQueue = async (jobs: BatchJob[]): Promise<Map<string, Partial<BatchJob>>> => {
+  const updates = new Map<string, Partial<BatchJob>>();
+  await runBatchQueue(jobs, makeOptions(), (id, patch) => updates.set(id, { ...updates.get(id), ...patch }));
+  return updates;
+};
+
+describe('runBatchQueue', () => {
+  it('keeps going after a file fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const broken = createBatchJob(new File([new Uint8Array([1, 2, 3])], 'broken.pdf'));
+    const good = createBatchJob(await makeA3File(1));
+
+    const updates = await runQueue([broken, good]);
+    expect(updates.get(broken.id)?.status?.step).toBe('error');
+    expect(updates.get(good.id)?.status?.step).toBe('completed');
+    expect((await PDFDocument.load(updates.get(good.id)!.outputs![0].data)).getPageCount()).toBe(2);
+  });
+
+  it('passes the cancel signal to detection and puts the interrupted file back to waiting', async () => {
+    const controller = new AbortController();
+    vi.mocked(detectGutters).mockImplementation(async (_data, _geometries, _options, _onProgress, signal) => {
+      controller.abort(new Error('cancelled'));
+      signal?.throwIfAborted();
+      return [];
+    });
+    const first = createBatchJob(await makeA3File(1));
+    const second = createBatchJob(await makeA3File(1));
+    const updates = new Map<string, Partial<BatchJob>>();
+
+    await runBatchQueue([first, second], makeOptions({ autoDetectGutter: true }), (id, patch) => updates.set(id, patch), controller.signal);
+    expect(vi.mocked(detectGutters).mock.calls[0][4]).toBe(controller.signal);
+    expect(updates.get(first.id)?.status).toMatchObject({ step: 'idle', message: '已取消' });
+    expect(updates.has(second.id)).toBe(false);
+  });
+
+  it('skips completed jobs when run again', async () => {
+    const done = { ...createBatchJob(await makeA3File(1)), status: { step: 'completed' as const, progress: 100, message: '' } };
+    const updates = await runQueue([done]);
+    expect(updates.has(done.id)).toBe(false);
+  });
+});
+
+describe('createZip', () => {
+  it('numbers duplicate names', () => {
+    const zip = unzipSync(createZip([
+      { name: 'a.pdf', data: new Uint8Array([1]) },
+      { name: 'a.pdf', data: new Uint8Array([2]) },
+      { name: 'a.pdf', data: new Uint8Array([3]) },
+    ]));
+    expect(Object.keys(zip)).toEqual(['a.pdf', 'a (2).pdf', 'a (3).pdf']);
+    expect(zip['a (3).pdf']).toEqual(new Uint8Array([3]));
+  });
+});
+
+describe('mergePdfs', () => {
+  it('concatenates the documents in order', async () => {
+    const merged = await PDFDocument.load(await mergePdfs([await makeA3Pdf(1), await makeA3Pdf(2, 90)]));
+    expect(merged.getPages().map(page => page.getRotation().angle)).toEqual([0, 90, 90]);
+  });
+});
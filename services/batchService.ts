@@ -0,0 +1,118 @@
+import { zipSync } from 'fflate';
+import { PDFDocument } from 'pdf-lib';
+import { BatchJob, ProcessingStatus, SplitOptions } from '../types';
+import { rebuildAcroForm } from './annotations';
+import { detectInkCoverage } from './blankDetection';
+import { detectGutters } from './gutterDetection';
+import { describeSizeChange } from './outputFiles';
+import { toErrorStatus } from './pdfErrors';
+import { detectScanCorrections } from './scanDetection';
+import { readPageGeometries } from './splitGeometry';
+import { splitInWorker } from './splitWorkerClient';
+
+export const createBatchJob = (file: File): BatchJob => ({
+  id: crypto.randomUUID(),
+  file,
+  status: { step: 'idle', progress: 0, message: '等待处理' },
+});
+
+/**
+ * Processes the jobs one after another with the same options. Completed jobs are skipped, so calling this
+ * again after a failure only retries what is left. A failing file does not stop the queue; aborting the
+ * signal does, and puts the interrupted file back to waiting.
+ */
+export const runBatchQueue = async (
+  jobs: BatchJob[],
+  options: SplitOptions,
+  onJobUpdate: (id: string, patch: Partial<BatchJob>) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  for (const job of jobs) {
+    if (signal?.aborted) return;
+    if (job.status.step === 'completed') continue;
+
+    const setStatus = (status: ProcessingStatus) => onJobUpdate(job.id, { status });
+
+    try {
+      // Detected gutters, scan corrections and ink coverage belong to one file, so every file gets its own
+      // detection run; the organizer's page arrangement and restored blank parts are left out for the same reason
+      let jobOptions: SplitOptions = {
+        ...options,
+        gutterDetections: undefined,
+        scanCorrections: undefined,
+        pageArrangement: undefined,
+        inkCoverage: undefined,
+        restoredBlankParts: undefined,
+      };
+      const geometries = options.autoDetectGutter || options.deskew || options.autoCrop || options.detectBlankPages
+        ? await readPageGeometries(await job.file.arrayBuffer())
+        : [];
+      if (options.deskew || options.autoCrop) {
+        setStatus({ step: 'loading', progress: 0, message: '正在检测扫描倾斜和黑边...' });
+        const scanCorrections = await detectScanCorrections(await job.file.arrayBuffer(), geometries, progress => {
+          setStatus({ step: 'loading', progress, message: `检测扫描倾斜和黑边: ${Math.round(progress)}%` });
+        }, signal);
+        jobOptions = { ...jobOptions, scanCorrections };
+      }
+      if (options.autoDetectGutter) {
+        setStatus({ step: 'loading', progress: 0, message: '正在检测装订线...' });
+        const gutterDetections = await detectGutters(await job.file.arrayBuffer(), geometries, jobOptions, progress => {
+          setStatus({ step: 'loading', progress, message: `检测装订线: ${Math.round(progress)}%` });
+        }, signal);
+        jobOptions = { ...jobOptions, gutterDetections };
+      }
+      if (options.detectBlankPages) {
+        setStatus({ step: 'loading', progress: 0, message: '正在检测空白页...' });
+        const inkCoverage = await detectInkCoverage(await job.file.arrayBuffer(), geometries, jobOptions, progress => {
+          setStatus({ step: 'loading', progress, message: `检测空白页: ${Math.round(progress)}%` });
+        }, signal);
+        jobOptions = { ...jobOptions, inkCoverage };
+      }
+
+      setStatus({ step: 'processing', progress: 0, message: '正在处理...' });
+      const outputs = await splitInWorker(job.file, jobOptions, progress => {
+        setStatus({ step: 'processing', progress, message: `处理进度: ${Math.round(progress)}%` });
+      }, signal);
+      const sizeChange = describeSizeChange(job.file.size, outputs.reduce((total, output) => total + output.data.length, 0));
+      const message = outputs.length > 1 ? `完成 · ${outputs.length} 个文件 · ${sizeChange}` : `完成 · ${sizeChange}`;
+      onJobUpdate(job.id, { outputs, status: { step: 'completed', progress: 100, message } });
+    } catch (error) {
+      if (signal?.aborted) {
+        setStatus({ step: 'idle', progress: 0, message: '已取消' });
+        return;
+      }
+      console.error(error);
+      setStatus(toErrorStatus(error));
+    }
+  }
+};
+
+/**
+ * Packs files into an uncompressed ZIP (PDFs are already compressed). Duplicate names get a numeric suffix.
+ */
+export const createZip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const entries: Record<string, Uint8Array> = {};
+  for (const { name, data } of files) {
+    let entryName = name;
+    for (let n = 2; entryName in entries; n++) {
+      entryName = name.replace(/(\.[^.]+)?$/, ext => ` (${n})${ext}`);
+    }
+    entries[entryName] = data;
+  }
+  return zipSync(entries, { level: 0 });
+};
+
+/**
+ * Concatenates PDFs into one document, in the given order.
+ */
+export const mergePdfs = async (documents: Uint8Array[]): Promise<Uint8Array> => {
+  const merged = await PDFDocument.create();
+  for (const data of documents) {
+    const source = await PDFDocument.load(data);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+  }
+  // Fields of different files may share names; keep them apart
+  rebuildAcroForm(merged);
+  return merged.save();
+};
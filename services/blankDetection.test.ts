@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { measureInkCoverage } from './blankDetection';
+import { PixelData } from './pageRenderer';
+
+const WIDTH = 100;
+const HEIGHT = 100;
+const page = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+/**
+ * A white page with black pixels where `isInk` says so.
+ */
+const makePage = (isInk: (x: number, y: number) => boolean): PixelData => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (isInk(x, y)) data.fill(0, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+describe('measureInkCoverage', () => {
+  it('returns the share of ink pixels in percent', () => {
+    expect(measureInkCoverage(makePage(() => false), page)).toBe(0);
+    // Every other row is ink
+    expect(measureInkCoverage(makePage((_, y) => y % 2 === 0), page)).toBeCloseTo(50, 0);
+  });
+
+  it('leaves out scanner shadows along the edges', () => {
+    expect(measureInkCoverage(makePage((x, y) => x < 6 || y >= 94), page)).toBe(0);
+  });
+
+  it('only measures the given part', () => {
+    const image = makePage(x => x >= 50);
+    expect(measureInkCoverage(image, { x: 0, y: 0, width: 50, height: HEIGHT })).toBe(0);
+    expect(measureInkCoverage(image, { x: 50, y: 0, width: 50, height: HEIGHT })).toBe(100);
+  });
+});
@@ -0,0 +1,86 @@
+import { SplitOptions } from '../types';
+import { Box, PageGeometry, computeVisibleSplitRects, getScanCorrection, visibleToUserRect } from './splitGeometry';
+import { PixelData, boxToCanvasRegion, isInkPixel, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+import { rotatePixels } from './scanDetection';
+
+// Longest side of the page when rendered for detection, in pixels
+const DETECTION_SIZE = 800;
+
+// Share of every side of a part that is not measured, so scanner shadows along the page edges
+// and the gutter don't make an empty half look printed
+const EDGE_SHARE = 0.06;
+
+/**
+ * Returns the share of ink pixels in a region of a rendered page, in percent, leaving out its edges.
+ */
+export const measureInkCoverage = (image: PixelData, region: Box): number => {
+  const insetX = Math.round(region.width * EDGE_SHARE);
+  const insetY = Math.round(region.height * EDGE_SHARE);
+  const left = Math.max(0, region.x + insetX);
+  const top = Math.max(0, region.y + insetY);
+  const right = Math.min(image.width, region.x + region.width - insetX);
+  const bottom = Math.min(image.height, region.y + region.height - insetY);
+  if (right <= left || bottom <= top) return 0;
+
+  let ink = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      if (isInkPixel(image, x, y)) ink++;
+    }
+  }
+  return (ink / ((right - left) * (bottom - top))) * 100;
+};
+
+/**
+ * Renders every page with pdfjs and measures the ink coverage of each of its parts, cut with the current
+ * settings. Deskewed pages are straightened first, like the output. Returns one entry per source page,
+ * holding the coverage of every part in percent; pages without geometry get null.
+ * When the signal is aborted, detection stops at the next page and the promise rejects with its reason.
+ */
+export const detectInkCoverage = async (
+  data: ArrayBuffer,
+  geometries: PageGeometry[],
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<(number[] | null)[]> => {
+  const pdf = await loadPdfDocument(data);
+  const results: (number[] | null)[] = [];
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      signal?.throwIfAborted();
+      const geometry = geometries[i];
+
+      if (!geometry) {
+        results.push(null);
+      } else {
+        const page = await pdf.getPage(i + 1);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const scale = DETECTION_SIZE / Math.max(baseViewport.width, baseViewport.height);
+        const { canvas, viewport } = await renderPageToCanvas(page, scale);
+        const context = canvas.getContext('2d');
+
+        if (!context) {
+          results.push(null);
+        } else {
+          const region = boxToCanvasRegion(viewport, geometry.box, canvas);
+          const angle = getScanCorrection(options, i)?.angle ?? 0;
+          const rendered = context.getImageData(0, 0, canvas.width, canvas.height);
+          const image = angle !== 0 ? rotatePixels(rendered, region, angle) : rendered;
+          results.push(computeVisibleSplitRects(geometry, options, i).map(part =>
+            measureInkCoverage(image, boxToCanvasRegion(viewport, visibleToUserRect(geometry, part), canvas))
+          ));
+        }
+
+        page.cleanup();
+      }
+
+      onProgress(((i + 1) / pdf.numPages) * 100);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return results;
+};
@@ -0,0 +1,78 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFStream, decodePDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { removeUnreachableObjects, trimPageContent } from './contentTrimming';
+
+// A 1x1 red PNG
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg=='), c => c.charCodeAt(0));
+
+const LEFT = { x: 0, y: 0, width: 400, height: 400 };
+
+const makePage = async () => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([800, 400]);
+  page.drawRectangle({ x: 100, y: 100, width: 50, height: 50 });
+  page.drawRectangle({ x: 600, y: 100, width: 50, height: 50 });
+  page.drawImage(await doc.embedPng(PNG), { x: 500, y: 200, width: 100, height: 100 });
+  await doc.flush();
+  return { doc, page };
+};
+
+const pageContent = (doc: PDFDocument, contents: PDFArray): string =>
+  contents.asArray()
+    .map(ref => new TextDecoder().decode(decodePDFRawStream(doc.context.lookup(ref) as PDFRawStream).decode()))
+    .join('\n');
+
+// The operators that paint a path or an image, in order
+const paints = (content: string) => content.split(/\s+/).filter(token => token === 'f' || token === 'Do');
+
+describe('trimPageContent', () => {
+  it('keeps what reaches into the box, clipped to it, and drops the rest', async () => {
+    const { doc, page } = await makePage();
+
+    expect(trimPageContent(page, LEFT)).toBe(true);
+    const content = pageContent(doc, page.node.Contents() as PDFArray);
+    expect(content).toMatch(/^q 0 0 400 400 re W n/);
+    expect(paints(content)).toEqual(['f']);
+    expect(content.indexOf('100 100 cm')).toBeLessThan(content.indexOf('\nf\n'));
+  });
+
+  it('leaves out resources the trimmed content no longer uses', async () => {
+    const { page } = await makePage();
+
+    trimPageContent(page, LEFT);
+    const xObjects = page.node.Resources()?.lookup(PDFName.of('XObject'));
+    expect(xObjects instanceof PDFDict ? xObjects.keys() : []).toEqual([]);
+  });
+
+  it('only clips content it cannot parse and reports the page as not trimmed', async () => {
+    const { doc, page } = await makePage();
+    page.node.set(PDFName.of('Contents'), doc.context.register(doc.context.flateStream('0 0 m 800 400 l S (unterminated')));
+
+    expect(trimPageContent(page, LEFT)).toBe(false);
+    expect(pageContent(doc, page.node.Contents() as PDFArray)).toContain('(unterminated');
+  });
+
+  it('keeps an image that reaches into the box', async () => {
+    const { doc, page } = await makePage();
+
+    trimPageContent(page, { x: 400, y: 0, width: 400, height: 400 });
+    const content = pageContent(doc, page.node.Contents() as PDFArray);
+    expect(paints(content)).toEqual(['f', 'Do']);
+    expect(content.indexOf('600 100 cm')).toBeLessThan(content.indexOf('\nf\n'));
+  });
+});
+
+describe('removeUnreachableObjects', () => {
+  it('deletes the image only the trimmed-away content used', async () => {
+    const { doc, page } = await makePage();
+    const countStreams = () => doc.context.enumerateIndirectObjects().filter(([, object]) => object instanceof PDFStream).length;
+    const before = countStreams();
+
+    trimPageContent(page, LEFT);
+    removeUnreachableObjects(doc);
+    // The image and the original content are gone; the trimmed content was added
+    expect(countStreams()).toBe(before - 1);
+    const reloaded = await PDFDocument.load(await doc.save());
+    expect(reloaded.getPageCount()).toBe(1);
+  });
+});
@@ -0,0 +1,1008 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContentStream,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { Box } from './splitGeometry';
+
+// Removes what lies outside a part from its copy of the page, so the other half cannot be recovered by
+// removing the crop box. The content stream is parsed and every text run, path, image and form that does
+// not reach into the part is dropped; images that cross the split line are cropped where their encoding
+// allows (uncompressed, Flate or LZW), and forms are filtered the same way as the page. Whatever crosses
+// the line is kept whole and hidden by a clip. Resources that are no longer used are left out of the page.
+
+type Matrix = [number, number, number, number, number, number];
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+type Operand =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'string'; bytes: Uint8Array }
+  | { kind: 'array'; items: Operand[] }
+  | { kind: 'dict'; entries: Map<string, Operand> }
+  | { kind: 'other' };
+
+interface Operation {
+  operator: string;
+  operands: Operand[];
+  start: number; // byte range in the content, operands included
+  end: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Applies m, then n
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const transformBounds = (m: Matrix, minX: number, minY: number, maxX: number, maxY: number): Bounds => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [x, y] of [[minX, minY], [maxX, minY], [minX, maxY], [maxX, maxY]]) {
+    xs.push(m[0] * x + m[2] * y + m[4]);
+    ys.push(m[1] * x + m[3] * y + m[5]);
+  }
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+const invert = (m: Matrix): Matrix | null => {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+};
+
+const intersects = (bounds: Bounds, box: Box): boolean =>
+  bounds.maxX >= box.x && bounds.minX <= box.x + box.width && bounds.maxY >= box.y && bounds.minY <= box.y + box.height;
+
+// Writes a name operand, escaping what is not a regular character
+const formatName = (name: string): string =>
+  `/${[...name].map(char => (/[!-~]/.test(char) && !/[()<>[\]{}/%#]/.test(char) ? char : `#${char.charCodeAt(0).toString(16).padStart(2, '0')}`)).join('')}`;
+
+const formatNumber = (value: number): string => (Number.isInteger(value) ? `${value}` : value.toFixed(4).replace(/\.?0+$/, ''));
+
+// ---------------------------------------------------------------------------------------------------------
+// Content stream parsing
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([...'()<>[]{}/%'].map(char => char.charCodeAt(0)));
+
+const parseContent = (bytes: Uint8Array): Operation[] => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < bytes.length) {
+      if (WHITESPACE.has(bytes[pos])) {
+        pos++;
+      } else if (bytes[pos] === 0x25) {
+        while (pos < bytes.length && bytes[pos] !== 10 && bytes[pos] !== 13) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = (): string => {
+    const start = pos;
+    while (pos < bytes.length && !WHITESPACE.has(bytes[pos]) && !DELIMITERS.has(bytes[pos])) pos++;
+    return String.fromCharCode(...bytes.subarray(start, pos));
+  };
+
+  const readLiteralString = (): Uint8Array => {
+    const out: number[] = [];
+    let depth = 1;
+    pos++;
+    while (pos < bytes.length) {
+      const c = bytes[pos++];
+      if (c === 0x5c) {
+        const next = bytes[pos++];
+        const escapes: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12 };
+        if (next in escapes) {
+          out.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && bytes[pos] >= 0x30 && bytes[pos] <= 0x37; i++) octal = octal * 8 + bytes[pos++] - 0x30;
+          out.push(octal & 0xff);
+        } else if (next === 13) {
+          if (bytes[pos] === 10) pos++;
+        } else if (next !== 10) {
+          out.push(next);
+        }
+      } else if (c === 0x28) {
+        depth++;
+        out.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) return Uint8Array.from(out);
+        out.push(c);
+      } else {
+        out.push(c);
+      }
+    }
+    throw new Error('Unterminated string');
+  };
+
+  const readHexString = (): Uint8Array => {
+    pos++;
+    let digits = '';
+    while (pos < bytes.length && bytes[pos] !== 0x3e) {
+      if (!WHITESPACE.has(bytes[pos])) digits += String.fromCharCode(bytes[pos]);
+      pos++;
+    }
+    pos++;
+    if (digits.length % 2) digits += '0';
+    return Uint8Array.from({ length: digits.length / 2 }, (_, i) => parseInt(digits.substr(i * 2, 2), 16) || 0);
+  };
+
+  // Reads one operand, or returns the keyword that ends the operand list
+  const readObject = (): Operand | { kind: 'keyword'; value: string } | null => {
+    skipWhitespace();
+    if (pos >= bytes.length) return null;
+    const c = bytes[pos];
+
+    if (c === 0x28) return { kind: 'string', bytes: readLiteralString() };
+    if (c === 0x3c && bytes[pos + 1] === 0x3c) {
+      pos += 2;
+      const entries = new Map<string, Operand>();
+      for (;;) {
+        const key = readObject();
+        if (key === null) throw new Error('Unterminated dictionary');
+        if (key.kind === 'keyword' && key.value === '>>') return { kind: 'dict', entries };
+        const value = readObject();
+        if (key.kind !== 'name' || value === null || value.kind === 'keyword') throw new Error('Malformed dictionary');
+        entries.set(key.value, value);
+      }
+    }
+    if (c === 0x3e && bytes[pos + 1] === 0x3e) {
+      pos += 2;
+      return { kind: 'keyword', value: '>>' };
+    }
+    if (c === 0x3c) return { kind: 'string', bytes: readHexString() };
+    if (c === 0x5b) {
+      pos++;
+      const items: Operand[] = [];
+      for (;;) {
+        const item = readObject();
+        if (item === null) throw new Error('Unterminated array');
+        if (item.kind === 'keyword' && item.value === ']') return { kind: 'array', items };
+        if (item.kind === 'keyword') throw new Error('Malformed array');
+        items.push(item);
+      }
+    }
+    if (c === 0x5d || c === 0x7b || c === 0x7d || c === 0x29 || c === 0x3e) {
+      pos++;
+      return { kind: 'keyword', value: String.fromCharCode(c) };
+    }
+    if (c === 0x2f) {
+      pos++;
+      return { kind: 'name', value: readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+
+    const token = readRegular();
+    if (token === '') {
+      pos++;
+      return { kind: 'keyword', value: String.fromCharCode(c) };
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return { kind: 'number', value: parseFloat(token) };
+    if (token === 'true' || token === 'false' || token === 'null') return { kind: 'other' };
+    return { kind: 'keyword', value: token };
+  };
+
+  const operations: Operation[] = [];
+  let operands: Operand[] = [];
+  let start = -1;
+
+  for (;;) {
+    skipWhitespace();
+    const objectStart = pos;
+    const object = readObject();
+    if (object === null) break;
+    if (start < 0) start = objectStart;
+    if (object.kind !== 'keyword') {
+      operands.push(object);
+      continue;
+    }
+
+    if (object.value === 'BI') {
+      // Inline image: parameters up to ID, then binary data up to an EI that stands on its own
+      const entries = new Map<string, Operand>();
+      for (;;) {
+        const key = readObject();
+        if (key === null) throw new Error('Unterminated inline image');
+        if (key.kind === 'keyword' && key.value === 'ID') break;
+        const value = readObject();
+        if (key.kind !== 'name' || value === null || value.kind === 'keyword') throw new Error('Malformed inline image');
+        entries.set(key.value, value);
+      }
+      pos++;
+      while (
+        pos < bytes.length &&
+        !(bytes[pos] === 0x45 && bytes[pos + 1] === 0x49 && WHITESPACE.has(bytes[pos - 1]) &&
+          (pos + 2 >= bytes.length || WHITESPACE.has(bytes[pos + 2])))
+      ) {
+        pos++;
+      }
+      if (pos >= bytes.length) throw new Error('Unterminated inline image');
+      pos += 2;
+      operations.push({ operator: 'BI', operands: [{ kind: 'dict', entries }], start, end: pos });
+    } else if (!/^[\]{}>)]$/.test(object.value)) {
+      operations.push({ operator: object.value, operands, start, end: pos });
+    }
+    operands = [];
+    start = -1;
+  }
+
+  return operations;
+};
+
+const decodeStream = (stream: PDFStream): Uint8Array => {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  if (stream instanceof PDFContentStream) return stream.getUnencodedContents();
+  throw new Error('Unsupported stream');
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Fonts: how many bytes a character code takes and, where the font says so, how wide it is
+
+interface FontMetrics {
+  bytesPerCode: number;
+  widthOf?: (code: number) => number; // glyph space units, 1000 per em; unknown for standard fonts and non-Identity CMaps
+}
+
+const numberOf = (value: PDFObject | undefined, fallback = 0): number => (value instanceof PDFNumber ? value.asNumber() : fallback);
+
+const fontMetricsCache = new WeakMap<PDFDict, FontMetrics>();
+
+const getFontMetrics = (font: PDFDict | undefined): FontMetrics => {
+  if (!font) return { bytesPerCode: 1 };
+  const cached = fontMetricsCache.get(font);
+  if (cached) return cached;
+
+  let metrics: FontMetrics = { bytesPerCode: 1 };
+  const subtype = font.lookup(PDFName.of('Subtype'));
+
+  if (subtype === PDFName.of('Type0')) {
+    metrics = { bytesPerCode: 2 };
+    const descendants = font.lookup(PDFName.of('DescendantFonts'));
+    const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+    if (font.lookup(PDFName.of('Encoding')) === PDFName.of('Identity-H') && descendant instanceof PDFDict) {
+      const defaultWidth = numberOf(descendant.lookup(PDFName.of('DW')), 1000);
+      const widths = new Map<number, number>();
+      const ranges: { first: number; last: number; width: number }[] = [];
+      const w = descendant.lookup(PDFName.of('W'));
+      if (w instanceof PDFArray) {
+        for (let i = 0; i + 1 < w.size();) {
+          const first = numberOf(w.lookup(i));
+          const next = w.lookup(i + 1);
+          if (next instanceof PDFArray) {
+            next.asArray().forEach((_, k) => widths.set(first + k, numberOf(next.lookup(k))));
+            i += 2;
+          } else {
+            ranges.push({ first, last: numberOf(next), width: numberOf(w.lookup(i + 2)) });
+            i += 3;
+          }
+        }
+      }
+      metrics.widthOf = code =>
+        widths.get(code) ?? ranges.find(range => code >= range.first && code <= range.last)?.width ?? defaultWidth;
+    }
+  } else if (subtype !== PDFName.of('Type3')) {
+    const widths = font.lookup(PDFName.of('Widths'));
+    if (widths instanceof PDFArray) {
+      const firstChar = numberOf(font.lookup(PDFName.of('FirstChar')));
+      const descriptor = font.lookup(PDFName.of('FontDescriptor'));
+      const missingWidth = descriptor instanceof PDFDict ? numberOf(descriptor.lookup(PDFName.of('MissingWidth'))) : 0;
+      metrics.widthOf = code => {
+        const index = code - firstChar;
+        return index >= 0 && index < widths.size() ? numberOf(widths.lookup(index), missingWidth) : missingWidth;
+      };
+    }
+  }
+
+  fontMetricsCache.set(font, metrics);
+  return metrics;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Images: cropping the pixel data of images that cross the split line
+
+const componentsOf = (colorSpace: PDFObject | undefined): number | null => {
+  if (colorSpace instanceof PDFName) {
+    return ({ DeviceGray: 1, G: 1, CalGray: 1, DeviceRGB: 3, RGB: 3, CalRGB: 3, Lab: 3, DeviceCMYK: 4, CMYK: 4 } as Record<string, number>)[
+      colorSpace.decodeText()
+    ] ?? null;
+  }
+  if (colorSpace instanceof PDFArray && colorSpace.size() > 0) {
+    const family = colorSpace.lookup(0);
+    if (!(family instanceof PDFName)) return null;
+    switch (family.decodeText()) {
+      case 'Indexed':
+      case 'Separation':
+      case 'CalGray':
+        return 1;
+      case 'CalRGB':
+      case 'Lab':
+        return 3;
+      case 'DeviceN': {
+        const names = colorSpace.lookup(1);
+        return names instanceof PDFArray ? names.size() : null;
+      }
+      case 'ICCBased': {
+        const profile = colorSpace.lookup(1);
+        return profile instanceof PDFStream ? numberOf(profile.dict.lookup(PDFName.of('N'))) || null : null;
+      }
+      default:
+        return componentsOf(family);
+    }
+  }
+  return null;
+};
+
+// Undoes the PNG row filters that Flate and LZW streams may use (Predictor 10 to 15)
+const unpredictPng = (data: Uint8Array, rowBytes: number, pixelBytes: number): Uint8Array => {
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const out = new Uint8Array(rows * rowBytes);
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowBytes + 1)];
+    const input = row * (rowBytes + 1) + 1;
+    const at = row * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[input + i];
+      const left = i >= pixelBytes ? out[at + i - pixelBytes] : 0;
+      const up = row > 0 ? out[at - rowBytes + i] : 0;
+      const upLeft = row > 0 && i >= pixelBytes ? out[at - rowBytes + i - pixelBytes] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[at + i] = (raw + predicted) & 0xff;
+    }
+  }
+  return out;
+};
+
+interface PixelRect {
+  left: number;
+  top: number;
+  right: number; // exclusive
+  bottom: number; // exclusive
+}
+
+/**
+ * Decodes an image's samples and copies the rows and columns of `rect` into a new Flate image.
+ * Returns null for encodings that cannot be decoded here (JPEG, JPEG 2000, JBIG2, CCITT, TIFF predictor).
+ */
+const cropImageStream = (context: PDFContext, stream: PDFRawStream, rect: PixelRect): PDFRawStream | null => {
+  const { dict } = stream;
+  const width = numberOf(dict.lookup(PDFName.of('Width')));
+  const height = numberOf(dict.lookup(PDFName.of('Height')));
+  const imageMask = dict.lookup(PDFName.of('ImageMask'));
+  const isMask = imageMask instanceof PDFBool && imageMask.asBoolean();
+  const bitsPerComponent = isMask ? 1 : numberOf(dict.lookup(PDFName.of('BitsPerComponent')));
+  const components = isMask ? 1 : componentsOf(dict.lookup(PDFName.of('ColorSpace')));
+  if (!width || !height || !bitsPerComponent || !components) return null;
+
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filters = filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [];
+  const decodable = ['FlateDecode', 'LZWDecode', 'ASCIIHexDecode', 'ASCII85Decode', 'RunLengthDecode'];
+  if (!filters.every(name => name instanceof PDFName && decodable.includes(name.decodeText()))) return null;
+
+  const pixelBits = bitsPerComponent * components;
+  const rowBytes = Math.ceil((width * pixelBits) / 8);
+  let samples: Uint8Array;
+  try {
+    samples = decodePDFRawStream(stream).decode();
+  } catch {
+    return null;
+  }
+
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  const predictorParams = params instanceof PDFArray ? params.lookup(params.size() - 1) : params;
+  if (predictorParams instanceof PDFDict) {
+    const predictor = numberOf(predictorParams.lookup(PDFName.of('Predictor')), 1);
+    if (predictor === 2) return null;
+    if (predictor >= 10) samples = unpredictPng(samples, rowBytes, Math.max(1, Math.ceil(pixelBits / 8)));
+  }
+  if (samples.length < rowBytes * height) return null;
+
+  const croppedWidth = rect.right - rect.left;
+  const croppedRowBytes = Math.ceil((croppedWidth * pixelBits) / 8);
+  const cropped = new Uint8Array(croppedRowBytes * (rect.bottom - rect.top));
+  for (let row = rect.top; row < rect.bottom; row++) {
+    const source = row * rowBytes;
+    const target = (row - rect.top) * croppedRowBytes;
+    if (pixelBits % 8 === 0) {
+      cropped.set(samples.subarray(source + (rect.left * pixelBits) / 8, source + (rect.right * pixelBits) / 8), target);
+    } else {
+      for (let bit = 0; bit < croppedWidth * pixelBits; bit++) {
+        const sourceBit = rect.left * pixelBits + bit;
+        if ((samples[source + (sourceBit >> 3)] >> (7 - (sourceBit & 7))) & 1) {
+          cropped[target + (bit >> 3)] |= 0x80 >> (bit & 7);
+        }
+      }
+    }
+  }
+
+  const result = context.flateStream(cropped);
+  for (const [key, value] of dict.entries()) {
+    if (!['Length', 'Filter', 'DecodeParms', 'Width', 'Height', 'SMask', 'Mask'].includes(key.decodeText())) result.dict.set(key, value);
+  }
+  result.dict.set(PDFName.of('Width'), PDFNumber.of(croppedWidth));
+  result.dict.set(PDFName.of('Height'), PDFNumber.of(rect.bottom - rect.top));
+  return result;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Filtering
+
+interface TextState {
+  font: FontMetrics;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+  renderMode: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  lineWidth: number;
+  text: TextState;
+}
+
+interface FilterScope {
+  context: PDFContext;
+  box: Box;
+  depth: number;
+  resources: PDFDict | undefined;
+  used: Map<string, Map<string, PDFObject>>; // resource category -> name -> entry of the new resources
+  derived: Map<string, string>; // cache key of a cropped image or filtered form -> its resource name
+}
+
+const RESOURCE_CATEGORIES = ['Font', 'XObject', 'ExtGState', 'ColorSpace', 'Pattern', 'Shading', 'Properties'];
+const DEVICE_COLOR_SPACES = new Set(['DeviceGray', 'DeviceRGB', 'DeviceCMYK', 'Pattern', 'G', 'RGB', 'CMYK']);
+const PATH_OPERATORS = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're', 'W', 'W*']);
+const PAINT_OPERATORS = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+const STROKE_OPERATORS = new Set(['S', 's', 'B', 'B*', 'b', 'b*']);
+const SHOW_OPERATORS = new Set(['Tj', 'TJ', "'", '"']);
+
+const lookupResource = (scope: FilterScope, category: string, name: string): PDFObject | undefined => {
+  const dict = scope.resources?.lookup(PDFName.of(category));
+  return dict instanceof PDFDict ? dict.get(PDFName.of(name)) : undefined;
+};
+
+const markUsed = (scope: FilterScope, category: string, name: string, value = lookupResource(scope, category, name)) => {
+  if (value === undefined) return;
+  if (!scope.used.has(category)) scope.used.set(category, new Map());
+  scope.used.get(category)!.set(name, value);
+};
+
+// A resource name for a new object that clashes with neither the original nor earlier new names
+const addDerivedResource = (scope: FilterScope, category: string, baseName: string, ref: PDFRef): string => {
+  let name = baseName;
+  for (let n = 1; lookupResource(scope, category, name) !== undefined || scope.used.get(category)?.has(name); n++) {
+    name = `${baseName}_${n}`;
+  }
+  markUsed(scope, category, name, ref);
+  return name;
+};
+
+const buildResources = (scope: FilterScope): PDFDict => {
+  const resources = scope.context.obj({});
+  const procSet = scope.resources?.get(PDFName.of('ProcSet'));
+  if (procSet) resources.set(PDFName.of('ProcSet'), procSet);
+  for (const category of RESOURCE_CATEGORIES) {
+    const entries = scope.used.get(category);
+    if (!entries) continue;
+    const dict = scope.context.obj({});
+    entries.forEach((value, name) => dict.set(PDFName.of(name), value));
+    resources.set(PDFName.of(category), dict);
+  }
+  return resources;
+};
+
+const firstName = (operands: Operand[]): string | undefined => {
+  for (const operand of operands) {
+    if (operand.kind === 'name') return operand.value;
+  }
+  return undefined;
+};
+
+// The glyph codes of a string operand
+const codesOf = (bytes: Uint8Array, bytesPerCode: number): number[] => {
+  const codes: number[] = [];
+  for (let i = 0; i + bytesPerCode <= bytes.length; i += bytesPerCode) {
+    codes.push(bytesPerCode === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i]);
+  }
+  return codes;
+};
+
+/**
+ * How far a text-showing operand moves the text position, in text space. Without font widths the run
+ * is assumed to be one em per glyph, which is only used to decide whether it reaches into the part.
+ */
+const measureText = (items: Operand[], text: TextState): { advance: number; exact: boolean } => {
+  const { font, fontSize, charSpacing, wordSpacing, horizontalScale } = text;
+  let advance = 0;
+  for (const item of items) {
+    if (item.kind === 'number') {
+      advance -= (item.value / 1000) * fontSize * horizontalScale;
+    } else if (item.kind === 'string') {
+      for (const code of codesOf(item.bytes, font.bytesPerCode)) {
+        const glyphWidth = font.widthOf ? font.widthOf(code) / 1000 : 1;
+        const spacing = charSpacing + (font.bytesPerCode === 1 && code === 32 ? wordSpacing : 0);
+        advance += (glyphWidth * fontSize + spacing) * horizontalScale;
+      }
+    }
+  }
+  return { advance, exact: font.widthOf !== undefined };
+};
+
+const filterContent = (bytes: Uint8Array, initialCtm: Matrix, scope: FilterScope): Uint8Array => {
+  const operations = parseContent(bytes);
+  const chunks: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+  const keep = (operation: Operation) => chunks.push(bytes.subarray(operation.start, operation.end), encoder.encode('\n'));
+  const emit = (text: string) => chunks.push(encoder.encode(`${text}\n`));
+
+  const initialText: TextState = {
+    font: getFontMetrics(undefined),
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+    renderMode: 0,
+  };
+  let state: GraphicsState = { ctm: initialCtm, lineWidth: 1, text: initialText };
+  const stack: GraphicsState[] = [];
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let path: Operation[] = [];
+  let pathBounds: Bounds | null = null;
+
+  const addPathPoint = (x: number, y: number) => {
+    const b = transformBounds(state.ctm, x, y, x, y);
+    pathBounds = pathBounds
+      ? { minX: Math.min(pathBounds.minX, b.minX), minY: Math.min(pathBounds.minY, b.minY), maxX: Math.max(pathBounds.maxX, b.maxX), maxY: Math.max(pathBounds.maxY, b.maxY) }
+      : b;
+  };
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  // Dropping a run whose width is unknown is only safe when the next run is positioned independently
+  const nextRunIsPositioned = (from: number): boolean => {
+    for (let j = from + 1; j < operations.length; j++) {
+      const { operator } = operations[j];
+      if (operator === 'Tj' || operator === 'TJ') return false;
+      if (['Td', 'TD', 'T*', 'Tm', 'ET', "'", '"'].includes(operator)) return true;
+    }
+    return true;
+  };
+
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i];
+    const { operator, operands } = operation;
+    const numbers = operands.map(operand => (operand.kind === 'number' ? operand.value : 0));
+    const name = firstName(operands);
+
+    if (PATH_OPERATORS.has(operator)) {
+      path.push(operation);
+      if (operator === 're') {
+        const [x, y, w, h] = numbers;
+        addPathPoint(x, y);
+        addPathPoint(x + w, y + h);
+        addPathPoint(x, y + h);
+        addPathPoint(x + w, y);
+      } else {
+        for (let k = 0; k + 1 < numbers.length; k += 2) addPathPoint(numbers[k], numbers[k + 1]);
+      }
+      continue;
+    }
+
+    if (PAINT_OPERATORS.has(operator)) {
+      const clips = path.some(pending => pending.operator === 'W' || pending.operator === 'W*');
+      let visible = clips || !pathBounds;
+      if (!visible && pathBounds && operator !== 'n') {
+        const bounds: Bounds = pathBounds;
+        const scale = Math.sqrt(Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2]));
+        const pad = STROKE_OPERATORS.has(operator) ? (Math.max(state.lineWidth, 1) * scale) / 2 : 0;
+        visible = intersects({ minX: bounds.minX - pad, minY: bounds.minY - pad, maxX: bounds.maxX + pad, maxY: bounds.maxY + pad }, scope.box);
+      }
+      if (visible) {
+        path.forEach(keep);
+        keep(operation);
+      }
+      path = [];
+      pathBounds = null;
+      continue;
+    }
+
+    // Anything else ends a path that was never painted
+    if (path.length > 0) {
+      path.forEach(keep);
+      path = [];
+      pathBounds = null;
+    }
+
+    switch (operator) {
+      case 'q':
+        stack.push(state);
+        state = { ...state, text: { ...state.text } };
+        break;
+      case 'Q':
+        state = stack.pop() ?? state;
+        break;
+      case 'cm':
+        state.ctm = multiply(numbers.slice(0, 6) as Matrix, state.ctm);
+        break;
+      case 'w':
+        state.lineWidth = numbers[0];
+        break;
+      case 'gs':
+        if (name) markUsed(scope, 'ExtGState', name);
+        break;
+      case 'cs':
+      case 'CS':
+        if (name && !DEVICE_COLOR_SPACES.has(name)) markUsed(scope, 'ColorSpace', name);
+        break;
+      case 'scn':
+      case 'SCN':
+        if (name) markUsed(scope, 'Pattern', name);
+        break;
+      case 'sh':
+        if (name) markUsed(scope, 'Shading', name);
+        break;
+      case 'BDC':
+      case 'DP':
+        if (operands[1]?.kind === 'name') markUsed(scope, 'Properties', operands[1].value);
+        break;
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tf': {
+        const font = name ? lookupResource(scope, 'Font', name) : undefined;
+        const fontDict = font ? scope.context.lookup(font) : undefined;
+        state.text.font = getFontMetrics(fontDict instanceof PDFDict ? fontDict : undefined);
+        state.text.fontSize = numbers[1];
+        if (name) markUsed(scope, 'Font', name);
+        break;
+      }
+      case 'Tc':
+        state.text.charSpacing = numbers[0];
+        break;
+      case 'Tw':
+        state.text.wordSpacing = numbers[0];
+        break;
+      case 'Tz':
+        state.text.horizontalScale = numbers[0] / 100;
+        break;
+      case 'TL':
+        state.text.leading = numbers[0];
+        break;
+      case 'Ts':
+        state.text.rise = numbers[0];
+        break;
+      case 'Tr':
+        state.text.renderMode = numbers[0];
+        break;
+      case 'Td':
+        moveLine(numbers[0], numbers[1]);
+        break;
+      case 'TD':
+        state.text.leading = -numbers[1];
+        moveLine(numbers[0], numbers[1]);
+        break;
+      case 'Tm':
+        lineMatrix = numbers.slice(0, 6) as Matrix;
+        textMatrix = lineMatrix;
+        break;
+      case 'T*':
+        moveLine(0, -state.text.leading);
+        break;
+    }
+
+    if (SHOW_OPERATORS.has(operator)) {
+      let prefix = '';
+      if (operator === '"') {
+        state.text.wordSpacing = numbers[0];
+        state.text.charSpacing = numbers[1];
+        prefix = `${formatNumber(numbers[0])} Tw ${formatNumber(numbers[1])} Tc `;
+      }
+      if (operator === "'" || operator === '"') {
+        moveLine(0, -state.text.leading);
+        prefix += 'T*';
+      }
+
+      const last = operands[operands.length - 1];
+      const items = last?.kind === 'array' ? last.items : last ? [last] : [];
+      const { advance, exact } = measureText(items, state.text);
+      const { fontSize, rise, renderMode, horizontalScale } = state.text;
+      const bounds = transformBounds(
+        multiply(textMatrix, state.ctm),
+        Math.min(0, advance), rise - 0.3 * Math.abs(fontSize), Math.max(0, advance), rise + Math.abs(fontSize)
+      );
+
+      // Clipping text modes affect everything drawn after it
+      const visible = renderMode >= 4 || intersects(bounds, scope.box);
+      if (visible || (!exact && !nextRunIsPositioned(i))) {
+        keep(operation);
+      } else if (exact && fontSize !== 0 && horizontalScale !== 0) {
+        // Keep the text position where the removed run would have left it
+        emit(`${prefix} [${formatNumber((-advance * 1000) / (fontSize * horizontalScale))}] TJ`.trim());
+      } else if (prefix) {
+        emit(prefix);
+      }
+      textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+      continue;
+    }
+
+    if (operator === 'BI') {
+      if (intersects(transformBounds(state.ctm, 0, 0, 1, 1), scope.box)) {
+        const params = operands[0]?.kind === 'dict' ? operands[0].entries : new Map<string, Operand>();
+        const colorSpace = params.get('CS') ?? params.get('ColorSpace');
+        if (colorSpace?.kind === 'name' && !DEVICE_COLOR_SPACES.has(colorSpace.value)) markUsed(scope, 'ColorSpace', colorSpace.value);
+        keep(operation);
+      }
+      continue;
+    }
+
+    if (operator === 'Do' && name) {
+      const entry = lookupResource(scope, 'XObject', name);
+      const xObject = entry ? scope.context.lookup(entry) : undefined;
+      if (xObject instanceof PDFRawStream || xObject instanceof PDFContentStream) {
+        const replacement = filterXObject(xObject, entry!, name, state.ctm, scope);
+        if (replacement !== null) emit(replacement);
+      } else {
+        markUsed(scope, 'XObject', name);
+        keep(operation);
+      }
+      continue;
+    }
+
+    keep(operation);
+  }
+
+  path.forEach(keep);
+  return concatBytes(chunks);
+};
+
+/**
+ * Decides what to draw for a `Do`: nothing when the object is outside the part, a cropped copy for
+ * an image that crosses the edge, a filtered copy for a form, or the original. Returns the operators.
+ */
+const filterXObject = (
+  xObject: PDFStream,
+  entry: PDFObject,
+  name: string,
+  ctm: Matrix,
+  scope: FilterScope
+): string | null => {
+  const { dict } = xObject;
+  const subtype = dict.lookup(PDFName.of('Subtype'));
+  const original = () => {
+    markUsed(scope, 'XObject', name);
+    return `${formatName(name)} Do`;
+  };
+
+  if (subtype === PDFName.of('Image')) {
+    const bounds = transformBounds(ctm, 0, 0, 1, 1);
+    if (!intersects(bounds, scope.box)) return null;
+
+    // The part of the unit square that is visible in the part, in image pixels with a pixel to spare
+    const inverse = invert(ctm);
+    if (!inverse || !(xObject instanceof PDFRawStream)) return original();
+    const unit = transformBounds(inverse, scope.box.x, scope.box.y, scope.box.x + scope.box.width, scope.box.y + scope.box.height);
+    const width = numberOf(dict.lookup(PDFName.of('Width')));
+    const height = numberOf(dict.lookup(PDFName.of('Height')));
+    const rect: PixelRect = {
+      left: Math.max(0, Math.floor(Math.max(0, unit.minX) * width) - 1),
+      right: Math.min(width, Math.ceil(Math.min(1, unit.maxX) * width) + 1),
+      top: Math.max(0, Math.floor((1 - Math.min(1, unit.maxY)) * height) - 1),
+      bottom: Math.min(height, Math.ceil((1 - Math.max(0, unit.minY)) * height) + 1),
+    };
+    if (rect.right <= rect.left || rect.bottom <= rect.top) return null;
+    if ((rect.right - rect.left) * (rect.bottom - rect.top) > 0.9 * width * height) return original();
+
+    const key = `${entry.toString()}|${rect.left},${rect.top},${rect.right},${rect.bottom}`;
+    let croppedName = scope.derived.get(key);
+    if (!croppedName) {
+      const cropped = cropImageStream(scope.context, xObject, rect);
+      if (!cropped) return original();
+
+      // Soft masks and stencil masks cover the same unit square and are cut to the same fraction
+      for (const maskKey of ['SMask', 'Mask']) {
+        const mask = dict.lookup(PDFName.of(maskKey));
+        if (!(mask instanceof PDFStream)) {
+          const value = dict.get(PDFName.of(maskKey));
+          if (value) cropped.dict.set(PDFName.of(maskKey), value);
+          continue;
+        }
+        if (!(mask instanceof PDFRawStream)) return original();
+        const maskWidth = numberOf(mask.dict.lookup(PDFName.of('Width')));
+        const maskHeight = numberOf(mask.dict.lookup(PDFName.of('Height')));
+        const croppedMask = cropImageStream(scope.context, mask, {
+          left: Math.floor((rect.left / width) * maskWidth),
+          right: Math.ceil((rect.right / width) * maskWidth),
+          top: Math.floor((rect.top / height) * maskHeight),
+          bottom: Math.ceil((rect.bottom / height) * maskHeight),
+        });
+        if (!croppedMask) return original();
+        cropped.dict.set(PDFName.of(maskKey), scope.context.register(croppedMask));
+      }
+
+      croppedName = addDerivedResource(scope, 'XObject', name, scope.context.register(cropped));
+      scope.derived.set(key, croppedName);
+    }
+
+    const x0 = rect.left / width;
+    const x1 = rect.right / width;
+    const y0 = 1 - rect.bottom / height;
+    const y1 = 1 - rect.top / height;
+    return `q ${[x1 - x0, 0, 0, y1 - y0, x0, y0].map(formatNumber).join(' ')} cm ${formatName(croppedName)} Do Q`;
+  }
+
+  if (subtype === PDFName.of('Form')) {
+    const matrixArray = dict.lookup(PDFName.of('Matrix'));
+    const matrix = matrixArray instanceof PDFArray ? (matrixArray.asArray().map(value => numberOf(value)) as Matrix) : IDENTITY;
+    const formCtm = multiply(matrix, ctm);
+    const bbox = dict.lookup(PDFName.of('BBox'));
+    if (bbox instanceof PDFArray) {
+      const [x1, y1, x2, y2] = bbox.asArray().map(value => numberOf(value));
+      if (!intersects(transformBounds(formCtm, Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)), scope.box)) {
+        return null;
+      }
+    }
+    if (scope.depth >= 8) return original();
+
+    const key = `${entry.toString()}|${formCtm.map(formatNumber).join(',')}`;
+    let filteredName = scope.derived.get(key);
+    if (!filteredName) {
+      const formResources = dict.lookup(PDFName.of('Resources'));
+      const formScope: FilterScope = {
+        context: scope.context,
+        box: scope.box,
+        depth: scope.depth + 1,
+        resources: formResources instanceof PDFDict ? formResources : scope.resources,
+        used: new Map(),
+        derived: new Map(),
+      };
+      let content: Uint8Array;
+      try {
+        content = filterContent(decodeStream(xObject), formCtm, formScope);
+      } catch {
+        return original();
+      }
+      const filtered = scope.context.flateStream(content);
+      for (const [entryKey, value] of dict.entries()) {
+        if (!['Length', 'Filter', 'DecodeParms', 'Resources'].includes(entryKey.decodeText())) filtered.dict.set(entryKey, value);
+      }
+      filtered.dict.set(PDFName.of('Resources'), buildResources(formScope));
+      filteredName = addDerivedResource(scope, 'XObject', name, scope.context.register(filtered));
+      scope.derived.set(key, filteredName);
+    }
+    return `${formatName(filteredName)} Do`;
+  }
+
+  return original();
+};
+
+/**
+ * Replaces a page's content with only what reaches into `box` (in default user space), clipped to it,
+ * and gives the page its own resources holding just what that content uses. Content that cannot be
+ * parsed is kept and only clipped; the return value tells whether the page was trimmed.
+ */
+export const trimPageContent = (page: PDFPage, box: Box): boolean => {
+  const { context } = page.doc;
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(entry => context.lookup(entry))
+    : contents ? [contents] : [];
+  const resources = page.node.Resources();
+  const clip = new TextEncoder().encode(`q ${[box.x, box.y, box.width, box.height].map(formatNumber).join(' ')} re W n\n`);
+  const restore = new TextEncoder().encode('\nQ\n');
+
+  let source: Uint8Array;
+  try {
+    source = concatBytes(streams.flatMap(stream => (stream instanceof PDFStream ? [decodeStream(stream), new Uint8Array([10])] : [])));
+  } catch {
+    return false;
+  }
+
+  let content = source;
+  let trimmed = true;
+  let newResources = resources;
+  try {
+    const scope: FilterScope = { context, box, depth: 0, resources, used: new Map(), derived: new Map() };
+    content = filterContent(source, IDENTITY, scope);
+    newResources = buildResources(scope);
+  } catch {
+    trimmed = false;
+  }
+
+  page.node.set(PDFName.of('Contents'), context.obj([context.register(context.flateStream(concatBytes([clip, content, restore])))]));
+  if (newResources) page.node.set(PDFName.of('Resources'), newResources);
+  return trimmed;
+};
+
+/**
+ * Deletes every object that can no longer be reached from the trailer, such as the full-page images and
+ * content streams the trimmed parts no longer use. Embedded fonts, images and pages must be flushed first.
+ */
+export const removeUnreachableObjects = (doc: PDFDocument): void => {
+  const { context } = doc;
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = Object.values(context.trailerInfo).filter((value): value is PDFObject => value !== undefined);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) context.delete(ref);
+  }
+};
@@ -0,0 +1,112 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { SplitOptions } from '../types';
+import { A3 } from './__fixtures__/a3Pdf';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { splitPdfOutputs } from './pdfService';
+
+/**
+ * Two A3 pages titled "Annual report", with bookmarks to the right half of the first page and to the
+ * second page, and a link on the right half of the first page to the left half of the second.
+ */
+const makeStructuredPdf = async (): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle('Annual report');
+  const pages = [doc.addPage([A3.width, A3.height]), doc.addPage([A3.width, A3.height])];
+  pages.forEach(page => page.drawRectangle({ x: 100, y: 100, width: 200, height: 100 }));
+  const { context } = doc;
+
+  const outlinesRef = context.nextRef();
+  const chapterRefs = [context.nextRef(), context.nextRef()];
+  context.assign(chapterRefs[0], context.obj({
+    Title: PDFHexString.fromText('Chapter 1'), Parent: outlinesRef, Next: chapterRefs[1],
+    Dest: [pages[0].ref, 'XYZ', 900, 700, null],
+  }));
+  context.assign(chapterRefs[1], context.obj({
+    Title: PDFHexString.fromText('Chapter 2'), Parent: outlinesRef, Prev: chapterRefs[0],
+    Dest: [pages[1].ref, 'Fit'],
+  }));
+  context.assign(outlinesRef, context.obj({ Type: 'Outlines', First: chapterRefs[0], Last: chapterRefs[1], Count: 2 }));
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+
+  pages[0].node.addAnnot(context.register(context.obj({
+    Type: 'Annot', Subtype: 'Link', Rect: [800, 400, 900, 420], Dest: [pages[1].ref, 'XYZ', 100, 500, null],
+  })));
+
+  return doc.save();
+};
+
+const split = async (options: Partial<SplitOptions>): Promise<PDFDocument[]> => {
+  const outputs = await splitPdfOutputs(await makeStructuredPdf(), 'report.pdf', makeOptions(options), () => undefined);
+  return Promise.all(outputs.map(output => PDFDocument.load(output.data)));
+};
+
+const pageIndexOf = (doc: PDFDocument, dest: PDFArray | undefined): number =>
+  doc.getPages().findIndex(page => page.ref === dest?.get(0));
+
+const readOutline = (doc: PDFDocument): [string, number][] => {
+  const entries: [string, number][] = [];
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  for (let item = outlines?.lookupMaybe(PDFName.of('First'), PDFDict); item; item = item.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+    entries.push([item.lookup(PDFName.of('Title'), PDFHexString).decodeText(), pageIndexOf(doc, item.lookupMaybe(PDFName.of('Dest'), PDFArray))]);
+  }
+  return entries;
+};
+
+describe('document structure of the split output', () => {
+  it('keeps the document info', async () => {
+    const [output] = await split({});
+    expect(output.getTitle()).toBe('Annual report');
+  });
+
+  it('points bookmarks at the part that shows their view', async () => {
+    const [output] = await split({});
+    expect(readOutline(output)).toEqual([['Chapter 1', 1], ['Chapter 2', 2]]);
+  });
+
+  it('moves a link onto the part it sits on and points it at the part it leads to', async () => {
+    const [output] = await split({});
+    const annots = output.getPages().map(page => page.node.Annots()?.size() ?? 0);
+    expect(annots).toEqual([0, 1, 0, 0]);
+
+    const link = output.getPage(1).node.Annots()!.lookup(0, PDFDict);
+    expect(pageIndexOf(output, link.lookup(PDFName.of('Dest'), PDFArray))).toBe(2);
+    // Cropped parts keep the source coordinates
+    expect(link.lookup(PDFName.of('Rect'), PDFArray).asRectangle().x).toBe(800);
+  });
+
+  it('moves links into the coordinates of a normalized page', async () => {
+    const [output] = await split({ normalizePageSize: true, pageScaling: 'actual', horizontalAlign: 'left' });
+    const link = output.getPage(1).node.Annots()!.lookup(0, PDFDict);
+    expect(link.lookup(PDFName.of('Rect'), PDFArray).asRectangle().x).toBeCloseTo(800 - A3.width / 2);
+  });
+
+  it('drops bookmarks that point into another output file', async () => {
+    const outputs = await split({ mergeToSingleFile: false, outputSplitMode: 'perSheet' });
+    expect(outputs.map(readOutline)).toEqual([[['Chapter 1', 1]], [['Chapter 2', 0]]]);
+  });
+
+  it('labels the pages with the stamped numbers', async () => {
+    const [output] = await split({ enablePageNumbering: true, numberFormat: 'Page {n}', numberingStartFromPageIndex: 1, startingPageNumber: 5 });
+    const nums = output.catalog.lookup(PDFName.of('PageLabels'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    expect(nums.size()).toBe(4);
+    expect(nums.lookup(0, PDFNumber).asNumber()).toBe(0);
+    expect(nums.lookup(1, PDFDict).has(PDFName.of('St'))).toBe(false);
+    expect(nums.lookup(2, PDFNumber).asNumber()).toBe(2);
+    const label = nums.lookup(3, PDFDict);
+    expect(label.get(PDFName.of('S'))).toBe(PDFName.of('D'));
+    expect(label.lookup(PDFName.of('St'), PDFNumber).asNumber()).toBe(5);
+    expect(label.lookup(PDFName.of('P'), PDFHexString).decodeText()).toBe('Page ');
+  });
+
+  it('keeps the text before the number as the label prefix when text follows it', async () => {
+    const [output] = await split({ enablePageNumbering: true, numberFormat: 'p. {n} of {total}' });
+    const nums = output.catalog.lookup(PDFName.of('PageLabels'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    expect(nums.lookup(1, PDFDict).lookup(PDFName.of('P'), PDFHexString).decodeText()).toBe('p. ');
+  });
+
+  it('writes no labels for a format a label cannot show', async () => {
+    const [output] = await split({ enablePageNumbering: true, numberFormat: '{total}-{n}' });
+    expect(output.catalog.has(PDFName.of('PageLabels'))).toBe(false);
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectCopier,
+  PDFPage,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { NumeralStyle, SplitOptions } from '../types';
+import { Box } from './splitGeometry';
+
+// Carries the parts of a document that live outside the page content over to the split output:
+// document info, XMP metadata, the outline and link annotations. Destinations that pointed at an A3 page
+// are moved to the part that contains them. Page labels are added to match the stamped numbers.
+
+/**
+ * A destination in the source document: the page and the view on it, e.g. fit "XYZ" with [left, top, zoom].
+ */
+export interface SourceDestination {
+  pageIndex: number;
+  fit: string;
+  params: (number | null)[];
+}
+
+interface OutlineNode {
+  title: string;
+  destination: SourceDestination | null;
+  action?: PDFDict; // actions other than GoTo (URI, Launch, ...) are copied as they are
+  open: boolean;
+  color?: PDFObject;
+  flags?: PDFObject;
+  children: OutlineNode[];
+}
+
+interface SourceLink {
+  rect: Box;
+  destination?: SourceDestination;
+  action?: PDFDict;
+}
+
+/**
+ * The outline and links of a source document, read before its pages are split.
+ */
+export interface DocumentStructure {
+  outline: OutlineNode[];
+  links: SourceLink[][]; // by source page index
+  pageMode?: PDFName;
+}
+
+/**
+ * Where one output page comes from: the source page, the part of it in source user space,
+ * and how a source point maps onto the output page when the part was scaled or turned.
+ */
+export interface PartPlacement {
+  sourcePageIndex: number | null; // null for an inserted blank page
+  pageNumber: number | null;
+  box: Box;
+  toPage?: (x: number, y: number) => { x: number; y: number };
+}
+
+// Outlines and name trees in damaged files can loop
+const MAX_DEPTH = 64;
+
+const lookupDict = (dict: PDFDict | undefined, key: string): PDFDict | undefined => {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFDict ? value : undefined;
+};
+
+const lookupArray = (dict: PDFDict | undefined, key: string): PDFArray | undefined => {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFArray ? value : undefined;
+};
+
+const decodeText = (value: PDFObject | undefined): string | null =>
+  value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName ? value.decodeText() : null;
+
+const readNumber = (value: PDFObject | undefined): number | null => (value instanceof PDFNumber ? value.asNumber() : null);
+
+/**
+ * Named destinations from the catalog's /Dests dictionary (PDF 1.1) and the /Names /Dests name tree.
+ */
+const readNamedDestinations = (doc: PDFDocument): Map<string, PDFObject> => {
+  const named = new Map<string, PDFObject>();
+
+  lookupDict(doc.catalog, 'Dests')?.entries().forEach(([key, value]) => named.set(key.decodeText(), value));
+
+  const walk = (node: PDFDict | undefined, depth: number) => {
+    if (!node || depth > MAX_DEPTH) return;
+    const pairs = lookupArray(node, 'Names');
+    for (let i = 0; pairs && i + 1 < pairs.size(); i += 2) {
+      const name = decodeText(pairs.lookup(i));
+      if (name !== null) named.set(name, pairs.get(i + 1));
+    }
+    const kids = lookupArray(node, 'Kids');
+    kids?.asArray().forEach((_, i) => {
+      const kid = kids.lookup(i);
+      walk(kid instanceof PDFDict ? kid : undefined, depth + 1);
+    });
+  };
+  walk(lookupDict(lookupDict(doc.catalog, 'Names'), 'Dests'), 0);
+
+  return named;
+};
+
+/**
+ * Reads the outline and link annotations of a document. Destinations are resolved to page indices;
+ * anything that cannot be resolved is left without a destination.
+ */
+export const readDocumentStructure = (doc: PDFDocument): DocumentStructure => {
+  const pages = doc.getPages();
+  const pageIndexByRef = new Map(pages.map((page, index) => [page.ref.toString(), index]));
+  const named = readNamedDestinations(doc);
+
+  const parseDestination = (value: PDFObject | undefined): SourceDestination | null => {
+    let dest = value instanceof PDFRef ? doc.context.lookup(value) : value;
+    const name = decodeText(dest);
+    if (name !== null) dest = doc.context.lookup(named.get(name));
+    if (dest instanceof PDFDict) dest = dest.lookup(PDFName.of('D'));
+    if (!(dest instanceof PDFArray) || dest.size() < 2) return null;
+
+    const target = dest.get(0);
+    const pageIndex = target instanceof PDFRef ? pageIndexByRef.get(target.toString()) : readNumber(target);
+    const fit = decodeText(dest.lookup(1));
+    if (pageIndex === undefined || pageIndex === null || !pages[pageIndex] || fit === null) return null;
+
+    return { pageIndex, fit, params: dest.asArray().slice(2).map((_, i) => readNumber(dest.lookup(i + 2))) };
+  };
+
+  // GoTo actions become destinations; other actions are kept to be copied
+  const parseTarget = (dict: PDFDict): { destination: SourceDestination | null; action?: PDFDict } => {
+    const action = lookupDict(dict, 'A');
+    if (!action) return { destination: parseDestination(dict.get(PDFName.of('Dest'))) };
+    if (decodeText(action.lookup(PDFName.of('S'))) === 'GoTo') {
+      return { destination: parseDestination(action.get(PDFName.of('D'))) };
+    }
+    return { destination: null, action };
+  };
+
+  const visited = new Set<PDFDict>();
+  const readOutlineLevel = (parent: PDFDict | undefined, depth: number): OutlineNode[] => {
+    const nodes: OutlineNode[] = [];
+    for (let item = lookupDict(parent, 'First'); item && !visited.has(item) && depth < MAX_DEPTH; item = lookupDict(item, 'Next')) {
+      visited.add(item);
+      nodes.push({
+        title: decodeText(item.lookup(PDFName.of('Title'))) ?? '',
+        ...parseTarget(item),
+        open: (readNumber(item.lookup(PDFName.of('Count'))) ?? 0) > 0,
+        color: item.lookup(PDFName.of('C')),
+        flags: item.lookup(PDFName.of('F')),
+        children: readOutlineLevel(item, depth + 1),
+      });
+    }
+    return nodes;
+  };
+
+  const links = pages.map(page => {
+    const annots = page.node.Annots();
+    return (annots?.asArray() ?? []).flatMap((_, i) => {
+      const annot = annots!.lookup(i);
+      if (!(annot instanceof PDFDict) || decodeText(annot.lookup(PDFName.of('Subtype'))) !== 'Link') return [];
+      const rect = lookupArray(annot, 'Rect')?.asRectangle();
+      if (!rect) return [];
+      const { destination, action } = parseTarget(annot);
+      if (!destination && !action) return [];
+      return [{ rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height }, destination: destination ?? undefined, action }];
+    });
+  });
+
+  const pageMode = doc.catalog.lookup(PDFName.of('PageMode'));
+  return {
+    outline: readOutlineLevel(lookupDict(doc.catalog, 'Outlines'), 0),
+    links,
+    pageMode: pageMode instanceof PDFName ? pageMode : undefined,
+  };
+};
+
+/**
+ * Removes link annotations from a page before it is copied. They are rebuilt on the parts afterwards;
+ * copied as they are, their destinations would pull whole source pages into the output.
+ */
+export const removeLinkAnnotations = (page: PDFPage): void => {
+  const annots = page.node.Annots();
+  if (!annots) return;
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const annot = annots.lookup(i);
+    if (annot instanceof PDFDict && decodeText(annot.lookup(PDFName.of('Subtype'))) === 'Link') annots.remove(i);
+  }
+};
+
+/**
+ * Copies the document info dictionary and XMP metadata. Producer and ModDate stay those of the output.
+ */
+export const copyDocumentInfo = (source: PDFDocument, target: PDFDocument): void => {
+  const copier = PDFObjectCopier.for(source.context, target.context);
+  const sourceInfo = source.context.lookup(source.context.trailerInfo.Info);
+  const targetInfo = target.context.lookup(target.context.trailerInfo.Info);
+
+  if (sourceInfo instanceof PDFDict && targetInfo instanceof PDFDict) {
+    for (const [key, value] of sourceInfo.entries()) {
+      if (key === PDFName.of('Producer') || key === PDFName.of('ModDate')) continue;
+      targetInfo.set(key, copier.copy(value));
+    }
+  }
+
+  const metadata = source.catalog.get(PDFName.of('Metadata'));
+  if (metadata) target.catalog.set(PDFName.of('Metadata'), copier.copy(metadata));
+};
+
+/**
+ * Adds an annotation to one page only. Parts copied from the same source page in one call share
+ * their direct /Annots array, so the page gets its own copy first.
+ */
+export const addAnnotation = (page: PDFPage, annot: PDFRef): void => {
+  const annots = page.node.Annots();
+  if (annots) page.node.set(PDFName.of('Annots'), annots.clone());
+  page.node.addAnnot(annot);
+};
+
+const isInside = (box: Box, x: number | null, y: number | null): boolean =>
+  (x === null || (x >= box.x && x <= box.x + box.width)) && (y === null || (y >= box.y && y <= box.y + box.height));
+
+// The point a view is anchored at, for choosing the part that shows it
+const getDestinationPoint = ({ fit, params }: SourceDestination): { x: number | null; y: number | null } => {
+  switch (fit) {
+    case 'XYZ': return { x: params[0] ?? null, y: params[1] ?? null };
+    case 'FitH':
+    case 'FitBH': return { x: null, y: params[0] ?? null };
+    case 'FitV':
+    case 'FitBV': return { x: params[0] ?? null, y: null };
+    case 'FitR': return { x: params[0] ?? null, y: params[3] ?? null };
+    default: return { x: null, y: null };
+  }
+};
+
+/**
+ * Writes the outline, links, document info and page labels into a split document.
+ * `placements` describes each page of `target` in order; a destination whose part is not among them
+ * (another output file) is dropped, and so are outline entries left with nothing to point at.
+ */
+export const applyDocumentStructure = (
+  target: PDFDocument,
+  source: PDFDocument,
+  structure: DocumentStructure,
+  placements: PartPlacement[],
+  options: SplitOptions
+): void => {
+  const { context } = target;
+  const copier = PDFObjectCopier.for(source.context, context);
+  const pages = target.getPages();
+
+  // A view on a source page becomes a view on the part containing its anchor point
+  const toDestinationArray = (destination: SourceDestination): PDFArray | null => {
+    const candidates = placements
+      .map((placement, index) => ({ placement, page: pages[index] }))
+      .filter(({ placement }) => placement.sourcePageIndex === destination.pageIndex);
+    if (candidates.length === 0) return null;
+
+    const point = getDestinationPoint(destination);
+    const { placement, page } = candidates.find(candidate => isInside(candidate.placement.box, point.x, point.y)) ?? candidates[0];
+
+    const { box, toPage } = placement;
+    if (!toPage || (point.x === null && point.y === null && destination.fit !== 'FitR')) {
+      return context.obj([page.ref, PDFName.of(destination.fit), ...destination.params]);
+    }
+
+    // Normalized parts are scaled and turned, so the view is re-expressed as a point (or rectangle) on the page
+    if (destination.fit === 'FitR') {
+      const [left, bottom, right, top] = destination.params.map((value, i) => value ?? [box.x, box.y, box.x + box.width, box.y + box.height][i]);
+      const a = toPage(left, bottom);
+      const b = toPage(right, top);
+      return context.obj([page.ref, PDFName.of('FitR'), Math.min(a.x, b.x), Math.min(a.y, b.y), Math.max(a.x, b.x), Math.max(a.y, b.y)]);
+    }
+    const mapped = toPage(point.x ?? box.x, point.y ?? box.y + box.height);
+    const zoom = destination.fit === 'XYZ' ? destination.params[2] ?? null : null;
+    return context.obj([page.ref, PDFName.of('XYZ'), mapped.x, mapped.y, zoom]);
+  };
+
+  copyDocumentInfo(source, target);
+  writeOutline(target, structure, toDestinationArray, copier);
+
+  // Links whose rectangle is centred inside a part go to that part
+  placements.forEach((placement, index) => {
+    const toPage = placement.toPage ?? ((x: number, y: number) => ({ x, y }));
+    for (const link of placement.sourcePageIndex === null ? [] : structure.links[placement.sourcePageIndex] ?? []) {
+      const centerX = link.rect.x + link.rect.width / 2;
+      const centerY = link.rect.y + link.rect.height / 2;
+      if (!isInside(placement.box, centerX, centerY)) continue;
+
+      const dest = link.destination ? toDestinationArray(link.destination) : null;
+      if (!dest && !link.action) continue;
+
+      const a = toPage(link.rect.x, link.rect.y);
+      const b = toPage(link.rect.x + link.rect.width, link.rect.y + link.rect.height);
+      const annot = context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [Math.min(a.x, b.x), Math.min(a.y, b.y), Math.max(a.x, b.x), Math.max(a.y, b.y)],
+        Border: [0, 0, 0],
+      });
+      if (dest) annot.set(PDFName.of('Dest'), dest);
+      else annot.set(PDFName.of('A'), copier.copy(link.action!));
+      addAnnotation(pages[index], context.register(annot));
+    }
+  });
+
+  writePageLabels(target, placements.map(placement => placement.pageNumber), options);
+};
+
+const writeOutline = (
+  target: PDFDocument,
+  structure: DocumentStructure,
+  toDestinationArray: (destination: SourceDestination) => PDFArray | null,
+  copier: PDFObjectCopier
+): void => {
+  const { context } = target;
+
+  // Returns the refs of the written siblings and how many entries they show when opened
+  const writeLevel = (nodes: OutlineNode[], parent: PDFRef): { refs: PDFRef[]; visible: number } => {
+    const written: { ref: PDFRef; dict: PDFDict }[] = [];
+    let visible = 0;
+
+    for (const node of nodes) {
+      const dest = node.destination ? toDestinationArray(node.destination) : null;
+      const ref = context.nextRef();
+      const children = writeLevel(node.children, ref);
+      const isHeading = !node.destination && !node.action && node.children.length === 0;
+      if (!dest && !node.action && children.refs.length === 0 && !isHeading) continue;
+
+      const dict = context.obj({ Title: PDFHexString.fromText(node.title), Parent: parent });
+      if (dest) dict.set(PDFName.of('Dest'), dest);
+      else if (node.action) dict.set(PDFName.of('A'), copier.copy(node.action));
+      if (node.color) dict.set(PDFName.of('C'), copier.copy(node.color));
+      if (node.flags) dict.set(PDFName.of('F'), copier.copy(node.flags));
+      if (children.refs.length > 0) {
+        dict.set(PDFName.of('First'), children.refs[0]);
+        dict.set(PDFName.of('Last'), children.refs[children.refs.length - 1]);
+        dict.set(PDFName.of('Count'), PDFNumber.of(node.open ? children.visible : -children.visible));
+      }
+      written.push({ ref, dict });
+      visible += 1 + (node.open ? children.visible : 0);
+    }
+
+    written.forEach(({ ref, dict }, i) => {
+      if (i > 0) dict.set(PDFName.of('Prev'), written[i - 1].ref);
+      if (i < written.length - 1) dict.set(PDFName.of('Next'), written[i + 1].ref);
+      context.assign(ref, dict);
+    });
+    return { refs: written.map(({ ref }) => ref), visible };
+  };
+
+  const rootRef = context.nextRef();
+  const top = writeLevel(structure.outline, rootRef);
+  if (top.refs.length === 0) return;
+
+  context.assign(rootRef, context.obj({
+    Type: 'Outlines',
+    First: top.refs[0],
+    Last: top.refs[top.refs.length - 1],
+    Count: top.visible,
+  }));
+  target.catalog.set(PDFName.of('Outlines'), rootRef);
+  if (structure.pageMode) target.catalog.set(PDFName.of('PageMode'), structure.pageMode);
+};
+
+// Chinese numerals have no page label style; viewers show them as decimals
+const LABEL_STYLES: Record<NumeralStyle, string> = {
+  arabic: 'D',
+  lowerRoman: 'r',
+  upperRoman: 'R',
+  chinese: 'D',
+};
+
+/**
+ * Page labels that match the stamped numbers, so a viewer's page box shows "12" on the page stamped 12.
+ * A label is a prefix and a numeral: the text before {n} in the number format becomes the prefix and the
+ * text after it is left out. Formats without exactly one {n}, or with {total} before it, get no labels.
+ * Unnumbered pages get empty labels.
+ */
+const writePageLabels = (target: PDFDocument, pageNumbers: (number | null)[], options: SplitOptions): void => {
+  if (!options.enablePageNumbering || pageNumbers.every(pageNumber => pageNumber === null)) return;
+
+  const parts = (options.numberFormat || '{n}').split('{n}');
+  if (parts.length !== 2 || parts[0].includes('{total}')) return;
+
+  const { context } = target;
+  const prefix = parts[0];
+  const labelable = (pageNumber: number | null): pageNumber is number => pageNumber !== null && pageNumber >= 1;
+  const nums: PDFObject[] = [];
+
+  pageNumbers.forEach((pageNumber, index) => {
+    const previous = index > 0 ? pageNumbers[index - 1] : undefined;
+    const continues = previous !== undefined && (labelable(pageNumber)
+      ? labelable(previous) && pageNumber === previous + 1
+      : !labelable(previous));
+    if (continues) return;
+
+    const label = context.obj({});
+    if (labelable(pageNumber)) {
+      label.set(PDFName.of('S'), PDFName.of(LABEL_STYLES[options.numberStyle]));
+      label.set(PDFName.of('St'), PDFNumber.of(pageNumber));
+      if (prefix) label.set(PDFName.of('P'), PDFHexString.fromText(prefix));
+    }
+    nums.push(PDFNumber.of(index), label);
+  });
+
+  target.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { detectGutter } from './gutterDetection';
+import { PixelData } from './pageRenderer';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+/**
+ * A white page with grey text lines on every other row, except in the columns `isGap` leaves blank.
+ */
+const makePage = (isGap: (x: number) => boolean): PixelData => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  for (let y = 0; y < HEIGHT; y += 2) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (isGap(x)) continue;
+      data.fill(40, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const fullPage = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+describe('detectGutter', () => {
+  it('finds a blank column off the middle with high confidence', () => {
+    const result = detectGutter(makePage(x => x >= 116 && x < 124), fullPage, true);
+    expect(result.ratio).toBeCloseTo(0.6, 2);
+    expect(result.confidence).toBeGreaterThan(0.9);
+    expect(result.vertical).toBe(true);
+  });
+
+  it('prefers the blank column closest to the middle', () => {
+    const result = detectGutter(makePage(x => (x >= 70 && x < 76) || (x >= 104 && x < 110)), fullPage, true);
+    expect(result.ratio).toBeCloseTo(0.535, 2);
+  });
+
+  it('ignores gaps outside the middle of the page', () => {
+    const result = detectGutter(makePage(x => x < 40), fullPage, true);
+    expect(result.confidence).toBe(0);
+  });
+
+  it('measures the ratio within the region only', () => {
+    const result = detectGutter(makePage(x => x >= 116 && x < 124), { x: 40, y: 0, width: 160, height: HEIGHT }, true);
+    expect(result.ratio).toBeCloseTo(0.5, 2);
+  });
+
+  it('returns no confidence for a blank page', () => {
+    expect(detectGutter(makePage(() => true), fullPage, true).confidence).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { GutterDetection, SplitOptions } from '../types';
+import { Box, PageGeometry, getScanCorrection, getSplitLayout } from './splitGeometry';
+import { PixelData, boxToCanvasRegion, isInkPixel, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+import { rotatePixels } from './scanDetection';
+
+// Gutters are only searched in the middle of the page
+const SEARCH_START = 0.3;
+const SEARCH_END = 0.7;
+
+// Longest side of the page when rendered for detection, in pixels
+const DETECTION_SIZE = 800;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length === 0 ? 0 : sorted[Math.floor(sorted.length / 2)];
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Builds the ink density profile of a region: one value per column (vertical cut) or row (horizontal cut).
+ */
+const getInkProfile = (image: PixelData, region: Box, vertical: boolean): number[] => {
+  const length = vertical ? region.width : region.height;
+  const span = vertical ? region.height : region.width;
+  const profile = new Array<number>(length).fill(0);
+
+  for (let i = 0; i < length; i++) {
+    let ink = 0;
+    for (let j = 0; j < span; j++) {
+      const x = region.x + (vertical ? i : j);
+      const y = region.y + (vertical ? j : i);
+      if (isInkPixel(image, x, y)) ink++;
+    }
+    profile[i] = span > 0 ? ink / span : 0;
+  }
+
+  // Smooth over ~1% of the length so isolated specks don't create false gutters
+  const radius = Math.max(1, Math.round(length * 0.005));
+  return profile.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, i - radius); k <= Math.min(length - 1, i + radius); k++) {
+      sum += profile[k];
+      count++;
+    }
+    return sum / count;
+  });
+};
+
+/**
+ * Finds the whitespace column (or row) closest to the middle of a rendered page region.
+ * The region must be the page's visible box on the image, so the ratio matches the split geometry.
+ */
+export const detectGutter = (image: PixelData, region: Box, vertical: boolean): GutterDetection => {
+  const profile = getInkProfile(image, region, vertical);
+  const length = profile.length;
+  const start = Math.floor(length * SEARCH_START);
+  const end = Math.ceil(length * SEARCH_END);
+  const band = profile.slice(start, end);
+
+  if (band.length === 0) {
+    return { ratio: 0.5, confidence: 0, vertical };
+  }
+
+  const minInk = Math.min(...band);
+  const tolerance = minInk + 0.002;
+
+  // Group near-minimal positions into runs and pick the run closest to the middle
+  let best: { center: number; width: number } | null = null;
+  let runStart = -1;
+  for (let i = start; i <= end; i++) {
+    const isWhite = i < end && profile[i] <= tolerance;
+    if (isWhite && runStart < 0) runStart = i;
+    if (!isWhite && runStart >= 0) {
+      const run = { center: (runStart + i - 1) / 2, width: i - runStart };
+      if (!best || Math.abs(run.center - length / 2) < Math.abs(best.center - length / 2)) {
+        best = run;
+      }
+      runStart = -1;
+    }
+  }
+
+  if (!best) {
+    return { ratio: 0.5, confidence: 0, vertical };
+  }
+
+  // Confident when the gutter is clean, the page around it has content, and the gap is reasonably wide
+  const whiteness = clamp01(1 - minInk / 0.02);
+  const bandMedian = median(band);
+  const contrast = clamp01((bandMedian - minInk) / Math.max(bandMedian, 0.01));
+  const widthFactor = clamp01(best.width / (length * 0.01));
+  const confidence = Math.min(whiteness, contrast) * (0.5 + 0.5 * widthFactor);
+
+  return { ratio: (best.center + 0.5) / length, confidence, vertical };
+};
+
+/**
+ * Renders every page with pdfjs and detects its gutter along the axis the page will be cut.
+ * Deskewed pages are straightened first, like the output. Returns one entry per source page;
+ * pages that are not split in two get null.
+ * When the signal is aborted, detection stops at the next page and the promise rejects with its reason.
+ */
+export const detectGutters = async (
+  data: ArrayBuffer,
+  geometries: PageGeometry[],
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<(GutterDetection | null)[]> => {
+  const pdf = await loadPdfDocument(data);
+  const results: (GutterDetection | null)[] = [];
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      signal?.throwIfAborted();
+      const geometry = geometries[i];
+      const layout = geometry ? getSplitLayout(geometry, { ...options, autoDetectGutter: false }, i) : null;
+
+      if (!geometry || !layout || layout.cuts.length !== 1) {
+        results.push(null);
+      } else {
+        const page = await pdf.getPage(i + 1);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const scale = DETECTION_SIZE / Math.max(baseViewport.width, baseViewport.height);
+        const { canvas, viewport } = await renderPageToCanvas(page, scale);
+        const context = canvas.getContext('2d');
+
+        if (!context) {
+          results.push(null);
+        } else {
+          const region = boxToCanvasRegion(viewport, geometry.box, canvas);
+          const angle = getScanCorrection(options, i)?.angle ?? 0;
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          results.push(detectGutter(angle !== 0 ? rotatePixels(image, region, angle) : image, region, layout.vertical));
+        }
+
+        page.cleanup();
+      }
+
+      onProgress(((i + 1) / pdf.numPages) * 100);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return results;
+};
@@ -0,0 +1,241 @@
+import { zlibSync } from 'fflate';
+import { PDFDocument, concatTransformationMatrix, drawObject, popGraphicsState, pushGraphicsState } from 'pdf-lib';
+import { ExportImageFormat, SplitOptions, SplitOutput } from '../types';
+import { formatImageFileName } from './outputFiles';
+import { getLuminance, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+
+// Turns split results into images or image-only PDFs, rendered with the same pdfjs renderer as the preview.
+// Needs a canvas, so it runs on the page, not in the worker.
+
+// Pixels darker than this become black in bilevel exports
+const BILEVEL_THRESHOLD = 160;
+
+const EXTENSIONS: Record<ExportImageFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+// ---- PNG ----
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+
+  let crc = 0xffffffff;
+  for (let i = 4; i < data.length + 8; i++) crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  view.setUint32(data.length + 8, (crc ^ 0xffffffff) >>> 0);
+  return chunk;
+};
+
+/**
+ * Packs gray values into rows of `bitDepth` bits per pixel: 8 keeps them, 1 keeps only black and white
+ * (a set bit is white, as in PNG and PDF DeviceGray).
+ */
+const packGrayRows = (gray: Uint8Array, width: number, height: number, bitDepth: 1 | 8): { rows: Uint8Array[]; rowLength: number } => {
+  const rowLength = bitDepth === 8 ? width : Math.ceil(width / 8);
+  const rows: Uint8Array[] = [];
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(rowLength);
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x];
+      if (bitDepth === 8) row[x] = value;
+      else if (value >= BILEVEL_THRESHOLD) row[x >> 3] |= 0x80 >> (x & 7);
+    }
+    rows.push(row);
+  }
+  return { rows, rowLength };
+};
+
+/**
+ * Encodes a grayscale or bilevel PNG, which the canvas cannot produce, with the resolution stored.
+ */
+const encodeGrayPng = (gray: Uint8Array, width: number, height: number, bitDepth: 1 | 8, dpi: number): Uint8Array => {
+  const { rows, rowLength } = packGrayRows(gray, width, height, bitDepth);
+  // Every row starts with filter type 0 (none)
+  const raw = new Uint8Array((rowLength + 1) * height);
+  rows.forEach((row, y) => raw.set(row, y * (rowLength + 1) + 1));
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = 0; // grayscale
+
+  const physical = new Uint8Array(9);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  new DataView(physical.buffer).setUint32(0, pixelsPerMetre);
+  new DataView(physical.buffer).setUint32(4, pixelsPerMetre);
+  physical[8] = 1; // unit: metre
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('pHYs', physical),
+    pngChunk('IDAT', zlibSync(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    png.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return png;
+};
+
+// ---- Pixels ----
+
+const toGrayValues = (image: ImageData): Uint8Array => {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = getLuminance(image.data, i * 4);
+  }
+  return gray;
+};
+
+/**
+ * Draws gray values back onto the canvas, thresholded to black and white for bilevel exports.
+ */
+const putGrayValues = (context: CanvasRenderingContext2D, image: ImageData, gray: Uint8Array, bilevel: boolean): void => {
+  for (let i = 0; i < gray.length; i++) {
+    const value = bilevel ? (gray[i] >= BILEVEL_THRESHOLD ? 255 : 0) : gray[i];
+    image.data[i * 4] = value;
+    image.data[i * 4 + 1] = value;
+    image.data[i * 4 + 2] = value;
+  }
+  context.putImageData(image, 0, 0);
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers fall back to PNG for formats they cannot encode
+      if (!blob || blob.type !== mimeType) {
+        reject(new Error(`此浏览器无法导出 ${mimeType.replace('image/', '').toUpperCase()} 图片`));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, mimeType, quality);
+  });
+
+/**
+ * Converts a rendered page to the export colour mode. Returns its gray values for the encoders that
+ * store them directly, or null for colour exports.
+ */
+const applyColorMode = (canvas: HTMLCanvasElement, options: SplitOptions): Uint8Array | null => {
+  if (options.exportColorMode === 'color') return null;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = toGrayValues(image);
+  putGrayValues(context, image, gray, options.exportColorMode === 'bilevel');
+  return gray;
+};
+
+const encodeImage = async (canvas: HTMLCanvasElement, options: SplitOptions): Promise<Uint8Array> => {
+  const gray = applyColorMode(canvas, options);
+  if (gray && options.exportImageFormat === 'png') {
+    return encodeGrayPng(gray, canvas.width, canvas.height, options.exportColorMode === 'bilevel' ? 1 : 8, options.exportDpi);
+  }
+  return canvasToBytes(canvas, `image/${options.exportImageFormat}`, options.exportQuality);
+};
+
+/**
+ * Adds a page of the given size showing the rendered canvas: bilevel pages as 1-bit Flate images,
+ * everything else as JPEG.
+ */
+const addRasterPage = async (doc: PDFDocument, canvas: HTMLCanvasElement, width: number, height: number, options: SplitOptions): Promise<void> => {
+  const gray = applyColorMode(canvas, options);
+  const page = doc.addPage([width, height]);
+
+  if (gray && options.exportColorMode === 'bilevel') {
+    const { rows, rowLength } = packGrayRows(gray, canvas.width, canvas.height, 1);
+    const bits = new Uint8Array(rowLength * canvas.height);
+    rows.forEach((row, y) => bits.set(row, y * rowLength));
+    const image = doc.context.flateStream(bits, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: canvas.width,
+      Height: canvas.height,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: 1,
+    });
+    const name = page.node.newXObject('Image', doc.context.register(image));
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(width, 0, 0, height, 0, 0), drawObject(name), popGraphicsState());
+    return;
+  }
+
+  const jpeg = await doc.embedJpg(await canvasToBytes(canvas, 'image/jpeg', options.exportQuality));
+  page.drawImage(jpeg, { x: 0, y: 0, width, height });
+};
+
+// ---- Export ----
+
+/**
+ * Converts split results to `options.outputFormat`. PDFs are returned as they are. `rasterPdf` renders every
+ * page at `exportDpi` into an image-only PDF of the same page size and name, so printers see no CropBox.
+ * `images` turns every page into one image file named by `exportFileNameTemplate`. Text and links do not survive.
+ */
+export const exportSplitOutputs = async (
+  outputs: SplitOutput[],
+  fileName: string,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => {
+  if (options.outputFormat === 'pdf') return outputs;
+
+  // pdfjs may take over the buffer it is given, so every output is opened from a copy
+  const documents = await Promise.all(outputs.map(output => loadPdfDocument(output.data.slice().buffer)));
+  const total = documents.reduce((count, pdf) => count + pdf.numPages, 0);
+  const scale = options.exportDpi / 72;
+  const results: SplitOutput[] = [];
+  let done = 0;
+
+  try {
+    for (const [index, pdf] of documents.entries()) {
+      const outputName = outputs[index].name;
+      const rasterDoc = options.outputFormat === 'rasterPdf' ? await PDFDocument.create() : null;
+
+      for (let i = 0; i < pdf.numPages; i++) {
+        signal?.throwIfAborted();
+        const page = await pdf.getPage(i + 1);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const { canvas } = await renderPageToCanvas(page, scale);
+        page.cleanup();
+
+        if (rasterDoc) {
+          await addRasterPage(rasterDoc, canvas, width, height, options);
+        } else {
+          results.push({
+            name: formatImageFileName(options.exportFileNameTemplate, fileName, { outputName, index: done, total, filePage: i }, EXTENSIONS[options.exportImageFormat]),
+            data: await encodeImage(canvas, options),
+          });
+        }
+        canvas.width = 0;
+        onProgress((++done / total) * 100);
+      }
+
+      if (rasterDoc) {
+        results.push({ name: outputName, data: await rasterDoc.save() });
+      }
+    }
+  } finally {
+    await Promise.all(documents.map(pdf => pdf.destroy()));
+  }
+
+  return results;
+};
@@ -0,0 +1,134 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { detectImageFormat, getImageDocumentName, imagesToPdf, isSupportedImageFile } from './imageInput';
+
+type Entry = [tag: number, type: 3 | 4 | 5, values: number[]];
+
+const FIELD_SIZES = { 3: 2, 4: 4, 5: 8 };
+
+/**
+ * A TIFF with one directory per page. Strip offsets and byte counts are filled in; rationals are written as value/1.
+ */
+const makeTiff = (pages: { entries: Entry[]; strips: number[][] }[], little = true): Uint8Array => {
+  const bytes: number[] = little ? [0x49, 0x49, 42, 0] : [0x4d, 0x4d, 0, 42];
+  const put = (value: number, size: number, at = bytes.length) => {
+    for (let i = 0; i < size; i++) bytes[at + i] = (value >>> (8 * (little ? i : size - 1 - i))) & 0xff;
+  };
+  let link = bytes.length;
+  put(0, 4);
+
+  for (const { entries, strips } of pages) {
+    const offsets = strips.map(strip => bytes.push(...strip) - strip.length);
+    const all: Entry[] = [...entries, [273, 4, offsets], [279, 4, strips.map(strip => strip.length)]];
+    all.sort((a, b) => a[0] - b[0]);
+    if (bytes.length % 2) bytes.push(0);
+    put(bytes.length, 4, link);
+
+    let extra = bytes.length + 2 + all.length * 12 + 4;
+    put(all.length, 2);
+    for (const [tag, type, values] of all) {
+      const size = FIELD_SIZES[type] * values.length;
+      put(tag, 2);
+      put(type, 2);
+      put(values.length, 4);
+      if (size <= 4) {
+        values.forEach(value => put(value, FIELD_SIZES[type]));
+        put(0, 4 - size);
+      } else {
+        put(extra, 4);
+        extra += size;
+      }
+    }
+    link = bytes.length;
+    put(0, 4);
+    for (const [, type, values] of all) {
+      if (FIELD_SIZES[type] * values.length <= 4) continue;
+      values.forEach(value => (type === 5 ? (put(value, 4), put(1, 4)) : put(value, FIELD_SIZES[type])));
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+// An 8-bit grey image of 4 x 2 pixels in two strips, at 300 dpi
+const greyPage = (entries: Entry[] = [], strips = [[0, 64, 128, 255], [255, 128, 64, 0]]) => {
+  const defaults: Entry[] = [
+    [256, 3, [4]], [257, 3, [2]], [258, 3, [8]], [259, 3, [1]], [262, 3, [1]], [278, 3, [1]],
+    [282, 5, [300]], [283, 5, [300]], [296, 3, [2]],
+  ];
+  const byTag = new Map([...defaults, ...entries].map(entry => [entry[0], entry]));
+  return { entries: [...byTag.values()], strips };
+};
+
+const convert = async (data: Uint8Array, name = 'scan.tif') => PDFDocument.load(await imagesToPdf([{ name, data }]));
+
+const pageImages = (doc: PDFDocument, pageIndex = 0): PDFRawStream[] => {
+  const xObjects = doc.getPages()[pageIndex].node.Resources()!.lookup(PDFName.of('XObject'), PDFDict);
+  return xObjects.values().map(ref => doc.context.lookup(ref) as PDFRawStream);
+};
+
+describe('imagesToPdf with TIFF', () => {
+  it('embeds every strip of an uncompressed page on an A3 page that matches its orientation', async () => {
+    const doc = await convert(makeTiff([greyPage()]));
+    const [width, height] = [doc.getPages()[0].getWidth(), doc.getPages()[0].getHeight()];
+    expect(width).toBeGreaterThan(height);
+
+    const images = pageImages(doc);
+    expect(images).toHaveLength(2);
+    expect(images[0].dict.get(PDFName.of('Width'))?.toString()).toBe('4');
+    expect(images[0].dict.get(PDFName.of('Height'))?.toString()).toBe('1');
+    expect(images[0].dict.get(PDFName.of('ColorSpace'))).toBe(PDFName.of('DeviceGray'));
+    expect([...decodePDFRawStream(images[0]).decode()]).toEqual([0, 64, 128, 255]);
+  });
+
+  it('decodes PackBits and inverts WhiteIsZero grey', async () => {
+    const doc = await convert(makeTiff([greyPage([[259, 3, [32773]], [262, 3, [0]]], [[0xfd, 7], [0x01, 1, 2, 0xff, 3]])]));
+    const images = pageImages(doc);
+
+    expect([...decodePDFRawStream(images[0]).decode()]).toEqual([7, 7, 7, 7]);
+    expect([...decodePDFRawStream(images[1]).decode()]).toEqual([1, 2, 3, 3]);
+    expect(images[0].dict.lookup(PDFName.of('Decode'), PDFArray).toString()).toBe('[ 1 0 ]');
+  });
+
+  it('passes LZW strips through with the matching filter', async () => {
+    const strip = [0x80, 0x00, 0x20, 0x30];
+    const doc = await convert(makeTiff([greyPage([[259, 3, [5]]], [strip, strip])]));
+    const [image] = pageImages(doc);
+
+    expect(image.dict.get(PDFName.of('Filter'))).toBe(PDFName.of('LZWDecode'));
+    expect([...image.getContents()]).toEqual(strip);
+  });
+
+  it('makes a page for every page of a multi-page file and skips thumbnails, in either byte order', async () => {
+    for (const little of [true, false]) {
+      const doc = await convert(makeTiff([greyPage(), greyPage([[254, 4, [1]]]), greyPage()], little));
+      expect(doc.getPageCount()).toBe(2);
+    }
+  });
+
+  it('turns the page for the TIFF orientation', async () => {
+    const page = (await convert(makeTiff([greyPage([[274, 3, [6]]])]))).getPages()[0];
+    expect(page.getWidth()).toBeLessThan(page.getHeight());
+  });
+
+  it('names the file when a page cannot be embedded', async () => {
+    await expect(convert(makeTiff([greyPage([[259, 3, [99]]])]))).rejects.toThrow('scan.tif：不支持的 TIFF 压缩方式（99）');
+    await expect(convert(makeTiff([greyPage([[256, 3, [0]]])]))).rejects.toThrow('scan.tif：TIFF 页面缺少尺寸');
+  });
+});
+
+describe('image files', () => {
+  it('detects formats by their signature and rejects other files', async () => {
+    expect(detectImageFormat(makeTiff([greyPage()], false))).toBe('tiff');
+    expect(detectImageFormat(Uint8Array.of(0xff, 0xd8, 0xff, 0xe0))).toBe('jpeg');
+    expect(detectImageFormat(Uint8Array.of(0x89, 0x50, 0x4e, 0x47))).toBe('png');
+    await expect(convert(Uint8Array.of(1, 2, 3, 4), 'notes.txt')).rejects.toThrow('notes.txt：不是支持的图片格式');
+  });
+
+  it('accepts images by type or extension and names the PDF after the first one', () => {
+    expect(isSupportedImageFile({ name: 'scan.TIF', type: '' })).toBe(true);
+    expect(isSupportedImageFile({ name: 'scan', type: 'image/png' })).toBe(true);
+    expect(isSupportedImageFile({ name: 'scan.gif', type: 'image/gif' })).toBe(false);
+    expect(getImageDocumentName([{ id: '1', file: new File([], 'page 1.jpeg') }])).toBe('page 1.pdf');
+    expect(getImageDocumentName([])).toBe('images.pdf');
+  });
+});
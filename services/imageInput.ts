@@ -0,0 +1,470 @@
+import { PDFArray, PDFContext, PDFDocument, PDFHexString, PDFName, PDFPage, PDFRef, concatTransformationMatrix, drawObject, popGraphicsState, pushGraphicsState } from 'pdf-lib';
+import { ImageInput } from '../types';
+import { toPoints } from './splitGeometry';
+
+// Turns scanned images into a PDF with one A3 page per image (or per TIFF page), so they go through the
+// same preview and split pipeline as PDFs. TIFF strips are embedded with the matching PDF filter instead of
+// being decoded: LZW, Deflate, CCITT fax and JPEG data are valid PDF image streams as they are.
+
+export type ImageFormat = 'jpeg' | 'png' | 'tiff';
+
+/**
+ * An embedded image split into the pieces it is stored in: TIFF strips or tiles, or one piece for JPEG and PNG.
+ * Pieces are in pixels with the origin at the top left.
+ */
+interface RasterImage {
+  width: number;
+  height: number;
+  dpi?: { x: number; y: number };
+  quarterTurns: number; // clockwise turns needed to show the image upright (EXIF / TIFF orientation)
+  pieces: { ref: PDFRef; x: number; y: number; width: number; height: number }[];
+}
+
+// pdf-lib does not export the type of the plain objects it turns into stream dictionaries
+type StreamDict = NonNullable<Parameters<PDFContext['stream']>[1]>;
+
+const A3_SHORT = toPoints(297, 'mm');
+const A3_LONG = toPoints(420, 'mm');
+
+// Resolutions below this are placeholders (such as a missing unit), not scanner settings
+const MIN_PLAUSIBLE_DPI = 50;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|tiff?)$/i;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/tiff'];
+
+/**
+ * Whether a selected file is an image this module converts, judged by type or extension.
+ */
+export const isSupportedImageFile = (file: { name: string; type: string }): boolean =>
+  IMAGE_TYPES.includes(file.type) || IMAGE_EXTENSIONS.test(file.name);
+
+export const detectImageFormat = (data: Uint8Array): ImageFormat | null => {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'png';
+  if ((data[0] === 0x49 && data[1] === 0x49 && data[2] === 42 && data[3] === 0) || (data[0] === 0x4d && data[1] === 0x4d && data[2] === 0 && data[3] === 42)) {
+    return 'tiff';
+  }
+  return null;
+};
+
+export const createImageInput = (file: File): ImageInput => ({ id: crypto.randomUUID(), file });
+
+const plausibleDpi = (x: number, y: number): RasterImage['dpi'] =>
+  x >= MIN_PLAUSIBLE_DPI && y >= MIN_PLAUSIBLE_DPI && Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+
+const ORIENTATION_TURNS: Record<number, number> = { 3: 2, 6: 1, 8: 3 };
+
+// ---- TIFF structure ----
+
+const TAG = {
+  NewSubfileType: 254,
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  Photometric: 262,
+  FillOrder: 266,
+  StripOffsets: 273,
+  Orientation: 274,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfig: 284,
+  T4Options: 292,
+  ResolutionUnit: 296,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  ExtraSamples: 338,
+  JPEGTables: 347,
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TiffDirectory = Map<number, number[]>;
+
+/**
+ * Reads the image file directories of a TIFF (or of the EXIF block of a JPEG). Values are numbers;
+ * rationals are divided out and byte arrays come back one number per byte.
+ */
+const readTiffDirectories = (data: Uint8Array, maxDirectories = Infinity): TiffDirectory[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const little = data[0] === 0x49;
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  const readValue = (type: number, offset: number): number => {
+    switch (type) {
+      case 3: return u16(offset);
+      case 4: return u32(offset);
+      case 5: return u32(offset) / (u32(offset + 4) || 1);
+      case 6: return view.getInt8(offset);
+      case 8: return view.getInt16(offset, little);
+      case 9: return view.getInt32(offset, little);
+      case 10: return view.getInt32(offset, little) / (view.getInt32(offset + 4, little) || 1);
+      case 11: return view.getFloat32(offset, little);
+      case 12: return view.getFloat64(offset, little);
+      default: return data[offset];
+    }
+  };
+
+  const directories: TiffDirectory[] = [];
+  const visited = new Set<number>();
+  for (let offset = u32(4); offset > 0 && offset + 2 <= data.length && !visited.has(offset) && directories.length < maxDirectories; ) {
+    visited.add(offset);
+    const directory: TiffDirectory = new Map();
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > data.length) break;
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+      const valueOffset = size * valueCount <= 4 ? entry + 8 : u32(entry + 8);
+      if (valueOffset + size * valueCount > data.length) continue;
+      directory.set(u16(entry), Array.from({ length: valueCount }, (_, j) => readValue(type, valueOffset + j * size)));
+    }
+    directories.push(directory);
+    offset = offset + 2 + count * 12 + 4 <= data.length ? u32(offset + 2 + count * 12) : 0;
+  }
+  return directories;
+};
+
+const resolutionOf = (directory: TiffDirectory): RasterImage['dpi'] => {
+  const unit = directory.get(TAG.ResolutionUnit)?.[0] ?? 2;
+  const x = directory.get(TAG.XResolution)?.[0];
+  const y = directory.get(TAG.YResolution)?.[0] ?? x;
+  if (x === undefined || y === undefined || unit === 1) return undefined;
+  return unit === 3 ? plausibleDpi(x * 2.54, y * 2.54) : plausibleDpi(x, y);
+};
+
+const decodePackBits = (data: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  for (let i = 0; i < data.length; ) {
+    const header = data[i++];
+    if (header < 128) {
+      for (let j = 0; j <= header && i < data.length; j++) output.push(data[i++]);
+    } else if (header > 128) {
+      const value = data[i++];
+      for (let j = 0; j < 257 - header; j++) output.push(value);
+    }
+  }
+  return Uint8Array.from(output);
+};
+
+const reverseBits = (data: Uint8Array): Uint8Array =>
+  data.map(byte => {
+    let reversed = 0;
+    for (let bit = 0; bit < 8; bit++) reversed |= ((byte >> bit) & 1) << (7 - bit);
+    return reversed;
+  });
+
+const swapBytePairs = (data: Uint8Array): Uint8Array => {
+  const swapped = data.slice();
+  for (let i = 0; i + 1 < swapped.length; i += 2) [swapped[i], swapped[i + 1]] = [swapped[i + 1], swapped[i]];
+  return swapped;
+};
+
+/**
+ * Embeds every page of a TIFF. Reduced-resolution copies (thumbnails) are skipped.
+ */
+const embedTiff = (doc: PDFDocument, data: Uint8Array, name: string): RasterImage[] => {
+  const { context } = doc;
+  const little = data[0] === 0x49;
+  const fail = (reason: string): never => {
+    throw new Error(`${name}：${reason}`);
+  };
+
+  return readTiffDirectories(data)
+    .filter(directory => ((directory.get(TAG.NewSubfileType)?.[0] ?? 0) & 1) === 0)
+    .map(directory => {
+      const get = (tag: number, fallback: number) => directory.get(tag)?.[0] ?? fallback;
+      const width = get(TAG.ImageWidth, 0);
+      const height = get(TAG.ImageLength, 0);
+      const bits = get(TAG.BitsPerSample, 1);
+      const samples = get(TAG.SamplesPerPixel, 1);
+      const compression = get(TAG.Compression, 1);
+      const photometric = get(TAG.Photometric, compression >= 2 && compression <= 4 ? 0 : 1);
+      const predictor = get(TAG.Predictor, 1);
+      const extraSamples = directory.get(TAG.ExtraSamples)?.length ?? 0;
+      if (width === 0 || height === 0) fail('TIFF 页面缺少尺寸');
+      if (samples > 1 && get(TAG.PlanarConfig, 1) === 2) fail('不支持按通道分平面存储的 TIFF');
+      if (extraSamples > 0) fail('不支持带透明通道的 TIFF，请另存为不带透明度的图片');
+      if (predictor === 3) fail('不支持浮点预测的 TIFF');
+      if (bits === 16 && little && compression !== 1 && compression !== 32773) fail('不支持压缩的 16 位 TIFF');
+
+      // Colour space; WhiteIsZero grey is inverted with /Decode except for fax data, whose filter handles it
+      const isFax = compression >= 2 && compression <= 4;
+      let colorSpace: string | PDFArray;
+      let decode: number[] | undefined;
+      switch (photometric) {
+        case 0:
+        case 1:
+          colorSpace = 'DeviceGray';
+          if (photometric === 0 && !isFax) decode = [1, 0];
+          break;
+        case 2:
+        case 6:
+          if (photometric === 6 && compression !== 7) fail('只支持 JPEG 压缩的 YCbCr TIFF');
+          colorSpace = 'DeviceRGB';
+          break;
+        case 3: {
+          const colorMap = directory.get(TAG.ColorMap) ?? [];
+          const entries = 2 ** bits;
+          const lookup = Array.from({ length: entries }, (_, i) => [colorMap[i], colorMap[entries + i], colorMap[2 * entries + i]]
+            .map(value => ((value ?? 0) >> 8).toString(16).padStart(2, '0')).join('')).join('');
+          colorSpace = context.obj([PDFName.of('Indexed'), PDFName.of('DeviceRGB'), entries - 1, PDFHexString.of(lookup)]);
+          break;
+        }
+        case 5:
+          colorSpace = 'DeviceCMYK';
+          break;
+        default:
+          return fail(`不支持的 TIFF 颜色类型（${photometric}）`);
+      }
+
+      // Strips are pieces as wide as the image; tiles are pieces of a fixed size that may overhang it
+      const tileWidth = get(TAG.TileWidth, 0);
+      const tileHeight = get(TAG.TileLength, 0);
+      const isTiled = tileWidth > 0 && tileHeight > 0;
+      const offsets = directory.get(isTiled ? TAG.TileOffsets : TAG.StripOffsets) ?? [];
+      const byteCounts = directory.get(isTiled ? TAG.TileByteCounts : TAG.StripByteCounts) ?? [];
+      const rowsPerStrip = Math.min(get(TAG.RowsPerStrip, height), height);
+      const tilesAcross = isTiled ? Math.ceil(width / tileWidth) : 1;
+      const jpegTables = directory.get(TAG.JPEGTables);
+      const reverse = get(TAG.FillOrder, 1) === 2;
+
+      const pieces = offsets.map((offset, i) => {
+        const x = isTiled ? (i % tilesAcross) * tileWidth : 0;
+        const y = isTiled ? Math.floor(i / tilesAcross) * tileHeight : i * rowsPerStrip;
+        const pieceWidth = isTiled ? tileWidth : width;
+        const pieceHeight = isTiled ? tileHeight : Math.min(rowsPerStrip, height - y);
+        let bytes = data.subarray(offset, offset + (byteCounts[i] ?? 0));
+
+        const dict: StreamDict = {
+          Type: 'XObject',
+          Subtype: 'Image',
+          Width: pieceWidth,
+          Height: pieceHeight,
+          BitsPerComponent: isFax ? 1 : bits,
+          ColorSpace: colorSpace,
+          ...(decode && { Decode: decode }),
+        };
+        const predictorParms = predictor === 2 ? { Predictor: 2, Colors: samples, BitsPerComponent: bits, Columns: pieceWidth } : undefined;
+
+        switch (compression) {
+          case 1:
+          case 32773: {
+            let raw = compression === 1 ? bytes : decodePackBits(bytes);
+            if (reverse && bits === 1) raw = reverseBits(raw);
+            if (bits === 16 && little) raw = swapBytePairs(raw);
+            const stream = context.flateStream(raw, { ...dict, ...(predictorParms && { DecodeParms: predictorParms }) });
+            return { ref: context.register(stream), x, y, width: pieceWidth, height: pieceHeight };
+          }
+          case 5:
+          case 8:
+          case 32946:
+            dict.Filter = compression === 5 ? 'LZWDecode' : 'FlateDecode';
+            if (predictorParms) dict.DecodeParms = predictorParms;
+            break;
+          case 2:
+          case 3:
+          case 4: {
+            if (reverse) bytes = reverseBits(bytes);
+            const t4Options = get(TAG.T4Options, 0);
+            dict.Filter = 'CCITTFaxDecode';
+            dict.DecodeParms = {
+              K: compression === 4 ? -1 : compression === 3 && (t4Options & 1) ? 1 : 0,
+              Columns: pieceWidth,
+              Rows: pieceHeight,
+              BlackIs1: photometric === 1,
+              EncodedByteAlign: compression === 2 || (compression === 3 && (t4Options & 4) !== 0),
+            };
+            break;
+          }
+          case 7:
+            // Shared tables are stored once; each piece needs them between its SOI marker and its own segments
+            if (jpegTables && jpegTables.length > 4) {
+              const tables = Uint8Array.from(jpegTables).subarray(2, jpegTables.length - 2);
+              const merged = new Uint8Array(bytes.length + tables.length);
+              merged.set(bytes.subarray(0, 2));
+              merged.set(tables, 2);
+              merged.set(bytes.subarray(2), 2 + tables.length);
+              bytes = merged;
+            }
+            dict.Filter = 'DCTDecode';
+            dict.BitsPerComponent = 8;
+            if (samples === 3) dict.DecodeParms = { ColorTransform: photometric === 6 ? 1 : 0 };
+            break;
+          default:
+            return fail(`不支持的 TIFF 压缩方式（${compression}）`);
+        }
+        return { ref: context.register(context.stream(bytes, dict)), x, y, width: pieceWidth, height: pieceHeight };
+      });
+
+      if (pieces.length === 0) fail('TIFF 页面没有图像数据');
+      return {
+        width,
+        height,
+        dpi: resolutionOf(directory),
+        quarterTurns: ORIENTATION_TURNS[get(TAG.Orientation, 1)] ?? 0,
+        pieces,
+      };
+    });
+};
+
+// ---- JPEG and PNG ----
+
+const readJpegMetadata = (data: Uint8Array): Pick<RasterImage, 'dpi' | 'quarterTurns'> => {
+  let jfifDpi: RasterImage['dpi'];
+  let exif: TiffDirectory | undefined;
+  for (let offset = 2; offset + 4 <= data.length && data[offset] === 0xff; ) {
+    const marker = data[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+    const signature = String.fromCharCode(...segment.subarray(0, 6));
+
+    if (marker === 0xe0 && signature.startsWith('JFIF')) {
+      const units = segment[7];
+      const x = (segment[8] << 8) | segment[9];
+      const y = (segment[10] << 8) | segment[11];
+      if (units === 1) jfifDpi = plausibleDpi(x, y);
+      if (units === 2) jfifDpi = plausibleDpi(x * 2.54, y * 2.54);
+    } else if (marker === 0xe1 && signature === 'Exif\0\0') {
+      exif = readTiffDirectories(segment.subarray(6), 1)[0];
+    }
+    offset += 2 + length;
+  }
+
+  return {
+    dpi: jfifDpi ?? (exif && resolutionOf(exif)),
+    quarterTurns: ORIENTATION_TURNS[exif?.get(TAG.Orientation)?.[0] ?? 1] ?? 0,
+  };
+};
+
+const readPngDpi = (data: Uint8Array): RasterImage['dpi'] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    if (type === 'pHYs' && length >= 9 && data[offset + 16] === 1) {
+      // Pixels per metre
+      return plausibleDpi(view.getUint32(offset + 8) * 0.0254, view.getUint32(offset + 12) * 0.0254);
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return undefined;
+};
+
+const embedJpegOrPng = async (doc: PDFDocument, data: Uint8Array, format: 'jpeg' | 'png'): Promise<RasterImage> => {
+  const image = format === 'jpeg' ? await doc.embedJpg(data) : await doc.embedPng(data);
+  const metadata = format === 'jpeg' ? readJpegMetadata(data) : { dpi: readPngDpi(data), quarterTurns: 0 };
+  return {
+    width: image.width,
+    height: image.height,
+    ...metadata,
+    pieces: [{ ref: image.ref, x: 0, y: 0, width: image.width, height: image.height }],
+  };
+};
+
+// ---- Pages ----
+
+/**
+ * Adds an A3 page for an image, turned the way the image is. With a known resolution the image keeps its
+ * real size, centred, unless it is larger than A3; without one, or when larger, it is scaled to fit.
+ */
+const addImagePage = (doc: PDFDocument, image: RasterImage): PDFPage => {
+  const turned = image.quarterTurns % 2 === 1;
+  // Size of one pixel in points along the image's own axes
+  const pixelWidth = image.dpi ? 72 / image.dpi.x : 1;
+  const pixelHeight = image.dpi ? 72 / image.dpi.y : 1;
+  const naturalWidth = image.width * pixelWidth;
+  const naturalHeight = image.height * pixelHeight;
+  const shownWidth = turned ? naturalHeight : naturalWidth;
+  const shownHeight = turned ? naturalWidth : naturalHeight;
+
+  const pageWidth = shownWidth > shownHeight ? A3_LONG : A3_SHORT;
+  const pageHeight = shownWidth > shownHeight ? A3_SHORT : A3_LONG;
+  const fit = Math.min(pageWidth / shownWidth, pageHeight / shownHeight, image.dpi ? 1 : Infinity);
+  const left = (pageWidth - shownWidth * fit) / 2;
+  const bottom = (pageHeight - shownHeight * fit) / 2;
+
+  // Image pixel (u, v), origin top left, to page point
+  const kx = pixelWidth * fit;
+  const ky = pixelHeight * fit;
+  const { width: w, height: h } = image;
+  const toShown = [
+    (u: number, v: number) => [u * kx, v * ky],
+    (u: number, v: number) => [(h - v) * ky, u * kx],
+    (u: number, v: number) => [(w - u) * kx, (h - v) * ky],
+    (u: number, v: number) => [v * ky, (w - u) * kx],
+  ][image.quarterTurns % 4];
+  const toPage = (u: number, v: number) => {
+    const [x, y] = toShown(u, v);
+    return [left + x, bottom + shownHeight * fit - y];
+  };
+
+  const page = doc.addPage([pageWidth, pageHeight]);
+  for (const piece of image.pieces) {
+    // An image XObject fills the unit square with its first row at the top
+    const unitToPage = (a: number, b: number) => toPage(piece.x + a * piece.width, piece.y + (1 - b) * piece.height);
+    const [e, f] = unitToPage(0, 0);
+    const [ax, ay] = unitToPage(1, 0);
+    const [cx, cy] = unitToPage(0, 1);
+    const name = page.node.newXObject('Image', piece.ref);
+    page.pushOperators(
+      pushGraphicsState(),
+      concatTransformationMatrix(ax - e, ay - f, cx - e, cy - f, e, f),
+      drawObject(name),
+      popGraphicsState()
+    );
+  }
+
+  // Tiles overhang the right and bottom edges
+  if (image.pieces.some(piece => piece.x + piece.width > w || piece.y + piece.height > h)) {
+    const contents = page.node.Contents();
+    const clip = doc.context.flateStream(`${left} ${bottom} ${shownWidth * fit} ${shownHeight * fit} re W n`);
+    const entries = contents instanceof PDFArray ? contents.asArray() : [];
+    page.node.set(PDFName.of('Contents'), doc.context.obj([doc.context.register(clip), ...entries]));
+  }
+  return page;
+};
+
+/**
+ * Builds one PDF from images in the given order: every JPEG and PNG becomes an A3 page, and so does every
+ * page of a multi-page TIFF. Throws an Error naming the file when an image cannot be read.
+ */
+export const imagesToPdf = async (images: { name: string; data: Uint8Array }[]): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  for (const { name, data } of images) {
+    const format = detectImageFormat(data);
+    if (!format) throw new Error(`${name}：不是支持的图片格式（JPG、PNG、TIFF）`);
+
+    let rasters: RasterImage[];
+    try {
+      rasters = format === 'tiff' ? embedTiff(doc, data, name) : [await embedJpegOrPng(doc, data, format)];
+    } catch (error) {
+      throw error instanceof Error && error.message.startsWith(`${name}：`)
+        ? error
+        : new Error(`${name}：图片已损坏或无法读取`);
+    }
+    if (rasters.length === 0) throw new Error(`${name}：TIFF 中没有图像`);
+    rasters.forEach(raster => addImagePage(doc, raster));
+  }
+  return doc.save();
+};
+
+/**
+ * Name of the PDF made from images: the first image's name with a .pdf extension.
+ */
+export const getImageDocumentName = (inputs: ImageInput[]): string =>
+  `${(inputs[0]?.file.name ?? 'images').replace(/\.[^.]+$/, '')}.pdf`;
@@ -0,0 +1,84 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { ImposeOptions } from '../types';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { buildImpositionPlan, getSheetSize, imposePdfBytes } from './impositionService';
+import { getLogicalPositions } from './pagePlan';
+import { splitPdfBytes } from './pdfService';
+import { DEFAULT_IMPOSE_OPTIONS } from './splitDefaults';
+import { PageGeometry, toPoints } from './splitGeometry';
+
+const A4 = { width: 595.28, height: 841.89 };
+
+const impose = (options: Partial<ImposeOptions>): ImposeOptions => ({ ...DEFAULT_IMPOSE_OPTIONS, ...options });
+
+const pagesOf = (pageCount: number, options: Partial<ImposeOptions>) =>
+  buildImpositionPlan(pageCount, impose(options)).map(side => side.pages);
+
+const makeA4Pdf = async (pageCount: number): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    doc.addPage([A4.width, A4.height]).drawRectangle({ x: 100, y: 100, width: 100 + 10 * i, height: 100 });
+  }
+  return doc.save();
+};
+
+describe('buildImpositionPlan', () => {
+  it('puts pages side by side in order for 2-up, leaving the last half blank', () => {
+    expect(pagesOf(3, { layout: 'twoUp' })).toEqual([[0, 1], [2, null]]);
+  });
+
+  it('lays out a booklet the way the booklet split reads it back', () => {
+    const sides = pagesOf(8, {});
+    expect(sides).toEqual([[7, 0], [1, 6], [5, 2], [3, 4]]);
+    expect(sides).toEqual(getLogicalPositions(4, makeOptions({ imposition: 'booklet' })).map(side => side.map(page => page - 1)));
+  });
+
+  it('pads a booklet with blank halves and mirrors it for right-side binding', () => {
+    expect(pagesOf(5, {})).toEqual([[null, 0], [1, null], [null, 2], [3, 4]]);
+    expect(pagesOf(5, { bindingDirection: 'rtl' })).toEqual([[0, null], [null, 1], [2, null], [4, 3]]);
+  });
+
+  it('starts every signature after the previous one', () => {
+    const plan = buildImpositionPlan(8, impose({ signatureSheets: 1 }));
+    expect(plan.map(side => side.pages)).toEqual([[3, 0], [1, 2], [7, 4], [5, 6]]);
+    expect(plan.map(side => side.sheet)).toEqual([0, 0, 1, 1]);
+  });
+
+  it('grows the creep from the outer to the innermost sheet', () => {
+    expect(buildImpositionPlan(12, impose({ creep: 2 })).map(side => side.creep)).toEqual([0, 0, 1, 1, 2, 2]);
+  });
+});
+
+describe('getSheetSize', () => {
+  it('uses the chosen paper in landscape, or two of the largest pages plus the gutter', () => {
+    expect(getSheetSize(impose({ sheetSize: 'A3' }), [])).toEqual({ width: toPoints(420, 'mm'), height: toPoints(297, 'mm') });
+
+    const geometries: PageGeometry[] = [
+      { box: { x: 0, y: 0, width: 500, height: 700 }, rotation: 0, visibleWidth: 500, visibleHeight: 700 },
+      { box: { x: 0, y: 0, width: 400, height: 800 }, rotation: 0, visibleWidth: 400, visibleHeight: 800 },
+    ];
+    expect(getSheetSize(impose({ sheetSize: 'auto', gutter: 10 }), geometries)).toEqual({ width: 1000 + toPoints(10, 'mm'), height: 800 });
+  });
+});
+
+describe('imposePdfBytes', () => {
+  it('merges A4 pages onto A3 sheets that split back into A4 pages', async () => {
+    const merged = await imposePdfBytes(await makeA4Pdf(4), impose({}), () => undefined);
+    const doc = await PDFDocument.load(merged);
+    expect(doc.getPageCount()).toBe(2);
+    expect(doc.getPage(0).getWidth()).toBeCloseTo(toPoints(420, 'mm'));
+
+    const split = await PDFDocument.load(await splitPdfBytes(merged, 'merged.pdf', makeOptions({ imposition: 'booklet' }), () => undefined));
+    // Pages 1 and 3 are on the right half of the front and back, pages 2 and 4 on the left
+    const half = toPoints(210, 'mm');
+    expect(split.getPages().map(page => page.getCropBox().x)).toEqual([half, 0, half, 0].map(x => expect.closeTo(x)));
+    expect(split.getPage(0).getCropBox().width).toBeCloseTo(half);
+  });
+
+  it('rejects with the reason of an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await expect(imposePdfBytes(await makeA4Pdf(2), impose({}), () => undefined, controller.signal)).rejects.toThrow('cancelled');
+  });
+});
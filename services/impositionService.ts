@@ -0,0 +1,201 @@
+import { clip, degrees, endPath, PDFDocument, PDFEmbeddedPage, PDFPage, popGraphicsState, pushGraphicsState, rectangle } from 'pdf-lib';
+import { ImposeOptions, ImposeSheetSize, SplitOutput } from '../types';
+import { getImposedFileName } from './outputFiles';
+import { getSidePages } from './pagePlan';
+import { toPageError } from './pdfErrors';
+import { loadSourcePdf } from './pdfLoading';
+import { Box, PageGeometry, getPageGeometry, toPoints } from './splitGeometry';
+
+/**
+ * One side of a printed sheet: the source pages on its left and right half (null leaves the half blank),
+ * and how far both are moved toward the fold to make up for creep.
+ */
+export interface ImposedSide {
+  sheet: number;
+  isBack: boolean;
+  pages: [number | null, number | null];
+  creep: number; // mm
+}
+
+/**
+ * Sheet sizes in landscape orientation, in millimetres.
+ */
+const SHEET_SIZES: Record<Exclude<ImposeSheetSize, 'auto'>, { width: number; height: number }> = {
+  A3: { width: 420, height: 297 },
+  B4: { width: 364, height: 257 },
+};
+
+// Lets queued messages (such as a cancel request) through between sheets
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Lays out `pageCount` pages on sheet sides, in print order. 2-up puts the pages side by side in order;
+ * a booklet is the reverse of the booklet scan order the splitter undoes, so sheet 0 holds N|1 on its front
+ * and 2|N-1 on its back, padded with blank halves to a multiple of 4 per signature.
+ * Inner sheets get a share of `creep` growing from 0 on the outer sheet to all of it on the innermost one.
+ */
+export const buildImpositionPlan = (pageCount: number, options: ImposeOptions): ImposedSide[] => {
+  const toSource = (page: number) => (page <= pageCount ? page - 1 : null);
+  const inReadingOrder = (left: number | null, right: number | null): [number | null, number | null] =>
+    options.bindingDirection === 'rtl' ? [right, left] : [left, right];
+
+  if (options.layout === 'twoUp') {
+    return Array.from({ length: Math.ceil(pageCount / 2) }, (_, k) => ({
+      sheet: k,
+      isBack: false,
+      pages: inReadingOrder(toSource(2 * k + 1), toSource(2 * k + 2)),
+      creep: 0,
+    }));
+  }
+
+  const sheetsPerSignature = options.signatureSheets > 0 ? options.signatureSheets : Math.ceil(pageCount / 4);
+  const sides: ImposedSide[] = [];
+  let sheetOffset = 0;
+
+  for (let start = 0; start < pageCount; start += sheetsPerSignature * 4) {
+    const sheetCount = Math.min(sheetsPerSignature, Math.ceil((pageCount - start) / 4));
+
+    for (let s = 0; s < sheetCount; s++) {
+      const creep = sheetCount > 1 ? (options.creep * s) / (sheetCount - 1) : 0;
+      for (const isBack of [false, true]) {
+        const [left, right] = getSidePages({ sheet: s, isBack }, sheetCount * 4);
+        sides.push({ sheet: sheetOffset + s, isBack, pages: inReadingOrder(toSource(start + left), toSource(start + right)), creep });
+      }
+    }
+
+    sheetOffset += sheetCount;
+  }
+
+  return sides;
+};
+
+/**
+ * Returns the sheet size in points; 'auto' fits two of the largest pages side by side plus the gutter.
+ */
+export const getSheetSize = (options: ImposeOptions, geometries: PageGeometry[]): { width: number; height: number } => {
+  if (options.sheetSize === 'auto') {
+    const pageWidth = Math.max(0, ...geometries.map(geometry => geometry.visibleWidth));
+    const pageHeight = Math.max(0, ...geometries.map(geometry => geometry.visibleHeight));
+    return { width: 2 * pageWidth + toPoints(options.gutter, 'mm'), height: pageHeight };
+  }
+
+  const size = SHEET_SIZES[options.sheetSize];
+  return { width: toPoints(size.width, 'mm'), height: toPoints(size.height, 'mm') };
+};
+
+/**
+ * Draws a source page into one half of the sheet, centred and then moved sideways by `shift`, undoing its
+ * /Rotate the way split parts do. Whatever lies past the half is clipped, so no page reaches across the fold.
+ */
+const drawPageInHalf = (
+  sheet: PDFPage,
+  embedded: PDFEmbeddedPage,
+  geometry: PageGeometry,
+  half: Box,
+  shift: number,
+  options: ImposeOptions
+): void => {
+  const fitScale = Math.min(half.width / geometry.visibleWidth, half.height / geometry.visibleHeight);
+  const scale = options.pageScaling === 'fit' ? fitScale : 1;
+  const width = geometry.visibleWidth * scale;
+  const height = geometry.visibleHeight * scale;
+  const target = { x: half.x + (half.width - width) / 2 + shift, y: half.y + (half.height - height) / 2, width, height };
+
+  // drawPage rotates counter-clockwise around (x, y); /Rotate turns the page clockwise
+  const anchor = {
+    0: { x: target.x, y: target.y },
+    90: { x: target.x, y: target.y + target.height },
+    180: { x: target.x + target.width, y: target.y + target.height },
+    270: { x: target.x + target.width, y: target.y },
+  }[geometry.rotation];
+
+  sheet.pushOperators(pushGraphicsState(), rectangle(half.x, half.y, half.width, half.height), clip(), endPath());
+  sheet.drawPage(embedded, {
+    x: anchor.x,
+    y: anchor.y,
+    width: geometry.box.width * scale,
+    height: geometry.box.height * scale,
+    rotate: degrees(-geometry.rotation),
+  });
+  sheet.pushOperators(popGraphicsState());
+};
+
+/**
+ * Puts the pages of a PDF onto sheets two at a time, the reverse of splitPdfBytes. Pages are drawn
+ * as embedded pages, so links, annotations and form fields are not carried over.
+ * When the signal is aborted, processing stops at the next sheet side and the promise rejects with its reason.
+ * Files that cannot be read, and pages that cannot be processed, reject with a PdfError.
+ */
+export const imposePdfBytes = async (
+  data: ArrayBuffer | Uint8Array,
+  options: ImposeOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const sourcePdf = await loadSourcePdf(data);
+  const outPdf = await PDFDocument.create();
+  const pages = sourcePdf.getPages();
+
+  const geometries = pages.map((page, i) => {
+    try {
+      return getPageGeometry(page);
+    } catch (error) {
+      throw toPageError(error, i);
+    }
+  });
+
+  const sheetSize = getSheetSize(options, geometries);
+  const gutter = Math.min(toPoints(options.gutter, 'mm'), sheetSize.width / 2);
+  const halfWidth = (sheetSize.width - gutter) / 2;
+  const halves: Box[] = [
+    { x: 0, y: 0, width: halfWidth, height: sheetSize.height },
+    { x: halfWidth + gutter, y: 0, width: halfWidth, height: sheetSize.height },
+  ];
+
+  const plan = buildImpositionPlan(pages.length, options);
+
+  for (const [index, side] of plan.entries()) {
+    if (signal) {
+      await yieldToEventLoop();
+      signal.throwIfAborted();
+    }
+
+    const sheet = outPdf.addPage([sheetSize.width, sheetSize.height]);
+    const creep = toPoints(side.creep, 'mm');
+
+    for (const [half, sourceIndex] of side.pages.entries()) {
+      if (sourceIndex === null) continue;
+      try {
+        const { box } = geometries[sourceIndex];
+        const embedded = await outPdf.embedPage(pages[sourceIndex], {
+          left: box.x,
+          bottom: box.y,
+          right: box.x + box.width,
+          top: box.y + box.height,
+        });
+        // Creep moves both pages toward the fold between them
+        drawPageInHalf(sheet, embedded, geometries[sourceIndex], halves[half], half === 0 ? creep : -creep, options);
+      } catch (error) {
+        throw toPageError(error, sourceIndex);
+      }
+    }
+
+    onProgress(((index + 1) / plan.length) * 100);
+  }
+
+  const result = await outPdf.save();
+  signal?.throwIfAborted();
+  return result;
+};
+
+/**
+ * Merges a PDF file on the calling thread. See imposePdfBytes.
+ */
+export const imposeA4ToA3 = async (
+  file: File,
+  options: ImposeOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => [
+  { name: getImposedFileName(file.name), data: await imposePdfBytes(await file.arrayBuffer(), options, onProgress, signal) },
+];
@@ -0,0 +1,62 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { makeA3Pdf } from './__fixtures__/a3Pdf';
+import { looksLikePdf, planSplit, splitPdf, splitPdfFile, splitPdfToOutputs } from './nodeSplit';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'a3split-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('splitPdf', () => {
+  it('splits with the default options when none are given', async () => {
+    const output = await PDFDocument.load(await splitPdf(await makeA3Pdf(2)));
+    expect(output.getPageCount()).toBe(4);
+  });
+});
+
+describe('splitPdfFile', () => {
+  it('creates the output directory and writes the result', async () => {
+    const input = join(dir, 'scan.pdf');
+    const output = join(dir, 'out', 'nested', 'scan_A4.pdf');
+    await writeFile(input, await makeA3Pdf(1));
+
+    await splitPdfFile(input, output, { enablePageNumbering: true });
+    expect((await PDFDocument.load(await readFile(output))).getPageCount()).toBe(2);
+  });
+});
+
+describe('splitPdfToOutputs', () => {
+  it('writes one file per sheet, named from the template', async () => {
+    const outputs = await splitPdfToOutputs(await makeA3Pdf(2), {
+      mergeToSingleFile: false,
+      outputSplitMode: 'perSheet',
+      outputFileNameTemplate: '{name}-{sheet}',
+    }, undefined, 'scan.pdf');
+    expect(outputs.map(output => output.name)).toEqual(['scan-1.pdf', 'scan-2.pdf']);
+    expect((await PDFDocument.load(outputs[1].data)).getPageCount()).toBe(2);
+  });
+});
+
+describe('planSplit', () => {
+  it('counts the output and numbered pages without splitting', async () => {
+    const summary = await planSplit(await makeA3Pdf(3), { enablePageNumbering: true, numberingStartFromPageIndex: 1 });
+    expect(summary).toEqual({ sourcePages: 3, outputPages: 6, numberedPages: 4, outputFiles: 1 });
+  });
+});
+
+describe('looksLikePdf', () => {
+  it('finds a header after leading junk', () => {
+    const bytes = new TextEncoder().encode('\r\n\r\n%PDF-1.7\n');
+    expect(looksLikePdf(bytes)).toBe(true);
+    expect(looksLikePdf(new TextEncoder().encode('PK\x03\x04'))).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { PDFDocument } from 'pdf-lib';
+import { SplitOptions, SplitOutput } from '../types';
+import { groupOutputPages } from './outputFiles';
+import { buildPagePlan } from './pagePlan';
+import { findPdfHeader } from './pdfLoading';
+import { splitPdfBytes, splitPdfOutputs } from './pdfService';
+import { withDefaultOptions } from './splitDefaults';
+import { readPageGeometries } from './splitGeometry';
+
+// Node entry point to the split pipeline. Gutter detection needs a canvas, so `autoDetectGutter` only has
+// an effect when `gutterDetections` are passed in; otherwise the split ratios are used.
+
+/**
+ * A PDF given as bytes or as a file path.
+ */
+export type SplitInput = Uint8Array | ArrayBuffer | string;
+
+export interface SplitSummary {
+  sourcePages: number;
+  outputPages: number;
+  numberedPages: number;
+  outputFiles: number;
+}
+
+const readInput = async (input: SplitInput): Promise<{ data: Uint8Array; fileName: string }> => {
+  if (typeof input === 'string') {
+    return { data: new Uint8Array(await readFile(input)), fileName: basename(input) };
+  }
+  return { data: input instanceof Uint8Array ? input : new Uint8Array(input), fileName: 'document.pdf' };
+};
+
+/**
+ * Whether the bytes start like a PDF file. Some writers put junk before the header, so the first KB is searched.
+ */
+export const looksLikePdf = (data: Uint8Array): boolean => findPdfHeader(data) >= 0;
+
+/**
+ * Whether a PDF is encrypted and therefore cannot be split without a password.
+ * pdf-lib's own error classes do not survive `instanceof`, so this looks at the document instead.
+ */
+export const isEncryptedPdf = async (input: SplitInput): Promise<boolean> => {
+  try {
+    const { data } = await readInput(input);
+    return (await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false })).isEncrypted;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Splits a PDF and returns the output bytes. Options that are not given use the defaults.
+ * `fileName` fills the {filename} stamp variable and defaults to the path's base name.
+ */
+export const splitPdf = async (
+  input: SplitInput,
+  options: Partial<SplitOptions> = {},
+  onProgress: (progress: number) => void = () => {},
+  fileName?: string
+): Promise<Uint8Array> => {
+  const source = await readInput(input);
+  return splitPdfBytes(source.data, fileName ?? source.fileName, withDefaultOptions(options), onProgress);
+};
+
+/**
+ * Splits a PDF into its result files: one merged PDF, or several when `mergeToSingleFile` is off.
+ * Output names come from `outputFileNameTemplate` and `fileName`, which defaults to the path's base name.
+ */
+export const splitPdfToOutputs = async (
+  input: SplitInput,
+  options: Partial<SplitOptions> = {},
+  onProgress: (progress: number) => void = () => {},
+  fileName?: string
+): Promise<SplitOutput[]> => {
+  const source = await readInput(input);
+  return splitPdfOutputs(source.data, fileName ?? source.fileName, withDefaultOptions(options), onProgress);
+};
+
+/**
+ * Splits a PDF file and writes the result, creating the output directory if needed.
+ */
+export const splitPdfFile = async (
+  inputPath: string,
+  outputPath: string,
+  options: Partial<SplitOptions> = {},
+  onProgress: (progress: number) => void = () => {}
+): Promise<void> => {
+  const output = await splitPdf(inputPath, options, onProgress);
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, output);
+};
+
+/**
+ * Reports what a split would produce without producing it.
+ */
+export const planSplit = async (input: SplitInput, options: Partial<SplitOptions> = {}): Promise<SplitSummary> => {
+  const { data } = await readInput(input);
+  const geometries = await readPageGeometries(data);
+  const fullOptions = withDefaultOptions(options);
+  const plan = buildPagePlan(geometries.length, fullOptions);
+  return {
+    sourcePages: geometries.length,
+    outputPages: plan.length,
+    numberedPages: plan.filter(planned => planned.pageNumber !== null).length,
+    outputFiles: groupOutputPages(plan, fullOptions).length,
+  };
+};
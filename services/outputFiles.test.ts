@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { SplitOptions } from '../types';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { describeSizeChange, formatImageFileName, formatOutputFileName, getOutputMimeType, groupOutputPages } from './outputFiles';
+import { buildPagePlan } from './pagePlan';
+
+const group = (sourcePages: number, options: Partial<SplitOptions>) => {
+  const fullOptions = makeOptions({ mergeToSingleFile: false, ...options });
+  return groupOutputPages(buildPagePlan(sourcePages, fullOptions), fullOptions);
+};
+
+describe('groupOutputPages', () => {
+  it('puts every page into one file when merging', () => {
+    expect(group(2, { mergeToSingleFile: true })).toEqual([{ pages: [0, 1, 2, 3], sourcePageIndex: 0 }]);
+  });
+
+  it('groups the halves of every sheet, in sheet order, also for booklets', () => {
+    expect(group(2, { outputSplitMode: 'perSheet', imposition: 'booklet' })).toEqual([
+      { pages: [0, 3], sourcePageIndex: 0 },
+      { pages: [1, 2], sourcePageIndex: 1 },
+    ]);
+  });
+
+  it('cuts the output into chunks of N pages', () => {
+    expect(group(3, { outputSplitMode: 'everyN', outputEveryN: 4 }).map(file => file.pages)).toEqual([[0, 1, 2, 3], [4, 5]]);
+  });
+
+  it('makes one file per range, clipping open ranges to the last page', () => {
+    expect(group(3, { outputSplitMode: 'ranges', outputRanges: '1-2, 5-' })).toEqual([
+      { pages: [0, 1], sourcePageIndex: 0 },
+      { pages: [4, 5], sourcePageIndex: 2 },
+    ]);
+  });
+
+  it('rejects ranges that cannot be parsed or select no page', () => {
+    expect(() => group(1, { outputSplitMode: 'ranges', outputRanges: 'x' })).toThrow('页码范围无效');
+    expect(() => group(1, { outputSplitMode: 'ranges', outputRanges: '5-' })).toThrow('超出了总页数 2');
+  });
+
+  it('rejects an unknown split mode instead of reading it as ranges', () => {
+    expect(() => group(1, { outputSplitMode: 'sheets' as SplitOptions['outputSplitMode'] })).toThrow('未知的输出文件拆分方式：sheets');
+  });
+});
+
+describe('formatOutputFileName', () => {
+  const file = { pages: [4, 5, 6], sourcePageIndex: 2 };
+
+  it('fills every variable and adds the extension', () => {
+    expect(formatOutputFileName('{name}_{index}_p{start}-{end}_s{sheet}', 'scan.final.pdf', file, 1)).toBe('scan.final_2_p5-7_s3.pdf');
+  });
+
+  it('keeps unknown variables and an existing extension', () => {
+    expect(formatOutputFileName('{name}_{chapter}.PDF', 'scan.pdf', file, 0)).toBe('scan_{chapter}.PDF');
+  });
+
+  it('replaces characters that are not allowed in file names and falls back to the source name', () => {
+    expect(formatOutputFileName('a/b:c', 'scan.pdf', file, 0)).toBe('a_b_c.pdf');
+    expect(formatOutputFileName('  ', 'scan.pdf', file, 0)).toBe('scan.pdf');
+  });
+});
+
+describe('groupOutputPages with inserted blank pages', () => {
+  it('puts a blank page with the sheet before it, or after it at the start', () => {
+    const pageArrangement = [
+      { sourcePageIndex: null, part: 0, rotation: 0 as const },
+      { sourcePageIndex: 0, part: 0, rotation: 0 as const },
+      { sourcePageIndex: 0, part: 1, rotation: 0 as const },
+      { sourcePageIndex: null, part: 0, rotation: 0 as const },
+    ];
+    expect(group(2, { outputSplitMode: 'perSheet', pageArrangement })).toEqual([
+      { pages: [0, 1, 2, 3], sourcePageIndex: 0 },
+      { pages: [4, 5], sourcePageIndex: 1 },
+    ]);
+  });
+});
+
+describe('describeSizeChange', () => {
+  it('shows both sizes and the change in percent', () => {
+    expect(describeSizeChange(3.1 * 1024 * 1024, 1.42 * 1024 * 1024)).toBe('3.10 MB → 1.42 MB (-54%)');
+    expect(describeSizeChange(100, 2048)).toBe('1 KB → 2 KB (+1948%)');
+    expect(describeSizeChange(0, 2048)).toBe('1 KB → 2 KB (0%)');
+  });
+});
+
+describe('formatImageFileName', () => {
+  const page = { outputName: 'scan_1.pdf', index: 8, total: 120, filePage: 1 };
+
+  it('pads the page number to the page count and uses the extension of the format', () => {
+    expect(formatImageFileName('{name}_{page}', 'scan.pdf', page, 'png')).toBe('scan_009.png');
+    expect(formatImageFileName('{file}-{filePage}', 'scan.pdf', page, 'jpg')).toBe('scan_1-2.jpg');
+  });
+
+  it('falls back to the source name and page for an empty template', () => {
+    expect(formatImageFileName(' ', 'scan.pdf', page, 'webp')).toBe('scan_009.webp');
+  });
+});
+
+describe('getOutputMimeType', () => {
+  it('follows the extension', () => {
+    expect(getOutputMimeType('a.JPG')).toBe('image/jpeg');
+    expect(getOutputMimeType('a.zip')).toBe('application/zip');
+    expect(getOutputMimeType('a')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,137 @@
+import { SplitOptions } from '../types';
+import { PlannedPage } from './pagePlan';
+import { parsePageRanges } from './pageRanges';
+
+/**
+ * The output pages (0-based, in output order) that go into one result file.
+ */
+export interface OutputGroup {
+  pages: number[];
+  sourcePageIndex: number; // source page of the first output page, for {sheet}
+}
+
+/**
+ * Name of the split result for a source file when everything goes into one PDF.
+ */
+export const getOutputFileName = (fileName: string): string => `split_with_numbers_${fileName}`;
+
+/**
+ * Name of the merged result when A4 pages are put together onto A3 sheets.
+ */
+export const getImposedFileName = (fileName: string): string => `merged_a3_${fileName}`;
+
+/**
+ * Decides which output pages go into which file. Without merging, pages are grouped per source sheet,
+ * per range of `outputRanges` (pages outside every range are left out) or in chunks of `outputEveryN`.
+ * Throws for an unknown split mode, and when the ranges cannot be parsed or select no page.
+ */
+export const groupOutputPages = (plan: PlannedPage[], options: SplitOptions): OutputGroup[] => {
+  // Inserted blank pages belong to the sheet of the page before them, or after them at the start
+  const firstSheet = plan.find(planned => planned.sourcePageIndex !== null)?.sourcePageIndex ?? 0;
+  const sheets: number[] = [];
+  plan.forEach(planned => sheets.push(planned.sourcePageIndex ?? sheets[sheets.length - 1] ?? firstSheet));
+
+  const toGroup = (pages: number[]): OutputGroup => ({ pages, sourcePageIndex: sheets[pages[0]] });
+
+  if (options.mergeToSingleFile || plan.length === 0) {
+    return plan.length === 0 ? [] : [toGroup(plan.map(planned => planned.outputIndex))];
+  }
+
+  if (options.outputSplitMode === 'perSheet') {
+    const bySheet = new Map<number, number[]>();
+    for (const planned of plan) {
+      const sheet = sheets[planned.outputIndex];
+      bySheet.set(sheet, [...bySheet.get(sheet) ?? [], planned.outputIndex]);
+    }
+    return [...bySheet.keys()].sort((a, b) => a - b).map(sheet => toGroup(bySheet.get(sheet)!));
+  }
+
+  if (options.outputSplitMode === 'everyN') {
+    const size = Math.max(1, Math.floor(options.outputEveryN));
+    const groups: OutputGroup[] = [];
+    for (let start = 0; start < plan.length; start += size) {
+      groups.push(toGroup(plan.slice(start, start + size).map(planned => planned.outputIndex)));
+    }
+    return groups;
+  }
+
+  if (options.outputSplitMode !== 'ranges') throw new Error(`未知的输出文件拆分方式：${options.outputSplitMode}`);
+
+  const ranges = parsePageRanges(options.outputRanges);
+  if (!ranges) throw new Error('输出文件的页码范围无效，例如 "1-4, 5-10, 11-"。');
+
+  const groups = ranges
+    .map(range => {
+      const end = Math.min(range.end ?? plan.length, plan.length);
+      return Array.from({ length: Math.max(0, end - range.start + 1) }, (_, i) => range.start - 1 + i);
+    })
+    .filter(pages => pages.length > 0)
+    .map(toGroup);
+  if (groups.length === 0) throw new Error(`输出页码范围超出了总页数 ${plan.length}。`);
+  return groups;
+};
+
+/**
+ * Fills the file name template: {name} is the source name without extension, {index} the 1-based file
+ * position, {start} and {end} the first and last output page, {sheet} the source page of the first page.
+ */
+export const formatOutputFileName = (template: string, fileName: string, group: OutputGroup, index: number): string => {
+  const values: Record<string, string> = {
+    name: fileName.replace(/\.[^.]+$/, ''),
+    index: `${index + 1}`,
+    start: `${Math.min(...group.pages) + 1}`,
+    end: `${Math.max(...group.pages) + 1}`,
+    sheet: `${group.sourcePageIndex + 1}`,
+  };
+  const name = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match).replace(/[\\/:*?"<>|]/g, '_').trim();
+  return /\.pdf$/i.test(name) ? name : `${name || values.name}.pdf`;
+};
+
+/**
+ * Names an exported page image. {name} is the source name without extension, {page} the output page
+ * (zero-padded to the page count so names sort in order), {file} the result PDF it belongs to without
+ * extension and {filePage} its page within that file. The extension follows the image format.
+ */
+export const formatImageFileName = (
+  template: string,
+  fileName: string,
+  page: { outputName: string; index: number; total: number; filePage: number },
+  extension: string
+): string => {
+  const values: Record<string, string> = {
+    name: fileName.replace(/\.[^.]+$/, ''),
+    page: `${page.index + 1}`.padStart(`${page.total}`.length, '0'),
+    file: page.outputName.replace(/\.pdf$/i, ''),
+    filePage: `${page.filePage + 1}`,
+  };
+  const name = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match).replace(/[\\/:*?"<>|]/g, '_').trim();
+  return `${name || `${values.name}_${values.page}`}.${extension}`;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  zip: 'application/zip',
+};
+
+/**
+ * The MIME type of a result file, from its extension.
+ */
+export const getOutputMimeType = (name: string): string =>
+  MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+/**
+ * A byte count in KB or MB, e.g. "1.24 MB".
+ */
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Compares a source file with the total size of its results, e.g. "3.10 MB → 1.42 MB (-54%)".
+ */
+export const describeSizeChange = (inputBytes: number, outputBytes: number): string => {
+  const change = inputBytes > 0 ? Math.round((outputBytes / inputBytes - 1) * 100) : 0;
+  return `${formatFileSize(inputBytes)} → ${formatFileSize(outputBytes)} (${change > 0 ? '+' : ''}${change}%)`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { hasInkAtEdge, rotateCutEdge } from './outputVerification';
+import { PixelData } from './pageRenderer';
+
+const WIDTH = 100;
+const HEIGHT = 60;
+
+// The left half of the page; its right edge is the cut
+const leftPart = { x: 0, y: 0, width: 50, height: HEIGHT };
+
+/**
+ * A white page with black pixels in column `x` on the given rows.
+ */
+const makePage = (x: number, rows: number[]): PixelData => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  rows.forEach(y => data.fill(0, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3));
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+describe('hasInkAtEdge', () => {
+  it('finds text that runs into the strip along the cut', () => {
+    expect(hasInkAtEdge(makePage(48, range(10, 20)), leftPart, 'right')).toBe(true);
+    expect(hasInkAtEdge(makePage(48, range(10, 20)), leftPart, 'left')).toBe(false);
+  });
+
+  it('ignores ink just inside the strip', () => {
+    expect(hasInkAtEdge(makePage(47, range(10, 20)), leftPart, 'right')).toBe(false);
+  });
+
+  it('ignores specks and lines that cover most of the edge, such as fold shadows', () => {
+    expect(hasInkAtEdge(makePage(49, range(10, 13)), leftPart, 'right')).toBe(false);
+    expect(hasInkAtEdge(makePage(49, range(0, 50)), leftPart, 'right')).toBe(false);
+  });
+
+  it('looks along horizontal cuts', () => {
+    const topPart = { x: 0, y: 0, width: WIDTH, height: 30 };
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+    range(20, 30).forEach(x => data.fill(0, (29 * WIDTH + x) * 4, (29 * WIDTH + x) * 4 + 3));
+    expect(hasInkAtEdge({ data, width: WIDTH, height: HEIGHT }, topPart, 'bottom')).toBe(true);
+  });
+});
+
+describe('rotateCutEdge', () => {
+  it('follows the part as it is turned clockwise', () => {
+    expect(rotateCutEdge('right', 0)).toBe('right');
+    expect(rotateCutEdge('right', 90)).toBe('bottom');
+    expect(rotateCutEdge('right', 180)).toBe('left');
+    expect(rotateCutEdge('top', 270)).toBe('left');
+    expect(rotateCutEdge('left', -90)).toBe('bottom');
+  });
+});
@@ -0,0 +1,115 @@
+import { SplitOptions } from '../types';
+import { PixelData, boxToCanvasRegion, isInkPixel, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+import { PlannedPage } from './pagePlan';
+import { rotatePixels } from './scanDetection';
+import { Box, PageGeometry, computeVisibleSplitRects, getScanCorrection, getSplitLayout, visibleToUserRect } from './splitGeometry';
+
+// Checks the split for content that runs into a cut edge, which usually means a line of text was cut through.
+// Works on the same pdfjs rendering as the preview, straightened like the output when deskewing is on.
+
+export type CutEdge = 'left' | 'right' | 'top' | 'bottom';
+
+// Longest side of the page when rendered for the check, in pixels
+const CHECK_SIZE = 1200;
+
+// Width of the strip along a cut edge that is looked at, in pixels
+const EDGE_STRIP = 2;
+
+// An edge is touched when ink crosses it in this many pixel rows (or columns); when ink covers most of it,
+// it is a fold shadow or a rule rather than cut-off text
+const MIN_INK_PIXELS = 4;
+const MAX_INK_SHARE = 0.6;
+
+// Where each edge ends up when the part is turned clockwise by a quarter turn
+const QUARTER_TURN: Record<CutEdge, CutEdge> = { top: 'right', right: 'bottom', bottom: 'left', left: 'top' };
+
+/**
+ * Returns where an edge of a part ends up when the part is turned clockwise by `rotation` degrees.
+ */
+export const rotateCutEdge = (edge: CutEdge, rotation: number): CutEdge => {
+  const turns = (((rotation / 90) % 4) + 4) % 4;
+  let rotated = edge;
+  for (let turn = 0; turn < turns; turn++) rotated = QUARTER_TURN[rotated];
+  return rotated;
+};
+
+/**
+ * Whether the strip of `region` along `edge` holds text-like ink.
+ */
+export const hasInkAtEdge = (image: PixelData, region: Box, edge: CutEdge): boolean => {
+  const isColumn = edge === 'left' || edge === 'right';
+  const length = isColumn ? region.height : region.width;
+  const strip = Math.min(EDGE_STRIP, isColumn ? region.width : region.height);
+  let inkLines = 0;
+
+  for (let i = 0; i < length; i++) {
+    for (let depth = 0; depth < strip; depth++) {
+      const x = edge === 'left' ? region.x + depth : edge === 'right' ? region.x + region.width - 1 - depth : region.x + i;
+      const y = edge === 'top' ? region.y + depth : edge === 'bottom' ? region.y + region.height - 1 - depth : region.y + i;
+      if (isInkPixel(image, x, y)) {
+        inkLines++;
+        break;
+      }
+    }
+  }
+  return inkLines >= MIN_INK_PIXELS && inkLines <= length * MAX_INK_SHARE;
+};
+
+/**
+ * Renders every source page with pdfjs and looks along the cut edges of each of its parts for ink.
+ * Returns the touched edges by output index, as they appear on the output page after the organizer turned it;
+ * pages without any are left out.
+ */
+export const findContentAtCutEdges = async (
+  data: ArrayBuffer,
+  geometries: PageGeometry[],
+  options: SplitOptions,
+  plan: PlannedPage[],
+  onProgress: (progress: number) => void
+): Promise<Map<number, CutEdge[]>> => {
+  const pdf = await loadPdfDocument(data);
+  const results = new Map<number, CutEdge[]>();
+  const plannedOf = new Map(plan.map(planned => [`${planned.sourcePageIndex}:${planned.part}`, planned]));
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      const geometry = geometries[i];
+      const layout = geometry ? getSplitLayout(geometry, options, i) : null;
+
+      if (geometry && layout && layout.cuts.length > 0) {
+        const page = await pdf.getPage(i + 1);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const { canvas, viewport } = await renderPageToCanvas(page, CHECK_SIZE / Math.max(baseViewport.width, baseViewport.height));
+        const context = canvas.getContext('2d');
+        page.cleanup();
+
+        if (context) {
+          const angle = getScanCorrection(options, i)?.angle ?? 0;
+          const rendered = context.getImageData(0, 0, canvas.width, canvas.height);
+          const image = angle !== 0 ? rotatePixels(rendered, boxToCanvasRegion(viewport, geometry.box, canvas), angle) : rendered;
+          const parts = computeVisibleSplitRects(geometry, options, i);
+
+          parts.forEach((part, j) => {
+            const region = boxToCanvasRegion(viewport, visibleToUserRect(geometry, part), canvas);
+            // Only the sides that face another part are cuts; the others are the page edge
+            const edges: CutEdge[] = layout.vertical
+              ? [...(j > 0 ? ['left' as const] : []), ...(j < parts.length - 1 ? ['right' as const] : [])]
+              : [...(j > 0 ? ['top' as const] : []), ...(j < parts.length - 1 ? ['bottom' as const] : [])];
+            const touched = region.width > 0 && region.height > 0 ? edges.filter(edge => hasInkAtEdge(image, region, edge)) : [];
+            const planned = plannedOf.get(`${i}:${j}`);
+            if (touched.length > 0 && planned) {
+              results.set(planned.outputIndex, touched.map(edge => rotateCutEdge(edge, planned.rotation)));
+            }
+          });
+        }
+        canvas.width = 0;
+      }
+
+      onProgress(((i + 1) / pdf.numPages) * 100);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return results;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { formatPageNumber, getNumberPlacement, needsCustomFont, toChineseNumeral, toRoman } from './pageNumbering';
+
+describe('numerals', () => {
+  it('writes Roman numerals with subtractive pairs and falls back to digits outside their range', () => {
+    expect([4, 9, 14, 1994, 3999].map(toRoman)).toEqual(['IV', 'IX', 'XIV', 'MCMXCIV', 'MMMCMXCIX']);
+    expect(toRoman(0)).toBe('0');
+    expect(toRoman(4000)).toBe('4000');
+  });
+
+  it('writes Chinese numerals with inner zeros and without a leading 一 for the teens', () => {
+    expect([0, 10, 12, 20, 105, 1010, 10001, 120000].map(toChineseNumeral))
+      .toEqual(['零', '十', '十二', '二十', '一百零五', '一千零一十', '一万零一', '十二万']);
+  });
+});
+
+describe('formatPageNumber', () => {
+  it('fills the page number and the total in the chosen style', () => {
+    expect(formatPageNumber(makeOptions({ numberFormat: '{n} / {total}', numberStyle: 'lowerRoman' }), 3, 12)).toBe('iii / xii');
+    expect(formatPageNumber(makeOptions({ numberFormat: '第 {n} 页', numberStyle: 'chinese' }), 21, 30)).toBe('第 二十一 页');
+  });
+
+  it('asks for a custom font only when the text leaves Latin-1', () => {
+    expect(needsCustomFont(makeOptions({ numberFormat: '- {n} -' }))).toBe(false);
+    expect(needsCustomFont(makeOptions({ numberFormat: 'Seite {n}', numberStyle: 'chinese' }))).toBe(true);
+    expect(needsCustomFont(makeOptions({ numberFormat: '第 {n} 页' }))).toBe(true);
+  });
+});
+
+describe('getNumberPlacement', () => {
+  it('mirrors outside numbers between right- and left-hand pages', () => {
+    const options = makeOptions({ numberAlignment: 'outside', numberMargin: 20 });
+    expect(getNumberPlacement(500, 800, 30, options, 1)).toEqual({ x: 450, y: 780 });
+    expect(getNumberPlacement(500, 800, 30, options, 2)).toEqual({ x: 20, y: 780 });
+  });
+
+  it('puts the baseline of a top number one font size below the margin', () => {
+    const options = makeOptions({ numberPosition: 'top', numberFontSize: 12, numberMargin: 20 });
+    expect(getNumberPlacement(500, 800, 30, options, 1)).toEqual({ x: 235, y: 32 });
+  });
+});
@@ -0,0 +1,188 @@
+import fontkit from '@pdf-lib/fontkit';
+import { degrees, PDFDocument, PDFFont, PDFPage, rgb, RGB, StandardFonts } from 'pdf-lib';
+import { NumeralStyle, SplitOptions } from '../types';
+import { PageGeometry, visibleToUserRect } from './splitGeometry';
+
+const CHINESE_DIGITS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+const CHINESE_UNITS = ['', '十', '百', '千'];
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
+  [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
+  [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+/**
+ * Converts a positive integer to Roman numerals. Falls back to Arabic digits outside 1-3999.
+ */
+export const toRoman = (n: number): string => {
+  if (n < 1 || n > 3999) return `${n}`;
+  let rest = n;
+  let result = '';
+  for (const [value, symbol] of ROMAN_NUMERALS) {
+    while (rest >= value) {
+      result += symbol;
+      rest -= value;
+    }
+  }
+  return result;
+};
+
+const toChineseBelow10000 = (n: number): string => {
+  const digits = `${n}`;
+  let result = '';
+  let pendingZero = false;
+
+  for (let i = 0; i < digits.length; i++) {
+    const digit = parseInt(digits[i], 10);
+    if (digit === 0) {
+      pendingZero = result.length > 0;
+      continue;
+    }
+    if (pendingZero) {
+      result += CHINESE_DIGITS[0];
+      pendingZero = false;
+    }
+    result += CHINESE_DIGITS[digit] + CHINESE_UNITS[digits.length - 1 - i];
+  }
+
+  return result;
+};
+
+/**
+ * Converts a non-negative integer to Chinese numerals, e.g. 12 → 十二, 105 → 一百零五.
+ */
+export const toChineseNumeral = (n: number): string => {
+  if (n === 0) return CHINESE_DIGITS[0];
+
+  let result: string;
+  if (n < 10000) {
+    result = toChineseBelow10000(n);
+  } else {
+    const high = Math.floor(n / 10000);
+    const low = n % 10000;
+    result = `${toChineseNumeral(high)}万`;
+    if (low > 0) {
+      result += (low < 1000 ? CHINESE_DIGITS[0] : '') + toChineseBelow10000(low);
+    }
+  }
+
+  // 十二 rather than 一十二
+  return n >= 10 && n < 20 ? result.slice(1) : result;
+};
+
+export const formatNumeral = (n: number, style: NumeralStyle): string => {
+  switch (style) {
+    case 'lowerRoman':
+      return toRoman(n).toLowerCase();
+    case 'upperRoman':
+      return toRoman(n);
+    case 'chinese':
+      return toChineseNumeral(n);
+    default:
+      return `${n}`;
+  }
+};
+
+/**
+ * Fills the numbering template: {n} is the page number, {total} the last page number.
+ */
+export const formatPageNumber = (options: SplitOptions, n: number, total: number): string => {
+  const template = options.numberFormat || '{n}';
+  return template
+    .replace(/\{n\}/g, formatNumeral(n, options.numberStyle))
+    .replace(/\{total\}/g, formatNumeral(total, options.numberStyle));
+};
+
+/**
+ * Whether text can be drawn with the standard Helvetica font, which only covers Latin-1.
+ */
+export const isStandardFontText = (text: string): boolean => !/[^\x20-\x7E\xA0-\xFF]/.test(text);
+
+/**
+ * Whether the numbering needs a custom font.
+ */
+export const needsCustomFont = (options: SplitOptions): boolean =>
+  !isStandardFontText(formatPageNumber(options, 1, 1));
+
+/**
+ * Embeds the numbering font into a document: the uploaded TTF/OTF when there is one, Helvetica otherwise.
+ */
+export const embedNumberFont = async (doc: PDFDocument, options: SplitOptions): Promise<PDFFont> => {
+  if (options.numberFont) {
+    doc.registerFontkit(fontkit);
+    return doc.embedFont(options.numberFont.data, { subset: true });
+  }
+  if (needsCustomFont(options)) {
+    throw new Error('页码格式包含中文或其他特殊字符，请先上传 TTF/OTF 字体。');
+  }
+  return doc.embedFont(StandardFonts.Helvetica);
+};
+
+/**
+ * Loads the numbering font into a scratch document so text can be measured outside of processing (e.g. for preview).
+ */
+export const loadNumberFont = async (options: SplitOptions): Promise<PDFFont> =>
+  embedNumberFont(await PDFDocument.create(), options);
+
+export const parseHexColor = (hex: string): RGB => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return rgb(0.2, 0.2, 0.2);
+  return rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255);
+};
+
+/**
+ * Where the page number goes on a page of the given visible size: x is the left edge of the text,
+ * y the baseline, both in visible space (origin top-left).
+ */
+export const getNumberPlacement = (
+  frameWidth: number,
+  frameHeight: number,
+  textWidth: number,
+  options: SplitOptions,
+  pageNumber: number
+): { x: number; y: number } => {
+  const margin = options.numberMargin;
+  let alignment = options.numberAlignment;
+
+  // Odd pages are right-hand pages, so their outside edge is on the right
+  if (alignment === 'outside' || alignment === 'inside') {
+    const isRightHandPage = pageNumber % 2 === 1;
+    alignment = (alignment === 'outside') === isRightHandPage ? 'right' : 'left';
+  }
+
+  const x = alignment === 'left' ? margin
+    : alignment === 'right' ? frameWidth - margin - textWidth
+    : (frameWidth - textWidth) / 2;
+  const y = options.numberPosition === 'top'
+    ? margin + options.numberFontSize
+    : frameHeight - margin;
+
+  return { x, y };
+};
+
+/**
+ * Stamps a page number so it appears upright and placed within the page's visible frame.
+ */
+export const drawPageNumber = (
+  page: PDFPage,
+  frame: PageGeometry,
+  font: PDFFont,
+  options: SplitOptions,
+  pageNumber: number,
+  total: number
+): void => {
+  const text = formatPageNumber(options, pageNumber, total);
+  const textWidth = font.widthOfTextAtSize(text, options.numberFontSize);
+  const { x, y } = getNumberPlacement(frame.visibleWidth, frame.visibleHeight, textWidth, options, pageNumber);
+  const origin = visibleToUserRect(frame, { x, y, width: 0, height: 0 });
+
+  page.drawText(text, {
+    x: origin.x,
+    y: origin.y,
+    size: options.numberFontSize,
+    font,
+    color: parseHexColor(options.numberColor),
+    rotate: degrees(frame.rotation),
+  });
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { SplitOptions } from '../types';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { buildPagePlan, findBlankParts, getLogicalPositions, getSidePages, isBlankPart, resolveArrangement } from './pagePlan';
+
+const order = (totalPages: number, options: Partial<SplitOptions>) =>
+  buildPagePlan(totalPages, makeOptions(options)).map(page => `${page.sourcePageIndex}/${page.part}`);
+
+describe('getLogicalPositions', () => {
+  it('keeps source order without imposition', () => {
+    expect(getLogicalPositions(2, makeOptions())).toEqual([[1, 2], [3, 4]]);
+  });
+
+  it('puts the last and first page on the front of the outer sheet', () => {
+    expect(getLogicalPositions(4, makeOptions({ imposition: 'booklet' }))).toEqual([[8, 1], [2, 7], [6, 3], [4, 5]]);
+  });
+
+  it('pads an odd number of booklet scans to whole sheets', () => {
+    expect(getLogicalPositions(3, makeOptions({ imposition: 'booklet' }))).toEqual([[8, 1], [2, 7], [6, 3]]);
+  });
+
+  it('mirrors the halves for right-side binding', () => {
+    expect(getLogicalPositions(3, makeOptions({ imposition: 'booklet', bindingDirection: 'rtl' })))
+      .toEqual([[1, 8], [7, 2], [3, 6]]);
+  });
+
+  it('reads the backs of a double-sided booklet from the flipped stack', () => {
+    expect(getLogicalPositions(4, makeOptions({ imposition: 'doubleSidedBooklet' })))
+      .toEqual([[8, 1], [6, 3], [4, 5], [2, 7]]);
+  });
+
+  it('numbers every signature after the previous one', () => {
+    expect(getLogicalPositions(3, makeOptions({ imposition: 'multiSignature', signatureSheets: 1 })))
+      .toEqual([[4, 1], [2, 3], [8, 5]]);
+  });
+});
+
+describe('buildPagePlan', () => {
+  it('outputs the halves of an odd booklet in reading order, skipping the missing pages', () => {
+    expect(order(3, { imposition: 'booklet' })).toEqual(['0/1', '1/0', '2/1', '2/0', '1/1', '0/0']);
+  });
+
+  it('outputs the halves of an odd right-bound booklet in reading order', () => {
+    expect(order(3, { imposition: 'booklet', bindingDirection: 'rtl' })).toEqual(['0/0', '1/1', '2/0', '2/1', '1/0', '0/1']);
+  });
+
+  it('numbers pages in reading order from the chosen source page', () => {
+    const plan = buildPagePlan(2, makeOptions({ enablePageNumbering: true, numberingStartFromPageIndex: 1, startingPageNumber: 5 }));
+    expect(plan.map(page => page.pageNumber)).toEqual([null, null, 5, 6]);
+  });
+
+  it('numbers only the chosen side', () => {
+    const plan = buildPagePlan(2, makeOptions({ enablePageNumbering: true, numberingSide: 'second' }));
+    expect(plan.map(page => page.pageNumber)).toEqual([null, 1, null, 2]);
+  });
+
+  it('keeps a page that is not split at the position of its earlier half', () => {
+    expect(order(2, { pageRules: [{ pages: '1', action: 'skip' }] })).toEqual(['0/0', '1/0', '1/1']);
+  });
+
+  it('numbers a page that is not split even when only one side is numbered', () => {
+    const plan = buildPagePlan(2, makeOptions({ enablePageNumbering: true, numberingSide: 'first', pageRules: [{ pages: '2', action: 'skip' }] }));
+    expect(plan.map(page => page.pageNumber)).toEqual([1, null, 2]);
+  });
+});
+
+describe('getSidePages', () => {
+  it('puts the outer pages on the front of the outer sheet and the middle pages on the back of the inner one', () => {
+    expect(getSidePages({ sheet: 0, isBack: false }, 8)).toEqual([8, 1]);
+    expect(getSidePages({ sheet: 1, isBack: true }, 8)).toEqual([4, 5]);
+  });
+});
+
+describe('resolveArrangement', () => {
+  it('lists every part in reading order without an arrangement', () => {
+    expect(resolveArrangement(2, makeOptions())).toEqual([
+      { sourcePageIndex: 0, part: 0, rotation: 0 },
+      { sourcePageIndex: 0, part: 1, rotation: 0 },
+      { sourcePageIndex: 1, part: 0, rotation: 0 },
+      { sourcePageIndex: 1, part: 1, rotation: 0 },
+    ]);
+  });
+
+  it('keeps the arranged order, drops stale and repeated entries and appends parts it does not list', () => {
+    const pageArrangement = [
+      { sourcePageIndex: 1, part: 1, rotation: 180 as const },
+      { sourcePageIndex: null, part: 0, rotation: 0 as const },
+      { sourcePageIndex: 5, part: 0, rotation: 0 as const },
+      { sourcePageIndex: 0, part: 0, rotation: 0 as const, removed: true },
+      { sourcePageIndex: 1, part: 1, rotation: 0 as const },
+    ];
+    expect(resolveArrangement(2, makeOptions({ pageArrangement })).map(entry => `${entry.sourcePageIndex}/${entry.part}`))
+      .toEqual(['1/1', 'null/0', '0/0', '0/1', '1/0']);
+  });
+});
+
+describe('buildPagePlan with an arrangement', () => {
+  const pageArrangement = [
+    { sourcePageIndex: 0, part: 1, rotation: 90 as const },
+    { sourcePageIndex: null, part: 0, rotation: 0 as const },
+    { sourcePageIndex: 0, part: 0, rotation: 0 as const, removed: true },
+  ];
+
+  it('leaves out removed parts and carries the rotation', () => {
+    const plan = buildPagePlan(2, makeOptions({ pageArrangement }));
+    expect(plan.map(page => [page.sourcePageIndex, page.part, page.rotation])).toEqual([
+      [0, 1, 90], [null, 0, 0], [1, 0, 0], [1, 1, 0],
+    ]);
+    expect(plan.map(page => page.outputIndex)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('counts a blank page in the numbering once numbering has begun', () => {
+    const numbers = (arrangement: typeof pageArrangement) =>
+      buildPagePlan(2, makeOptions({ pageArrangement: arrangement, enablePageNumbering: true })).map(page => page.pageNumber);
+    expect(numbers(pageArrangement)).toEqual([1, null, 3, 4]);
+    expect(numbers([{ sourcePageIndex: null, part: 0, rotation: 0 }])).toEqual([null, 1, 2, 3, 4]);
+  });
+});
+
+describe('blank parts', () => {
+  // The second half of the first sheet is empty, the first half of the second nearly so
+  const blankOptions = (options: Partial<SplitOptions> = {}) => makeOptions({
+    detectBlankPages: true,
+    inkCoverage: [[4.2, 0], [0.3, 3.1]],
+    ...options,
+  });
+
+  it('lists parts at or below the threshold, marking restored ones', () => {
+    expect(findBlankParts(blankOptions({ restoredBlankParts: [{ sourcePageIndex: 1, part: 0 }] }))).toEqual([
+      { sourcePageIndex: 0, part: 1, coverage: 0, restored: false },
+      { sourcePageIndex: 1, part: 0, coverage: 0.3, restored: true },
+    ]);
+    expect(findBlankParts(blankOptions({ detectBlankPages: false }))).toEqual([]);
+  });
+
+  it('does not count restored parts, parts without a measurement or anything when detection is off', () => {
+    expect(isBlankPart(blankOptions(), 0, 1)).toBe(true);
+    expect(isBlankPart(blankOptions({ restoredBlankParts: [{ sourcePageIndex: 0, part: 1 }] }), 0, 1)).toBe(false);
+    expect(isBlankPart(blankOptions(), 2, 0)).toBe(false);
+    expect(isBlankPart(blankOptions({ detectBlankPages: false }), 0, 1)).toBe(false);
+  });
+
+  it('drops blank parts, or keeps them unnumbered while numbering continues', () => {
+    expect(order(2, blankOptions())).toEqual(['0/0', '1/1']);
+
+    const plan = buildPagePlan(2, blankOptions({ blankPageHandling: 'unnumbered', enablePageNumbering: true }));
+    expect(plan.map(page => [page.isBlank, page.pageNumber])).toEqual([[false, 1], [true, null], [true, null], [false, 2]]);
+  });
+});
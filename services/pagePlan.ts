@@ -0,0 +1,227 @@
+import { ArrangedPage, SplitOptions } from '../types';
+import { getPartCount } from './splitGeometry';
+
+/**
+ * One output A4 page: which part of which source A3 page it comes from (null for an inserted blank page),
+ * how far it is turned, whether it was detected as blank, and the number stamped on it
+ * (null when the page is not numbered).
+ */
+export interface PlannedPage {
+  sourcePageIndex: number | null;
+  part: number;
+  partCount: number;
+  outputIndex: number;
+  rotation: ArrangedPage['rotation'];
+  isBlank: boolean;
+  pageNumber: number | null;
+}
+
+/**
+ * A part whose ink coverage is at or below the blank threshold, and whether it was restored by hand.
+ */
+export interface BlankPart {
+  sourcePageIndex: number;
+  part: number;
+  coverage: number; // %
+  restored: boolean;
+}
+
+export interface SheetSide {
+  sheet: number;
+  isBack: boolean;
+}
+
+/**
+ * Maps scan positions to physical sheet sides for a single saddle-stitched booklet.
+ */
+const getSheetSides = (scanCount: number, mode: SplitOptions['imposition']): SheetSide[] => {
+  const sheetCount = Math.ceil(scanCount / 2);
+  const sides: SheetSide[] = [];
+
+  for (let k = 0; k < scanCount; k++) {
+    if (mode === 'doubleSidedBooklet') {
+      // Fronts outer → inner, then the flipped stack gives backs inner → outer
+      sides.push(k < sheetCount
+        ? { sheet: k, isBack: false }
+        : { sheet: sheetCount - 1 - (k - sheetCount), isBack: true });
+    } else {
+      sides.push({ sheet: Math.floor(k / 2), isBack: k % 2 === 1 });
+    }
+  }
+
+  return sides;
+};
+
+/**
+ * Returns the 1-based reading-order page of the left and right half of one sheet side.
+ * For a booklet of `pageCount` pages, sheet 0 holds N|1 on its front and 2|N-1 on its back.
+ */
+export const getSidePages = (side: SheetSide, pageCount: number): [number, number] => {
+  const s = side.sheet;
+  return side.isBack
+    ? [2 * s + 2, pageCount - 2 * s - 1]
+    : [pageCount - 2 * s, 2 * s + 1];
+};
+
+/**
+ * Computes the reading-order position of both halves of every source page.
+ * The result is indexed by source page and holds [first half, second half].
+ */
+export const getLogicalPositions = (totalSourcePages: number, options: SplitOptions): [number, number][] => {
+  if (options.imposition === 'none') {
+    return Array.from({ length: totalSourcePages }, (_, i) => [2 * i + 1, 2 * i + 2] as [number, number]);
+  }
+
+  const scansPerGroup = options.imposition === 'multiSignature'
+    ? Math.max(1, options.signatureSheets ?? 4) * 2
+    : totalSourcePages;
+
+  const positions: [number, number][] = [];
+  let pageOffset = 0;
+
+  for (let start = 0; start < totalSourcePages; start += scansPerGroup) {
+    const scanCount = Math.min(scansPerGroup, totalSourcePages - start);
+    const pageCount = Math.ceil(scanCount / 2) * 4;
+    const sides = getSheetSides(scanCount, options.imposition);
+
+    for (const side of sides) {
+      const [left, right] = getSidePages(side, pageCount);
+      positions.push(options.bindingDirection === 'rtl'
+        ? [pageOffset + right, pageOffset + left]
+        : [pageOffset + left, pageOffset + right]);
+    }
+
+    pageOffset += pageCount;
+  }
+
+  return positions;
+};
+
+/**
+ * Lists every part detected as blank, in source order, restored ones included.
+ */
+export const findBlankParts = (options: SplitOptions): BlankPart[] => {
+  if (!options.detectBlankPages) return [];
+  const restored = options.restoredBlankParts ?? [];
+
+  const parts: BlankPart[] = [];
+  (options.inkCoverage ?? []).forEach((coverages, sourcePageIndex) => {
+    coverages?.forEach((coverage, part) => {
+      if (coverage > options.blankInkThreshold) return;
+      const isRestored = restored.some(entry => entry.sourcePageIndex === sourcePageIndex && entry.part === part);
+      parts.push({ sourcePageIndex, part, coverage, restored: isRestored });
+    });
+  });
+  return parts;
+};
+
+/**
+ * Whether a part was detected as blank and not restored.
+ */
+export const isBlankPart = (options: SplitOptions, sourcePageIndex: number, part: number): boolean => {
+  if (!options.detectBlankPages) return false;
+  const coverage = options.inkCoverage?.[sourcePageIndex]?.[part];
+  return coverage !== undefined
+    && coverage <= options.blankInkThreshold
+    && !(options.restoredBlankParts ?? []).some(entry => entry.sourcePageIndex === sourcePageIndex && entry.part === part);
+};
+
+/**
+ * Whether an entry of the organizer becomes an output page: removed entries don't, and neither do
+ * blank parts when blank pages are dropped.
+ */
+export const isOutputEntry = (entry: ArrangedPage, options: SplitOptions): boolean =>
+  !entry.removed && !(
+    entry.sourcePageIndex !== null
+    && options.blankPageHandling === 'remove'
+    && isBlankPart(options, entry.sourcePageIndex, entry.part)
+  );
+
+/**
+ * Lists the parts of every source page in reading order.
+ * Pages that a page rule keeps whole or cuts into more than two parts stay together,
+ * at the reading position of their earlier half.
+ */
+const getReadingOrder = (totalSourcePages: number, options: SplitOptions): { sourcePageIndex: number; part: number }[] => {
+  const positions = getLogicalPositions(totalSourcePages, options);
+
+  const parts: { sourcePageIndex: number; part: number; position: number }[] = [];
+  positions.forEach(([first, second], i) => {
+    const partCount = getPartCount(options, i);
+    for (let part = 0; part < partCount; part++) {
+      const position = partCount === 2
+        ? (part === 0 ? first : second)
+        : Math.min(first, second) + part / partCount;
+      parts.push({ sourcePageIndex: i, part, position });
+    }
+  });
+  return parts.sort((a, b) => a.position - b.position);
+};
+
+/**
+ * Returns the output pages as the organizer shows them: the entries of `pageArrangement` that still
+ * refer to an existing part (blank and removed ones included), then every part it does not list yet,
+ * in reading order. Without an arrangement this is every part in reading order.
+ */
+export const resolveArrangement = (totalSourcePages: number, options: SplitOptions): ArrangedPage[] => {
+  const parts = getReadingOrder(totalSourcePages, options);
+  const keyOf = (entry: { sourcePageIndex: number | null; part: number }) => `${entry.sourcePageIndex}:${entry.part}`;
+  const existing = new Set(parts.map(keyOf));
+  const listed = new Set<string>();
+  const arranged: ArrangedPage[] = [];
+
+  for (const entry of options.pageArrangement ?? []) {
+    const key = keyOf(entry);
+    if (entry.sourcePageIndex !== null && (!existing.has(key) || listed.has(key))) continue;
+    listed.add(key);
+    arranged.push(entry);
+  }
+
+  for (const part of parts) {
+    if (!listed.has(keyOf(part))) arranged.push({ sourcePageIndex: part.sourcePageIndex, part: part.part, rotation: 0 });
+  }
+
+  return arranged;
+};
+
+/**
+ * Builds the ordered list of output pages and assigns page numbers in their final order, after
+ * the organizer's reordering, removals and blank pages. An inserted blank page stays empty but takes
+ * its place in the numbering once numbering has begun; a part detected as blank is either dropped
+ * or kept without a number, and the numbering continues after it.
+ */
+export const buildPagePlan = (totalSourcePages: number, options: SplitOptions): PlannedPage[] => {
+  let pageNumberCounter = options.startingPageNumber;
+  let hasNumbered = false;
+
+  return resolveArrangement(totalSourcePages, options)
+    .filter(entry => isOutputEntry(entry, options))
+    .map((entry, outputIndex) => {
+      if (entry.sourcePageIndex === null) {
+        if (hasNumbered) pageNumberCounter++;
+        return { sourcePageIndex: null, part: 0, partCount: 1, outputIndex, rotation: entry.rotation, isBlank: false, pageNumber: null };
+      }
+
+      const partCount = getPartCount(options, entry.sourcePageIndex);
+      const sideEnabled = options.numberingSide === 'both'
+        || partCount === 1
+        || (options.numberingSide === 'first' && entry.part === 0)
+        || (options.numberingSide === 'second' && entry.part > 0);
+      const isBlank = isBlankPart(options, entry.sourcePageIndex, entry.part);
+      const isNumbered = options.enablePageNumbering
+        && entry.sourcePageIndex >= options.numberingStartFromPageIndex
+        && sideEnabled
+        && !isBlank;
+      if (isNumbered) hasNumbered = true;
+
+      return {
+        sourcePageIndex: entry.sourcePageIndex,
+        part: entry.part,
+        partCount,
+        outputIndex,
+        rotation: entry.rotation,
+        isBlank,
+        pageNumber: isNumbered ? pageNumberCounter++ : null,
+      };
+    });
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isPageInRanges, parsePageRanges } from './pageRanges';
+
+describe('parsePageRanges', () => {
+  it('reads single pages, closed and open ranges', () => {
+    expect(parsePageRanges('1, 3-7, 12-')).toEqual([{ start: 1, end: 1 }, { start: 3, end: 7 }, { start: 12, end: undefined }]);
+  });
+
+  it('reads a range without a start as starting at page 1', () => {
+    expect(parsePageRanges('-4')).toEqual([{ start: 1, end: 4 }]);
+  });
+
+  it('accepts full-width separators and dashes', () => {
+    expect(parsePageRanges('1，2–3；5~6')).toEqual([{ start: 1, end: 1 }, { start: 2, end: 3 }, { start: 5, end: 6 }]);
+  });
+
+  it('rejects empty, reversed and malformed expressions', () => {
+    expect(parsePageRanges('')).toBeNull();
+    expect(parsePageRanges(' , ')).toBeNull();
+    expect(parsePageRanges('0')).toBeNull();
+    expect(parsePageRanges('7-3')).toBeNull();
+    expect(parsePageRanges('-')).toBeNull();
+    expect(parsePageRanges('1, a')).toBeNull();
+  });
+});
+
+describe('isPageInRanges', () => {
+  it('includes both ends and runs open ranges to the last page', () => {
+    const ranges = parsePageRanges('3-5, 10-')!;
+    expect([2, 3, 5, 6, 10, 999].map(page => isPageInRanges(ranges, page))).toEqual([false, true, true, false, true, true]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * An inclusive, 1-based page range. A missing end means "to the last page".
+ */
+export interface PageRange {
+  start: number;
+  end?: number;
+}
+
+/**
+ * Parses a page range expression such as "1, 3-7, 12-".
+ * Returns null when the expression is empty or contains an invalid token.
+ */
+export const parsePageRanges = (spec: string): PageRange[] | null => {
+  const tokens = spec.split(/[,，;；]/).map(token => token.trim()).filter(token => token.length > 0);
+  if (tokens.length === 0) return null;
+
+  const ranges: PageRange[] = [];
+
+  for (const token of tokens) {
+    const match = /^(\d*)\s*[-–~]\s*(\d*)$|^(\d+)$/.exec(token);
+    if (!match) return null;
+
+    if (match[3] !== undefined) {
+      const page = parseInt(match[3], 10);
+      if (page < 1) return null;
+      ranges.push({ start: page, end: page });
+      continue;
+    }
+
+    if (match[1] === '' && match[2] === '') return null;
+    const start = match[1] === '' ? 1 : parseInt(match[1], 10);
+    const end = match[2] === '' ? undefined : parseInt(match[2], 10);
+    if (start < 1 || (end !== undefined && end < start)) return null;
+    ranges.push({ start, end });
+  }
+
+  return ranges;
+};
+
+/**
+ * Whether a 1-based page number falls inside any of the ranges.
+ */
+export const isPageInRanges = (ranges: PageRange[], pageNumber: number): boolean =>
+  ranges.some(range => pageNumber >= range.start && (range.end === undefined || pageNumber <= range.end));
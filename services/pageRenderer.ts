@@ -0,0 +1,109 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { Box } from './splitGeometry';
+
+// Configure pdfjs worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.mjs`;
+
+/**
+ * Opens a PDF with pdfjs. The buffer may be transferred to the pdfjs worker, so pass a fresh copy.
+ */
+export const loadPdfDocument = (data: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> =>
+  pdfjsLib.getDocument({ data }).promise;
+
+/**
+ * RGBA pixels of a rendered page, as a canvas returns them.
+ */
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Pixels darker than this luminance count as ink
+export const INK_THRESHOLD = 160;
+
+/**
+ * Returns the luminance (0 - 255) of the RGBA pixel starting at `offset`.
+ */
+export const getLuminance = (data: Uint8ClampedArray, offset: number): number =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+/**
+ * Whether the pixel at (x, y) counts as ink.
+ */
+export const isInkPixel = (image: PixelData, x: number, y: number): boolean =>
+  getLuminance(image.data, (y * image.width + x) * 4) < INK_THRESHOLD;
+
+/**
+ * Renders a page onto an offscreen canvas at the given scale (1 = 72 dpi).
+ */
+export const renderPageToCanvas = async (
+  page: pdfjsLib.PDFPageProxy,
+  scale: number
+): Promise<{ canvas: HTMLCanvasElement; viewport: pdfjsLib.PageViewport }> => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.floor(viewport.width));
+  canvas.height = Math.max(1, Math.floor(viewport.height));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // Transparent areas should count as paper, not ink
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return { canvas, viewport };
+};
+
+/**
+ * Maps a user-space box onto whole pixels of a canvas rendered with the given viewport.
+ */
+export const boxToCanvasRegion = (viewport: pdfjsLib.PageViewport, box: Box, canvas: HTMLCanvasElement): Box => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([box.x, box.y, box.x + box.width, box.y + box.height]);
+  const x = Math.max(0, Math.floor(Math.min(x1, x2)));
+  const y = Math.max(0, Math.floor(Math.min(y1, y2)));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(canvas.width, Math.ceil(Math.max(x1, x2))) - x),
+    height: Math.max(0, Math.min(canvas.height, Math.ceil(Math.max(y1, y2))) - y),
+  };
+};
+
+/**
+ * A small rendering of a page, with the viewport it was rendered with for placing overlays.
+ */
+export interface PageImage {
+  url: string;
+  viewport: pdfjsLib.PageViewport;
+}
+
+/**
+ * Renders every page as a JPEG image whose longest side is `size` pixels, in page order, calling `onPage`
+ * as each one is ready. Stops quietly when the signal aborts.
+ */
+export const renderPageImages = async (
+  data: ArrayBuffer,
+  size: number,
+  onPage: (pageIndex: number, image: PageImage) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const pdf = await loadPdfDocument(data);
+  try {
+    for (let i = 0; i < pdf.numPages && !signal?.aborted; i++) {
+      const page = await pdf.getPage(i + 1);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const { canvas, viewport } = await renderPageToCanvas(page, size / Math.max(baseViewport.width, baseViewport.height));
+      page.cleanup();
+      if (signal?.aborted) break;
+      onPage(i, { url: canvas.toDataURL('image/jpeg', 0.8), viewport });
+      canvas.width = 0;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { computePlacement, getPaperSize } from './paperLayout';
+
+const A4 = { width: 595.28, height: 841.89 };
+
+describe('getPaperSize', () => {
+  it('turns the paper to follow the content', () => {
+    const portrait = getPaperSize(makeOptions(), 400, 600);
+    const landscape = getPaperSize(makeOptions(), 600, 400);
+    expect(portrait.width).toBeCloseTo(A4.width, 1);
+    expect(portrait.height).toBeCloseTo(A4.height, 1);
+    expect(landscape.width).toBeCloseTo(A4.height, 1);
+  });
+
+  it('keeps a fixed orientation and reads custom sizes in millimetres', () => {
+    const options = makeOptions({ paperSize: 'custom', customPaperSize: { width: 254, height: 127 }, paperOrientation: 'portrait' });
+    const paper = getPaperSize(options, 600, 400);
+    expect(paper.width).toBeCloseTo(360);
+    expect(paper.height).toBeCloseTo(720);
+  });
+});
+
+describe('computePlacement', () => {
+  const paper = { width: 200, height: 300 };
+
+  it('fits the content and centres it', () => {
+    expect(computePlacement(makeOptions(), 100, 100, paper)).toEqual({ x: 0, y: 50, width: 200, height: 200 });
+  });
+
+  it('fills the paper, letting the content run over its edges', () => {
+    expect(computePlacement(makeOptions({ pageScaling: 'fill' }), 100, 100, paper)).toEqual({ x: -50, y: 0, width: 300, height: 300 });
+  });
+
+  it('keeps the actual size and aligns to the chosen corner', () => {
+    const options = makeOptions({ pageScaling: 'actual', horizontalAlign: 'right', verticalAlign: 'top' });
+    expect(computePlacement(options, 100, 100, paper)).toEqual({ x: 100, y: 200, width: 100, height: 100 });
+  });
+});
@@ -0,0 +1,94 @@
+import { PaperSize, SplitOptions } from '../types';
+import { Box, toPoints } from './splitGeometry';
+
+/**
+ * Standard paper sizes in portrait orientation, in millimetres.
+ */
+export const PAPER_SIZES: Record<Exclude<PaperSize, 'custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 },
+  B5: { width: 176, height: 250 },
+};
+
+/**
+ * Returns the output paper size in points for content of the given visible size.
+ */
+export const getPaperSize = (
+  options: SplitOptions,
+  contentWidth: number,
+  contentHeight: number
+): { width: number; height: number } => {
+  const sizeMm = options.paperSize === 'custom'
+    ? options.customPaperSize ?? PAPER_SIZES.A4
+    : PAPER_SIZES[options.paperSize];
+
+  const short = toPoints(Math.min(sizeMm.width, sizeMm.height), 'mm');
+  const long = toPoints(Math.max(sizeMm.width, sizeMm.height), 'mm');
+
+  const landscape = options.paperOrientation === 'auto'
+    ? contentWidth > contentHeight
+    : options.paperOrientation === 'landscape';
+
+  return landscape ? { width: long, height: short } : { width: short, height: long };
+};
+
+/**
+ * Scales and aligns content of the given visible size on the paper.
+ * Returns the content rectangle in paper coordinates (origin bottom-left); with 'fill'
+ * or 'actual' it may extend past the paper and is clipped there.
+ */
+export const computePlacement = (
+  options: SplitOptions,
+  contentWidth: number,
+  contentHeight: number,
+  paper: { width: number; height: number }
+): Box => {
+  const fitScale = Math.min(paper.width / contentWidth, paper.height / contentHeight);
+  const fillScale = Math.max(paper.width / contentWidth, paper.height / contentHeight);
+  const scale = options.pageScaling === 'fill' ? fillScale : options.pageScaling === 'actual' ? 1 : fitScale;
+
+  const width = contentWidth * scale;
+  const height = contentHeight * scale;
+
+  const x = options.horizontalAlign === 'left' ? 0
+    : options.horizontalAlign === 'right' ? paper.width - width
+    : (paper.width - width) / 2;
+  const y = options.verticalAlign === 'bottom' ? 0
+    : options.verticalAlign === 'top' ? paper.height - height
+    : (paper.height - height) / 2;
+
+  return { x, y, width, height };
+};
+
+/**
+ * Visible size of the output page a part ends up on: the paper when normalizing, the part itself otherwise.
+ */
+export const getFrameSize = (options: SplitOptions, part: Box): { width: number; height: number } =>
+  options.normalizePageSize
+    ? getPaperSize(options, part.width, part.height)
+    : { width: part.width, height: part.height };
+
+/**
+ * Maps a point on the output page (visible space, origin top-left) back onto the source page's visible space.
+ * `scale` is the number of source points per output point, for sizing text in the preview.
+ */
+export const framePointToSource = (
+  options: SplitOptions,
+  part: Box,
+  point: { x: number; y: number }
+): { x: number; y: number; scale: number } => {
+  if (!options.normalizePageSize) {
+    return { x: part.x + point.x, y: part.y + point.y, scale: 1 };
+  }
+
+  const paper = getPaperSize(options, part.width, part.height);
+  const target = computePlacement(options, part.width, part.height, paper);
+  const scale = part.width / target.width;
+  const targetTop = paper.height - (target.y + target.height);
+
+  return {
+    x: part.x + (point.x - target.x) * scale,
+    y: part.y + (point.y - targetTop) * scale,
+    scale,
+  };
+};
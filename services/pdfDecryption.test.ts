@@ -0,0 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { PdfError } from './pdfErrors';
+import { loadSourcePdf } from './pdfLoading';
+
+// One-page A3 files written by pdfkit, with the user password "user" and the owner password "owner"
+const FIXTURES = {
+  'RC4, 128 bit (R3)': 'rc4-128.pdf',
+  'AES, 128 bit (R4)': 'aes-128.pdf',
+  'AES, 256 bit (R5)': 'aes-256.pdf',
+  'AES, 256 bit (R6)': 'aes-256-r6.pdf',
+};
+
+const readFixture = (name: string) => new Uint8Array(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url)));
+
+const readPageText = (doc: Awaited<ReturnType<typeof loadSourcePdf>>): string => {
+  const contents = doc.getPages()[0].node.Contents();
+  expect(contents).toBeInstanceOf(PDFRawStream);
+  return new TextDecoder('latin1').decode((contents as PDFRawStream).getContents());
+};
+
+describe.each(Object.entries(FIXTURES))('decrypting %s', (_, file) => {
+  it.each(['user', 'owner'])('opens the file with the %s password', async password => {
+    const doc = await loadSourcePdf(readFixture(file), password);
+    expect(doc.getPageCount()).toBe(1);
+    expect(doc.getTitle()).toBe('A3 split test');
+    expect(readPageText(doc)).toContain('BT');
+  });
+
+  it('asks for a password when none is given', async () => {
+    await expect(loadSourcePdf(readFixture(file))).rejects.toMatchObject({ kind: 'encrypted' });
+  });
+
+  it('rejects a wrong password', async () => {
+    const result = loadSourcePdf(readFixture(file), 'wrong');
+    await expect(result).rejects.toBeInstanceOf(PdfError);
+    await expect(result).rejects.toMatchObject({ kind: 'encrypted' });
+  });
+});
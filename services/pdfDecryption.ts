@@ -0,0 +1,374 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { PDF_ERROR_MESSAGES, PdfError } from './pdfErrors';
+
+// Decryption for the Standard security handler (revisions 2 to 6: RC4, AES-128 and AES-256), which is what
+// every common writer produces. pdf-lib cannot read encrypted files, so the parsed objects are decrypted in place.
+// Object streams are unreadable before decryption; pdf-lib keeps them as invalid objects and they are parsed here.
+
+type CipherMethod = 'none' | 'rc4' | 'aes128' | 'aes256';
+
+interface SecurityHandler {
+  key: Uint8Array;
+  stringMethod: CipherMethod;
+  streamMethod: CipherMethod;
+  encryptMetadata: boolean;
+}
+
+// Padding string of algorithm 2 (ISO 32000-1, 7.6.3.3)
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => a.length === b.length && a.every((value, i) => value === b[i]);
+
+// MD5 and RC4 are not offered by WebCrypto
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+const md5 = (data: Uint8Array): Uint8Array => {
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(data);
+  buffer[data.length] = 0x80;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  const words = new Uint32Array(16);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4, true);
+    let a = a0, b = b0, c = c0, d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      const sum = (a + f + MD5_CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => digestView.setUint32(i * 4, word >>> 0, true));
+  return digest;
+};
+
+const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) state[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const result = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    result[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return result;
+};
+
+const importAesKey = (key: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', key, 'AES-CBC', false, ['encrypt', 'decrypt']);
+
+/**
+ * AES-CBC decryption. WebCrypto always removes PKCS#7 padding, so for unpadded data a block that decrypts
+ * to a full padding block is appended first.
+ */
+const aesDecrypt = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array, padded: boolean): Promise<Uint8Array> => {
+  const cryptoKey = await importAesKey(key);
+  let input = data;
+  if (!padded) {
+    const paddingBlock = await crypto.subtle.encrypt({ name: 'AES-CBC', iv: data.slice(data.length - 16) }, cryptoKey, new Uint8Array(0));
+    input = concatBytes(data, new Uint8Array(paddingBlock));
+  }
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, cryptoKey, input));
+};
+
+const aesEncryptUnpadded = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, await importAesKey(key), data);
+  return new Uint8Array(encrypted, 0, data.length);
+};
+
+const sha = async (algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, data));
+
+/**
+ * The password hash of revision 5 (plain SHA-256) and revision 6 (algorithm 2.B of ISO 32000-2).
+ * `userKey` is the 48-byte /U value when checking the owner password and empty otherwise.
+ */
+const hashPassword = async (revision: number, password: Uint8Array, salt: Uint8Array, userKey: Uint8Array): Promise<Uint8Array> => {
+  let hash = await sha('SHA-256', concatBytes(password, salt, userKey));
+  if (revision < 6) return hash;
+
+  let encrypted = new Uint8Array(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = concatBytes(password, hash, userKey);
+    const repeated = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) repeated.set(block, i * block.length);
+    encrypted = await aesEncryptUnpadded(hash.subarray(0, 16), hash.subarray(16, 32), repeated);
+    const remainder = encrypted.subarray(0, 16).reduce((total, value) => total + value, 0) % 3;
+    hash = await sha((['SHA-256', 'SHA-384', 'SHA-512'] as const)[remainder], encrypted);
+  }
+  return hash.subarray(0, 32);
+};
+
+const stringBytes = (value: PDFObject | undefined): Uint8Array =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+
+const numberValue = (value: PDFObject | undefined, fallback: number): number =>
+  value instanceof PDFNumber ? value.asNumber() : fallback;
+
+const cryptFilterMethod = (encrypt: PDFDict, filterKey: string): CipherMethod => {
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('AESV2')) return 'aes128';
+  if (method === PDFName.of('AESV3')) return 'aes256';
+  if (method === PDFName.of('None')) return 'none';
+  throw new PdfError('encrypted', PDF_ERROR_MESSAGES.unsupportedEncryption);
+};
+
+/**
+ * Finds the file key for `password`, trying it as user password first and as owner password second.
+ * Returns null when it is neither.
+ */
+const findFileKey = async (encrypt: PDFDict, fileId: Uint8Array, revision: number, password: string): Promise<Uint8Array | null> => {
+  const ownerKey = stringBytes(encrypt.lookup(PDFName.of('O')));
+  const userKey = stringBytes(encrypt.lookup(PDFName.of('U')));
+
+  if (revision >= 5) {
+    const passwordBytes = new TextEncoder().encode(password).subarray(0, 127);
+    const tryPassword = async (hashKey: Uint8Array, wrappedKey: Uint8Array, extra: Uint8Array) => {
+      const check = await hashPassword(revision, passwordBytes, hashKey.subarray(32, 40), extra);
+      if (!bytesEqual(check, hashKey.subarray(0, 32))) return null;
+      const intermediate = await hashPassword(revision, passwordBytes, hashKey.subarray(40, 48), extra);
+      return aesDecrypt(intermediate, new Uint8Array(16), wrappedKey.subarray(0, 32), false);
+    };
+    return await tryPassword(userKey, stringBytes(encrypt.lookup(PDFName.of('UE'))), new Uint8Array(0))
+      ?? tryPassword(ownerKey, stringBytes(encrypt.lookup(PDFName.of('OE'))), userKey.subarray(0, 48));
+  }
+
+  const defaultLength = numberValue(encrypt.lookup(PDFName.of('V')), 0) >= 4 ? 128 : 40;
+  const keyLength = revision === 2 ? 5 : Math.min(Math.max(numberValue(encrypt.lookup(PDFName.of('Length')), defaultLength) / 8, 5), 16);
+  const permissions = numberValue(encrypt.lookup(PDFName.of('P')), 0);
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const padPassword = (bytes: Uint8Array) => concatBytes(bytes, PASSWORD_PADDING).subarray(0, 32);
+
+  // Algorithms 2 and 4/5: the key from a padded user password, checked against /U
+  const tryUserPassword = (padded: Uint8Array): Uint8Array | null => {
+    let hash = md5(concatBytes(
+      padded,
+      ownerKey.subarray(0, 32),
+      new Uint8Array([permissions & 0xff, (permissions >> 8) & 0xff, (permissions >> 16) & 0xff, (permissions >> 24) & 0xff]),
+      fileId,
+      revision >= 4 && !encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0)
+    ));
+    if (revision >= 3) {
+      for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+    }
+    const key = hash.subarray(0, keyLength);
+
+    if (revision === 2) return bytesEqual(rc4(key, PASSWORD_PADDING), userKey.subarray(0, 32)) ? key : null;
+    let check = rc4(key, md5(concatBytes(PASSWORD_PADDING, fileId)));
+    for (let i = 1; i <= 19; i++) check = rc4(key.map(value => value ^ i), check);
+    return bytesEqual(check, userKey.subarray(0, 16)) ? key : null;
+  };
+
+  const passwordBytes = padPassword(Uint8Array.from(password, char => char.charCodeAt(0) & 0xff));
+  const userResult = tryUserPassword(passwordBytes);
+  if (userResult) return userResult;
+
+  // Algorithm 7: the owner password decrypts /O into the user password
+  let ownerHash = md5(passwordBytes);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) ownerHash = md5(ownerHash);
+  }
+  const ownerRc4Key = ownerHash.subarray(0, keyLength);
+  let userPassword = ownerKey.subarray(0, 32);
+  if (revision === 2) {
+    userPassword = rc4(ownerRc4Key, userPassword);
+  } else {
+    for (let i = 19; i >= 0; i--) userPassword = rc4(ownerRc4Key.map(value => value ^ i), userPassword);
+  }
+  return tryUserPassword(userPassword);
+};
+
+const readSecurityHandler = async (context: PDFContext, encrypt: PDFDict, password: string): Promise<SecurityHandler | null> => {
+  const filter = encrypt.lookup(PDFName.of('Filter'));
+  const version = numberValue(encrypt.lookup(PDFName.of('V')), 0);
+  const revision = numberValue(encrypt.lookup(PDFName.of('R')), 0);
+  if (filter !== PDFName.of('Standard') || revision < 2 || revision > 6 || ![1, 2, 4, 5].includes(version)) {
+    throw new PdfError('encrypted', PDF_ERROR_MESSAGES.unsupportedEncryption);
+  }
+
+  const ids = context.lookup(context.trailerInfo.ID);
+  const fileId = ids instanceof PDFArray && ids.size() > 0 ? stringBytes(ids.lookup(0)) : new Uint8Array(0);
+  const key = await findFileKey(encrypt, fileId, revision, password);
+  if (!key) return null;
+
+  const streamMethod = version >= 4 ? cryptFilterMethod(encrypt, 'StmF') : 'rc4';
+  const stringMethod = version >= 4 ? cryptFilterMethod(encrypt, 'StrF') : 'rc4';
+  return { key, streamMethod, stringMethod, encryptMetadata: encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False };
+};
+
+const decryptData = async (handler: SecurityHandler, method: CipherMethod, ref: PDFRef, data: Uint8Array): Promise<Uint8Array> => {
+  if (method === 'none') return data;
+
+  // Algorithm 1: revisions up to 4 derive a key per object
+  let key = handler.key;
+  if (method !== 'aes256') {
+    const { objectNumber, generationNumber } = ref;
+    key = md5(concatBytes(
+      handler.key,
+      new Uint8Array([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff, generationNumber & 0xff, (generationNumber >> 8) & 0xff]),
+      method === 'aes128' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0)
+    )).subarray(0, Math.min(handler.key.length + 5, 16));
+  }
+  if (method === 'rc4') return rc4(key, data);
+
+  // AES data starts with its IV; damaged padding is kept rather than failing the whole file
+  const body = data.subarray(16, 16 + Math.floor(Math.max(data.length - 16, 0) / 16) * 16);
+  if (body.length === 0) return new Uint8Array(0);
+  const iv = data.subarray(0, 16);
+  return aesDecrypt(key, iv, body, true).catch(() => aesDecrypt(key, iv, body, false));
+};
+
+/**
+ * Decrypts the strings inside a direct object, replacing them in their dictionaries and arrays.
+ */
+const decryptStrings = async (handler: SecurityHandler, ref: PDFRef, value: PDFObject): Promise<PDFObject> => {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    const bytes = await decryptData(handler, handler.stringMethod, ref, value.asBytes());
+    return PDFHexString.of(Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(''));
+  }
+  if (value instanceof PDFDict) {
+    for (const [key, entry] of value.entries()) {
+      const decrypted = await decryptStrings(handler, ref, entry);
+      if (decrypted !== entry) value.set(key, decrypted);
+    }
+  } else if (value instanceof PDFArray) {
+    for (let i = 0; i < value.size(); i++) {
+      const entry = value.get(i);
+      const decrypted = await decryptStrings(handler, ref, entry);
+      if (decrypted !== entry) value.set(i, decrypted);
+    }
+  }
+  return value;
+};
+
+const decryptStream = async (handler: SecurityHandler, ref: PDFRef, stream: PDFRawStream): Promise<PDFRawStream> => {
+  await decryptStrings(handler, ref, stream.dict);
+  const type = stream.dict.lookup(PDFName.of('Type'));
+  if (type === PDFName.of('XRef') || (type === PDFName.of('Metadata') && !handler.encryptMetadata)) return stream;
+  return PDFRawStream.of(stream.dict, await decryptData(handler, handler.streamMethod, ref, stream.contents));
+};
+
+/**
+ * Decrypts every object of an encrypted document's context with `password` (the user or the owner password;
+ * files that only restrict permissions open with an empty one) and removes the encryption.
+ * Throws an encrypted PdfError when the password is wrong or the encryption is not supported.
+ */
+export const decryptPdfContext = async (context: PDFContext, password: string): Promise<void> => {
+  const encryptEntry = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptEntry);
+  if (!(encrypt instanceof PDFDict)) return;
+
+  const handler = await readSecurityHandler(context, encrypt, password);
+  if (!handler) {
+    throw new PdfError('encrypted', password ? PDF_ERROR_MESSAGES.passwordRejected : PDF_ERROR_MESSAGES.passwordRequired);
+  }
+
+  const objectStreams: [PDFRef, PDFInvalidObject][] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object === encrypt) continue;
+    if (object instanceof PDFRawStream) {
+      context.assign(ref, await decryptStream(handler, ref, object));
+    } else if (object instanceof PDFInvalidObject) {
+      objectStreams.push([ref, object]);
+    } else {
+      // Strings can be objects of their own, as the values of some writers' info dictionaries
+      const decrypted = await decryptStrings(handler, ref, object);
+      if (decrypted !== object) context.assign(ref, decrypted);
+    }
+  }
+
+  // Objects inside object streams are encrypted with the stream, not one by one
+  for (const [ref, object] of objectStreams) {
+    const bytes = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(bytes, 0);
+    let parsed: PDFObject;
+    try {
+      parsed = PDFObjectParser.forBytes(bytes, context).parseObject();
+    } catch {
+      continue;
+    }
+    if (!(parsed instanceof PDFRawStream)) continue;
+
+    const stream = await decryptStream(handler, ref, parsed);
+    if (stream.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')) {
+      await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+      context.delete(ref);
+    } else {
+      context.assign(ref, stream);
+    }
+  }
+
+  context.trailerInfo.Encrypt = undefined;
+  if (encryptEntry instanceof PDFRef) context.delete(encryptEntry);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PDF_BYTES, PdfError, checkPdfSize, toErrorStatus, toPageError } from './pdfErrors';
+
+describe('checkPdfSize', () => {
+  it('rejects files over the limit', () => {
+    expect(() => checkPdfSize(MAX_PDF_BYTES)).not.toThrow();
+    expect(() => checkPdfSize(MAX_PDF_BYTES + 1)).toThrow(expect.objectContaining({ kind: 'tooLarge' }));
+  });
+});
+
+describe('toPageError', () => {
+  it('names the page and keeps the reason', () => {
+    const cause = new Error('bad stream');
+    const error = toPageError(cause, 2);
+    expect(error).toMatchObject({ kind: 'corrupted', pageIndex: 2, cause });
+    expect(error.message).toContain('第 3 页');
+    expect(error.message).toContain('bad stream');
+  });
+
+  it('keeps errors that already name a page', () => {
+    const error = new PdfError('corrupted', 'x', 0);
+    expect(toPageError(error, 5)).toBe(error);
+  });
+});
+
+describe('toErrorStatus', () => {
+  it('carries the kind and page of a PdfError', () => {
+    expect(toErrorStatus(new PdfError('corrupted', 'broken', 1))).toEqual({
+      step: 'error', progress: 0, message: 'broken', errorKind: 'corrupted', failedPageIndex: 1,
+    });
+    expect(toErrorStatus(new Error(''))).toMatchObject({ message: '处理 PDF 时发生错误。' });
+  });
+});
@@ -0,0 +1,59 @@
+import { PdfErrorKind, ProcessingStatus } from '../types';
+
+// Typed failures of reading a source PDF, so the UI and the command line can tell the user what to do
+// instead of showing one generic error.
+
+// Larger files do not fit into a browser tab's memory next to their split result
+export const MAX_PDF_BYTES = 512 * 1024 * 1024;
+
+export class PdfError extends Error {
+  constructor(readonly kind: PdfErrorKind, message: string, readonly pageIndex?: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PdfError';
+  }
+}
+
+export const PDF_ERROR_MESSAGES = {
+  passwordRequired: '此 PDF 已加密，请输入打开密码。',
+  passwordRejected: '密码不正确，请检查大小写后重新输入。',
+  unsupportedEncryption: '此 PDF 使用了不支持的加密方式，请先在其他阅读器中移除密码后再试。',
+  corrupted: '文件已损坏且无法修复。可以在其他阅读器中打开后“另存为”新的 PDF 再试。',
+  noPages: '文件已损坏，找不到任何页面。可以在其他阅读器中打开后“另存为”新的 PDF 再试。',
+  emptyFile: '文件为空（0 字节），请重新下载或导出后再试。',
+  emptyDocument: '此 PDF 不包含任何页面。',
+  notPdf: '这不是 PDF 文件，请选择 .pdf 文件。',
+  unflattenable: '表单无法拍平（部分表单域缺少外观或包含中文内容），请改为保留表单。',
+  tooLarge: `文件超过 ${MAX_PDF_BYTES / 1024 / 1024} MB，请先将其拆分为较小的文件。`,
+};
+
+/**
+ * Throws tooLarge before a file is read into memory.
+ */
+export const checkPdfSize = (byteLength: number): void => {
+  if (byteLength > MAX_PDF_BYTES) throw new PdfError('tooLarge', PDF_ERROR_MESSAGES.tooLarge);
+};
+
+/**
+ * The page's content cannot be parsed, so what lies outside its parts cannot be removed.
+ */
+export const toUntrimmableError = (pageIndex: number): PdfError =>
+  new PdfError('untrimmable', `第 ${pageIndex + 1} 页的内容无法解析，无法删除每一份之外的隐藏内容。请关闭“删除隐藏内容”，或在其他阅读器中另存为新的 PDF 后再试。`, pageIndex);
+
+/**
+ * Turns a failure while processing one source page into a corrupted error that names the page.
+ */
+export const toPageError = (error: unknown, pageIndex: number): PdfError => {
+  if (error instanceof PdfError && error.pageIndex !== undefined) return error;
+  const reason = error instanceof Error ? error.message : String(error);
+  return new PdfError(error instanceof PdfError ? error.kind : 'corrupted', `第 ${pageIndex + 1} 页无法处理，页面数据可能已损坏（${reason}）。`, pageIndex, { cause: error });
+};
+
+/**
+ * The error status shown for a failed file. Errors that are not PdfErrors keep their message.
+ */
+export const toErrorStatus = (error: unknown): ProcessingStatus => {
+  if (error instanceof PdfError) {
+    return { step: 'error', progress: 0, message: error.message, errorKind: error.kind, failedPageIndex: error.pageIndex };
+  }
+  return { step: 'error', progress: 0, message: error instanceof Error && error.message ? error.message : '处理 PDF 时发生错误。' };
+};
@@ -0,0 +1,44 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { makeA3Pdf } from './__fixtures__/a3Pdf';
+import { findPdfHeader, loadSourcePdf } from './pdfLoading';
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+const fromLatin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// A three-page A3 file without object streams, so its objects can be cut and edited as text
+const makePlainPdf = async (): Promise<string> =>
+  latin1(await (await PDFDocument.load(await makeA3Pdf(3))).save({ useObjectStreams: false }));
+
+describe('loadSourcePdf', () => {
+  it('rejects empty files and files that are not PDFs', async () => {
+    await expect(loadSourcePdf(new Uint8Array())).rejects.toMatchObject({ kind: 'empty' });
+    await expect(loadSourcePdf(fromLatin1('PK\x03\x04 not a pdf'))).rejects.toMatchObject({ kind: 'notPdf' });
+  });
+
+  it('finds a header behind junk', async () => {
+    const bytes = fromLatin1(`junk\n${await makePlainPdf()}`);
+    expect(findPdfHeader(bytes)).toBe(5);
+    expect((await loadSourcePdf(bytes)).getPageCount()).toBe(3);
+  });
+
+  it('opens a truncated file and gives pages whose content was cut off an empty stream', async () => {
+    const text = await makePlainPdf();
+    const doc = await loadSourcePdf(fromLatin1(text.slice(0, text.indexOf('9 0 obj') + 20)));
+
+    expect(doc.getPageCount()).toBe(3);
+    // Pages with content streams can be embedded again
+    const copy = await PDFDocument.create();
+    await expect(copy.embedPages(doc.getPages())).resolves.toHaveLength(3);
+  });
+
+  it('rebuilds a missing page tree from the page objects', async () => {
+    const text = (await makePlainPdf()).replace('/Pages 1 0 R', '/Pages 99 0 R');
+    expect((await loadSourcePdf(fromLatin1(text))).getPageCount()).toBe(3);
+  });
+
+  it('reports a file without any page objects as corrupted', async () => {
+    const text = (await makePlainPdf()).replace(/\/Type \/Page\n/g, '/Type /Thing\n').replace('/Pages 1 0 R', '/Pages 99 0 R');
+    await expect(loadSourcePdf(fromLatin1(text))).rejects.toMatchObject({ kind: 'corrupted' });
+  });
+});
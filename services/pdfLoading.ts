@@ -0,0 +1,143 @@
+import { PDFArray, PDFCatalog, PDFContext, PDFDict, PDFDocument, PDFName, PDFPageLeaf, PDFPageTree, PDFRef, PDFStream, PDFWriter } from 'pdf-lib';
+import { decryptPdfContext } from './pdfDecryption';
+import { PDF_ERROR_MESSAGES, PdfError, checkPdfSize } from './pdfErrors';
+
+// Opens source PDFs for splitting: rejects what is not a PDF with a typed error, decrypts encrypted files
+// and repairs the common kinds of damage (a truncated end, oversized numbers, a broken page tree).
+
+const ENDOBJ = [...'endobj'].map(char => char.charCodeAt(0));
+
+// Attributes a page may inherit from its ancestors in the page tree
+const INHERITED_PAGE_KEYS = ['Resources', 'MediaBox', 'CropBox', 'Rotate'].map(key => PDFName.of(key));
+
+/**
+ * Offset of the %PDF- header, or -1. Some writers put junk before the header, so the first KB is searched.
+ */
+export const findPdfHeader = (data: Uint8Array): number =>
+  new TextDecoder('latin1').decode(data.subarray(0, 1024)).indexOf('%PDF-');
+
+// Cuts a truncated file after its last complete object
+const cutAfterLastObject = (bytes: Uint8Array): Uint8Array => {
+  for (let i = bytes.length - ENDOBJ.length; i >= 0; i--) {
+    if (ENDOBJ.every((byte, j) => bytes[i + j] === byte)) return bytes.subarray(0, i + ENDOBJ.length);
+  }
+  return bytes;
+};
+
+const countPages = (doc: PDFDocument): number | null => {
+  try {
+    return doc.getPageCount();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Puts every page object of the file into a new page tree, in file order, for files whose tree is missing
+ * or broken. What the pages inherited from their old parents is copied onto them first. Returns the page count.
+ */
+const rebuildPageTree = (context: PDFContext): number => {
+  const tree = PDFPageTree.withContext(context);
+  const treeRef = context.register(tree);
+
+  for (const [ref, leaf] of context.enumerateIndirectObjects()) {
+    if (!(leaf instanceof PDFPageLeaf)) continue;
+    const visited = new Set<PDFDict>([leaf]);
+    for (let parent = leaf.lookup(PDFName.of('Parent')); parent instanceof PDFDict && !visited.has(parent); parent = parent.lookup(PDFName.of('Parent'))) {
+      visited.add(parent);
+      INHERITED_PAGE_KEYS.forEach(key => {
+        const value = parent instanceof PDFDict ? parent.get(key) : undefined;
+        if (value && !leaf.has(key)) leaf.set(key, value);
+      });
+    }
+    if (!(leaf.lookup(PDFName.of('MediaBox')) instanceof PDFArray)) continue;
+    leaf.set(PDFName.of('Parent'), treeRef);
+    tree.pushLeafNode(ref);
+  }
+
+  const catalog = context.lookup(context.trailerInfo.Root);
+  if (catalog instanceof PDFDict) {
+    catalog.set(PDFName.of('Pages'), treeRef);
+  } else {
+    context.trailerInfo.Root = context.register(PDFCatalog.withContextAndPages(context, treeRef));
+  }
+  return tree.Count().asNumber();
+};
+
+/**
+ * Removes references to content streams that are missing, as in the last pages of a truncated file;
+ * viewers reject those. Pages left without content get an empty stream so they can still be embedded.
+ */
+const repairPageContents = (doc: PDFDocument): void => {
+  const { context } = doc;
+  const isStream = (entry: unknown) => entry instanceof PDFRef && context.lookup(entry) instanceof PDFStream;
+
+  for (const page of doc.getPages()) {
+    const contents = page.node.get(PDFName.of('Contents'));
+    if (contents instanceof PDFArray) {
+      for (let i = contents.size() - 1; i >= 0; i--) {
+        if (!isStream(contents.get(i))) contents.remove(i);
+      }
+    }
+    if (contents instanceof PDFArray ? contents.size() === 0 : !isStream(contents)) {
+      page.node.set(PDFName.of('Contents'), context.register(context.flateStream('')));
+    }
+  }
+};
+
+// pdf-lib reads a document's catalog when it is loaded, so a decrypted or repaired context is written out and read again
+const reloadContext = async (context: PDFContext): Promise<PDFDocument> => {
+  try {
+    return await PDFDocument.load(await PDFWriter.forContext(context, 50).serializeToBuffer(), { updateMetadata: false });
+  } catch (error) {
+    throw new PdfError('corrupted', PDF_ERROR_MESSAGES.corrupted, undefined, { cause: error });
+  }
+};
+
+/**
+ * Loads a PDF for splitting. `password` is the user or owner password of an encrypted file; files that only
+ * restrict permissions open without one. Damaged files are repaired where possible.
+ * Throws a PdfError saying why a file cannot be opened.
+ */
+export const loadSourcePdf = async (data: ArrayBuffer | Uint8Array, password = ''): Promise<PDFDocument> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.length === 0) throw new PdfError('empty', PDF_ERROR_MESSAGES.emptyFile);
+  checkPdfSize(bytes.length);
+  if (findPdfHeader(bytes) < 0) throw new PdfError('notPdf', PDF_ERROR_MESSAGES.notPdf);
+
+  // Updating the metadata would write plain text into the still encrypted info dictionary
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    try {
+      doc = await PDFDocument.load(cutAfterLastObject(bytes), { ignoreEncryption: true, updateMetadata: false, capNumbers: true });
+    } catch (error) {
+      throw new PdfError('corrupted', PDF_ERROR_MESSAGES.corrupted, undefined, { cause: error });
+    }
+  }
+
+  if (doc.isEncrypted) {
+    await decryptPdfContext(doc.context, password);
+    doc = await reloadContext(doc.context);
+  }
+
+  const pageCount = countPages(doc);
+  if (pageCount === null || pageCount === 0) {
+    if (rebuildPageTree(doc.context) === 0) {
+      throw pageCount === 0
+        ? new PdfError('empty', PDF_ERROR_MESSAGES.emptyDocument)
+        : new PdfError('corrupted', PDF_ERROR_MESSAGES.noPages);
+    }
+    doc = await reloadContext(doc.context);
+  }
+  repairPageContents(doc);
+  return doc;
+};
+
+/**
+ * Returns a decrypted (and, if needed, repaired) copy of a PDF, so an unlocked file can be previewed
+ * and split like any other.
+ */
+export const unlockPdfBytes = async (data: ArrayBuffer | Uint8Array, password: string): Promise<Uint8Array> =>
+  (await loadSourcePdf(data, password)).save({ addDefaultPage: false, updateFieldAppearances: false });
@@ -0,0 +1,94 @@
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { SplitOptions, Stamp } from '../types';
+import { A3, makeA3File, makeA3Pdf } from './__fixtures__/a3Pdf';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { PdfError } from './pdfErrors';
+import { splitA3ToA4, splitPdfBytes } from './pdfService';
+
+const split = async (file: File, options: Partial<SplitOptions>): Promise<PDFDocument> => {
+  const [output] = await splitA3ToA4(file, makeOptions(options), () => undefined);
+  return PDFDocument.load(output.data);
+};
+
+describe('splitA3ToA4', () => {
+  it('crops every page into its two halves', async () => {
+    const output = await split(await makeA3File(2), {});
+    expect(output.getPageCount()).toBe(4);
+    expect(output.getPage(0).getCropBox()).toEqual({ x: 0, y: 0, width: A3.width / 2, height: A3.height });
+    expect(output.getPage(1).getCropBox()).toEqual({ x: A3.width / 2, y: 0, width: A3.width / 2, height: A3.height });
+  });
+
+  it('puts every half on a page of the chosen paper size', async () => {
+    const output = await split(await makeA3File(1), { normalizePageSize: true });
+    output.getPages().forEach(page => {
+      expect(page.getWidth()).toBeCloseTo(595.28, 1);
+      expect(page.getHeight()).toBeCloseTo(841.89, 1);
+      expect(page.getRotation().angle).toBe(0);
+    });
+  });
+
+  it('places the halves of a rotated source the way they are displayed', async () => {
+    const output = await split(await makeA3File(1, 90), { normalizePageSize: true });
+    expect(output.getPageCount()).toBe(2);
+    expect(output.getPage(0).getWidth()).toBeCloseTo(595.28, 1);
+    expect(output.getPage(0).getHeight()).toBeCloseTo(841.89, 1);
+  });
+
+  it('turns, removes and inserts pages as arranged', async () => {
+    const pageArrangement = [
+      { sourcePageIndex: 0, part: 1, rotation: 90 as const },
+      { sourcePageIndex: null, part: 0, rotation: 0 as const },
+      { sourcePageIndex: 0, part: 0, rotation: 0 as const, removed: true },
+    ];
+    const output = await split(await makeA3File(1), { pageArrangement });
+    expect(output.getPageCount()).toBe(2);
+    expect(output.getPage(0).getRotation().angle).toBe(90);
+    // The blank page takes the size of the turned part before it
+    expect(output.getPage(1).getWidth()).toBeCloseTo(A3.height);
+    expect(output.getPage(1).getHeight()).toBeCloseTo(A3.width / 2);
+  });
+
+  it('asks for a font before numbering pages with Chinese text', async () => {
+    await expect(split(await makeA3File(1), { enablePageNumbering: true, numberFormat: '第 {n} 页' })).rejects.toThrow('字体');
+  });
+
+  it('asks for a font before stamping Chinese text instead of failing the first page', async () => {
+    const stamp: Stamp = {
+      id: 'stamp', kind: 'text', text: '机密', imageWidth: 100, pages: '', position: 'bottom-right', margin: 10,
+      rotation: 0, opacity: 1, fontSize: 10, color: '#000000', batesStart: 1, batesDigits: 6,
+    };
+    const result = split(await makeA3File(1), { stamps: [stamp] });
+    await expect(result).rejects.toThrow('字体');
+    await expect(result).rejects.not.toBeInstanceOf(PdfError);
+  });
+});
+
+describe('splitPdfBytes', () => {
+  it('lets the parts of a page share its content instead of copying it', async () => {
+    const output = await PDFDocument.load(await splitPdfBytes(await makeA3Pdf(1), 'scan.pdf', makeOptions(), () => undefined));
+    const [first, second] = output.getPages().map(page => `${page.node.get(PDFName.of('Contents'))}`);
+    expect(first).toMatch(/\d+ 0 R/);
+    expect(second).toBe(first);
+  });
+
+  it('fails the page when hidden content is to be removed but its content cannot be parsed', async () => {
+    const doc = await PDFDocument.load(await makeA3Pdf(2));
+    doc.getPage(1).node.set(PDFName.of('Contents'), doc.context.register(doc.context.flateStream('0 0 m (unterminated')));
+    const result = splitPdfBytes(await doc.save(), 'scan.pdf', makeOptions({ removeHiddenContent: true }), () => undefined);
+
+    await expect(result).rejects.toMatchObject({ kind: 'untrimmable', pageIndex: 1 });
+  });
+
+  it('stops at the next page once cancelled', async () => {
+    const controller = new AbortController();
+    const progress: number[] = [];
+    const result = splitPdfBytes(await makeA3Pdf(4), 'scan.pdf', makeOptions(), value => {
+      progress.push(value);
+      controller.abort(new Error('cancelled'));
+    }, controller.signal);
+
+    await expect(result).rejects.toThrow('cancelled');
+    expect(progress).toHaveLength(1);
+  });
+});
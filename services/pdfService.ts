@@ -1,96 +1,325 @@
 
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import { SplitOptions } from '../types';
+import { degrees, PDFDocument, PDFEmbeddedPage, PDFFont, PDFObjectCopier, PDFPage } from 'pdf-lib';
+import { SplitOptions, SplitOutput } from '../types';
+import { attachAnnotations, detachAnnotations, rebuildAcroForm } from './annotations';
+import { removeUnreachableObjects, trimPageContent } from './contentTrimming';
+import { DocumentStructure, PartPlacement, applyDocumentStructure, readDocumentStructure, removeLinkAnnotations } from './documentStructure';
+import { toPageError, toUntrimmableError } from './pdfErrors';
+import { loadSourcePdf } from './pdfLoading';
+import { formatOutputFileName, getOutputFileName, groupOutputPages } from './outputFiles';
+import { PlannedPage, buildPagePlan, findBlankParts } from './pagePlan';
+import { drawPageNumber, embedNumberFont } from './pageNumbering';
+import { PAPER_SIZES, computePlacement, getPaperSize } from './paperLayout';
+import { deskewPage } from './scanCorrection';
+import { checkStampFont, drawStamps, embedStampFont, embedStampImages } from './stamping';
+import { Box, PageGeometry, computeVisibleSplitRects, getPageGeometry, getPartFrame, getScanCorrection, rotateFrame, toPoints } from './splitGeometry';
 
 /**
- * Splits an A3 PDF page into two A4 pages and optionally adds page numbers.
+ * An output page together with its visible frame, which is where stamps are placed,
+ * and the mapping of source points onto it, which is where links and bookmarks are moved.
  */
-export const splitA3ToA4 = async (
-  file: File,
+interface SplitPart {
+  page: PDFPage;
+  frame: PageGeometry;
+  sourceBox: Box;
+  toPage?: PartPlacement['toPage'];
+}
+
+/**
+ * The split document before it is saved, with what is needed to finish it or any subset of its pages.
+ */
+interface SplitDocument {
+  sourcePdf: PDFDocument;
+  outPdf: PDFDocument;
+  plan: PlannedPage[];
+  placements: PartPlacement[]; // by output index
+  structure: DocumentStructure;
+}
+
+/**
+ * Places an embedded part on a new page of real paper size, undoing the source /Rotate
+ * so the part appears the way it was displayed.
+ */
+const createNormalizedPage = (
+  outPdf: PDFDocument,
+  embedded: PDFEmbeddedPage,
+  rect: Box,
+  rotation: PageGeometry['rotation'],
+  options: SplitOptions
+): SplitPart => {
+  const isQuarterTurn = rotation === 90 || rotation === 270;
+  const visibleWidth = isQuarterTurn ? rect.height : rect.width;
+  const visibleHeight = isQuarterTurn ? rect.width : rect.height;
+
+  const paper = getPaperSize(options, visibleWidth, visibleHeight);
+  const target = computePlacement(options, visibleWidth, visibleHeight, paper);
+  const scale = target.width / visibleWidth;
+
+  const page = PDFPage.create(outPdf);
+  page.setSize(paper.width, paper.height);
+  const angle = (-rotation * Math.PI) / 180;
+
+  // drawPage rotates counter-clockwise around (x, y); /Rotate turns the page clockwise
+  const anchor = {
+    0: { x: target.x, y: target.y },
+    90: { x: target.x, y: target.y + target.height },
+    180: { x: target.x + target.width, y: target.y + target.height },
+    270: { x: target.x + target.width, y: target.y },
+  }[rotation];
+
+  page.drawPage(embedded, {
+    x: anchor.x,
+    y: anchor.y,
+    width: rect.width * scale,
+    height: rect.height * scale,
+    rotate: degrees(-rotation),
+  });
+
+  return {
+    page,
+    frame: { box: { x: 0, y: 0, ...paper }, rotation: 0, visibleWidth: paper.width, visibleHeight: paper.height },
+    sourceBox: rect,
+    toPage: (x, y) => {
+      const dx = (x - rect.x) * scale;
+      const dy = (y - rect.y) * scale;
+      return {
+        x: anchor.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+        y: anchor.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+      };
+    },
+  };
+};
+
+/**
+ * Saves a finished document. When hidden content is removed, or parts were removed or dropped as blank,
+ * objects that only the untrimmed or removed pages used are dropped first; copying pages brings them along
+ * even when nothing refers to them.
+ */
+const saveDocument = async (doc: PDFDocument, options: SplitOptions): Promise<Uint8Array> => {
+  const dropsBlankParts = options.blankPageHandling === 'remove' && findBlankParts(options).some(part => !part.restored);
+  if (options.removeHiddenContent || options.pageArrangement?.some(entry => entry.removed) || dropsBlankParts) {
+    await doc.flush();
+    removeUnreachableObjects(doc);
+  }
+  return doc.save();
+};
+
+// Lets queued messages (such as a cancel request) through between pages
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Builds the split document in memory; see splitPdfBytes.
+ */
+const buildSplitDocument = async (
+  data: ArrayBuffer | Uint8Array,
+  fileName: string,
   options: SplitOptions,
-  onProgress: (progress: number) => void
-): Promise<Uint8Array> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const sourcePdf = await PDFDocument.load(arrayBuffer);
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitDocument> => {
+  const sourcePdf = await loadSourcePdf(data);
   const outPdf = await PDFDocument.create();
   
-  // Load font for page numbering
-  const font = await outPdf.embedFont(StandardFonts.Helvetica);
-  const fontSize = 10;
-
   const pages = sourcePdf.getPages();
   const totalPages = pages.length;
 
-  // Track how many page numbers we've assigned so far
-  let pageNumberCounter = options.startingPageNumber;
+  // Links are rebuilt on the parts they fall in, so the copies must not take them along
+  const structure = readDocumentStructure(sourcePdf);
+  pages.forEach(removeLinkAnnotations);
+
+  // Other annotations and form widgets go to the part they are centred in; one copier keeps shared fields shared
+  const annotations = detachAnnotations(sourcePdf, options);
+  const annotationCopier = PDFObjectCopier.for(sourcePdf.context, outPdf.context);
+
+  // Output order and page numbers follow the reading order of the (possibly imposed) source
+  const plan = buildPagePlan(totalPages, options);
+  const lastPageNumber = plan.reduce((last, planned) => Math.max(last, planned.pageNumber ?? 0), 0);
+  const splitParts: SplitPart[][] = [];
+
+  // A missing stamp font is a settings problem, not damage to the page it would first be drawn on
+  checkStampFont(options, fileName);
+
+  // Load font for page numbering
+  let font: PDFFont | null = null;
+  if (lastPageNumber > 0) {
+    font = await embedNumberFont(outPdf, options);
+  }
+
+  // Text stamps share the numbering font; images are embedded once and reused on every page
+  const stampFont = options.stamps.some(stamp => stamp.kind === 'text')
+    ? font ?? await embedStampFont(outPdf, options)
+    : null;
+  const stampImages = await embedStampImages(outPdf, options.stamps);
+  const stampDate = new Date();
 
   for (let i = 0; i < totalPages; i++) {
-    const page = pages[i];
-    const { width, height } = page.getSize();
-    
-    const isEvenPage = i % 2 === 1;
-    const currentRatio = (options.useDualRatios && isEvenPage && options.evenSplitRatio !== undefined)
-      ? options.evenSplitRatio 
-      : options.splitRatio;
-
-    let useVerticalSplit = true;
-    if (options.orientation === 'auto') {
-      useVerticalSplit = width > height;
-    } else {
-      useVerticalSplit = options.orientation === 'vertical';
+    if (signal) {
+      await yieldToEventLoop();
+      signal.throwIfAborted();
     }
 
-    const [page1] = await outPdf.copyPages(sourcePdf, [i]);
-    const [page2] = await outPdf.copyPages(sourcePdf, [i]);
-
-    if (useVerticalSplit) {
-      const splitPos = width * currentRatio;
-      page1.setCropBox(0, 0, splitPos, height);
-      page2.setCropBox(splitPos, 0, width - splitPos, height);
-    } else {
-      const splitPos = height * (1 - currentRatio); 
-      page1.setCropBox(0, splitPos, width, height - splitPos);
-      page2.setCropBox(0, 0, width, splitPos);
-    }
+    const parts: SplitPart[] = [];
+    try {
+      const geometry = getPageGeometry(pages[i]);
 
-    // Add page numbering logic
-    const shouldAddNumberToThisA3Page = options.enablePageNumbering && i >= options.numberingStartFromPageIndex;
-
-    if (shouldAddNumberToThisA3Page) {
-      // Logic for first part
-      if (options.numberingSide === 'both' || options.numberingSide === 'first') {
-        const p1Size = page1.getSize();
-        const text1 = `${pageNumberCounter++}`;
-        const textWidth1 = font.widthOfTextAtSize(text1, fontSize);
-        page1.drawText(text1, {
-          x: p1Size.width / 2 - textWidth1 / 2,
-          y: 15,
-          size: fontSize,
-          font: font,
-          color: rgb(0.2, 0.2, 0.2),
-        });
-      }
+      // Preprocessing of scans: straighten the page first; its cropped border is left out of the parts below
+      const correction = getScanCorrection(options, i);
+      if (correction) deskewPage(pages[i], geometry.box, correction.angle);
 
-      // Logic for second part
-      if (options.numberingSide === 'both' || options.numberingSide === 'second') {
-        const p2Size = page2.getSize();
-        const text2 = `${pageNumberCounter++}`;
-        const textWidth2 = font.widthOfTextAtSize(text2, fontSize);
-        page2.drawText(text2, {
-          x: p2Size.width / 2 - textWidth2 / 2,
-          y: 15,
-          size: fontSize,
-          font: font,
-          color: rgb(0.2, 0.2, 0.2),
+      const visibleRects = computeVisibleSplitRects(geometry, options, i);
+      const frames = visibleRects.map(rect => getPartFrame(geometry, rect));
+
+      if (options.normalizePageSize) {
+        // Trimmed copies are embedded instead of the source page, so each part only carries its own content
+        const embeddedSources = options.removeHiddenContent
+          ? await outPdf.copyPages(sourcePdf, frames.map(() => i))
+          : frames.map(() => pages[i]);
+        if (options.removeHiddenContent) {
+          embeddedSources.forEach((page, j) => {
+            if (!trimPageContent(page, frames[j].box)) throw toUntrimmableError(i);
+          });
+        }
+        const embeddedParts = await outPdf.embedPages(
+          embeddedSources,
+          frames.map(({ box }) => ({ left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height }))
+        );
+        embeddedParts.forEach((embedded, j) => {
+          const part = createNormalizedPage(outPdf, embedded, frames[j].box, geometry.rotation, options);
+          attachAnnotations(part.page, annotations[i], sourcePdf, annotationCopier, part.sourceBox, part.toPage);
+          parts.push(part);
+        });
+      } else {
+        // Copying all parts in one call lets them share the page's resources instead of duplicating them
+        const copies = await outPdf.copyPages(sourcePdf, frames.map(() => i));
+        copies.forEach((page, j) => {
+          const { box } = frames[j];
+          page.setCropBox(box.x, box.y, box.width, box.height);
+          page.setTrimBox(box.x, box.y, box.width, box.height);
+          // Content that cannot be trimmed would still carry the rest of the page, so the file fails instead
+          if (options.removeHiddenContent && !trimPageContent(page, box)) throw toUntrimmableError(i);
+          attachAnnotations(page, annotations[i], sourcePdf, annotationCopier, box);
+          parts.push({ page, frame: frames[j], sourceBox: box });
         });
       }
+    } catch (error) {
+      throw toPageError(error, i);
     }
 
-    outPdf.addPage(page1);
-    outPdf.addPage(page2);
+    splitParts.push(parts);
 
     onProgress(((i + 1) / totalPages) * 100);
   }
 
-  return await outPdf.save();
+  // Parts the organizer turned show their new orientation, and numbers and stamps follow it
+  const frames = plan.map(planned => planned.sourcePageIndex === null
+    ? null
+    : rotateFrame(splitParts[planned.sourcePageIndex][planned.part].frame, planned.rotation));
+
+  plan.forEach((planned, index) => {
+    if (planned.sourcePageIndex === null) {
+      // Inserted blank pages take the size of the nearest page before them, or after them at the start
+      const neighbour = frames.slice(0, index).reverse().find(frame => frame !== null) ?? frames.slice(index).find(frame => frame !== null);
+      outPdf.addPage(neighbour
+        ? [neighbour.visibleWidth, neighbour.visibleHeight]
+        : [toPoints(PAPER_SIZES.A4.width, 'mm'), toPoints(PAPER_SIZES.A4.height, 'mm')]);
+      return;
+    }
+
+    const { page } = splitParts[planned.sourcePageIndex][planned.part];
+    const frame = frames[index]!;
+    if (planned.rotation !== 0) page.setRotation(degrees(frame.rotation));
+
+    try {
+      if (planned.pageNumber !== null && font) {
+        drawPageNumber(page, frame, font, options, planned.pageNumber, lastPageNumber);
+      }
+
+      drawStamps(page, frame, options, {
+        page: index + 1,
+        total: plan.length,
+        sourcePage: planned.sourcePageIndex + 1,
+        fileName,
+        date: stampDate,
+      }, stampFont, stampImages);
+    } catch (error) {
+      throw toPageError(error, planned.sourcePageIndex);
+    }
+
+    outPdf.addPage(page);
+  });
+
+  const placements = plan.map(planned => {
+    if (planned.sourcePageIndex === null) {
+      return { sourcePageIndex: null, pageNumber: null, box: { x: 0, y: 0, width: 0, height: 0 } };
+    }
+    const { sourceBox, toPage } = splitParts[planned.sourcePageIndex][planned.part];
+    return { sourcePageIndex: planned.sourcePageIndex, pageNumber: planned.pageNumber, box: sourceBox, toPage };
+  });
+
+  return { sourcePdf, outPdf, plan, placements, structure };
 };
+
+/**
+ * Splits every A3 page of a PDF into two A4 pages (or as many parts as a page rule asks for) and optionally
+ * adds page numbers and stamps. `fileName` fills the {filename} stamp variable.
+ * Halves are emitted in reading order, which differs from source order for booklet scans.
+ * When the signal is aborted, processing stops at the next page and the promise rejects with its reason.
+ * Files that cannot be read, and pages that cannot be processed, reject with a PdfError.
+ */
+export const splitPdfBytes = async (
+  data: ArrayBuffer | Uint8Array,
+  fileName: string,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const split = await buildSplitDocument(data, fileName, options, onProgress, signal);
+  applyDocumentStructure(split.outPdf, split.sourcePdf, split.structure, split.placements, options);
+  rebuildAcroForm(split.outPdf, split.sourcePdf);
+  const result = await saveDocument(split.outPdf, options);
+  signal?.throwIfAborted();
+  return result;
+};
+
+/**
+ * Like splitPdfBytes, but returns the result files: one merged PDF, or one per group when
+ * `mergeToSingleFile` is off. Page numbers and stamps run across the whole output either way;
+ * each file keeps the bookmarks and links that point into it.
+ */
+export const splitPdfOutputs = async (
+  data: ArrayBuffer | Uint8Array,
+  fileName: string,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => {
+  if (options.mergeToSingleFile) {
+    return [{ name: getOutputFileName(fileName), data: await splitPdfBytes(data, fileName, options, onProgress, signal) }];
+  }
+
+  const { sourcePdf, outPdf, plan, placements, structure } = await buildSplitDocument(data, fileName, options, onProgress, signal);
+  const outputs: SplitOutput[] = [];
+
+  for (const [index, group] of groupOutputPages(plan, options).entries()) {
+    signal?.throwIfAborted();
+    const groupPdf = await PDFDocument.create();
+    const pages = await groupPdf.copyPages(outPdf, group.pages);
+    pages.forEach(page => groupPdf.addPage(page));
+    applyDocumentStructure(groupPdf, sourcePdf, structure, group.pages.map(outputIndex => placements[outputIndex]), options);
+    rebuildAcroForm(groupPdf, sourcePdf);
+    outputs.push({ name: formatOutputFileName(options.outputFileNameTemplate, fileName, group, index), data: await saveDocument(groupPdf, options) });
+  }
+
+  signal?.throwIfAborted();
+  return outputs;
+};
+
+/**
+ * Splits a PDF file on the calling thread. See splitPdfOutputs.
+ */
+export const splitA3ToA4 = async (
+  file: File,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => splitPdfOutputs(await file.arrayBuffer(), file.name, options, onProgress, signal);
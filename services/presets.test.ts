@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Stamp } from '../types';
+import {
+  PRESET_FILE_FORMAT, PRESET_FILE_VERSION, loadLastUsedOptions, migratePresetFile, parsePresetFile, saveLastUsedOptions,
+  serializePresets, validateOptions,
+} from './presets';
+import { DEFAULT_SPLIT_OPTIONS, withDefaultOptions } from './splitDefaults';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('migratePresetFile', () => {
+  it('wraps a bare options object (version 0) into a preset file', () => {
+    expect(migratePresetFile({ splitRatio: 0.4 })).toEqual({
+      format: PRESET_FILE_FORMAT,
+      version: PRESET_FILE_VERSION,
+      presets: [{ name: '导入的设置', options: { splitRatio: 0.4 } }],
+    });
+  });
+
+  it('rejects files written by a newer version', () => {
+    expect(() => migratePresetFile({ format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION + 1, presets: [] })).toThrow();
+  });
+});
+
+describe('validateOptions', () => {
+  it('drops unknown and invalid fields with a warning and fills in defaults', () => {
+    const { options, warnings, rejectedFields } = validateOptions({ splitRatio: 1.5, orientation: 'horizontal', colour: 'red' });
+    expect(options.splitRatio).toBe(DEFAULT_SPLIT_OPTIONS.splitRatio);
+    expect(options.orientation).toBe('horizontal');
+    expect(options.imposition).toBe(DEFAULT_SPLIT_OPTIONS.imposition);
+    expect(warnings).toEqual(['字段 splitRatio 的值无效，已使用默认值', '未知字段 colour 已忽略']);
+    expect(rejectedFields).toEqual(['splitRatio', 'colour']);
+  });
+
+  it('ignores fields that belong to one file', () => {
+    const { options, warnings } = validateOptions({
+      gutterDetections: [{ ratio: 0.5, confidence: 1, vertical: true }],
+      pageArrangement: [{ sourcePageIndex: 0, part: 0, rotation: 0 }],
+    });
+    expect(options.gutterDetections).toBeUndefined();
+    expect(options.pageArrangement).toBeUndefined();
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('parsePresetFile', () => {
+  it('reads a bare options object as one preset', () => {
+    const { presets, warnings } = parsePresetFile(JSON.stringify({ orientation: 'vertical', imposition: 'booklet' }));
+    expect(presets).toHaveLength(1);
+    expect(presets[0].options).toMatchObject({ orientation: 'vertical', imposition: 'booklet' });
+    expect(warnings).toEqual([]);
+  });
+
+  it('round-trips presets with stamp images through the file format', () => {
+    const image = { name: 'logo.png', data: new Uint8Array([137, 80, 78, 71]), format: 'png' as const, width: 1, height: 1 };
+    const stamp: Stamp = {
+      id: 'logo', kind: 'image', text: '', image, imageWidth: 20, pages: '', position: 'top-right', margin: 10,
+      rotation: 0, opacity: 1, fontSize: 10, color: '#000000', batesStart: 1, batesDigits: 6,
+    };
+    const { presets, warnings } = parsePresetFile(serializePresets([{ name: 'Logo', options: withDefaultOptions({ stamps: [stamp] }) }]));
+    expect(warnings).toEqual([]);
+    expect(presets[0].name).toBe('Logo');
+    expect(presets[0].options.stamps[0].image?.data).toEqual(image.data);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parsePresetFile('{')).toThrow('JSON');
+  });
+});
+
+describe('last-used options', () => {
+  it('restores the settings of the previous session', () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+
+    expect(loadLastUsedOptions()).toBeNull();
+    saveLastUsedOptions(withDefaultOptions({ imposition: 'booklet', bindingDirection: 'rtl' }));
+    expect(loadLastUsedOptions()).toMatchObject({ imposition: 'booklet', bindingDirection: 'rtl' });
+  });
+});
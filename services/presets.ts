@@ -0,0 +1,296 @@
+import { SplitOptions, SplitPreset } from '../types';
+import { withDefaultOptions } from './splitDefaults';
+
+// Presets are saved as JSON files of this shape:
+//   { "format": "a3-split-presets", "version": 1, "presets": [{ "name": "...", "options": { ...SplitOptions } }] }
+// Options missing from a preset take their defaults, so adding a field needs no migration.
+// Renaming or reshaping a field does: bump PRESET_FILE_VERSION and add a step to MIGRATIONS.
+
+export const PRESET_FILE_FORMAT = 'a3-split-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const PRESETS_STORAGE_KEY = 'a3-split.presets';
+const LAST_USED_STORAGE_KEY = 'a3-split.last-used';
+
+// Tied to one file or too large for storage, so never saved
+const TRANSIENT_FIELDS: (keyof SplitOptions)[] = ['numberFont', 'gutterDetections', 'scanCorrections', 'pageArrangement',
+  'inkCoverage', 'restoredBlankParts'];
+
+export const BUILT_IN_PRESETS: SplitPreset[] = [
+  {
+    name: '试卷 · 小册子',
+    options: withDefaultOptions({
+      orientation: 'vertical',
+      imposition: 'booklet',
+      enablePageNumbering: true,
+      numberingSide: 'both',
+      numberFormat: '- {n} -',
+    }),
+  },
+  {
+    name: '图纸 · 水平分割',
+    options: withDefaultOptions({
+      orientation: 'horizontal',
+      normalizePageSize: true,
+      pageScaling: 'fit',
+    }),
+  },
+];
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isNumber: FieldCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isString: FieldCheck = value => typeof value === 'string';
+const isRatio: FieldCheck = value => isNumber(value) && (value as number) > 0 && (value as number) < 1;
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = (...allowed: string[]): FieldCheck => value => allowed.includes(value as string);
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || check(value);
+const shape = (fields: Record<string, FieldCheck>): FieldCheck => value =>
+  isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+const arrayOf = (check: FieldCheck): FieldCheck => value => Array.isArray(value) && value.every(check);
+
+const isPageRule = shape({
+  pages: isString,
+  action: oneOf('skip', 'vertical', 'horizontal', 'ratio', 'parts'),
+  ratio: optional(isRatio),
+  parts: optional(isNumber),
+  direction: optional(oneOf('vertical', 'horizontal')),
+});
+
+const isStamp = shape({
+  id: isString,
+  kind: oneOf('text', 'image'),
+  text: isString,
+  image: optional(shape({ name: isString, data: value => value instanceof Uint8Array, format: oneOf('png', 'jpg'), width: isNumber, height: isNumber })),
+  imageWidth: isNumber,
+  pages: isString,
+  position: oneOf('top-left', 'top-center', 'top-right', 'middle-left', 'center', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right'),
+  margin: isNumber,
+  rotation: isNumber,
+  opacity: isNumber,
+  fontSize: isNumber,
+  color: isString,
+  batesStart: isNumber,
+  batesDigits: isNumber,
+});
+
+const FIELD_CHECKS: Partial<Record<keyof SplitOptions, FieldCheck>> = {
+  orientation: oneOf('auto', 'vertical', 'horizontal'),
+  splitRatio: isRatio,
+  evenSplitRatio: isRatio,
+  useDualRatios: isBoolean,
+  mergeToSingleFile: isBoolean,
+  outputSplitMode: oneOf('perSheet', 'ranges', 'everyN'),
+  outputRanges: isString,
+  outputEveryN: value => isNumber(value) && (value as number) >= 1,
+  outputFileNameTemplate: isString,
+  removeHiddenContent: isBoolean,
+  outputFormat: oneOf('pdf', 'rasterPdf', 'images'),
+  exportDpi: value => isNumber(value) && (value as number) >= 50 && (value as number) <= 600,
+  exportImageFormat: oneOf('png', 'jpeg', 'webp'),
+  exportQuality: value => isNumber(value) && (value as number) > 0 && (value as number) <= 1,
+  exportColorMode: oneOf('color', 'grayscale', 'bilevel'),
+  exportFileNameTemplate: isString,
+  enablePageNumbering: isBoolean,
+  startingPageNumber: isNumber,
+  numberingStartFromPageIndex: value => isNumber(value) && (value as number) >= 0,
+  numberingSide: oneOf('both', 'first', 'second'),
+  numberPosition: oneOf('top', 'bottom'),
+  numberAlignment: oneOf('left', 'center', 'right', 'outside', 'inside'),
+  numberFormat: isString,
+  numberStyle: oneOf('arabic', 'lowerRoman', 'upperRoman', 'chinese'),
+  numberFontSize: value => isNumber(value) && (value as number) > 0,
+  numberColor: isString,
+  numberMargin: isNumber,
+  stamps: arrayOf(isStamp),
+  annotationHandling: oneOf('assign', 'strip'),
+  formFieldHandling: oneOf('rename', 'flatten'),
+  imposition: oneOf('none', 'booklet', 'doubleSidedBooklet', 'multiSignature'),
+  bindingDirection: oneOf('ltr', 'rtl'),
+  signatureSheets: value => isNumber(value) && (value as number) >= 1,
+  pageRules: arrayOf(isPageRule),
+  autoDetectGutter: isBoolean,
+  deskew: isBoolean,
+  autoCrop: isBoolean,
+  rasterizeScans: isBoolean,
+  rasterDpi: value => isNumber(value) && (value as number) >= 50 && (value as number) <= 600,
+  detectBlankPages: isBoolean,
+  blankInkThreshold: value => isNumber(value) && (value as number) >= 0 && (value as number) <= 100,
+  blankPageHandling: oneOf('remove', 'unnumbered'),
+  marginUnit: oneOf('mm', 'pt'),
+  overlap: isNumber,
+  outerTrim: shape({ top: isNumber, right: isNumber, bottom: isNumber, left: isNumber }),
+  gutterTrim: isNumber,
+  normalizePageSize: isBoolean,
+  paperSize: oneOf('A4', 'Letter', 'B5', 'custom'),
+  customPaperSize: shape({ width: isNumber, height: isNumber }),
+  paperOrientation: oneOf('auto', 'portrait', 'landscape'),
+  pageScaling: oneOf('fit', 'fill', 'actual'),
+  horizontalAlign: oneOf('left', 'center', 'right'),
+  verticalAlign: oneOf('top', 'middle', 'bottom'),
+};
+
+/**
+ * Checks stored options field by field. Invalid or unknown fields are dropped with a warning and
+ * missing fields take their defaults, so an old or hand-edited preset still loads. `rejectedFields`
+ * lists the dropped keys for callers that treat them as errors.
+ */
+export const validateOptions = (raw: unknown): { options: SplitOptions; warnings: string[]; rejectedFields: string[] } => {
+  if (!isRecord(raw)) {
+    return { options: withDefaultOptions(), warnings: ['设置不是一个对象，已使用默认值'], rejectedFields: [] };
+  }
+
+  const options: Partial<SplitOptions> = {};
+  const warnings: string[] = [];
+  const rejectedFields: string[] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (TRANSIENT_FIELDS.includes(key as keyof SplitOptions)) continue;
+    const check = FIELD_CHECKS[key as keyof SplitOptions];
+    if (!check) {
+      warnings.push(`未知字段 ${key} 已忽略`);
+      rejectedFields.push(key);
+    } else if (!check(value)) {
+      warnings.push(`字段 ${key} 的值无效，已使用默认值`);
+      rejectedFields.push(key);
+    } else {
+      (options as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return { options: withDefaultOptions(options), warnings, rejectedFields };
+};
+
+// Each step upgrades a file from version n to n + 1
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0: a bare SplitOptions object, as the CLI's --config took before presets existed
+  0: options => ({ format: PRESET_FILE_FORMAT, version: 1, presets: [{ name: '导入的设置', options }] }),
+};
+
+/**
+ * Brings a parsed preset file up to the current version. Throws for files written by a newer version.
+ */
+export const migratePresetFile = (raw: Record<string, unknown>): Record<string, unknown> => {
+  let file = raw;
+  let version = raw.format === PRESET_FILE_FORMAT && isNumber(raw.version) ? raw.version as number : 0;
+
+  if (version > PRESET_FILE_VERSION) {
+    throw new Error(`预设文件版本 ${version} 高于当前支持的版本 ${PRESET_FILE_VERSION}，请先更新本工具。`);
+  }
+  while (version < PRESET_FILE_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+  return file;
+};
+
+// Uint8Arrays (stamp images) are stored as base64 so they survive JSON
+const BYTES_KEY = '$bytes';
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Writes presets in the current file format.
+ */
+export const serializePresets = (presets: SplitPreset[]): string => {
+  const file = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, options }) => ({
+      name,
+      options: Object.fromEntries(Object.entries(options).filter(([key]) => !TRANSIENT_FIELDS.includes(key as keyof SplitOptions))),
+    })),
+  };
+  return JSON.stringify(file, (_, value) => (value instanceof Uint8Array ? { [BYTES_KEY]: bytesToBase64(value) } : value), 2);
+};
+
+/**
+ * Reads a preset file of any known version, or a bare options object. Throws when the text cannot be used at all;
+ * problems with single fields become warnings.
+ */
+export const parsePresetFile = (text: string): { presets: SplitPreset[]; warnings: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, (_, value) => (
+      isRecord(value) && typeof value[BYTES_KEY] === 'string' ? base64ToBytes(value[BYTES_KEY] as string) : value
+    ));
+  } catch {
+    throw new Error('预设文件不是有效的 JSON。');
+  }
+  if (!isRecord(raw)) throw new Error('预设文件格式无效。');
+
+  const file = migratePresetFile(raw);
+  if (!Array.isArray(file.presets)) throw new Error('预设文件中没有预设。');
+
+  const presets: SplitPreset[] = [];
+  const warnings: string[] = [];
+
+  file.presets.forEach((entry: unknown, index: number) => {
+    const name = isRecord(entry) && isString(entry.name) && (entry.name as string).trim()
+      ? (entry.name as string).trim()
+      : `预设 ${index + 1}`;
+    const result = validateOptions(isRecord(entry) ? entry.options : undefined);
+    presets.push({ name, options: result.options });
+    warnings.push(...result.warnings.map(warning => `${name}: ${warning}`));
+  });
+
+  return { presets, warnings };
+};
+
+const readStorage = (key: string): string | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string): void => {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(key, value);
+  } catch (error) {
+    // Quota exceeded (e.g. large stamp images): keep working without persisting
+    console.warn('Could not save settings:', error);
+  }
+};
+
+export const loadStoredPresets = (): SplitPreset[] => {
+  const text = readStorage(PRESETS_STORAGE_KEY);
+  if (!text) return [];
+  try {
+    return parsePresetFile(text).presets;
+  } catch {
+    return [];
+  }
+};
+
+export const saveStoredPresets = (presets: SplitPreset[]): void => {
+  writeStorage(PRESETS_STORAGE_KEY, serializePresets(presets));
+};
+
+/**
+ * The settings of the previous session, or null on first use.
+ */
+export const loadLastUsedOptions = (): SplitOptions | null => {
+  const text = readStorage(LAST_USED_STORAGE_KEY);
+  if (!text) return null;
+  try {
+    return parsePresetFile(text).presets[0]?.options ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLastUsedOptions = (options: SplitOptions): void => {
+  writeStorage(LAST_USED_STORAGE_KEY, serializePresets([{ name: 'last-used', options }]));
+};
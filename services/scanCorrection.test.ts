@@ -0,0 +1,36 @@
+import { PDFArray, PDFDocument, PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { deskewPage } from './scanCorrection';
+
+const makePage = async () => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([200, 100]);
+  page.drawRectangle({ x: 10, y: 10, width: 20, height: 20 });
+  return page;
+};
+
+const streamTexts = (page: Awaited<ReturnType<typeof makePage>>) =>
+  (page.node.Contents() as PDFArray).asArray().map(ref => {
+    const stream = page.doc.context.lookup(ref);
+    return stream instanceof PDFRawStream ? new TextDecoder().decode(stream.getContents()) : null;
+  });
+
+describe('deskewPage', () => {
+  it('wraps the content in a turn around the centre of the box', async () => {
+    const page = await makePage();
+    deskewPage(page, { x: 0, y: 0, width: 200, height: 100 }, 90);
+
+    const texts = streamTexts(page);
+    expect(texts).toHaveLength(3);
+    // (100, 50) stays in place: x' = 0·x − 1·y + 150, y' = 1·x + 0·y − 50
+    expect(texts[0]).toBe('q 0.000000 1.000000 -1.000000 0.000000 150.000000 -50.000000 cm\n');
+    expect(texts[2]).toBe('\nQ');
+  });
+
+  it('leaves pages alone when the angle is negligible', async () => {
+    const page = await makePage();
+    const before = streamTexts(page);
+    deskewPage(page, { x: 0, y: 0, width: 200, height: 100 }, 0.001);
+    expect(streamTexts(page)).toEqual(before);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { PixelData } from './pageRenderer';
+import { detectScanCorrection, rotatePixels } from './scanDetection';
+
+const WIDTH = 400;
+const HEIGHT = 300;
+const region = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+/**
+ * A white page with rows of dashed "text" that descend by `slope` per pixel to the right, and dark scanner
+ * border along the left and top edges.
+ */
+const makeScan = ({ slope = 0, left = 0, top = 0 } = {}): PixelData => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  const paint = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= WIDTH || y >= HEIGHT) return;
+    data.fill(0, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+  };
+  for (let row = 40; row < HEIGHT - 40; row += 20) {
+    for (let x = 40; x < WIDTH - 40; x++) {
+      if (x % 16 >= 6) continue;
+      const y = Math.round(row + (x - WIDTH / 2) * slope);
+      for (let dy = 0; dy < 3; dy++) paint(x, y + dy);
+    }
+  }
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (x < left || y < top) paint(x, y);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+};
+
+// Over rows 320 px long, one pixel of projection resolution is about a quarter of a degree
+const TOLERANCE = 0.3;
+
+describe('detectScanCorrection', () => {
+  it('leaves a straight page without a border alone', () => {
+    expect(detectScanCorrection(makeScan(), region)).toEqual({ angle: 0, crop: { top: 0, right: 0, bottom: 0, left: 0 } });
+  });
+
+  it('measures the scanner border, plus a line for its anti-aliased edge', () => {
+    expect(detectScanCorrection(makeScan({ left: 20, top: 15 }), region)).toEqual({
+      angle: 0,
+      crop: { top: 16, right: 0, bottom: 0, left: 21 },
+    });
+  });
+
+  it('finds the counter-clockwise turn that straightens text descending to the right', () => {
+    const { angle } = detectScanCorrection(makeScan({ slope: Math.tan((2 * Math.PI) / 180) }), region);
+    expect(Math.abs(angle - 2)).toBeLessThan(TOLERANCE);
+  });
+
+  it('finds text rising to the right as a clockwise turn', () => {
+    const { angle } = detectScanCorrection(makeScan({ slope: -Math.tan((1 * Math.PI) / 180) }), region);
+    expect(Math.abs(angle + 1)).toBeLessThan(TOLERANCE);
+  });
+});
+
+describe('rotatePixels', () => {
+  it('straightens a skewed page so the detector sees it level', () => {
+    const skewed = makeScan({ slope: Math.tan((2 * Math.PI) / 180) });
+    const { angle } = detectScanCorrection(rotatePixels(skewed, region, 2), region);
+    expect(Math.abs(angle)).toBeLessThan(TOLERANCE);
+  });
+});
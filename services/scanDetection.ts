@@ -0,0 +1,267 @@
+import { EdgeInsets, ScanCorrection } from '../types';
+import { Box, PageGeometry } from './splitGeometry';
+import { INK_THRESHOLD, PixelData, boxToCanvasRegion, getLuminance, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+
+// Detects how far a scanned page is rotated and how wide the dark scanner border around it is,
+// on the same pdfjs rendering the preview uses.
+
+// Steepest skew that is searched for, in degrees; copier feeds stay well below it
+const MAX_SKEW = 5;
+const COARSE_STEP = 0.25;
+const FINE_STEP = 0.02;
+
+// The scanner lid and the glass beyond the paper scan much darker than paper does
+const BORDER_THRESHOLD = 100;
+
+// A row or column belongs to the border when this share of it is dark, or when it has a dark run this long;
+// lines of text have neither
+const BORDER_DARK_SHARE = 0.5;
+const BORDER_RUN_SHARE = 0.15;
+
+// Never crop more than this share of the page from one side
+const MAX_CROP_SHARE = 0.2;
+
+// Ink pixels used to measure skew; more are sampled down
+const MAX_SKEW_POINTS = 100000;
+const MIN_SKEW_POINTS = 200;
+
+// A skew is only reported when straightening sharpens the line profile by this much, so photos and
+// blank pages are left alone
+const MIN_SKEW_GAIN = 1.02;
+
+// Longest side of the page when rendered for detection, in pixels
+const DETECTION_SIZE = 1200;
+
+interface GrayImage {
+  values: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const toGray = (image: PixelData): GrayImage => {
+  const values = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = getLuminance(image.data, i * 4);
+  }
+  return { values, width: image.width, height: image.height };
+};
+
+/**
+ * Turns pixels counter-clockwise by `angle` degrees around a point (nearest neighbour). Works on any number
+ * of channels per pixel; pixels turned in from outside get the fill value, white for paper.
+ */
+const rotateSamples = <T extends Uint8Array | Uint8ClampedArray>(
+  samples: T,
+  width: number,
+  height: number,
+  channels: number,
+  center: { x: number; y: number },
+  angle: number
+): T => {
+  const rotated = samples.slice() as T;
+  rotated.fill(255);
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - center.y;
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - center.x;
+      // Inverse of a counter-clockwise turn on screen, where y points down
+      const sx = Math.floor(center.x + cos * dx - sin * dy);
+      const sy = Math.floor(center.y + sin * dx + cos * dy);
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+      const from = (sy * width + sx) * channels;
+      const to = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) rotated[to + c] = samples[from + c];
+    }
+  }
+  return rotated;
+};
+
+/**
+ * Returns a copy of an RGBA image with its content straightened by a scan correction angle around
+ * the centre of `region`, so detections run on what the output will show.
+ */
+export const rotatePixels = (image: PixelData, region: Box, angle: number): PixelData => ({
+  data: rotateSamples(image.data, image.width, image.height, 4, { x: region.x + region.width / 2, y: region.y + region.height / 2 }, angle),
+  width: image.width,
+  height: image.height,
+});
+
+const isBorderLine = (gray: GrayImage, region: Box, isRow: boolean, offset: number): boolean => {
+  const length = isRow ? region.width : region.height;
+  let dark = 0;
+  let run = 0;
+  let longestRun = 0;
+
+  for (let i = 0; i < length; i++) {
+    const x = isRow ? region.x + i : region.x + offset;
+    const y = isRow ? region.y + offset : region.y + i;
+    if (gray.values[y * gray.width + x] < BORDER_THRESHOLD) {
+      dark++;
+      longestRun = Math.max(longestRun, ++run);
+    } else {
+      run = 0;
+    }
+  }
+  return dark >= length * BORDER_DARK_SHARE || longestRun >= length * BORDER_RUN_SHARE;
+};
+
+/**
+ * Measures the dark border on every side of a region, in pixels, by walking in from each edge while
+ * rows or columns still look like border.
+ */
+const measureBorders = (gray: GrayImage, region: Box): EdgeInsets => {
+  const measure = (isRow: boolean, fromEnd: boolean): number => {
+    const length = isRow ? region.height : region.width;
+    const limit = Math.floor(length * MAX_CROP_SHARE);
+    let depth = 0;
+    while (depth < limit && isBorderLine(gray, region, isRow, fromEnd ? length - 1 - depth : depth)) depth++;
+    // One more line for the anti-aliased edge of the border
+    return depth > 0 ? Math.min(limit, depth + 1) : 0;
+  };
+
+  return {
+    top: measure(true, false),
+    bottom: measure(true, true),
+    left: measure(false, false),
+    right: measure(false, true),
+  };
+};
+
+/**
+ * Finds the skew of the text in a region with a projection profile: ink projected along the right angle
+ * piles up into sharp rows. Returns the counter-clockwise angle in degrees that straightens it, or 0.
+ */
+const measureSkew = (gray: GrayImage, region: Box): number => {
+  let inkCount = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      if (gray.values[y * gray.width + x] < INK_THRESHOLD) inkCount++;
+    }
+  }
+  if (inkCount < MIN_SKEW_POINTS) return 0;
+
+  // Every n-th ink pixel, relative to the centre of the region
+  const stride = Math.ceil(inkCount / MAX_SKEW_POINTS);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      if (gray.values[y * gray.width + x] < INK_THRESHOLD && seen++ % stride === 0) {
+        xs.push(x - region.x - region.width / 2);
+        ys.push(y - region.y - region.height / 2);
+      }
+    }
+  }
+
+  const spread = (region.width / 2) * Math.tan((MAX_SKEW * Math.PI) / 180);
+  const offset = Math.ceil(region.height / 2 + spread) + 1;
+  const bins = new Int32Array(offset * 2 + 1);
+
+  // Text rows that descend to the right (y points down) are straightened by a counter-clockwise turn
+  const sharpness = (angle: number): number => {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) bins[Math.floor(ys[i] - xs[i] * slope) + offset]++;
+    let sum = 0;
+    for (let i = 0; i < bins.length; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number, best: { angle: number; score: number }) => {
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = sharpness(angle);
+      if (score > best.score) {
+        best.angle = angle;
+        best.score = score;
+      }
+    }
+    return best;
+  };
+
+  const straight = sharpness(0);
+  const coarse = search(-MAX_SKEW, MAX_SKEW, COARSE_STEP, { angle: 0, score: straight });
+  const fine = search(coarse.angle - COARSE_STEP, coarse.angle + COARSE_STEP, FINE_STEP, { ...coarse });
+  if (fine.score < straight * MIN_SKEW_GAIN) return 0;
+  return Math.round(fine.angle * 100) / 100;
+};
+
+/**
+ * Detects the skew and the scanner border of a rendered page region. The border is measured after
+ * straightening, the way the output is cropped; lengths are in pixels.
+ */
+export const detectScanCorrection = (image: PixelData, region: Box): ScanCorrection => {
+  const gray = toGray(image);
+
+  // The border runs straight along the scanner, so it is left out when measuring the skew of the text
+  const border = measureBorders(gray, region);
+  const marginX = Math.round(region.width * 0.02);
+  const marginY = Math.round(region.height * 0.02);
+  const inner = {
+    x: region.x + border.left + marginX,
+    y: region.y + border.top + marginY,
+    width: Math.max(0, region.width - border.left - border.right - 2 * marginX),
+    height: Math.max(0, region.height - border.top - border.bottom - 2 * marginY),
+  };
+  const angle = measureSkew(gray, inner);
+  if (angle === 0) return { angle, crop: border };
+
+  const center = { x: region.x + region.width / 2, y: region.y + region.height / 2 };
+  const straightened = { ...gray, values: rotateSamples(gray.values, gray.width, gray.height, 1, center, angle) };
+  return { angle, crop: measureBorders(straightened, region) };
+};
+
+/**
+ * Renders every page with pdfjs and detects its skew and scanner border. Returns one entry per source page
+ * with the crop in points of the visible page; pages without geometry get null.
+ * When the signal is aborted, detection stops at the next page and the promise rejects with its reason.
+ */
+export const detectScanCorrections = async (
+  data: ArrayBuffer,
+  geometries: PageGeometry[],
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<(ScanCorrection | null)[]> => {
+  const pdf = await loadPdfDocument(data);
+  const results: (ScanCorrection | null)[] = [];
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      signal?.throwIfAborted();
+      const geometry = geometries[i];
+
+      if (!geometry) {
+        results.push(null);
+      } else {
+        const page = await pdf.getPage(i + 1);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const scale = DETECTION_SIZE / Math.max(baseViewport.width, baseViewport.height);
+        const { canvas, viewport } = await renderPageToCanvas(page, scale);
+        const context = canvas.getContext('2d');
+
+        if (!context) {
+          results.push(null);
+        } else {
+          const region = boxToCanvasRegion(viewport, geometry.box, canvas);
+          const { angle, crop } = detectScanCorrection(context.getImageData(0, 0, canvas.width, canvas.height), region);
+          results.push({
+            angle,
+            crop: { top: crop.top / scale, right: crop.right / scale, bottom: crop.bottom / scale, left: crop.left / scale },
+          });
+        }
+
+        page.cleanup();
+      }
+
+      onProgress(((i + 1) / pdf.numPages) * 100);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return results;
+};
@@ -0,0 +1,143 @@
+import { PDFDocument } from 'pdf-lib';
+import { SplitOptions } from '../types';
+import { boxToCanvasRegion, getLuminance, loadPdfDocument, renderPageToCanvas } from './pageRenderer';
+import { getScanCorrection, readPageGeometries } from './splitGeometry';
+
+// Optional last step of scan preprocessing: every page is rendered with pdfjs at the chosen resolution,
+// straightened, cleaned and stored as an image. Needs a canvas, so it runs on the page, not in the worker.
+
+// Share of pixels darker than the paper; the luminance at this share is taken as the paper colour
+const PAPER_PERCENTILE = 0.9;
+
+// Pages whose "paper" is darker than this are photos or dark covers and are not brightened
+const MIN_PAPER_LEVEL = 128;
+
+// After brightening, pixels this light become pure white, which removes paper texture and scanner noise
+const WHITE_LEVEL = 235;
+
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Brightens a scan so its paper becomes white, keeping ink and colours in proportion.
+ */
+const cleanPixels = (image: ImageData): void => {
+  const { data } = image;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(getLuminance(data, i))]++;
+  }
+
+  let paper = 255;
+  for (let level = 0, count = 0; level < 256; level++) {
+    count += histogram[level];
+    if (count >= (data.length / 4) * PAPER_PERCENTILE) {
+      paper = level;
+      break;
+    }
+  }
+  if (paper < MIN_PAPER_LEVEL) return;
+
+  const gain = 255 / Math.max(paper, 1);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = Math.min(255, data[i] * gain);
+    const g = Math.min(255, data[i + 1] * gain);
+    const b = Math.min(255, data[i + 2] * gain);
+    const isPaper = 0.299 * r + 0.587 * g + 0.114 * b >= WHITE_LEVEL;
+    data[i] = isPaper ? 255 : r;
+    data[i + 1] = isPaper ? 255 : g;
+    data[i + 2] = isPaper ? 255 : b;
+  }
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('页面图片编码失败'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+/**
+ * Renders every page as a cleaned image at `options.rasterDpi`, with its skew corrected and its scanner
+ * border painted white. Each new page has the visible size of its source page and no rotation, so crops,
+ * ratios and gutters measured on the source still apply; split it with `withRasterizedScans(options)`.
+ * Text, links and bookmarks do not survive.
+ */
+export const rasterizeScannedPages = async (
+  data: ArrayBuffer,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> => {
+  const geometries = await readPageGeometries(data.slice(0));
+  const pdf = await loadPdfDocument(data.slice(0));
+  const output = await PDFDocument.create();
+  const scale = options.rasterDpi / 72;
+
+  try {
+    for (let i = 0; i < pdf.numPages; i++) {
+      signal?.throwIfAborted();
+      const geometry = geometries[i];
+      const page = await pdf.getPage(i + 1);
+      const { canvas: rendered, viewport } = await renderPageToCanvas(page, scale);
+      page.cleanup();
+
+      const region = boxToCanvasRegion(viewport, geometry.box, rendered);
+      const correction = getScanCorrection(options, i);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, region.width);
+      canvas.height = Math.max(1, region.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+
+      // Straighten around the centre of the visible box, like deskewPage does for vector pages
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.save();
+      context.translate(canvas.width / 2, canvas.height / 2);
+      context.rotate((-(correction?.angle ?? 0) * Math.PI) / 180);
+      context.drawImage(rendered, -region.x - canvas.width / 2, -region.y - canvas.height / 2);
+      context.restore();
+      rendered.width = 0;
+
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      cleanPixels(image);
+      context.putImageData(image, 0, 0);
+
+      if (correction) {
+        const pixels = canvas.width / geometry.visibleWidth;
+        const { top, right, bottom, left } = correction.crop;
+        context.fillRect(0, 0, canvas.width, top * pixels);
+        context.fillRect(0, canvas.height - bottom * pixels, canvas.width, bottom * pixels);
+        context.fillRect(0, 0, left * pixels, canvas.height);
+        context.fillRect(canvas.width - right * pixels, 0, right * pixels, canvas.height);
+      }
+
+      const jpeg = await output.embedJpg(await canvasToJpeg(canvas));
+      canvas.width = 0;
+      output.addPage([geometry.visibleWidth, geometry.visibleHeight]).drawImage(jpeg, {
+        x: 0,
+        y: 0,
+        width: geometry.visibleWidth,
+        height: geometry.visibleHeight,
+      });
+
+      onProgress(((i + 1) / pdf.numPages) * 100);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const bytes = await output.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+/**
+ * The options for splitting rasterized pages: their skew is already corrected, their crop still applies.
+ */
+export const withRasterizedScans = (options: SplitOptions): SplitOptions => ({ ...options, deskew: false, rasterizeScans: false });
@@ -0,0 +1,81 @@
+import { ImposeOptions, SplitOptions } from '../types';
+
+/**
+ * The settings the tool starts with; also the base for options given only in part (CLI, Node API).
+ */
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = {
+  orientation: 'auto',
+  splitRatio: 0.5,
+  evenSplitRatio: 0.5,
+  useDualRatios: false,
+  mergeToSingleFile: true,
+  outputSplitMode: 'perSheet',
+  outputRanges: '',
+  outputEveryN: 10,
+  outputFileNameTemplate: '{name}_p{start}-{end}.pdf',
+  removeHiddenContent: false,
+  outputFormat: 'pdf',
+  exportDpi: 200,
+  exportImageFormat: 'png',
+  exportQuality: 0.85,
+  exportColorMode: 'color',
+  exportFileNameTemplate: '{name}_{page}',
+  enablePageNumbering: false,
+  startingPageNumber: 1,
+  numberingStartFromPageIndex: 0,
+  numberingSide: 'both',
+  numberPosition: 'bottom',
+  numberAlignment: 'center',
+  numberFormat: '{n}',
+  numberStyle: 'arabic',
+  numberFontSize: 10,
+  numberColor: '#333333',
+  numberMargin: 15,
+  stamps: [],
+  annotationHandling: 'assign',
+  formFieldHandling: 'rename',
+  imposition: 'none',
+  bindingDirection: 'ltr',
+  signatureSheets: 4,
+  pageRules: [],
+  autoDetectGutter: false,
+  deskew: false,
+  autoCrop: false,
+  rasterizeScans: false,
+  rasterDpi: 200,
+  detectBlankPages: false,
+  blankInkThreshold: 0.3,
+  blankPageHandling: 'remove',
+  marginUnit: 'mm',
+  overlap: 0,
+  outerTrim: { top: 0, right: 0, bottom: 0, left: 0 },
+  gutterTrim: 0,
+  normalizePageSize: false,
+  paperSize: 'A4',
+  customPaperSize: { width: 210, height: 297 },
+  paperOrientation: 'auto',
+  pageScaling: 'fit',
+  horizontalAlign: 'center',
+  verticalAlign: 'middle',
+};
+
+/**
+ * The settings merging A4 pages into A3 sheets starts with.
+ */
+export const DEFAULT_IMPOSE_OPTIONS: ImposeOptions = {
+  layout: 'booklet',
+  sheetSize: 'A3',
+  bindingDirection: 'ltr',
+  signatureSheets: 0,
+  gutter: 0,
+  creep: 0,
+  pageScaling: 'fit',
+};
+
+/**
+ * Fills in every option that is not given with its default.
+ */
+export const withDefaultOptions = (options: Partial<SplitOptions> = {}): SplitOptions => ({
+  ...DEFAULT_SPLIT_OPTIONS,
+  ...options,
+});
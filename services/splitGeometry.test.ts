@@ -0,0 +1,161 @@
+import { PDFDocument, degrees } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { PageGeometry, computeCutLines, computeSplitRects, findPageRule, getPageGeometry, getPartCount, getScanCorrection, getSplitLayout, getUsableGutter, rotateFrame, toPoints, visibleToUserRect } from './splitGeometry';
+
+// A 100 × 200 pt page whose box does not start at the origin
+const geometry = (rotation: 0 | 90 | 180 | 270): PageGeometry => ({
+  box: { x: 10, y: 20, width: 100, height: 200 },
+  rotation,
+  visibleWidth: rotation % 180 === 0 ? 100 : 200,
+  visibleHeight: rotation % 180 === 0 ? 200 : 100,
+});
+
+// 50 × 30 pt, 5 pt from the left and 7 pt from the top of the page as it is displayed
+const rect = { x: 5, y: 7, width: 50, height: 30 };
+
+describe('visibleToUserRect', () => {
+  it('flips the y axis of an unrotated page', () => {
+    expect(visibleToUserRect(geometry(0), rect)).toEqual({ x: 15, y: 183, width: 50, height: 30 });
+  });
+
+  it('maps the displayed top-left corner of a page turned by 90° to the bottom-left of its box', () => {
+    expect(visibleToUserRect(geometry(90), rect)).toEqual({ x: 17, y: 25, width: 30, height: 50 });
+  });
+
+  it('maps the displayed top-left corner of a page turned by 180° to the bottom-right of its box', () => {
+    expect(visibleToUserRect(geometry(180), rect)).toEqual({ x: 55, y: 27, width: 50, height: 30 });
+  });
+
+  it('maps the displayed top-left corner of a page turned by 270° to the top-right of its box', () => {
+    expect(visibleToUserRect(geometry(270), rect)).toEqual({ x: 73, y: 165, width: 30, height: 50 });
+  });
+});
+
+describe('getPageGeometry', () => {
+  it('swaps the visible size of a page turned by a quarter', async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([1190.55, 841.89]);
+    page.setRotation(degrees(-90));
+
+    const result = getPageGeometry(page);
+    expect(result.rotation).toBe(270);
+    expect(result.visibleWidth).toBeCloseTo(841.89);
+    expect(result.visibleHeight).toBeCloseTo(1190.55);
+  });
+
+  it('limits the visible box to the crop box', async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([1190.55, 841.89]);
+    page.setCropBox(100, 50, 600, 400);
+
+    expect(getPageGeometry(page).box).toEqual({ x: 100, y: 50, width: 600, height: 400 });
+  });
+});
+
+describe('computeSplitRects', () => {
+  it('cuts the displayed left and right halves of a page turned by 90°', () => {
+    const [first, second] = computeSplitRects(geometry(90), makeOptions({ splitRatio: 0.25 }), 0);
+    expect(first).toEqual({ x: 10, y: 20, width: 100, height: 50 });
+    expect(second).toEqual({ x: 10, y: 70, width: 100, height: 150 });
+  });
+
+  it('uses the even-page ratio on every second page', () => {
+    const options = makeOptions({ useDualRatios: true, splitRatio: 0.5, evenSplitRatio: 0.6 });
+    expect(computeSplitRects(geometry(0), options, 1)[0].width).toBeCloseTo(60);
+    expect(computeSplitRects(geometry(0), options, 2)[0].width).toBeCloseTo(50);
+  });
+});
+
+describe('page rules', () => {
+  const options = makeOptions({
+    pageRules: [
+      { pages: '1-4', action: 'parts', parts: 3, direction: 'horizontal' },
+      { pages: '2', action: 'skip' },
+      { pages: '3-x', action: 'ratio', ratio: 0.3 },
+    ],
+  });
+
+  it('lets the last matching rule win and ignores rules with an invalid range', () => {
+    expect(findPageRule(options, 0)?.action).toBe('parts');
+    expect(findPageRule(options, 1)?.action).toBe('skip');
+    expect(findPageRule(options, 2)?.action).toBe('parts');
+    expect(findPageRule(options, 4)).toBeUndefined();
+  });
+
+  it('cuts a page into equal parts along the direction of its rule', () => {
+    expect(getSplitLayout(geometry(0), options, 0)).toEqual({ vertical: false, cuts: [1 / 3, 2 / 3] });
+    expect(getPartCount(options, 0)).toBe(3);
+    computeSplitRects(geometry(0), options, 0).forEach(part => expect(part.height).toBeCloseTo(200 / 3));
+  });
+
+  it('keeps a skipped page whole', () => {
+    expect(getPartCount(options, 1)).toBe(1);
+    expect(computeSplitRects(geometry(0), options, 1)).toEqual([geometry(0).box]);
+  });
+});
+
+describe('getUsableGutter', () => {
+  const gutterDetections = [
+    { ratio: 0.55, confidence: 0.9, vertical: true },
+    { ratio: 0.45, confidence: 0.2, vertical: true },
+  ];
+
+  it('uses a confident detection made along the cut axis', () => {
+    const options = makeOptions({ autoDetectGutter: true, gutterDetections });
+    expect(getUsableGutter(options, 0, true)).toBe(0.55);
+    expect(getSplitLayout(geometry(0), options, 0).cuts).toEqual([0.55]);
+  });
+
+  it('ignores unsure detections, detections along the other axis and disabled detection', () => {
+    expect(getUsableGutter(makeOptions({ autoDetectGutter: true, gutterDetections }), 1, true)).toBeNull();
+    expect(getUsableGutter(makeOptions({ autoDetectGutter: true, gutterDetections }), 0, false)).toBeNull();
+    expect(getUsableGutter(makeOptions({ gutterDetections }), 0, true)).toBeNull();
+  });
+});
+
+describe('overlap and trim', () => {
+  it('extends both halves across the cut by the overlap', () => {
+    const [first, second] = computeSplitRects(geometry(0), makeOptions({ overlap: 5 }), 0);
+    expect(first).toEqual({ x: 10, y: 20, width: 55, height: 200 });
+    expect(second).toEqual({ x: 55, y: 20, width: 55, height: 200 });
+  });
+
+  it('trims the outer edges and both sides of the gutter, keeping the cut in place', () => {
+    const options = makeOptions({ outerTrim: { top: 10, right: 4, bottom: 0, left: 6 }, gutterTrim: 3 });
+    const [first, second] = computeSplitRects(geometry(0), options, 0);
+    expect(first).toEqual({ x: 16, y: 20, width: 41, height: 190 });
+    expect(second).toEqual({ x: 63, y: 20, width: 43, height: 190 });
+    expect(computeCutLines(geometry(0), options, 0)).toEqual([{ x: 60, y: 20, width: 0, height: 200 }]);
+  });
+
+  it('converts millimetres to points', () => {
+    expect(toPoints(25.4, 'mm')).toBeCloseTo(72);
+    expect(toPoints(10, 'pt')).toBe(10);
+  });
+});
+
+describe('scan corrections', () => {
+  const scanCorrections = [null, { angle: 1.5, crop: { top: 10, right: 0, bottom: 0, left: 6 } }];
+
+  it('only applies the corrections that are turned on', () => {
+    expect(getScanCorrection(makeOptions({ scanCorrections }), 1)).toBeNull();
+    expect(getScanCorrection(makeOptions({ scanCorrections, deskew: true }), 1)).toEqual({ angle: 1.5, crop: { top: 0, right: 0, bottom: 0, left: 0 } });
+    expect(getScanCorrection(makeOptions({ scanCorrections, autoCrop: true }), 1)).toEqual({ angle: 0, crop: scanCorrections[1]!.crop });
+    expect(getScanCorrection(makeOptions({ scanCorrections, autoCrop: true }), 0)).toBeNull();
+  });
+
+  it('leaves the auto-cropped border out of the parts', () => {
+    const [first, second] = computeSplitRects(geometry(0), makeOptions({ scanCorrections, autoCrop: true }), 1);
+    expect(first).toEqual({ x: 16, y: 20, width: 44, height: 190 });
+    expect(second).toEqual({ x: 60, y: 20, width: 50, height: 190 });
+  });
+});
+
+describe('rotateFrame', () => {
+  it('adds the turn to the page rotation and swaps the visible size on quarter turns', () => {
+    expect(rotateFrame(geometry(90), 90)).toEqual(geometry(180));
+    expect(rotateFrame(geometry(0), 270)).toEqual(geometry(270));
+    expect(rotateFrame(geometry(270), 180)).toEqual(geometry(90));
+  });
+});
@@ -0,0 +1,305 @@
+import { PDFPage } from 'pdf-lib';
+import { EdgeInsets, LengthUnit, PageRule, ScanCorrection, SplitOptions } from '../types';
+import { isPageInRanges, parsePageRanges } from './pageRanges';
+import { toPageError } from './pdfErrors';
+import { loadSourcePdf } from './pdfLoading';
+
+/**
+ * A rectangle in PDF user space (origin bottom-left) or, for visible-space
+ * rectangles, in viewer space (origin top-left, y pointing down).
+ */
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The part of a source page a viewer actually shows, and how it is rotated.
+ */
+export interface PageGeometry {
+  box: Box; // Visible region in user space (TrimBox ∩ CropBox ∩ MediaBox)
+  rotation: 0 | 90 | 180 | 270;
+  visibleWidth: number;
+  visibleHeight: number;
+}
+
+const intersectBoxes = (a: Box, b: Box): Box => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const top = Math.min(a.y + a.height, b.y + b.height);
+  return { x, y, width: Math.max(0, right - x), height: Math.max(0, top - y) };
+};
+
+const normalizeRotation = (angle: number): PageGeometry['rotation'] => {
+  const snapped = Math.round(angle / 90) * 90;
+  return (((snapped % 360) + 360) % 360) as PageGeometry['rotation'];
+};
+
+/**
+ * Reads the visible geometry of a page, honoring /Rotate, MediaBox offsets and an existing CropBox or TrimBox.
+ */
+export const getPageGeometry = (page: PDFPage): PageGeometry => {
+  const mediaBox = page.getMediaBox();
+  const cropBox = intersectBoxes(page.getCropBox(), mediaBox);
+  const box = intersectBoxes(page.getTrimBox(), cropBox);
+  const rotation = normalizeRotation(page.getRotation().angle);
+  const isQuarterTurn = rotation === 90 || rotation === 270;
+
+  return {
+    box,
+    rotation,
+    visibleWidth: isQuarterTurn ? box.height : box.width,
+    visibleHeight: isQuarterTurn ? box.width : box.height,
+  };
+};
+
+/**
+ * Loads a PDF and returns the geometry of every page, so the preview can use the same numbers as the output.
+ */
+export const readPageGeometries = async (data: ArrayBuffer | Uint8Array): Promise<PageGeometry[]> => {
+  const pdf = await loadSourcePdf(data);
+  return pdf.getPages().map((page, i) => {
+    try {
+      return getPageGeometry(page);
+    } catch (error) {
+      throw toPageError(error, i);
+    }
+  });
+};
+
+/**
+ * Maps a rectangle in visible space (as the page is displayed) back to unrotated user space.
+ */
+export const visibleToUserRect = (geometry: PageGeometry, rect: Box): Box => {
+  const { box } = geometry;
+
+  switch (geometry.rotation) {
+    case 90:
+      return { x: box.x + rect.y, y: box.y + rect.x, width: rect.height, height: rect.width };
+    case 180:
+      return { x: box.x + box.width - rect.x - rect.width, y: box.y + rect.y, width: rect.width, height: rect.height };
+    case 270:
+      return {
+        x: box.x + box.width - rect.y - rect.height,
+        y: box.y + box.height - rect.x - rect.width,
+        width: rect.height,
+        height: rect.width,
+      };
+    default:
+      return { x: box.x + rect.x, y: box.y + box.height - rect.y - rect.height, width: rect.width, height: rect.height };
+  }
+};
+
+/**
+ * Whether the page is cut into visible left/right halves (true) or top/bottom halves (false).
+ */
+export const isVerticalSplit = (geometry: PageGeometry, orientation: SplitOptions['orientation']): boolean => {
+  if (orientation === 'auto') {
+    return geometry.visibleWidth > geometry.visibleHeight;
+  }
+  return orientation === 'vertical';
+};
+
+/**
+ * Returns the split ratio for a source page, taking odd/even ratios into account.
+ */
+export const getSplitRatio = (options: SplitOptions, pageIndex: number): number => {
+  const isEvenPage = pageIndex % 2 === 1;
+  return (options.useDualRatios && isEvenPage && options.evenSplitRatio !== undefined)
+    ? options.evenSplitRatio
+    : options.splitRatio;
+};
+
+/**
+ * Gutter detections below this confidence are shown as unsure and not used for splitting.
+ */
+export const MIN_GUTTER_CONFIDENCE = 0.5;
+
+/**
+ * Returns the detected gutter of a page when auto-detection is on and the detection is usable for this cut axis.
+ */
+export const getUsableGutter = (options: SplitOptions, pageIndex: number, vertical: boolean): number | null => {
+  if (!options.autoDetectGutter) return null;
+  const detection = options.gutterDetections?.[pageIndex];
+  if (!detection || detection.vertical !== vertical || detection.confidence < MIN_GUTTER_CONFIDENCE) return null;
+  return detection.ratio;
+};
+
+const NO_CROP: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/**
+ * Returns the correction of a scanned page, limited to what is turned on (deskewing, auto-cropping), or null.
+ */
+export const getScanCorrection = (options: SplitOptions, pageIndex: number): ScanCorrection | null => {
+  const correction = options.scanCorrections?.[pageIndex];
+  if (!correction || (!options.deskew && !options.autoCrop)) return null;
+  return {
+    angle: options.deskew ? correction.angle : 0,
+    crop: options.autoCrop ? correction.crop : NO_CROP,
+  };
+};
+
+/**
+ * Returns the rule that applies to a source page. When several rules match, the last one wins.
+ * Rules with an invalid page range are ignored.
+ */
+export const findPageRule = (options: SplitOptions, pageIndex: number): PageRule | undefined => {
+  const rules = options.pageRules ?? [];
+
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const ranges = parsePageRanges(rules[i].pages);
+    if (ranges && isPageInRanges(ranges, pageIndex + 1)) {
+      return rules[i];
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * How a page is cut: along which axis, and at which fractions of the visible size.
+ * No cuts means the page is kept whole.
+ */
+export interface SplitLayout {
+  vertical: boolean;
+  cuts: number[];
+}
+
+/**
+ * Resolves the split layout of a page from the global options and any matching page rule.
+ */
+export const getSplitLayout = (geometry: PageGeometry, options: SplitOptions, pageIndex: number): SplitLayout => {
+  const rule = findPageRule(options, pageIndex);
+
+  let vertical = isVerticalSplit(geometry, options.orientation);
+  if (rule?.action === 'vertical' || rule?.action === 'horizontal') {
+    vertical = rule.action === 'vertical';
+  } else if (rule?.direction) {
+    vertical = rule.direction === 'vertical';
+  }
+
+  switch (rule?.action) {
+    case 'skip':
+      return { vertical, cuts: [] };
+    case 'ratio':
+      return { vertical, cuts: [rule.ratio ?? getSplitRatio(options, pageIndex)] };
+    case 'parts': {
+      const parts = Math.max(1, Math.round(rule.parts ?? 2));
+      return { vertical, cuts: Array.from({ length: parts - 1 }, (_, j) => (j + 1) / parts) };
+    }
+    default:
+      return { vertical, cuts: [getUsableGutter(options, pageIndex, vertical) ?? getSplitRatio(options, pageIndex)] };
+  }
+};
+
+/**
+ * Number of output pages a source page produces. Does not depend on page geometry.
+ */
+export const getPartCount = (options: SplitOptions, pageIndex: number): number => {
+  const rule = findPageRule(options, pageIndex);
+  if (rule?.action === 'skip') return 1;
+  if (rule?.action === 'parts') return Math.max(1, Math.round(rule.parts ?? 2));
+  return 2;
+};
+
+/**
+ * Converts a length in the given unit to PDF points.
+ */
+export const toPoints = (value: number, unit: LengthUnit): number =>
+  unit === 'mm' ? (value * 72) / 25.4 : value;
+
+/**
+ * Lays out the parts of a page in visible space. Cuts sit at their ratio of the full visible size;
+ * each part is then extended by the overlap and shrunk by the gutter trim at every cut edge,
+ * and clipped to the visible box minus the outer trim and the page's auto-cropped scan border.
+ */
+const getVisibleParts = (geometry: PageGeometry, options: SplitOptions, pageIndex: number) => {
+  const { vertical, cuts } = getSplitLayout(geometry, options, pageIndex);
+  const { visibleWidth: width, visibleHeight: height } = geometry;
+  const unit = options.marginUnit ?? 'pt';
+  const trim = options.outerTrim ?? NO_CROP;
+  const crop = getScanCorrection(options, pageIndex)?.crop ?? NO_CROP;
+
+  const area = {
+    left: toPoints(trim.left, unit) + crop.left,
+    top: toPoints(trim.top, unit) + crop.top,
+    right: width - toPoints(trim.right, unit) - crop.right,
+    bottom: height - toPoints(trim.bottom, unit) - crop.bottom,
+  };
+  area.right = Math.max(area.left + 1, area.right);
+  area.bottom = Math.max(area.top + 1, area.bottom);
+
+  const length = vertical ? width : height;
+  const cutPositions = cuts.map(cut => cut * length);
+  const edges = [vertical ? area.left : area.top, ...cutPositions, vertical ? area.right : area.bottom];
+  const extension = toPoints(options.overlap ?? 0, unit) - toPoints(options.gutterTrim ?? 0, unit);
+
+  const parts: Box[] = [];
+  for (let j = 0; j < edges.length - 1; j++) {
+    const minEdge = vertical ? area.left : area.top;
+    const maxEdge = vertical ? area.right : area.bottom;
+    let start = j > 0 ? edges[j] - extension : edges[j];
+    let end = j < edges.length - 2 ? edges[j + 1] + extension : edges[j + 1];
+    start = Math.min(Math.max(start, minEdge), maxEdge - 1);
+    end = Math.max(Math.min(end, maxEdge), start + 1);
+
+    parts.push(vertical
+      ? { x: start, y: area.top, width: end - start, height: area.bottom - area.top }
+      : { x: area.left, y: start, width: area.right - area.left, height: end - start });
+  }
+
+  return { vertical, cutPositions, parts };
+};
+
+/**
+ * Computes the rectangles of every part of a page in visible space, in visible order:
+ * left to right for vertical cuts, top to bottom for horizontal cuts.
+ * With an overlap the rectangles of neighbouring parts overlap each other.
+ */
+export const computeVisibleSplitRects = (geometry: PageGeometry, options: SplitOptions, pageIndex: number): Box[] =>
+  getVisibleParts(geometry, options, pageIndex).parts;
+
+/**
+ * Same as computeVisibleSplitRects, mapped to user-space crop rectangles.
+ */
+export const computeSplitRects = (geometry: PageGeometry, options: SplitOptions, pageIndex: number): Box[] =>
+  computeVisibleSplitRects(geometry, options, pageIndex).map(part => visibleToUserRect(geometry, part));
+
+/**
+ * The geometry of a cropped part: its own visible frame, rotated like the source page.
+ */
+export const getPartFrame = (geometry: PageGeometry, visibleRect: Box): PageGeometry => ({
+  box: visibleToUserRect(geometry, visibleRect),
+  rotation: geometry.rotation,
+  visibleWidth: visibleRect.width,
+  visibleHeight: visibleRect.height,
+});
+
+/**
+ * The frame of a page turned clockwise by a further `rotation` degrees, as the organizer turns parts.
+ */
+export const rotateFrame = (frame: PageGeometry, rotation: number): PageGeometry => {
+  const total = normalizeRotation(frame.rotation + rotation);
+  const isQuarterTurn = total === 90 || total === 270;
+  return {
+    box: frame.box,
+    rotation: total,
+    visibleWidth: isQuarterTurn ? frame.box.height : frame.box.width,
+    visibleHeight: isQuarterTurn ? frame.box.width : frame.box.height,
+  };
+};
+
+/**
+ * Returns the nominal cut lines of a page as zero-width (or zero-height) user-space rectangles.
+ */
+export const computeCutLines = (geometry: PageGeometry, options: SplitOptions, pageIndex: number): Box[] => {
+  const { vertical, cutPositions } = getVisibleParts(geometry, options, pageIndex);
+  const { visibleWidth: width, visibleHeight: height } = geometry;
+
+  return cutPositions.map(position => visibleToUserRect(geometry, vertical
+    ? { x: position, y: 0, width: 0, height }
+    : { x: 0, y: position, width, height: 0 }));
+};
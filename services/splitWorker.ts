@@ -0,0 +1,47 @@
+import { PdfError } from './pdfErrors';
+import { splitPdfOutputs } from './pdfService';
+import { SplitWorkerRequest, SplitWorkerResponse } from './splitWorkerProtocol';
+
+// Worker entry point: runs one split at a time off the main thread
+
+let controller: AbortController | null = null;
+
+const respond = (response: SplitWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<SplitWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  controller = new AbortController();
+  const { signal } = controller;
+
+  try {
+    const results = await splitPdfOutputs(request.data, request.fileName, request.options, progress => {
+      respond({ type: 'progress', progress });
+    }, signal);
+    // Hand over the exact bytes; an output rarely fills its whole underlying buffer
+    const outputs = results.map(({ name, data }) => ({
+      name,
+      data: data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+        ? data.buffer as ArrayBuffer
+        : data.slice().buffer as ArrayBuffer,
+    }));
+    respond({ type: 'result', outputs }, outputs.map(output => output.data));
+  } catch (error) {
+    if (signal.aborted) {
+      respond({ type: 'cancelled' });
+    } else if (error instanceof PdfError) {
+      respond({ type: 'error', message: error.message, kind: error.kind, pageIndex: error.pageIndex });
+    } else {
+      respond({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    controller = null;
+  }
+};
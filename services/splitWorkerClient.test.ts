@@ -0,0 +1,19 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { makeA3File } from './__fixtures__/a3Pdf';
+import { makeOptions } from './__fixtures__/splitOptions';
+import { splitInWorker } from './splitWorkerClient';
+
+describe('splitInWorker', () => {
+  it('splits on the calling thread where workers are unavailable', async () => {
+    expect(typeof Worker).toBe('undefined');
+    const [output] = await splitInWorker(await makeA3File(2), makeOptions(), () => undefined);
+    expect((await PDFDocument.load(output.data)).getPageCount()).toBe(4);
+  });
+
+  it('rejects with the reason of an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await expect(splitInWorker(await makeA3File(1), makeOptions(), () => undefined, controller.signal)).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,115 @@
+import { SplitOptions, SplitOutput } from '../types';
+import { exportSplitOutputs } from './imageExport';
+import { PdfError, checkPdfSize } from './pdfErrors';
+import { splitPdfOutputs } from './pdfService';
+import { rasterizeScannedPages, withRasterizedScans } from './scanRasterizer';
+import { SplitWorkerRequest, SplitWorkerResponse } from './splitWorkerProtocol';
+
+// How long a cancelled worker may take to stop on its own before it is terminated
+const CANCEL_TIMEOUT = 2000;
+
+/**
+ * Runs the split in a dedicated worker. The bytes are transferred to the worker and the results are
+ * transferred back, so neither side holds a second copy. Falls back to the calling thread where workers
+ * are unavailable.
+ */
+const runSplit = (
+  data: ArrayBuffer,
+  fileName: string,
+  options: SplitOptions,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => {
+  if (typeof Worker === 'undefined') {
+    return splitPdfOutputs(data, fileName, options, onProgress, signal);
+  }
+
+  const worker = new Worker(new URL('./splitWorker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<SplitOutput[]>((resolve, reject) => {
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      clearTimeout(killTimer);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      const request: SplitWorkerRequest = { type: 'cancel' };
+      worker.postMessage(request);
+      killTimer = setTimeout(() => {
+        finish();
+        reject(signal?.reason);
+      }, CANCEL_TIMEOUT);
+    };
+
+    worker.onmessage = (event: MessageEvent<SplitWorkerResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case 'progress':
+          onProgress(response.progress);
+          break;
+        case 'result':
+          finish();
+          resolve(response.outputs.map(({ name, data }) => ({ name, data: new Uint8Array(data) })));
+          break;
+        case 'cancelled':
+          finish();
+          reject(signal?.reason ?? new DOMException('Split cancelled', 'AbortError'));
+          break;
+        case 'error':
+          finish();
+          reject(response.kind ? new PdfError(response.kind, response.message, response.pageIndex) : new Error(response.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Split worker failed'));
+    };
+
+    if (signal?.aborted) {
+      finish();
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const request: SplitWorkerRequest = { type: 'split', data, fileName, options };
+    worker.postMessage(request, [data]);
+  });
+};
+
+/**
+ * Splits a PDF file without blocking the page. Rasterizing scans and exporting images need a canvas, so
+ * those stages run here before and after the split in the worker; every stage takes an equal share of
+ * the progress. Aborting the signal cancels the split; the promise then rejects with the signal's reason.
+ */
+export const splitInWorker = async (
+  file: File,
+  sourceOptions: SplitOptions,
+  reportProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<SplitOutput[]> => {
+  signal?.throwIfAborted();
+  checkPdfSize(file.size);
+  let data = await file.arrayBuffer();
+  let options = sourceOptions;
+
+  const stageCount = 1 + (options.rasterizeScans ? 1 : 0) + (options.outputFormat !== 'pdf' ? 1 : 0);
+  let stage = 0;
+  const nextStage = () => {
+    const offset = (stage++ * 100) / stageCount;
+    return (progress: number) => reportProgress(offset + progress / stageCount);
+  };
+
+  if (options.rasterizeScans) {
+    data = await rasterizeScannedPages(data, options, nextStage(), signal);
+    options = withRasterizedScans(options);
+  }
+  const outputs = await runSplit(data, file.name, options, nextStage(), signal);
+  if (options.outputFormat === 'pdf') return outputs;
+  return exportSplitOutputs(outputs, file.name, options, nextStage(), signal);
+};
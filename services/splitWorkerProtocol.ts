@@ -0,0 +1,18 @@
+import { PdfErrorKind, SplitOptions } from '../types';
+
+/**
+ * Messages sent to the split worker. `data` is transferred, so the sender loses access to it.
+ */
+export type SplitWorkerRequest =
+  | { type: 'split'; data: ArrayBuffer; fileName: string; options: SplitOptions }
+  | { type: 'cancel' };
+
+/**
+ * Messages sent back by the split worker. The result buffers are transferred.
+ * Errors carry the kind and page of a PdfError, which does not survive structured cloning as a class.
+ */
+export type SplitWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; outputs: { name: string; data: ArrayBuffer }[] }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string; kind?: PdfErrorKind; pageIndex?: number };
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Stamp } from '../types';
+import { getBatesNumber, getStampCenter, isStampOnPage, resolveStampText, stampsNeedCustomFont } from './stamping';
+
+const makeStamp = (stamp: Partial<Stamp> = {}): Stamp => ({
+  id: 'stamp',
+  kind: 'text',
+  text: '',
+  imageWidth: 100,
+  pages: '',
+  position: 'bottom-right',
+  margin: 10,
+  rotation: 0,
+  opacity: 1,
+  fontSize: 10,
+  color: '#000000',
+  batesStart: 1,
+  batesDigits: 6,
+  ...stamp,
+});
+
+const context = { page: 3, total: 12, sourcePage: 2, fileName: 'contract.scan.pdf', date: new Date(2024, 0, 5) };
+
+describe('isStampOnPage', () => {
+  it('applies an empty range to every page and an invalid one to none', () => {
+    expect(isStampOnPage(makeStamp(), 99)).toBe(true);
+    expect(isStampOnPage(makeStamp({ pages: '2-3' }), 3)).toBe(true);
+    expect(isStampOnPage(makeStamp({ pages: '2-3' }), 4)).toBe(false);
+    expect(isStampOnPage(makeStamp({ pages: 'x' }), 1)).toBe(false);
+  });
+});
+
+describe('getBatesNumber', () => {
+  it('counts up from the start, padded to the number of digits', () => {
+    expect(getBatesNumber(makeStamp({ batesStart: 100, batesDigits: 5 }), 3)).toBe('00102');
+  });
+
+  it('only counts the pages the stamp is on', () => {
+    const stamp = makeStamp({ pages: '2-3, 6-', batesDigits: 1 });
+    expect([2, 3, 6, 7].map(page => getBatesNumber(stamp, page))).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('does not cut numbers longer than the digits', () => {
+    expect(getBatesNumber(makeStamp({ batesStart: 12345, batesDigits: 3 }), 1)).toBe('12345');
+  });
+});
+
+describe('resolveStampText', () => {
+  it('fills every variable', () => {
+    const stamp = makeStamp({ text: '{filename} {date} {page}/{total} (A3 {sourcePage}) {bates}', batesDigits: 4 });
+    expect(resolveStampText(stamp, context)).toBe('contract.scan 2024-01-05 3/12 (A3 2) 0003');
+  });
+
+  it('asks for a custom font when the filled text leaves Latin-1', () => {
+    expect(stampsNeedCustomFont([makeStamp({ text: '{filename}' })], 'contract.pdf')).toBe(false);
+    expect(stampsNeedCustomFont([makeStamp({ text: '{filename}' })], '合同.pdf')).toBe(true);
+    expect(stampsNeedCustomFont([makeStamp({ kind: 'image', text: '机密' })], 'contract.pdf')).toBe(false);
+  });
+});
+
+describe('getStampCenter', () => {
+  it('keeps the margin from the corner', () => {
+    expect(getStampCenter(500, 800, { width: 40, height: 10 }, makeStamp())).toEqual({ x: 470, y: 785 });
+  });
+
+  it('keeps the margin from the edges of a rotated stamp', () => {
+    const center = getStampCenter(500, 800, { width: 40, height: 10 }, makeStamp({ position: 'top-left', rotation: 90 }));
+    expect(center.x).toBeCloseTo(15);
+    expect(center.y).toBeCloseTo(30);
+  });
+});
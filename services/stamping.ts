@@ -0,0 +1,201 @@
+import fontkit from '@pdf-lib/fontkit';
+import { degrees, PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts } from 'pdf-lib';
+import { SplitOptions, Stamp } from '../types';
+import { isPageInRanges, parsePageRanges } from './pageRanges';
+import { isStandardFontText, parseHexColor } from './pageNumbering';
+import { PageGeometry, visibleToUserRect } from './splitGeometry';
+
+/**
+ * What a stamp's text variables resolve to on one output page.
+ */
+export interface StampContext {
+  page: number; // 1-based position in the output
+  total: number; // number of output pages
+  sourcePage: number; // 1-based source page
+  fileName: string;
+  date: Date;
+}
+
+/**
+ * Whether a stamp applies to the output page at the given 1-based position.
+ * An empty range means every page; an invalid one means none.
+ */
+export const isStampOnPage = (stamp: Stamp, page: number): boolean => {
+  if (stamp.pages.trim() === '') return true;
+  const ranges = parsePageRanges(stamp.pages);
+  return ranges !== null && isPageInRanges(ranges, page);
+};
+
+/**
+ * The Bates number of a page: counts up from the stamp's start over the pages the stamp applies to.
+ */
+export const getBatesNumber = (stamp: Stamp, page: number): string => {
+  const ranges = stamp.pages.trim() === '' ? [{ start: 1 }] : parsePageRanges(stamp.pages) ?? [];
+  let count = 0;
+  for (let p = 1; p < page; p++) {
+    if (isPageInRanges(ranges, p)) count++;
+  }
+  return `${stamp.batesStart + count}`.padStart(stamp.batesDigits, '0');
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => `${n}`.padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Fills a stamp's text template: {page}, {total}, {sourcePage}, {filename} (without extension), {date} and {bates}.
+ */
+export const resolveStampText = (stamp: Stamp, context: StampContext): string =>
+  stamp.text
+    .replace(/\{page\}/g, `${context.page}`)
+    .replace(/\{total\}/g, `${context.total}`)
+    .replace(/\{sourcePage\}/g, `${context.sourcePage}`)
+    .replace(/\{filename\}/g, context.fileName.replace(/\.[^.]+$/, ''))
+    .replace(/\{date\}/g, formatDate(context.date))
+    .replace(/\{bates\}/g, getBatesNumber(stamp, context.page));
+
+/**
+ * Whether any text stamp needs a custom font once its variables are filled in for the given file.
+ */
+export const stampsNeedCustomFont = (stamps: Stamp[], fileName: string): boolean =>
+  stamps.some(stamp => stamp.kind === 'text' && !isStandardFontText(
+    resolveStampText(stamp, { page: 1, total: 1, sourcePage: 1, fileName, date: new Date() })
+  ));
+
+const STAMP_FONT_REQUIRED = '印章文字包含中文或其他特殊字符，请先上传 TTF/OTF 字体。';
+
+/**
+ * Throws before any page is processed when a text stamp needs a font that was not uploaded.
+ */
+export const checkStampFont = (options: SplitOptions, fileName: string): void => {
+  if (!options.numberFont && stampsNeedCustomFont(options.stamps, fileName)) throw new Error(STAMP_FONT_REQUIRED);
+};
+
+/**
+ * Embeds the font for text stamps: the uploaded TTF/OTF shared with page numbering, Helvetica otherwise.
+ */
+export const embedStampFont = async (doc: PDFDocument, options: SplitOptions): Promise<PDFFont> => {
+  if (options.numberFont) {
+    doc.registerFontkit(fontkit);
+    return doc.embedFont(options.numberFont.data, { subset: true });
+  }
+  return doc.embedFont(StandardFonts.Helvetica);
+};
+
+/**
+ * Loads the stamp font into a scratch document so text can be measured for the preview.
+ */
+export const loadStampFont = async (options: SplitOptions): Promise<PDFFont> =>
+  embedStampFont(await PDFDocument.create(), options);
+
+/**
+ * Embeds every image stamp once, keyed by stamp id.
+ */
+export const embedStampImages = async (doc: PDFDocument, stamps: Stamp[]): Promise<Map<string, PDFImage>> => {
+  const images = new Map<string, PDFImage>();
+  for (const stamp of stamps) {
+    if (stamp.kind !== 'image' || !stamp.image) continue;
+    const image = stamp.image.format === 'png'
+      ? await doc.embedPng(stamp.image.data)
+      : await doc.embedJpg(stamp.image.data);
+    images.set(stamp.id, image);
+  }
+  return images;
+};
+
+/**
+ * Unrotated size of a stamp in points: the text from the left edge up to the cap height, or the scaled image.
+ */
+export const getStampSize = (stamp: Stamp, text: string, font: PDFFont | null): { width: number; height: number } => {
+  if (stamp.kind === 'image') {
+    const aspect = stamp.image ? stamp.image.height / stamp.image.width : 1;
+    return { width: stamp.imageWidth, height: stamp.imageWidth * aspect };
+  }
+  if (!font) return { width: 0, height: 0 };
+  return {
+    width: font.widthOfTextAtSize(text, stamp.fontSize),
+    height: font.heightAtSize(stamp.fontSize, { descender: false }),
+  };
+};
+
+/**
+ * Where the centre of a stamp goes on a page of the given visible size, in visible space (origin top-left).
+ * The margin is kept from the edges of the rotated stamp, so tilted stamps stay on the page.
+ */
+export const getStampCenter = (
+  frameWidth: number,
+  frameHeight: number,
+  size: { width: number; height: number },
+  stamp: Stamp
+): { x: number; y: number } => {
+  const angle = (stamp.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const extentX = size.width * cos + size.height * sin;
+  const extentY = size.width * sin + size.height * cos;
+
+  const x = stamp.position.endsWith('left') ? stamp.margin + extentX / 2
+    : stamp.position.endsWith('right') ? frameWidth - stamp.margin - extentX / 2
+    : frameWidth / 2;
+  const y = stamp.position.startsWith('top') ? stamp.margin + extentY / 2
+    : stamp.position.startsWith('bottom') ? frameHeight - stamp.margin - extentY / 2
+    : frameHeight / 2;
+
+  return { x, y };
+};
+
+/**
+ * Draws every stamp that applies to an output page, upright within the page's visible frame.
+ */
+export const drawStamps = (
+  page: PDFPage,
+  frame: PageGeometry,
+  options: SplitOptions,
+  context: StampContext,
+  font: PDFFont | null,
+  images: Map<string, PDFImage>
+): void => {
+  for (const stamp of options.stamps) {
+    if (!isStampOnPage(stamp, context.page)) continue;
+
+    const image = images.get(stamp.id);
+    if (stamp.kind === 'image' && !image) continue;
+
+    const text = stamp.kind === 'text' ? resolveStampText(stamp, context) : '';
+    if (stamp.kind === 'text' && (!text.trim() || !font)) continue;
+    if (stamp.kind === 'text' && !options.numberFont && !isStandardFontText(text)) {
+      throw new Error(STAMP_FONT_REQUIRED);
+    }
+
+    const size = getStampSize(stamp, text, font);
+    const center = getStampCenter(frame.visibleWidth, frame.visibleHeight, size, stamp);
+
+    // Both drawText and drawImage rotate about the bottom-left corner, so step back from the centre
+    // along the rotated axes (visible y points down, hence the sign flips)
+    const angle = (stamp.rotation * Math.PI) / 180;
+    const halfW = size.width / 2;
+    const halfH = size.height / 2;
+    const corner = {
+      x: center.x - (halfW * Math.cos(angle) - halfH * Math.sin(angle)),
+      y: center.y + (halfW * Math.sin(angle) + halfH * Math.cos(angle)),
+    };
+    const origin = visibleToUserRect(frame, { ...corner, width: 0, height: 0 });
+    const rotate = degrees(frame.rotation + stamp.rotation);
+    const opacity = Math.min(1, Math.max(0, stamp.opacity));
+
+    if (stamp.kind === 'image' && image) {
+      page.drawImage(image, { x: origin.x, y: origin.y, width: size.width, height: size.height, rotate, opacity });
+    } else if (font) {
+      page.drawText(text, {
+        x: origin.x,
+        y: origin.y,
+        size: stamp.fontSize,
+        font,
+        color: parseHexColor(stamp.color),
+        rotate,
+        opacity,
+      });
+    }
+  }
+};
@@ -1,21 +1,256 @@
 
+// 读取 PDF 失败的原因：
+// encrypted - 需要密码，或密码不正确
+// corrupted - 文件损坏且无法修复，或某一页无法处理
+// empty - 文件为 0 字节，或不包含任何页面
+// notPdf - 找不到 PDF 文件头
+// tooLarge - 超过可处理的大小
+// untrimmable - 页面内容无法解析，无法删除每一份之外的隐藏内容
+// unflattenable - 表单无法拍平
+export type PdfErrorKind = 'encrypted' | 'corrupted' | 'empty' | 'notPdf' | 'tooLarge' | 'untrimmable' | 'unflattenable';
+
 export interface ProcessingStatus {
   step: 'idle' | 'loading' | 'processing' | 'completed' | 'error';
   progress: number;
   message: string;
+  errorKind?: PdfErrorKind; // 出错时的原因类别，encrypted 时界面会请求密码
+  failedPageIndex?: number; // 出错的原始页（从 0 开始）
+}
+
+// 批量处理队列中的单个文件
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: ProcessingStatus;
+  outputs?: SplitOutput[];
+}
+
+// 作为输入的一张扫描图片（JPG/PNG/TIFF），按列表顺序转换为 A3 页面
+export interface ImageInput {
+  id: string;
+  file: File;
+}
+
+// 分割结果中的一个输出文件
+export interface SplitOutput {
+  name: string;
+  data: Uint8Array;
+}
+
+// 不合并为单个文件时的拆分方式：
+// perSheet - 每张原始 A3 一个文件
+// ranges - 按输出页码范围拆分，每个范围一个文件，例如 "1-4, 5-10, 11-"
+// everyN - 每 N 页一个文件
+export type OutputSplitMode = 'perSheet' | 'ranges' | 'everyN';
+
+// 拼版还原模式：
+// none - 按原顺序输出（每张 A3 先左/上半再右/下半）
+// booklet - 骑马钉小册子，逐面扫描（第 1 张正面、第 1 张反面、第 2 张正面……）
+// doubleSidedBooklet - 先扫描全部正面，翻转纸叠后再扫描全部反面（反面顺序由内向外）
+// multiSignature - 多帖装订，每帖按 booklet 方式扫描
+export type ImpositionMode = 'none' | 'booklet' | 'doubleSidedBooklet' | 'multiSignature';
+
+// 单页规则动作：
+// skip - 不分割，整页输出
+// vertical / horizontal - 强制左右 / 上下分割（使用全局比例）
+// ratio - 自定义分割比例
+// parts - 均分为 N 份
+export type PageRuleAction = 'skip' | 'vertical' | 'horizontal' | 'ratio' | 'parts';
+
+export interface PageRule {
+  pages: string; // 原始 A3 页码范围（从 1 开始），例如 "1, 3-7, 12-"
+  action: PageRuleAction;
+  ratio?: number; // action 为 ratio 时的分割比例
+  parts?: number; // action 为 parts 时的份数
+  direction?: 'vertical' | 'horizontal'; // ratio / parts 的切割方向，缺省沿用全局方向
+}
+
+// 输出页整理中的一项：原始 A3 的某一份，或插入的空白页
+export interface ArrangedPage {
+  sourcePageIndex: number | null; // null 为插入的空白页
+  part: number;
+  rotation: 0 | 90 | 180 | 270; // 顺时针额外旋转，用于倒扫或横放的一份
+  removed?: boolean; // 已删除，不输出（保留在列表中以便恢复）
+}
+
+export interface GutterDetection {
+  ratio: number; // 检测到的分割位置（相对可见区域宽 / 高）
+  confidence: number; // 置信度 0 - 1
+  vertical: boolean; // 检测时的切割方向，与实际方向不一致时不生效
+}
+
+export type LengthUnit = 'mm' | 'pt';
+
+export interface EdgeInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// 扫描页的校正值，按显示方向
+export interface ScanCorrection {
+  angle: number; // 纠偏角度（度），正值为把页面内容逆时针转正
+  crop: EdgeInsets; // 四周裁掉的扫描黑边 (pt)，纠偏之后测量
+}
+
+// 检测为空白的一份：删除，或保留但不编页码
+export type BlankPageHandling = 'remove' | 'unnumbered';
+
+export type PaperSize = 'A4' | 'Letter' | 'B5' | 'custom';
+
+// fit - 完整放入纸张（留白）；fill - 铺满纸张（超出部分裁掉）；actual - 原始尺寸
+export type PageScaling = 'fit' | 'fill' | 'actual';
+
+// 页码数字样式：阿拉伯数字 / 小写罗马 / 大写罗马 / 中文数字
+export type NumeralStyle = 'arabic' | 'lowerRoman' | 'upperRoman' | 'chinese';
+
+// 页码水平位置：outside / inside 按奇偶页镜像（奇数页在右为外侧）
+export type NumberAlignment = 'left' | 'center' | 'right' | 'outside' | 'inside';
+
+export type StampPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// 页面印章（页眉、页脚、水印、Bates 编号等）
+// 文本模板变量：{page} 输出页序号、{total} 输出总页数、{sourcePage} 原始 A3 页码、
+// {filename} 文件名、{date} 当天日期、{bates} Bates 编号
+export interface Stamp {
+  id: string;
+  kind: 'text' | 'image';
+  text: string;
+  image?: { name: string; data: Uint8Array; format: 'png' | 'jpg'; width: number; height: number }; // 宽高为像素，用于计算比例
+  imageWidth: number; // 图片宽度 (pt)，高度按比例
+  pages: string; // 输出页码范围，留空表示全部页面
+  position: StampPosition;
+  margin: number; // 距页边距离 (pt)
+  rotation: number; // 逆时针旋转角度
+  opacity: number; // 0 - 1
+  fontSize: number;
+  color: string; // #rrggbb
+  batesStart: number; // {bates} 的起始编号
+  batesDigits: number; // {bates} 的位数（不足补零）
 }
 
+// 注释（批注、高亮、表单控件等）处理：
+// assign - 分配到注释所在的那一份
+// strip - 全部删除（链接除外）
+export type AnnotationHandling = 'assign' | 'strip';
+
+// 表单域处理：
+// rename - 保留可填写，重名的域自动加后缀
+// flatten - 把填写内容拍平到页面上，不再可编辑
+export type FormFieldHandling = 'rename' | 'flatten';
+
+// 输出格式：
+// pdf - 普通 PDF，每一份用 CropBox 裁出
+// rasterPdf - 每一页渲染为图片后的 PDF，给处理不好 CropBox 的打印机
+// images - 每一页导出为一张图片，多张时打包为 ZIP
+export type OutputFormat = 'pdf' | 'rasterPdf' | 'images';
+
+// 导出图片的编码
+export type ExportImageFormat = 'png' | 'jpeg' | 'webp';
+
+// 导出图片的颜色：彩色、灰度、黑白二值
+export type ExportColorMode = 'color' | 'grayscale' | 'bilevel';
+
 export interface SplitOptions {
   orientation: 'auto' | 'vertical' | 'horizontal';
   splitRatio: number; // 默认比例（用于全部页或奇数页）
   evenSplitRatio?: number; // 偶数页比例
   useDualRatios: boolean; // 是否开启奇偶异值
   mergeToSingleFile: boolean;
+  outputSplitMode: OutputSplitMode; // mergeToSingleFile 为 false 时生效
+  outputRanges: string; // ranges 模式下的输出页码范围
+  outputEveryN: number; // everyN 模式下每个文件的页数
+  outputFileNameTemplate: string; // 输出文件名模板，变量：{name} {index} {start} {end} {sheet}
+  removeHiddenContent: boolean; // 真正删除每一份可见区域之外的内容和资源，而不是只用 CropBox 隐藏
+  // 输出格式（图片和栅格化 PDF 由浏览器渲染）
+  outputFormat: OutputFormat;
+  exportDpi: number; // 渲染分辨率
+  exportImageFormat: ExportImageFormat;
+  exportQuality: number; // JPEG/WebP 质量 0 - 1，栅格化 PDF 也使用
+  exportColorMode: ExportColorMode;
+  exportFileNameTemplate: string; // 图片文件名模板（不含扩展名），变量：{name} {page} {file} {filePage}
   // 页码配置
   enablePageNumbering: boolean;
   startingPageNumber: number; // 起始数字 (例如从 1 开始记数)
   numberingStartFromPageIndex: number; // 从原始 A3 的第几页开始添加页码 (0-indexed)
   numberingSide: 'both' | 'first' | 'second'; // 哪一侧添加页码
+  numberPosition: 'top' | 'bottom';
+  numberAlignment: NumberAlignment;
+  numberFormat: string; // 页码模板，{n} 为页码，{total} 为最后一个页码，例如 "第 {n} 页"、"{n} / {total}"
+  numberStyle: NumeralStyle;
+  numberFontSize: number; // pt
+  numberColor: string; // #rrggbb
+  numberMargin: number; // 页码基线距页边的距离 (pt)
+  numberFont?: { name: string; data: Uint8Array }; // 自定义 TTF/OTF 字体，中文模板和文字印章需要
+  // 印章
+  stamps: Stamp[];
+  // 注释与表单
+  annotationHandling: AnnotationHandling;
+  formFieldHandling: FormFieldHandling;
+  // 拼版还原
+  imposition: ImpositionMode;
+  bindingDirection: 'ltr' | 'rtl'; // ltr: 左侧装订，第 1 页在右半；rtl: 右侧装订，第 1 页在左半
+  signatureSheets?: number; // 多帖模式下每帖的纸张数（每张纸对应 2 张 A3 扫描面）
+  // 单页覆盖规则，后面的规则优先
+  pageRules: PageRule[];
+  // 输出页整理：最终的输出顺序，可删除、旋转、插入空白页；没有列出的份按阅读顺序排在最后
+  pageArrangement?: ArrangedPage[];
+  // 自动检测装订线
+  autoDetectGutter: boolean;
+  gutterDetections?: (GutterDetection | null)[]; // 按原始页索引存放的检测结果（由预览渲染生成）
+  // 扫描预处理：分割之前纠偏、裁掉扫描黑边
+  deskew: boolean;
+  autoCrop: boolean;
+  scanCorrections?: (ScanCorrection | null)[]; // 按原始页索引存放的校正值（由预览渲染检测，可逐页调整）
+  rasterizeScans: boolean; // 把校正后的页面渲染为清理过的图片再分割（需要浏览器）
+  rasterDpi: number; // 渲染分辨率
+  // 空白页检测：按每一份的墨迹覆盖率判断
+  detectBlankPages: boolean;
+  blankInkThreshold: number; // 墨迹覆盖率（%）不超过此值的一份视为空白
+  blankPageHandling: BlankPageHandling;
+  inkCoverage?: (number[] | null)[]; // 按原始页索引、每一份存放的墨迹覆盖率 %（由预览渲染检测）
+  restoredBlankParts?: { sourcePageIndex: number; part: number }[]; // 误判为空白、手动恢复的份
+  // 出血与裁边（单位由 marginUnit 决定）
+  marginUnit: LengthUnit;
+  overlap: number; // 每一份越过分割线向另一侧延伸的距离
+  outerTrim: EdgeInsets; // 裁掉整张 A3 四周（按显示方向）的扫描边
+  gutterTrim: number; // 每一份在分割线一侧裁掉的距离
+  // 输出纸张规格化：把每一份放到真实纸张上，而不是只设置 CropBox
+  normalizePageSize: boolean;
+  paperSize: PaperSize;
+  customPaperSize?: { width: number; height: number }; // 自定义纸张尺寸，单位 mm
+  paperOrientation: 'auto' | 'portrait' | 'landscape'; // auto: 跟随每一份内容的横竖方向
+  pageScaling: PageScaling;
+  horizontalAlign: 'left' | 'center' | 'right';
+  verticalAlign: 'top' | 'middle' | 'bottom';
+}
+
+// 命名的分割设置预设（不含字体和装订线检测结果这类与具体文件相关的数据）
+export interface SplitPreset {
+  name: string;
+  options: SplitOptions;
+}
+
+// 合并方式（分割的反向操作，把 A4 页面拼到 A3 纸上）：
+// twoUp - 按顺序每两页拼为一面
+// booklet - 骑马钉小册子拼版，双面打印、对折后按页序阅读
+export type ImposeLayout = 'twoUp' | 'booklet';
+
+// 合并纸张：A3、B4，或 auto（两页并排的实际大小）
+export type ImposeSheetSize = 'A3' | 'B4' | 'auto';
+
+export interface ImposeOptions {
+  layout: ImposeLayout;
+  sheetSize: ImposeSheetSize;
+  bindingDirection: 'ltr' | 'rtl'; // ltr: 左侧装订，第 1 页在右半；rtl: 右侧装订，第 1 页在左半
+  signatureSheets: number; // 小册子每帖的纸张数，0 表示整本为一帖
+  gutter: number; // 折线两侧两页之间的总留白 (mm)
+  creep: number; // 爬移补偿：最内层纸张的页面向折线移动的距离 (mm)，向外逐张递减到 0
+  pageScaling: 'fit' | 'actual'; // fit - 缩放到半张纸；actual - 原始尺寸（超出部分裁掉）
 }
 
 export enum PageOrientation {